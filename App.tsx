@@ -17,6 +17,8 @@ import ArchiveTab from './components/tabs/ArchiveTab';
 import RevisionTab from './components/tabs/RevisionTab';
 import ConversionTab from './components/tabs/ConversionTab';
 import AudiobookTab from './components/tabs/AudiobookTab';
+import HistoryTab from './components/tabs/HistoryTab';
+import PromptsTab from './components/tabs/PromptsTab';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabKey>('marketTrends');
@@ -45,11 +47,15 @@ const App: React.FC = () => {
       case 'audiobook':
         return <AudiobookTab />;
       case 'validation':
-        return <ValidationTab />;
+        return <ValidationTab setActiveTab={setActiveTab} />;
       case 'conversion':
         return <ConversionTab />;
       case 'archive':
         return <ArchiveTab />;
+      case 'history':
+        return <HistoryTab />;
+      case 'prompts':
+        return <PromptsTab />;
       default:
         return <MarketTrendsTab setActiveTab={setActiveTab} />;
     }
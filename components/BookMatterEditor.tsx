@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { useLocalization } from '../hooks/useLocalization';
+import { useProject } from '../hooks/useProject';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './icons/LoadingSpinner';
+import TrashIcon from './icons/TrashIcon';
+import type { CopyrightInfo, MatterSection, MatterSectionType } from '../types';
+import { FRONT_MATTER_TYPES, BACK_MATTER_TYPES } from '../services/bookMatter';
+import { generateMatterText } from '../services/geminiService';
+
+// Sections the AI can draft from the project details.
+const DRAFTABLE_TYPES: MatterSectionType[] = ['dedication', 'aboutAuthor'];
+
+const BookMatterEditor: React.FC = () => {
+  const { t } = useLocalization();
+  const { project, updateProject, addMatterSection, updateMatterSection, deleteMatterSection } = useProject();
+  const { showToast } = useToast();
+  const [draftingId, setDraftingId] = useState<string | null>(null);
+
+  if (!project) return null;
+
+  const frontMatter = project.bookStructure?.frontMatter || [];
+  const backMatter = project.bookStructure?.backMatter || [];
+  const copyright: CopyrightInfo = project.copyright || { year: new Date().getFullYear(), isbn: '', rightsText: '' };
+
+  const updateCopyright = (changes: Partial<CopyrightInfo>) => updateProject({ copyright: { ...copyright, ...changes } });
+
+  const handleDelete = (section: MatterSection) => {
+    if (window.confirm(t('structureTab.matter.confirmDelete', { section: t(`structureTab.matter.types.${section.type}`) }))) {
+      deleteMatterSection(section.id);
+    }
+  };
+
+  const handleDraft = async (section: MatterSection) => {
+    setDraftingId(section.id);
+    try {
+      const text = await generateMatterText(project, section.type as 'dedication' | 'aboutAuthor');
+      if (text) updateMatterSection({ ...section, content: text });
+    } catch (error) {
+      console.error("Error drafting matter section:", error);
+      showToast(t('structureTab.matter.draftError'), 'error');
+    } finally {
+      setDraftingId(null);
+    }
+  };
+
+  const renderSection = (section: MatterSection) => (
+    <div key={section.id} className="space-y-2 p-4 bg-neutral-light/50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-brand-dark">{t(`structureTab.matter.types.${section.type}`)}</span>
+        <input
+          type="text"
+          value={section.title}
+          onChange={(e) => updateMatterSection({ ...section, title: e.target.value })}
+          placeholder={t('structureTab.matter.titlePlaceholder')}
+          className="flex-grow p-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-brand-light focus:outline-none"
+          aria-label={t('structureTab.matter.titlePlaceholder')}
+        />
+        {DRAFTABLE_TYPES.includes(section.type) && (
+          <button
+            onClick={() => handleDraft(section)}
+            disabled={draftingId !== null}
+            className="flex items-center gap-1 text-sm text-brand-primary font-semibold hover:underline px-2 disabled:opacity-50"
+          >
+            {draftingId === section.id ? <LoadingSpinner className="animate-spin h-4 w-4" /> : '✨'} {t('structureTab.matter.draft')}
+          </button>
+        )}
+        <button onClick={() => handleDelete(section)} className="p-1 text-red-600 hover:text-red-800" title={t('structureTab.matter.delete')}>
+          <TrashIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {section.type === 'copyright' && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <input
+            type="number"
+            value={copyright.year}
+            onChange={(e) => updateCopyright({ year: parseInt(e.target.value, 10) || new Date().getFullYear() })}
+            className="p-2 text-sm border rounded-md"
+            aria-label={t('structureTab.matter.year')}
+            title={t('structureTab.matter.year')}
+          />
+          <input
+            type="text"
+            value={copyright.isbn}
+            onChange={(e) => updateCopyright({ isbn: e.target.value })}
+            placeholder={t('structureTab.matter.isbn')}
+            className="sm:col-span-2 p-2 text-sm border rounded-md"
+          />
+          <textarea
+            value={copyright.rightsText}
+            onChange={(e) => updateCopyright({ rightsText: e.target.value })}
+            placeholder={t('structureTab.matter.rightsText')}
+            rows={2}
+            className="sm:col-span-3 p-2 text-sm border rounded-md"
+          />
+        </div>
+      )}
+      <textarea
+        value={section.content}
+        onChange={(e) => updateMatterSection({ ...section, content: e.target.value })}
+        placeholder={t(section.type === 'copyright' ? 'structureTab.matter.copyrightExtra' : 'structureTab.matter.contentPlaceholder')}
+        rows={section.type === 'dedication' ? 2 : 4}
+        className="w-full p-2 text-sm border rounded-md"
+      />
+    </div>
+  );
+
+  const renderGroup = (heading: string, sections: MatterSection[], types: MatterSectionType[]) => {
+    const missing = types.filter(type => !sections.some(section => section.type === type));
+    const ordered = types.flatMap(type => sections.filter(section => section.type === type));
+    return (
+      <div className="space-y-3">
+        <h4 className="font-semibold text-neutral-dark">{heading}</h4>
+        {ordered.map(renderSection)}
+        {missing.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {missing.map(type => (
+              <button key={type} onClick={() => addMatterSection(type)} className="text-sm text-brand-primary font-semibold hover:underline">
+                + {t(`structureTab.matter.types.${type}`)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t">
+      <h3 className="text-xl font-semibold text-brand-dark mb-2">{t('structureTab.matter.title')}</h3>
+      <p className="text-neutral-medium mb-4">{t('structureTab.matter.description')}</p>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {renderGroup(t('structureTab.matter.front'), frontMatter, FRONT_MATTER_TYPES)}
+        {renderGroup(t('structureTab.matter.back'), backMatter, BACK_MATTER_TYPES)}
+      </div>
+    </div>
+  );
+};
+
+export default BookMatterEditor;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { useLocalization } from '../hooks/useLocalization';
+import { useProject } from '../hooks/useProject';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './icons/LoadingSpinner';
+import type { PaperType } from '../types';
+import {
+  computeCoverWrap,
+  renderCoverWrap,
+  coverWrapToPdf,
+  coverWrapToPng,
+  isValidPageCount,
+  MIN_PAGE_COUNT,
+  MAX_PAGE_COUNT,
+  MIN_SPINE_TEXT_PAGES,
+} from '../services/coverWrap';
+
+// Low resolution is enough for the on-screen preview; exports always use the print resolution.
+const PREVIEW_DPI = 40;
+
+const formatInches = (inches: number) => `${inches.toFixed(3)}" (${(inches * 25.4).toFixed(1)} mm)`;
+
+const CoverWrapBuilder: React.FC = () => {
+  const { t } = useLocalization();
+  const { project, updateProject } = useProject();
+  const { showToast } = useToast();
+  const [showGuides, setShowGuides] = useState(true);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [blurbTruncated, setBlurbTruncated] = useState(false);
+  const [isExporting, setIsExporting] = useState<'pdf' | 'png' | null>(null);
+
+  const pageCount = project?.interiorPageCount ?? 0;
+  const paper: PaperType = project?.coverPaper || 'white';
+  const pageSize = project?.pageSize || '6x9';
+  const validPageCount = isValidPageCount(pageCount);
+  const dimensions = validPageCount ? computeCoverWrap(pageSize, pageCount, paper) : null;
+
+  const content = {
+    frontImage: project?.coverImage || null,
+    title: project?.bookTitle || project?.projectTitle || '',
+    author: project?.author || '',
+    blurb: project?.description || '',
+    barcodeLabel: t('coverTab.wrap.barcodeArea'),
+  };
+
+  useEffect(() => {
+    if (!dimensions) {
+      setPreviewUrl(null);
+      return;
+    }
+    let cancelled = false;
+    // Typing a page count re-renders on every keystroke; wait until the input settles.
+    const timer = setTimeout(() => {
+      renderCoverWrap(dimensions, content, { showGuides, dpi: PREVIEW_DPI })
+        .then(result => {
+          if (cancelled) return;
+          setPreviewUrl(result.canvas.toDataURL('image/jpeg', 0.85));
+          setBlurbTruncated(result.blurbTruncated);
+        })
+        .catch(error => console.error('Error rendering cover wrap preview:', error));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [pageCount, paper, pageSize, showGuides, content.frontImage, content.title, content.author, content.blurb, content.barcodeLabel]);
+
+  const handleExport = async (format: 'pdf' | 'png') => {
+    if (!project || !dimensions) return;
+    setIsExporting(format);
+    try {
+      const { canvas } = await renderCoverWrap(dimensions, content, { showGuides });
+      const blob = format === 'pdf' ? coverWrapToPdf(canvas, dimensions) : await coverWrapToPng(canvas);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `${project.projectTitle || 'book'} - cover.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+    } catch (error: any) {
+      console.error('Error exporting cover wrap:', error);
+      showToast(t('coverTab.wrap.exportError', { message: error.message }), 'error');
+    } finally {
+      setIsExporting(null);
+    }
+  };
+
+  if (!project) return null;
+
+  return (
+    <div className="mt-10 pt-6 border-t">
+      <h3 className="text-xl font-semibold text-brand-dark mb-2">{t('coverTab.wrap.title')}</h3>
+      <p className="text-neutral-medium mb-4">{t('coverTab.wrap.description')}</p>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+        <div className="space-y-4 p-4 bg-neutral-light/50 rounded-lg">
+          <div>
+            <label htmlFor="wrap-page-count" className="block text-sm font-medium text-gray-700 mb-1">{t('coverTab.wrap.pageCount')}</label>
+            <input
+              id="wrap-page-count"
+              type="number"
+              min={MIN_PAGE_COUNT}
+              max={MAX_PAGE_COUNT}
+              value={pageCount || ''}
+              onChange={(e) => updateProject({ interiorPageCount: parseInt(e.target.value, 10) || 0 })}
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-brand-light focus:outline-none"
+            />
+            <p className="text-xs text-neutral-medium mt-1">
+              {validPageCount ? t('coverTab.wrap.pageCountHint') : t('coverTab.wrap.pageCountRange', { min: MIN_PAGE_COUNT, max: MAX_PAGE_COUNT })}
+            </p>
+          </div>
+          <div>
+            <label htmlFor="wrap-paper" className="block text-sm font-medium text-gray-700 mb-1">{t('coverTab.wrap.paper')}</label>
+            <select
+              id="wrap-paper"
+              value={paper}
+              onChange={(e) => updateProject({ coverPaper: e.target.value as PaperType })}
+              className="w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-brand-light focus:border-brand-light sm:text-sm"
+            >
+              <option value="white">{t('coverTab.wrap.paperWhite')}</option>
+              <option value="cream">{t('coverTab.wrap.paperCream')}</option>
+              <option value="color">{t('coverTab.wrap.paperColor')}</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showGuides}
+              onChange={(e) => setShowGuides(e.target.checked)}
+              className="h-4 w-4 text-brand-primary border-gray-300 rounded"
+            />
+            {t('coverTab.wrap.showGuides')}
+          </label>
+          {dimensions && (
+            <dl className="text-sm grid grid-cols-2 gap-x-2 gap-y-1">
+              <dt className="text-neutral-medium">{t('coverTab.wrap.spineWidth')}</dt>
+              <dd className="font-semibold text-neutral-dark">{formatInches(dimensions.spineWidth)}</dd>
+              <dt className="text-neutral-medium">{t('coverTab.wrap.fullWidth')}</dt>
+              <dd className="font-semibold text-neutral-dark">{formatInches(dimensions.totalWidth)}</dd>
+              <dt className="text-neutral-medium">{t('coverTab.wrap.fullHeight')}</dt>
+              <dd className="font-semibold text-neutral-dark">{formatInches(dimensions.totalHeight)}</dd>
+            </dl>
+          )}
+          {dimensions && !dimensions.spineTextAllowed && (
+            <p className="text-xs text-yellow-800 bg-yellow-100 border border-yellow-300 rounded p-2">{t('coverTab.wrap.noSpineText', { pages: MIN_SPINE_TEXT_PAGES })}</p>
+          )}
+          {dimensions && blurbTruncated && (
+            <p className="text-xs text-yellow-800 bg-yellow-100 border border-yellow-300 rounded p-2">{t('coverTab.wrap.blurbTruncated')}</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport('pdf')}
+              disabled={!dimensions || isExporting !== null}
+              className="flex-1 flex items-center justify-center bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50"
+            >
+              {isExporting === 'pdf' ? <LoadingSpinner className="animate-spin h-5 w-5 text-white" /> : t('coverTab.wrap.exportPdf')}
+            </button>
+            <button
+              onClick={() => handleExport('png')}
+              disabled={!dimensions || isExporting !== null}
+              className="flex-1 flex items-center justify-center bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50"
+            >
+              {isExporting === 'png' ? <LoadingSpinner className="animate-spin h-5 w-5 text-white" /> : t('coverTab.wrap.exportPng')}
+            </button>
+          </div>
+        </div>
+        <div className="lg:col-span-2">
+          {previewUrl ? (
+            <img src={previewUrl} alt={t('coverTab.wrap.title')} className="w-full rounded-md shadow-lg border" />
+          ) : (
+            <div className="flex items-center justify-center h-64 border-2 border-dashed rounded-md text-neutral-medium text-sm p-4 text-center">
+              {t('coverTab.wrap.needPageCount')}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoverWrapBuilder;
@@ -0,0 +1,113 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useLocalization } from '../hooks/useLocalization';
+import { useJobQueue } from '../hooks/useJobQueue';
+import { isJobActive, jobProgress } from '../services/jobQueue';
+import LoadingSpinner from './icons/LoadingSpinner';
+import type { Job } from '../types';
+
+const STATUS_STYLES: { [status in Job['status']]: string } = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-500',
+};
+
+/**
+ * Progress of the open project's AI jobs, shown in the header on every tab, with pause, resume,
+ * cancel and retry of single failed items.
+ */
+const JobQueuePanel: React.FC = () => {
+  const { t } = useLocalization();
+  const { jobs, pauseJob, resumeJob, cancelJob, retryJobItem, dismissJob } = useJobQueue();
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (jobs.length === 0) return null;
+
+  const activeJobs = jobs.filter(isJobActive);
+  const runningJob = jobs.find(job => job.status === 'running');
+  const totals = activeJobs.map(jobProgress).reduce((sum, progress) => ({ done: sum.done + progress.done, total: sum.total + progress.total }), { done: 0, total: 0 });
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-2 bg-brand-secondary hover:bg-brand-light text-white font-semibold py-2 px-3 rounded-md text-sm transition-colors"
+        aria-expanded={isOpen}
+      >
+        {runningJob && <LoadingSpinner className="animate-spin h-4 w-4" />}
+        {activeJobs.length > 0
+          ? t('jobs.button', { count: activeJobs.length, percent: totals.total ? Math.round((totals.done / totals.total) * 100) : 0 })
+          : t('jobs.buttonIdle')}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 max-h-[70vh] overflow-y-auto bg-white text-neutral-dark rounded-lg shadow-xl border z-30 animate-fade-in">
+          <h3 className="px-4 py-2 border-b font-semibold text-brand-dark">{t('jobs.title')}</h3>
+          <ul className="divide-y">
+            {[...jobs].reverse().map(job => {
+              const progress = jobProgress(job);
+              const currentItem = job.items.find(item => item.status === 'running');
+              const failedItems = job.items.filter(item => item.status === 'failed');
+              return (
+                <li key={job.id} className="px-4 py-3 space-y-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold truncate">
+                      {t(`jobs.kinds.${job.kind}`)}{job.detail ? ` (${job.detail})` : ''}
+                    </span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[job.status]}`}>{t(`jobs.status.${job.status}`)}</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div className="bg-brand-primary h-2 rounded-full transition-all duration-300" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}></div>
+                  </div>
+                  <p className="text-xs text-neutral-medium truncate">
+                    {t('jobs.progress', { done: progress.done, total: progress.total })}
+                    {currentItem && ` · ${currentItem.label}`}
+                  </p>
+                  {failedItems.length > 0 && (
+                    <ul className="space-y-1">
+                      {failedItems.map(item => (
+                        <li key={item.id} className="flex items-center justify-between gap-2 text-xs text-red-700">
+                          <span className="truncate" title={item.error}>{t('jobs.itemFailed', { label: item.label })}</span>
+                          {job.status !== 'cancelled' && (
+                            <button onClick={() => retryJobItem(job.id, item.id)} className="font-semibold text-brand-primary hover:underline flex-shrink-0">{t('jobs.retry')}</button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex justify-end gap-3 text-xs font-semibold">
+                    {(job.status === 'running' || job.status === 'queued') && (
+                      <button onClick={() => pauseJob(job.id)} className="text-yellow-700 hover:underline">{t('jobs.pause')}</button>
+                    )}
+                    {job.status === 'paused' && (
+                      <button onClick={() => resumeJob(job.id)} className="text-green-700 hover:underline">{t('jobs.resume')}</button>
+                    )}
+                    {isJobActive(job) ? (
+                      <button onClick={() => cancelJob(job.id)} className="text-red-700 hover:underline">{t('jobs.cancel')}</button>
+                    ) : (
+                      <button onClick={() => dismissJob(job.id)} className="text-gray-600 hover:underline">{t('jobs.dismiss')}</button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { useLocalization } from '../hooks/useLocalization';
+import { diffChanges, type DiffChange, type DiffGranularity, type DiffSegment, type ManuscriptDiff } from '../services/textDiff';
+
+// Characters of unchanged text kept on each side of a change.
+const CONTEXT_CHARS = 160;
+
+interface ManuscriptDiffViewProps {
+  diff: ManuscriptDiff;
+  rejected: Set<string>;
+  onDecide: (changeIds: string[], accept: boolean) => void;
+  granularity: DiffGranularity;
+  onGranularityChange: (granularity: DiffGranularity) => void;
+}
+
+const contextText = (text: string, isFirst: boolean, isLast: boolean) => {
+  if (text.length <= CONTEXT_CHARS * 2) return text;
+  const head = isFirst ? '' : text.slice(0, CONTEXT_CHARS);
+  const tail = isLast ? '' : text.slice(-CONTEXT_CHARS);
+  return `${head}${head ? ' … ' : '… '}${tail}`;
+};
+
+/**
+ * The proposed revision against the original manuscript, change by change, with accept and reject
+ * per change, per chapter and for the whole text.
+ */
+const ManuscriptDiffView: React.FC<ManuscriptDiffViewProps> = ({ diff, rejected, onDecide, granularity, onGranularityChange }) => {
+  const { t } = useLocalization();
+  const [layout, setLayout] = useState<'sideBySide' | 'inline'>('sideBySide');
+
+  const changes = diffChanges(diff);
+  const acceptedCount = changes.filter(change => !rejected.has(change.id)).length;
+  const changedChapters = diff.chapters
+    .map((title, index) => ({ title, index, changes: changes.filter(change => change.chapterIndex === index) }))
+    .filter(chapter => chapter.changes.length > 0);
+
+  const decisionButtons = (change: DiffChange) => {
+    const accepted = !rejected.has(change.id);
+    return (
+      <span className="inline-flex gap-1 align-middle ml-1 select-none">
+        <button
+          onClick={() => onDecide([change.id], true)}
+          className={`px-1 rounded text-xs font-bold ${accepted ? 'bg-green-600 text-white' : 'bg-gray-200 text-gray-600 hover:bg-green-100'}`}
+          title={t('revisionTab.diff.accept')}
+        >
+          ✓
+        </button>
+        <button
+          onClick={() => onDecide([change.id], false)}
+          className={`px-1 rounded text-xs font-bold ${accepted ? 'bg-gray-200 text-gray-600 hover:bg-red-100' : 'bg-red-600 text-white'}`}
+          title={t('revisionTab.diff.reject')}
+        >
+          ✗
+        </button>
+      </span>
+    );
+  };
+
+  const renderInline = (segment: DiffSegment, isFirst: boolean, isLast: boolean, key: number) => {
+    if (segment.kind === 'equal') return <span key={key} className="text-gray-600">{contextText(segment.text, isFirst, isLast)}</span>;
+    const accepted = !rejected.has(segment.id);
+    return (
+      <span key={segment.id}>
+        {segment.before && <del className={accepted ? 'bg-red-100 text-red-800' : 'no-underline'}>{segment.before}</del>}
+        {segment.after && <ins className={accepted ? 'bg-green-100 text-green-900 no-underline' : 'line-through text-gray-400 no-underline'}>{segment.after}</ins>}
+        {decisionButtons(segment)}
+      </span>
+    );
+  };
+
+  const renderSideBySide = (segment: DiffSegment, isFirst: boolean, isLast: boolean, key: number) => {
+    if (segment.kind === 'equal') {
+      const text = contextText(segment.text, isFirst, isLast);
+      return (
+        <React.Fragment key={key}>
+          <div className="text-gray-600">{text}</div>
+          <div className="text-gray-600">{text}</div>
+        </React.Fragment>
+      );
+    }
+    const accepted = !rejected.has(segment.id);
+    return (
+      <React.Fragment key={segment.id}>
+        <div className={`rounded px-1 ${accepted ? 'bg-red-100 text-red-800 line-through' : 'bg-yellow-50 ring-1 ring-yellow-300'}`}>{segment.before || ' '}</div>
+        <div className={`rounded px-1 ${accepted ? 'bg-green-100 text-green-900 ring-1 ring-green-300' : 'bg-gray-100 text-gray-400 line-through'}`}>
+          {segment.after || ' '}
+          {decisionButtons(segment)}
+        </div>
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-2">
+          <select value={layout} onChange={(e) => setLayout(e.target.value as 'sideBySide' | 'inline')} className="py-1 px-2 border rounded-md bg-white" aria-label={t('revisionTab.diff.layout')}>
+            <option value="sideBySide">{t('revisionTab.diff.sideBySide')}</option>
+            <option value="inline">{t('revisionTab.diff.inline')}</option>
+          </select>
+          <select value={granularity} onChange={(e) => onGranularityChange(e.target.value as DiffGranularity)} className="py-1 px-2 border rounded-md bg-white" aria-label={t('revisionTab.diff.granularity')}>
+            <option value="word">{t('revisionTab.diff.byWord')}</option>
+            <option value="sentence">{t('revisionTab.diff.bySentence')}</option>
+          </select>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-neutral-medium">{t('revisionTab.diff.summary', { accepted: acceptedCount, total: changes.length })}</span>
+          <button onClick={() => onDecide(changes.map(change => change.id), true)} className="text-green-700 font-semibold hover:underline">{t('revisionTab.diff.acceptAll')}</button>
+          <button onClick={() => onDecide(changes.map(change => change.id), false)} className="text-red-700 font-semibold hover:underline">{t('revisionTab.diff.rejectAll')}</button>
+        </div>
+      </div>
+
+      {changes.length === 0 && <p className="text-center text-neutral-medium py-8">{t('revisionTab.diff.noChanges')}</p>}
+
+      {changedChapters.map(chapter => {
+        const segments = diff.segments.filter(segment => segment.chapterIndex === chapter.index);
+        const ids = chapter.changes.map(change => change.id);
+        const chapterAccepted = chapter.changes.filter(change => !rejected.has(change.id)).length;
+        return (
+          <section key={chapter.index} className="border rounded-md bg-white">
+            <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 border-b bg-gray-50 text-sm">
+              <h5 className="font-semibold text-brand-dark">{chapter.title || t('revisionTab.diff.opening')}</h5>
+              <div className="flex items-center gap-3">
+                <span className="text-neutral-medium">{t('revisionTab.diff.summary', { accepted: chapterAccepted, total: ids.length })}</span>
+                <button onClick={() => onDecide(ids, true)} className="text-green-700 hover:underline">{t('revisionTab.diff.acceptChapter')}</button>
+                <button onClick={() => onDecide(ids, false)} className="text-red-700 hover:underline">{t('revisionTab.diff.rejectChapter')}</button>
+              </div>
+            </div>
+            {layout === 'inline' ? (
+              <div className="p-3 whitespace-pre-wrap leading-relaxed">
+                {segments.map((segment, index) => renderInline(segment, index === 0, index === segments.length - 1, index))}
+              </div>
+            ) : (
+              <div className="p-3 grid grid-cols-2 gap-x-4 gap-y-1 whitespace-pre-wrap leading-relaxed">
+                <div className="text-xs font-semibold uppercase text-neutral-medium">{t('revisionTab.original')}</div>
+                <div className="text-xs font-semibold uppercase text-neutral-medium">{t('revisionTab.revised')}</div>
+                {segments.map((segment, index) => renderSideBySide(segment, index === 0, index === segments.length - 1, index))}
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ManuscriptDiffView;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { useLocalization } from '../hooks/useLocalization';
+import { useProject } from '../hooks/useProject';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './icons/LoadingSpinner';
+import {
+  detectManuscriptFormat,
+  manuscriptToHtml,
+  splitManuscriptHtml,
+  buildOutlineFromSegments,
+  type ImportLevel,
+  type ManuscriptSegment,
+} from '../services/manuscriptImport';
+
+const LEVEL_OPTIONS: { level: ImportLevel; key: string }[] = [
+  { level: 1, key: 'chapter' },
+  { level: 2, key: 'section' },
+  { level: 3, key: 'subsection' },
+  { level: 4, key: 'subsubsection' },
+  { level: 0, key: 'text' },
+];
+
+const generateImportId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+const countWords = (html: string) =>
+  (new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body.textContent || '').split(/\s+/).filter(Boolean).length;
+
+/**
+ * Turns an existing DOCX, Markdown, text or PDF manuscript into the book structure. The detected
+ * headings are shown for review first: each can be re-levelled or kept as body text.
+ */
+const ManuscriptImporter: React.FC = () => {
+  const { t } = useLocalization();
+  const { project, setBookStructure } = useProject();
+  const { showToast } = useToast();
+  const [isParsing, setIsParsing] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [segments, setSegments] = useState<ManuscriptSegment[] | null>(null);
+  // Counted once per file: the text of a segment does not change during the review.
+  const [wordCounts, setWordCounts] = useState<Map<string, number>>(new Map());
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const format = detectManuscriptFormat(file);
+    if (!format) {
+      showToast(t('structureTab.import.unsupported'), 'error');
+      return;
+    }
+    setIsParsing(true);
+    try {
+      const html = await manuscriptToHtml(file, format);
+      const detected = splitManuscriptHtml(html, generateImportId);
+      if (detected.length === 0) {
+        showToast(t('structureTab.import.empty'), 'error');
+        return;
+      }
+      setFileName(file.name);
+      setSegments(detected);
+      setWordCounts(new Map(detected.map(segment => [segment.id, countWords(segment.html)])));
+    } catch (error: any) {
+      console.error("Error importing manuscript:", error);
+      showToast(error.message || t('structureTab.import.error'), 'error');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const updateSegment = (id: string, changes: Partial<ManuscriptSegment>) =>
+    setSegments(current => current && current.map(segment => (segment.id === id ? { ...segment, ...changes } : segment)));
+
+  const handleApply = () => {
+    if (!segments) return;
+    if (project?.bookStructure?.chapters.length && !window.confirm(t('structureTab.import.confirmReplace'))) return;
+    const chapters = buildOutlineFromSegments(segments, generateImportId);
+    setBookStructure({ chapters });
+    showToast(t('structureTab.import.success', { count: chapters.length }), 'success');
+    setSegments(null);
+    setFileName('');
+  };
+
+  if (!segments) {
+    return (
+      <div className="mb-6 flex flex-wrap items-center gap-3 text-sm">
+        <label className={`flex items-center gap-2 font-semibold text-brand-primary ${isParsing ? 'opacity-50' : 'cursor-pointer hover:underline'}`}>
+          {isParsing && <LoadingSpinner className="animate-spin h-4 w-4" />}
+          {isParsing ? t('structureTab.import.parsing') : t('structureTab.import.button')}
+          <input type="file" className="hidden" accept=".docx,.md,.markdown,.txt,.pdf" onChange={handleFileSelect} disabled={isParsing} />
+        </label>
+        <span className="text-neutral-medium">{t('structureTab.import.acceptedFiles')}</span>
+      </div>
+    );
+  }
+
+  const chapterCount = segments.filter(segment => segment.level === 1).length;
+  const sectionCount = segments.filter(segment => segment.level > 1).length;
+
+  return (
+    <div className="mb-6 p-4 border-2 border-brand-light rounded-lg bg-blue-50/50 animate-fade-in">
+      <div className="flex flex-wrap justify-between items-baseline gap-2 mb-2">
+        <h3 className="text-lg font-semibold text-brand-dark">{t('structureTab.import.previewTitle')}</h3>
+        <p className="text-sm text-gray-500 font-mono">{fileName}</p>
+      </div>
+      <p className="text-sm text-neutral-medium mb-3">
+        {t('structureTab.import.previewDescription', { chapters: chapterCount, sections: sectionCount })}
+      </p>
+      <div className="max-h-96 overflow-y-auto space-y-1 bg-white border rounded-md p-2">
+        {segments.map(segment => (
+          <div
+            key={segment.id}
+            className={`flex items-center gap-2 ${segment.level === 0 ? 'opacity-60' : ''}`}
+            style={{ paddingLeft: `${Math.max(0, segment.level - 1) * 1.5}rem` }}
+          >
+            <select
+              value={segment.level}
+              onChange={(e) => updateSegment(segment.id, { level: Number(e.target.value) as ImportLevel })}
+              className="py-1 px-1 text-xs border border-gray-300 bg-white rounded-md"
+              aria-label={t('structureTab.import.levelLabel')}
+            >
+              {LEVEL_OPTIONS.map(option => (
+                <option key={option.level} value={option.level}>{t(`structureTab.import.levels.${option.key}`)}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={segment.title}
+              onChange={(e) => updateSegment(segment.id, { title: e.target.value })}
+              placeholder={t('structureTab.editTitlePlaceholder')}
+              className={`flex-grow p-1 text-sm border border-gray-300 rounded-md ${segment.level === 1 ? 'font-semibold' : ''}`}
+            />
+            <span className="text-xs text-neutral-medium whitespace-nowrap">{t('structureTab.import.words', { count: wordCounts.get(segment.id) || 0 })}</span>
+          </div>
+        ))}
+      </div>
+      <div className="mt-4 flex gap-3 justify-end">
+        <button onClick={() => { setSegments(null); setFileName(''); }} className="bg-gray-200 text-gray-700 font-semibold py-2 px-4 rounded-md">
+          {t('structureTab.import.cancel')}
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={chapterCount === 0}
+          className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md disabled:bg-neutral-medium disabled:cursor-not-allowed"
+        >
+          {t('structureTab.import.apply')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ManuscriptImporter;
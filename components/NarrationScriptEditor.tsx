@@ -0,0 +1,148 @@
+import React, { useState, useRef } from 'react';
+import { useLocalization } from '../hooks/useLocalization';
+import type { NarrationSpan, NarrationSpanKind } from '../types';
+
+// Values of the speaker select besides the character names.
+const NARRATOR_OPTION = '__narrator__';
+const UNKNOWN_SPEAKER_OPTION = '__dialogue__';
+const NEW_CHARACTER_OPTION = '__new__';
+
+interface NarrationScriptEditorProps {
+  spans: NarrationSpan[];
+  characters: string[];
+  characterVoices: { [character: string]: string };
+  narratorVoice: string;
+  isCurrent: boolean;
+  disabled: boolean;
+  onChange: (spans: NarrationSpan[]) => void;
+  onDetect: () => void;
+  onRemove: () => void;
+}
+
+const speakerOption = (span: NarrationSpan) =>
+  span.kind === 'narration' ? NARRATOR_OPTION : span.character || UNKNOWN_SPEAKER_OPTION;
+
+/**
+ * The narration script of a chapter: who reads each span, with manual splitting and merging of the
+ * spans the dialogue detection got wrong.
+ */
+const NarrationScriptEditor: React.FC<NarrationScriptEditorProps> = ({
+  spans, characters, characterVoices, narratorVoice, isCurrent, disabled, onChange, onDetect, onRemove,
+}) => {
+  const { t } = useLocalization();
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const selectionRef = useRef<HTMLTextAreaElement>(null);
+
+  const replaceSpans = (index: number, count: number, replacement: NarrationSpan[]) => {
+    onChange([...spans.slice(0, index), ...replacement, ...spans.slice(index + count)]);
+  };
+
+  const handleSpeakerChange = (index: number, option: string) => {
+    const { text } = spans[index];
+    if (option === NARRATOR_OPTION) {
+      replaceSpans(index, 1, [{ kind: 'narration', text }]);
+    } else if (option === UNKNOWN_SPEAKER_OPTION) {
+      replaceSpans(index, 1, [{ kind: 'dialogue', text }]);
+    } else if (option === NEW_CHARACTER_OPTION) {
+      const name = window.prompt(t('audiobookTab.narration.newCharacterPrompt'))?.trim();
+      if (name) replaceSpans(index, 1, [{ kind: 'dialogue', text, character: name }]);
+    } else {
+      replaceSpans(index, 1, [{ kind: 'dialogue', text, character: option }]);
+    }
+  };
+
+  // The selected text of the span becomes a span of its own, read as narration or as dialogue.
+  const markSelection = (kind: NarrationSpanKind) => {
+    const textarea = selectionRef.current;
+    if (selectedIndex === null || !textarea || textarea.selectionStart === textarea.selectionEnd) return;
+    const span = spans[selectedIndex];
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const pieces: NarrationSpan[] = [
+      { ...span, text: span.text.slice(0, start) },
+      { kind, text: span.text.slice(start, end) },
+      { ...span, text: span.text.slice(end) },
+    ].filter(piece => piece.text);
+    replaceSpans(selectedIndex, 1, pieces);
+    setSelectedIndex(selectedIndex + (start > 0 ? 1 : 0));
+  };
+
+  const mergeWithNext = () => {
+    if (selectedIndex === null || selectedIndex >= spans.length - 1) return;
+    const span = spans[selectedIndex];
+    replaceSpans(selectedIndex, 2, [{ ...span, text: span.text + spans[selectedIndex + 1].text }]);
+  };
+
+  const voiceOf = (span: NarrationSpan) =>
+    (span.kind === 'dialogue' && span.character && characterVoices[span.character]) || narratorVoice;
+
+  return (
+    <div className="mt-3 ml-9 p-3 border border-gray-200 rounded-lg bg-neutral-light/50 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h5 className="font-semibold text-brand-dark">{t('audiobookTab.narration.scriptTitle')}</h5>
+        <div className="flex gap-2">
+          <button onClick={onDetect} disabled={disabled} className="text-xs bg-gray-200 hover:bg-gray-300 text-neutral-dark font-semibold py-1 px-3 rounded-md disabled:opacity-50">
+            {t('audiobookTab.narration.detectAgain')}
+          </button>
+          <button onClick={onRemove} disabled={disabled} className="text-xs bg-gray-200 hover:bg-gray-300 text-neutral-dark font-semibold py-1 px-3 rounded-md disabled:opacity-50">
+            {t('audiobookTab.narration.remove')}
+          </button>
+        </div>
+      </div>
+
+      {!isCurrent && (
+        <p className="p-2 rounded-md bg-yellow-50 border border-yellow-300 text-xs text-yellow-800">{t('audiobookTab.narration.outdated')}</p>
+      )}
+      <p className="text-xs text-neutral-medium">{t('audiobookTab.narration.selectHint')}</p>
+
+      <ol className="space-y-1 max-h-96 overflow-y-auto pr-2">
+        {spans.map((span, index) => !span.text.trim() ? null : (
+          <li
+            key={index}
+            className={`flex gap-3 items-start p-2 rounded border ${selectedIndex === index ? 'border-brand-primary' : 'border-transparent'} ${span.kind === 'dialogue' ? 'bg-blue-50' : 'bg-white'}`}
+          >
+            <select
+              value={speakerOption(span)}
+              onChange={e => handleSpeakerChange(index, e.target.value)}
+              disabled={disabled}
+              className="w-40 flex-shrink-0 p-1 border border-gray-300 rounded-md text-xs bg-white"
+              title={voiceOf(span)}
+            >
+              <option value={NARRATOR_OPTION}>{t('audiobookTab.narration.narrator')}</option>
+              <option value={UNKNOWN_SPEAKER_OPTION}>{t('audiobookTab.narration.unknownSpeaker')}</option>
+              {characters.map(character => <option key={character} value={character}>{character}</option>)}
+              <option value={NEW_CHARACTER_OPTION}>{t('audiobookTab.narration.newCharacter')}</option>
+            </select>
+            <button onClick={() => setSelectedIndex(index)} className="text-left text-sm whitespace-pre-wrap flex-grow">
+              {span.text.trim()}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {selectedIndex !== null && spans[selectedIndex] && (
+        <div className="space-y-2">
+          <textarea
+            ref={selectionRef}
+            readOnly
+            value={spans[selectedIndex].text}
+            rows={4}
+            className="w-full p-2 border border-gray-300 rounded-md text-sm"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => markSelection('narration')} disabled={disabled} className="text-xs bg-white border border-gray-300 hover:bg-gray-50 font-semibold py-1 px-3 rounded-md disabled:opacity-50">
+              {t('audiobookTab.narration.markNarration')}
+            </button>
+            <button onClick={() => markSelection('dialogue')} disabled={disabled} className="text-xs bg-white border border-gray-300 hover:bg-gray-50 font-semibold py-1 px-3 rounded-md disabled:opacity-50">
+              {t('audiobookTab.narration.markDialogue')}
+            </button>
+            <button onClick={mergeWithNext} disabled={disabled || selectedIndex >= spans.length - 1} className="text-xs bg-white border border-gray-300 hover:bg-gray-50 font-semibold py-1 px-3 rounded-md disabled:opacity-50">
+              {t('audiobookTab.narration.mergeNext')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NarrationScriptEditor;
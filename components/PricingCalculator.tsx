@@ -0,0 +1,157 @@
+import React from 'react';
+import { useLocalization } from '../hooks/useLocalization';
+import { useProject } from '../hooks/useProject';
+import type { BookPricing, EbookRoyaltyPlan, MarketplaceId } from '../types';
+import {
+  MARKETPLACES,
+  computeEbookRoyalty,
+  computePaperbackRoyalty,
+  suggestEbookPrice,
+  suggestPaperbackPrice,
+  formatMoney,
+} from '../services/pricing';
+
+// Used for the delivery cost until the book has been exported as EPUB once.
+const ESTIMATED_EPUB_SIZE = 1024 * 1024;
+const DEFAULT_PRICING: BookPricing = { ebookRoyaltyPlan: 70, ebook: {}, paperback: {} };
+
+const PricingCalculator: React.FC = () => {
+  const { t, locale } = useLocalization();
+  const { project, updateProject } = useProject();
+
+  if (!project) return null;
+
+  const pricing = project.pricing || DEFAULT_PRICING;
+  const pageCount = project.interiorPageCount || 0;
+  const pageSize = project.pageSize || '6x9';
+  const paper = project.coverPaper || 'white';
+  const fileSize = project.epubFileSize || ESTIMATED_EPUB_SIZE;
+  const money = (amount: number, currency: string) => formatMoney(amount, currency, locale);
+
+  const updatePricing = (changes: Partial<BookPricing>) => updateProject({ pricing: { ...pricing, ...changes } });
+
+  const setPrice = (format: 'ebook' | 'paperback', marketplace: MarketplaceId, value: string) => {
+    const price = parseFloat(value.replace(',', '.'));
+    const prices = { ...pricing[format] };
+    if (Number.isFinite(price)) prices[marketplace] = price;
+    else delete prices[marketplace];
+    updatePricing({ [format]: prices });
+  };
+
+  const applySuggestedPrices = () => {
+    const ebook: BookPricing['ebook'] = {};
+    const paperback: BookPricing['paperback'] = {};
+    MARKETPLACES.forEach(marketplace => {
+      ebook[marketplace.id] = suggestEbookPrice(marketplace, pageCount, pricing.ebookRoyaltyPlan, fileSize);
+      if (pageCount > 0) paperback[marketplace.id] = suggestPaperbackPrice(marketplace, pageCount, pageSize, paper);
+    });
+    updatePricing({ ebook, paperback });
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t">
+      <h3 className="text-xl font-semibold text-brand-dark mb-2">{t('metadataTab.pricing.title')}</h3>
+      <p className="text-neutral-medium mb-4">{t('metadataTab.pricing.description')}</p>
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <div>
+          <label htmlFor="royaltyPlan" className="block text-sm font-medium text-gray-700 mb-1">{t('metadataTab.pricing.royaltyPlan')}</label>
+          <select
+            id="royaltyPlan"
+            value={pricing.ebookRoyaltyPlan}
+            onChange={(e) => updatePricing({ ebookRoyaltyPlan: Number(e.target.value) as EbookRoyaltyPlan })}
+            className="py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-brand-light focus:border-brand-light sm:text-sm"
+          >
+            <option value={70}>70%</option>
+            <option value={35}>35%</option>
+          </select>
+        </div>
+        <button
+          onClick={applySuggestedPrices}
+          className="bg-brand-accent hover:bg-yellow-500 text-brand-dark font-bold py-2 px-4 rounded-md transition-colors shadow"
+        >
+          {t('metadataTab.pricing.applySuggested')}
+        </button>
+      </div>
+      <ul className="text-xs text-neutral-medium mb-4 space-y-1">
+        <li>
+          {project.epubFileSize
+            ? t('metadataTab.pricing.fileSize', { size: (project.epubFileSize / (1024 * 1024)).toFixed(2) })
+            : t('metadataTab.pricing.fileSizeEstimated')}
+        </li>
+        <li>
+          {pageCount > 0
+            ? t('metadataTab.pricing.printSpecs', { pages: pageCount, size: pageSize, paper: t(`coverTab.wrap.paper${paper[0].toUpperCase()}${paper.slice(1)}`) })
+            : t('metadataTab.pricing.pageCountMissing')}
+        </li>
+      </ul>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs uppercase text-neutral-medium bg-neutral-light">
+            <tr>
+              <th className="px-3 py-2">{t('metadataTab.pricing.marketplace')}</th>
+              <th className="px-3 py-2">{t('metadataTab.pricing.ebookPrice')}</th>
+              <th className="px-3 py-2">{t('metadataTab.pricing.ebookRoyalty')}</th>
+              <th className="px-3 py-2">{t('metadataTab.pricing.paperbackPrice')}</th>
+              <th className="px-3 py-2">{t('metadataTab.pricing.printingCost')}</th>
+              <th className="px-3 py-2">{t('metadataTab.pricing.paperbackRoyalty')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {MARKETPLACES.map(marketplace => {
+              const ebookPrice = pricing.ebook[marketplace.id];
+              const ebook = ebookPrice !== undefined ? computeEbookRoyalty(marketplace, ebookPrice, pricing.ebookRoyaltyPlan, fileSize) : null;
+              const paperbackPrice = pricing.paperback[marketplace.id];
+              const paperback = pageCount > 0 ? computePaperbackRoyalty(marketplace, paperbackPrice ?? 0, pageCount, pageSize, paper) : null;
+              return (
+                <tr key={marketplace.id} className="border-b">
+                  <td className="px-3 py-2 font-semibold text-neutral-dark">{marketplace.domain}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={ebookPrice ?? ''}
+                      placeholder={String(suggestEbookPrice(marketplace, pageCount, pricing.ebookRoyaltyPlan, fileSize))}
+                      onChange={(e) => setPrice('ebook', marketplace.id, e.target.value)}
+                      className="w-24 p-1 border rounded-md"
+                      aria-label={`${t('metadataTab.pricing.ebookPrice')} ${marketplace.domain}`}
+                    />
+                    <span className="ml-1 text-xs text-neutral-medium">{marketplace.currency}</span>
+                  </td>
+                  <td className="px-3 py-2">
+                    {ebook && (ebook.royalty !== null
+                      ? <span className="text-green-700 font-semibold">{money(ebook.royalty, marketplace.currency)}</span>
+                      : <span className="text-red-600 text-xs">{t('metadataTab.pricing.ebookOutOfRange', { min: money(ebook.minPrice, marketplace.currency), max: money(ebook.maxPrice, marketplace.currency) })}</span>)}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={paperbackPrice ?? ''}
+                      placeholder={pageCount > 0 ? String(suggestPaperbackPrice(marketplace, pageCount, pageSize, paper)) : ''}
+                      onChange={(e) => setPrice('paperback', marketplace.id, e.target.value)}
+                      disabled={pageCount === 0}
+                      className="w-24 p-1 border rounded-md disabled:bg-gray-100"
+                      aria-label={`${t('metadataTab.pricing.paperbackPrice')} ${marketplace.domain}`}
+                    />
+                    <span className="ml-1 text-xs text-neutral-medium">{marketplace.currency}</span>
+                  </td>
+                  <td className="px-3 py-2 text-neutral-dark">{paperback && money(paperback.printingCost, marketplace.currency)}</td>
+                  <td className="px-3 py-2">
+                    {paperback && paperbackPrice !== undefined && (paperback.royalty !== null
+                      ? <span className="text-green-700 font-semibold">{money(paperback.royalty, marketplace.currency)}</span>
+                      : <span className="text-red-600 text-xs">{t('metadataTab.pricing.paperbackBelowMinimum', { min: money(paperback.minPrice, marketplace.currency) })}</span>)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PricingCalculator;
@@ -1,6 +1,7 @@
 import React from 'react';
 import type { Project } from '../types';
 import { useLocalization } from '../hooks/useLocalization';
+import { flattenOutline } from '../services/outline';
 
 interface ProgressBarProps {
   project: Project;
@@ -25,11 +26,11 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ project }) => {
       completedSteps++;
     }
     
-    // 3. Content (complete if all content nodes are written)
+    // 3. Content (complete if all innermost chapters and sections are written)
     if (project.bookStructure && project.bookStructure.chapters.length > 0) {
-      const contentNodes = project.bookStructure.chapters.flatMap(chapter =>
-        chapter.subchapters.length > 0 ? chapter.subchapters : [chapter]
-      );
+      const contentNodes = flattenOutline(project.bookStructure.chapters)
+        .map(item => item.node)
+        .filter(node => !node.isPart && node.subchapters.length === 0);
       if (contentNodes.length > 0 && contentNodes.every(node => node.content?.trim())) {
         completedSteps++;
       }
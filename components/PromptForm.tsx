@@ -1,6 +1,11 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import type { Project, LayoutTemplate, PageSize, CustomStyles } from '../types';
 import { useLocalization } from '../hooks/useLocalization';
+import { useProject } from '../hooks/useProject';
+import { buildTocEntries, buildIndexEntries, chapterAnchor, subchapterAnchor, partAnchor } from '../services/bookToc';
+import { outlineChapters, chapterSections, PART_LEVEL, CHAPTER_LEVEL } from '../services/outline';
+import { buildBookMatter, buildMatterLabels, type ResolvedMatterSection } from '../services/bookMatter';
+import { loadSeriesMatter, EMPTY_SERIES_MATTER, type SeriesMatter } from '../services/series';
 
 interface BookPreviewProps {
   project: Project | null;
@@ -38,6 +43,17 @@ const CustomStylesComponent: React.FC<{ styles: CustomStyles }> = ({ styles }) =
 
 const BookPreview: React.FC<BookPreviewProps> = ({ project, layout, pageSize, renderAllPages = false }) => {
   const { t } = useLocalization();
+  const { archivedProjects } = useProject();
+  const [seriesMatter, setSeriesMatter] = useState<SeriesMatter>(EMPTY_SERIES_MATTER);
+
+  useEffect(() => {
+    if (!project) return;
+    let cancelled = false;
+    loadSeriesMatter(project, archivedProjects)
+      .then(matter => { if (!cancelled) setSeriesMatter(matter); })
+      .catch(error => console.error("Error loading series matter:", error));
+    return () => { cancelled = true; };
+  }, [project, archivedProjects]);
 
   if (!project) {
     return (
@@ -65,30 +81,95 @@ const BookPreview: React.FC<BookPreviewProps> = ({ project, layout, pageSize, re
   const sizeClass = `size-${pageSize}`;
 
   const pages: React.ReactNode[] = [];
+  // Copyright and dedication pages carry no page number.
+  const unnumberedPages = new Set<React.Key>();
+  const matter = buildBookMatter(project, buildMatterLabels(t), seriesMatter);
+
+  const pushMatterPage = (section: ResolvedMatterSection) => {
+    if (!section.rules.furniture) unnumberedPages.add(section.anchor);
+    pages.push(
+      <div key={section.anchor} className="book-page">
+        <div className="chapter-container" style={{ textAlign: section.rules.align, marginTop: section.rules.heading ? undefined : section.rules.opensOn === 'titleVerso' ? '90%' : '40%' }}>
+          {section.rules.heading && <h3 className="chapter-title" id={section.anchor}>{section.title}</h3>}
+          {section.photo && <img src={section.photo} alt={project.author} className="content-block-image" />}
+          {section.paragraphs.map((paragraph, index) => (
+            <p key={index} className="content-block" style={{ fontSize: section.rules.opensOn === 'titleVerso' ? '0.8em' : undefined }}>{paragraph}</p>
+          ))}
+        </div>
+      </div>
+    );
+  };
 
   // Page 1: Title Page
   pages.push(
     <div key="title-page" className="book-page">
       <h1 className="book-title">{project.bookTitle || project.projectTitle}</h1>
       {project.subtitle && <h2 className="book-subtitle">{project.subtitle}</h2>}
+      {matter.seriesLine && <p className="book-author"><em>{matter.seriesLine}</em></p>}
       {project.author && <p className="book-author">by {project.author}</p>}
     </div>
   );
 
+  // Copyright and dedication come before the table of contents, the foreword after it.
+  const frontBeforeContents = matter.front.filter(section => section.rules.beforeContents);
+  const frontAfterContents = matter.front.filter(section => !section.rules.beforeContents);
+  frontBeforeContents.forEach(pushMatterPage);
+
+  // Table of contents. In the preview every part, chapter and matter section fills exactly one page.
+  const tocEntries = buildTocEntries(project);
+  const outline = outlineChapters(project.bookStructure?.chapters || []);
+  const firstChapterPage = pages.length + (tocEntries.length > 0 ? 1 : 0) + frontAfterContents.length + 1;
+  // Each part title page comes right before the part's first chapter.
+  const chapterPageNumber = (chapterIndex: number) =>
+    firstChapterPage + chapterIndex + outline.filter(item => item.opensPart && item.chapterIndex <= chapterIndex).length;
+  if (tocEntries.length > 0) {
+    pages.push(
+      <div key="toc-page" className="book-page">
+        <div className="chapter-container">
+          <h3 className="chapter-title">{t('layoutTab.toc.heading')}</h3>
+          {tocEntries.map(entry => (
+            <div key={entry.anchor} className="content-block" style={{ display: 'flex', gap: '0.5rem', marginLeft: `${Math.max(0, entry.level - CHAPTER_LEVEL) * 1.5}em`, fontWeight: entry.level <= CHAPTER_LEVEL ? 'bold' : 'normal' }}>
+              <a href={`#${entry.anchor}`} style={{ flex: 1 }}>{entry.title}</a>
+              <span>{chapterPageNumber(entry.chapterIndex) - (entry.level === PART_LEVEL ? 1 : 0)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  frontAfterContents.forEach(pushMatterPage);
+
   // Subsequent pages: Chapters
-  project.bookStructure?.chapters.forEach(chapter => {
+  outline.forEach(({ chapter, chapterIndex, part, partIndex, opensPart }) => {
+    if (opensPart && part && partIndex !== null) {
+      // Part pages carry no page number.
+      unnumberedPages.add(part.id);
+      pages.push(
+        <div key={part.id} className="book-page">
+          <div className="chapter-container" style={{ textAlign: 'center', marginTop: '40%' }}>
+            <h2 className="book-title" id={partAnchor(partIndex)}>{part.title}</h2>
+            {part.content && <div className="content-block" dangerouslySetInnerHTML={{ __html: part.content }}></div>}
+          </div>
+        </div>
+      );
+    }
     pages.push(
       <div key={chapter.id} className="book-page">
         <div className="chapter-container">
-          <h3 className="chapter-title">{chapter.title}</h3>
+          <h3 className="chapter-title" id={chapterAnchor(chapterIndex)}>{chapter.title}</h3>
           {chapter.content && <div className="content-block" dangerouslySetInnerHTML={{ __html: chapter.content }}></div>}
           
-          {chapter.subchapters.map(subchapter => (
-            <div key={subchapter.id} className="subchapter-container">
-              <h4 className="subchapter-title">{subchapter.title}</h4>
-              {subchapter.content && <div className="content-block" dangerouslySetInnerHTML={{ __html: subchapter.content }}></div>}
-            </div>
-          ))}
+          {chapterSections(chapter).map(section => {
+            // h4 for sections, h5 and h6 for the levels below.
+            const Heading = `h${section.level + 2}` as 'h4' | 'h5' | 'h6';
+            return (
+              <div key={section.node.id} className="subchapter-container">
+                <Heading className="subchapter-title" id={subchapterAnchor(chapterIndex, ...section.path)}>{section.node.title}</Heading>
+                {section.node.content && <div className="content-block" dangerouslySetInnerHTML={{ __html: section.node.content }}></div>}
+              </div>
+            );
+          })}
         </div>
       </div>
     );
@@ -147,6 +228,25 @@ const BookPreview: React.FC<BookPreviewProps> = ({ project, layout, pageSize, re
     );
   }
   
+  // Index Page
+  const indexEntries = project.includeIndex ? buildIndexEntries(project) : [];
+  if (indexEntries.length > 0) {
+    pages.push(
+      <div key="index-page" className="book-page">
+        <div className="chapter-container">
+          <h3 className="chapter-title">{t('layoutTab.toc.indexHeading')}</h3>
+          {indexEntries.map(entry => (
+            <div key={entry.term} className="content-block" style={{ marginBottom: '0.25rem' }}>
+              <strong style={{ fontWeight: 'bold' }}>{entry.term}</strong>, {Array.from(new Set(entry.locations.map(location => chapterPageNumber(location.chapterIndex)))).join(', ')}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  matter.back.forEach(pushMatterPage);
+  
   const pagesToRender = renderAllPages ? pages : pages.slice(0, 4);
 
   return (
@@ -159,7 +259,7 @@ const BookPreview: React.FC<BookPreviewProps> = ({ project, layout, pageSize, re
           children: (
             <>
               {(page as React.ReactElement<any>).props.children}
-              <div className="page-number">{index + 1}</div>
+              {!unnumberedPages.has((page as React.ReactElement<any>).key!) && <div className="page-number">{index + 1}</div>}
             </>
           )
         })
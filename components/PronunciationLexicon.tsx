@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { useLocalization } from '../hooks/useLocalization';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './icons/LoadingSpinner';
+import TrashIcon from './icons/TrashIcon';
+import type { GlossaryTerm, PronunciationEntry } from '../types';
+import { generateAudioSegment, pcmToWav } from '../services/geminiService';
+import { applyPronunciations, generatePronunciationId, glossaryPronunciations } from '../services/pronunciation';
+
+interface PronunciationLexiconProps {
+  entries: PronunciationEntry[];
+  glossary: GlossaryTerm[];
+  voice: string;
+  disabled: boolean;
+  onChange: (entries: PronunciationEntry[]) => void;
+}
+
+/**
+ * The project's pronunciation dictionary: how the speech model should say each term, with a preview
+ * of the term read exactly as it will be in the chapters.
+ */
+const PronunciationLexicon: React.FC<PronunciationLexiconProps> = ({ entries, glossary, voice, disabled, onChange }) => {
+  const { t } = useLocalization();
+  const { showToast } = useToast();
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+
+  const missingGlossaryTerms = glossaryPronunciations(glossary, entries);
+
+  const updateEntry = (id: string, changes: Partial<PronunciationEntry>) =>
+    onChange(entries.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+
+  const handlePreview = async (entry: PronunciationEntry) => {
+    if (!entry.term.trim()) return;
+    setPreviewingId(entry.id);
+    try {
+      const pcm = await generateAudioSegment(applyPronunciations(entry.term, [entry]), voice);
+      if (!pcm) throw new Error("No audio data returned");
+      const url = URL.createObjectURL(new Blob([pcmToWav(pcm)], { type: 'audio/wav' }));
+      const audio = new Audio(url);
+      audio.onended = () => URL.revokeObjectURL(url);
+      await audio.play();
+    } catch (error) {
+      console.error("Error previewing pronunciation:", error);
+      showToast(t('audiobookTab.pronunciation.previewError'), 'error');
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {entries.map(entry => (
+          <li key={entry.id} className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+            <input
+              type="text"
+              value={entry.term}
+              onChange={e => updateEntry(entry.id, { term: e.target.value })}
+              placeholder={t('audiobookTab.pronunciation.termPlaceholder')}
+              aria-label={t('audiobookTab.pronunciation.termPlaceholder')}
+              disabled={disabled}
+              className="w-full sm:w-1/3 p-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-brand-light focus:outline-none"
+            />
+            <input
+              type="text"
+              value={entry.pronunciation}
+              onChange={e => updateEntry(entry.id, { pronunciation: e.target.value })}
+              placeholder={t('audiobookTab.pronunciation.pronunciationPlaceholder')}
+              aria-label={t('audiobookTab.pronunciation.pronunciationPlaceholder')}
+              disabled={disabled}
+              className="flex-grow p-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-brand-light focus:outline-none"
+            />
+            <button
+              onClick={() => handlePreview(entry)}
+              disabled={previewingId !== null || !entry.term.trim()}
+              className="flex items-center gap-1 text-sm text-brand-primary font-semibold hover:underline px-2 disabled:opacity-50"
+              title={t('audiobookTab.pronunciation.preview')}
+            >
+              {previewingId === entry.id ? <LoadingSpinner className="animate-spin h-4 w-4" /> : '▶'} {t('audiobookTab.pronunciation.preview')}
+            </button>
+            <button
+              onClick={() => onChange(entries.filter(other => other.id !== entry.id))}
+              disabled={disabled}
+              className="p-1 text-red-600 hover:text-red-800 disabled:opacity-50"
+              title={t('audiobookTab.pronunciation.delete')}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      {entries.length === 0 && (
+        <p className="text-sm text-neutral-medium">{t('audiobookTab.pronunciation.empty')}</p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => onChange([...entries, { id: generatePronunciationId(), term: '', pronunciation: '' }])}
+          disabled={disabled}
+          className="text-xs bg-gray-200 hover:bg-gray-300 text-neutral-dark font-semibold py-1 px-3 rounded-md disabled:opacity-50"
+        >
+          {t('audiobookTab.pronunciation.add')}
+        </button>
+        {missingGlossaryTerms.length > 0 && (
+          <button
+            onClick={() => onChange([...entries, ...missingGlossaryTerms])}
+            disabled={disabled}
+            className="text-xs bg-gray-200 hover:bg-gray-300 text-neutral-dark font-semibold py-1 px-3 rounded-md disabled:opacity-50"
+          >
+            {t('audiobookTab.pronunciation.importGlossary', { count: missingGlossaryTerms.length })}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationLexicon;
@@ -0,0 +1,355 @@
+import React, { useState, useEffect } from 'react';
+import { useLocalization } from '../hooks/useLocalization';
+import { useProject } from '../hooks/useProject';
+import { useToast } from '../hooks/useToast';
+import LoadingSpinner from './icons/LoadingSpinner';
+import type { Series, AuthorProfile } from '../types';
+import {
+  listSeries,
+  saveSeriesToStore,
+  deleteSeriesFromStore,
+  listAuthorProfiles,
+  saveAuthorProfileToStore,
+  deleteAuthorProfileFromStore,
+} from '../services/projectStore';
+import {
+  generateLibraryId,
+  seriesStyleUpdates,
+  seriesWithStylesFrom,
+  seriesVolumes,
+  nextVolumeNumber,
+  propagateSeriesStyles,
+} from '../services/series';
+
+// Author photos are stored with the profile, so they are kept small.
+const PHOTO_MAX_SIZE = 600;
+
+const resizePhoto = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const img = new Image();
+      img.onload = () => {
+        const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return reject(new Error('Could not get canvas context'));
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.85));
+      };
+      img.onerror = reject;
+      img.src = reader.result as string;
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+const emptyProfile = (): AuthorProfile => ({
+  id: generateLibraryId('author'),
+  penName: '',
+  bio: '',
+  photo: null,
+  otherBooks: [],
+  lastModified: new Date().toISOString(),
+});
+
+const SeriesAuthorPanel: React.FC = () => {
+  const { t } = useLocalization();
+  const { project, updateProject, archivedProjects, addAuthorToArchive } = useProject();
+  const { showToast } = useToast();
+  const [seriesList, setSeriesList] = useState<Series[]>([]);
+  const [profiles, setProfiles] = useState<AuthorProfile[]>([]);
+  const [newSeriesName, setNewSeriesName] = useState('');
+  const [editingProfile, setEditingProfile] = useState<AuthorProfile | null>(null);
+  const [isPropagating, setIsPropagating] = useState(false);
+
+  useEffect(() => {
+    Promise.all([listSeries(), listAuthorProfiles()])
+      .then(([storedSeries, storedProfiles]) => {
+        setSeriesList(storedSeries.sort((a, b) => a.name.localeCompare(b.name)));
+        setProfiles(storedProfiles.sort((a, b) => a.penName.localeCompare(b.penName)));
+      })
+      .catch(error => console.error('Error reading series and author profiles:', error));
+  }, []);
+
+  if (!project) return null;
+
+  const currentSeries = seriesList.find(series => series.id === project.seriesId) || null;
+  const currentProfile = profiles.find(profile => profile.id === project.authorProfileId) || null;
+
+  const handleSelectSeries = (seriesId: string) => {
+    const series = seriesList.find(item => item.id === seriesId);
+    if (!series) {
+      updateProject({ seriesId: undefined, seriesVolume: undefined });
+      return;
+    }
+    // Joining a series adopts its shared layout and cover styles.
+    updateProject({
+      seriesId: series.id,
+      seriesVolume: nextVolumeNumber(series.id, archivedProjects.filter(summary => summary.id !== project.id)),
+      ...seriesStyleUpdates(series),
+    });
+  };
+
+  const handleCreateSeries = async () => {
+    const name = newSeriesName.trim();
+    if (!name) return;
+    const series = seriesWithStylesFrom({ id: generateLibraryId('series'), name }, project);
+    try {
+      await saveSeriesToStore(series);
+      setSeriesList(prev => [...prev, series].sort((a, b) => a.name.localeCompare(b.name)));
+      updateProject({ seriesId: series.id, seriesVolume: 1 });
+      setNewSeriesName('');
+    } catch (error) {
+      console.error('Error saving series:', error);
+      showToast(t('metadataTab.library.saveError'), 'error');
+    }
+  };
+
+  const handleDeleteSeries = async () => {
+    if (!currentSeries || !window.confirm(t('metadataTab.library.confirmDeleteSeries', { name: currentSeries.name }))) return;
+    try {
+      await deleteSeriesFromStore(currentSeries.id);
+      setSeriesList(prev => prev.filter(series => series.id !== currentSeries.id));
+      updateProject({ seriesId: undefined, seriesVolume: undefined });
+    } catch (error) {
+      console.error('Error deleting series:', error);
+      showToast(t('metadataTab.library.saveError'), 'error');
+    }
+  };
+
+  const handlePropagateStyles = async () => {
+    if (!currentSeries) return;
+    setIsPropagating(true);
+    try {
+      const series = seriesWithStylesFrom(currentSeries, project);
+      await saveSeriesToStore(series);
+      setSeriesList(prev => prev.map(item => (item.id === series.id ? series : item)));
+      const updated = await propagateSeriesStyles(series, archivedProjects, project.id);
+      showToast(t('metadataTab.library.stylesPropagated', { count: updated }), 'success');
+    } catch (error) {
+      console.error('Error propagating series styles:', error);
+      showToast(t('metadataTab.library.saveError'), 'error');
+    } finally {
+      setIsPropagating(false);
+    }
+  };
+
+  const handleSelectProfile = (profileId: string) => {
+    const profile = profiles.find(item => item.id === profileId);
+    if (!profile) {
+      updateProject({ authorProfileId: undefined });
+      return;
+    }
+    updateProject({ authorProfileId: profile.id, author: profile.penName });
+    addAuthorToArchive(profile.penName);
+  };
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !editingProfile) return;
+    try {
+      const photo = await resizePhoto(file);
+      setEditingProfile(prev => (prev ? { ...prev, photo } : prev));
+    } catch (error) {
+      console.error('Error reading author photo:', error);
+      showToast(t('metadataTab.library.photoError'), 'error');
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    if (!editingProfile || !editingProfile.penName.trim()) return;
+    const profile: AuthorProfile = {
+      ...editingProfile,
+      penName: editingProfile.penName.trim(),
+      otherBooks: editingProfile.otherBooks.map(title => title.trim()).filter(Boolean),
+      lastModified: new Date().toISOString(),
+    };
+    try {
+      await saveAuthorProfileToStore(profile);
+      setProfiles(prev => [...prev.filter(item => item.id !== profile.id), profile].sort((a, b) => a.penName.localeCompare(b.penName)));
+      setEditingProfile(null);
+      updateProject({ authorProfileId: profile.id, author: profile.penName });
+      addAuthorToArchive(profile.penName);
+      showToast(t('metadataTab.library.profileSaved'), 'success');
+    } catch (error) {
+      console.error('Error saving author profile:', error);
+      showToast(t('metadataTab.library.saveError'), 'error');
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!editingProfile || !window.confirm(t('metadataTab.library.confirmDeleteProfile', { name: editingProfile.penName }))) return;
+    try {
+      await deleteAuthorProfileFromStore(editingProfile.id);
+      setProfiles(prev => prev.filter(item => item.id !== editingProfile.id));
+      if (project.authorProfileId === editingProfile.id) updateProject({ authorProfileId: undefined });
+      setEditingProfile(null);
+    } catch (error) {
+      console.error('Error deleting author profile:', error);
+      showToast(t('metadataTab.library.saveError'), 'error');
+    }
+  };
+
+  const volumes = currentSeries ? seriesVolumes(currentSeries.id, archivedProjects) : [];
+
+  return (
+    <div className="mt-8 pt-6 border-t">
+      <h3 className="text-xl font-semibold text-brand-dark mb-2">{t('metadataTab.library.title')}</h3>
+      <p className="text-neutral-medium mb-4">{t('metadataTab.library.description')}</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3 p-4 bg-neutral-light/50 rounded-lg">
+          <h4 className="font-semibold text-neutral-dark">{t('metadataTab.library.series')}</h4>
+          <div className="flex gap-2">
+            <select
+              value={project.seriesId || ''}
+              onChange={(e) => handleSelectSeries(e.target.value)}
+              className="flex-grow p-2 border rounded-md bg-white"
+              aria-label={t('metadataTab.library.series')}
+            >
+              <option value="">{t('metadataTab.library.noSeries')}</option>
+              {seriesList.map(series => <option key={series.id} value={series.id}>{series.name}</option>)}
+            </select>
+            {currentSeries && (
+              <input
+                type="number"
+                min={1}
+                value={project.seriesVolume || ''}
+                onChange={(e) => updateProject({ seriesVolume: parseInt(e.target.value, 10) || undefined })}
+                className="w-20 p-2 border rounded-md"
+                aria-label={t('metadataTab.library.volume')}
+                title={t('metadataTab.library.volume')}
+              />
+            )}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newSeriesName}
+              onChange={(e) => setNewSeriesName(e.target.value)}
+              placeholder={t('metadataTab.library.newSeriesPlaceholder')}
+              className="flex-grow p-2 border rounded-md"
+            />
+            <button
+              onClick={handleCreateSeries}
+              disabled={!newSeriesName.trim()}
+              className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50"
+            >
+              {t('metadataTab.library.createSeries')}
+            </button>
+          </div>
+          {currentSeries && (
+            <>
+              <ol className="text-sm text-neutral-dark list-decimal list-inside">
+                {volumes.map(volume => (
+                  <li key={volume.id} value={volume.seriesVolume}>{volume.bookTitle || volume.projectTitle}</li>
+                ))}
+              </ol>
+              <p className="text-xs text-neutral-medium">{t('metadataTab.library.sharedStylesHelp')}</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={handlePropagateStyles}
+                  disabled={isPropagating}
+                  className="flex-grow flex items-center justify-center bg-brand-accent hover:bg-yellow-500 text-brand-dark font-bold py-2 px-4 rounded-md transition-colors shadow disabled:opacity-50"
+                >
+                  {isPropagating ? <LoadingSpinner className="animate-spin h-5 w-5 text-brand-dark" /> : t('metadataTab.library.propagateStyles')}
+                </button>
+                <button onClick={handleDeleteSeries} className="text-sm text-red-600 font-semibold hover:underline px-2">
+                  {t('metadataTab.library.deleteSeries')}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-3 p-4 bg-neutral-light/50 rounded-lg">
+          <h4 className="font-semibold text-neutral-dark">{t('metadataTab.library.authorProfile')}</h4>
+          <div className="flex gap-2">
+            <select
+              value={project.authorProfileId || ''}
+              onChange={(e) => handleSelectProfile(e.target.value)}
+              className="flex-grow p-2 border rounded-md bg-white"
+              aria-label={t('metadataTab.library.authorProfile')}
+            >
+              <option value="">{t('metadataTab.library.noProfile')}</option>
+              {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.penName}</option>)}
+            </select>
+            {currentProfile && !editingProfile && (
+              <button onClick={() => setEditingProfile(currentProfile)} className="text-sm text-brand-primary font-semibold hover:underline px-2">
+                {t('metadataTab.library.editProfile')}
+              </button>
+            )}
+            {!editingProfile && (
+              <button onClick={() => setEditingProfile(emptyProfile())} className="text-sm text-brand-primary font-semibold hover:underline px-2">
+                {t('metadataTab.library.newProfile')}
+              </button>
+            )}
+          </div>
+          {editingProfile && (
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={editingProfile.penName}
+                onChange={(e) => setEditingProfile({ ...editingProfile, penName: e.target.value })}
+                placeholder={t('metadataTab.library.penName')}
+                className="w-full p-2 border rounded-md"
+              />
+              <textarea
+                value={editingProfile.bio}
+                onChange={(e) => setEditingProfile({ ...editingProfile, bio: e.target.value })}
+                placeholder={t('metadataTab.library.bio')}
+                rows={4}
+                className="w-full p-2 border rounded-md"
+              />
+              <div className="flex items-center gap-3">
+                {editingProfile.photo && <img src={editingProfile.photo} alt={editingProfile.penName} className="h-16 w-16 object-cover rounded-full border" />}
+                <label className="text-sm text-brand-primary font-semibold hover:underline cursor-pointer">
+                  {editingProfile.photo ? t('metadataTab.library.changePhoto') : t('metadataTab.library.addPhoto')}
+                  <input type="file" accept="image/*" className="hidden" onChange={handlePhotoChange} />
+                </label>
+                {editingProfile.photo && (
+                  <button onClick={() => setEditingProfile({ ...editingProfile, photo: null })} className="text-sm text-red-600 hover:underline">
+                    {t('metadataTab.library.removePhoto')}
+                  </button>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('metadataTab.library.otherBooks')}</label>
+                <textarea
+                  value={editingProfile.otherBooks.join('\n')}
+                  onChange={(e) => setEditingProfile({ ...editingProfile, otherBooks: e.target.value.split('\n') })}
+                  rows={3}
+                  className="w-full p-2 border rounded-md"
+                />
+              </div>
+              <div className="flex justify-between">
+                {profiles.some(profile => profile.id === editingProfile.id) ? (
+                  <button onClick={handleDeleteProfile} className="text-sm text-red-600 font-semibold hover:underline">
+                    {t('metadataTab.library.deleteProfile')}
+                  </button>
+                ) : <span />}
+                <div className="flex gap-2">
+                  <button onClick={() => setEditingProfile(null)} className="bg-gray-200 hover:bg-gray-300 text-neutral-dark font-bold py-2 px-4 rounded-md transition-colors">
+                    {t('metadataTab.library.cancel')}
+                  </button>
+                  <button
+                    onClick={handleSaveProfile}
+                    disabled={!editingProfile.penName.trim()}
+                    className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50"
+                  >
+                    {t('metadataTab.library.saveProfile')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-neutral-medium">{t('metadataTab.library.profileHelp')}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeriesAuthorPanel;
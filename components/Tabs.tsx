@@ -33,6 +33,8 @@ const Tabs: React.FC<TabsProps> = ({ activeTab, setActiveTab, project }) => {
     { key: 'validation', label: t('tabs.validation'), isEnabled: isContentComplete },
     { key: 'conversion', label: t('tabs.conversion'), isEnabled: true },
     { key: 'archive', label: t('tabs.archive'), isEnabled: isResearchComplete },
+    { key: 'history', label: t('tabs.history'), isEnabled: true },
+    { key: 'prompts', label: t('tabs.prompts'), isEnabled: true },
   ];
 
   const handleTabClick = (tab: { key: TabKey, isEnabled: boolean }) => {
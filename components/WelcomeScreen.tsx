@@ -1,16 +1,46 @@
-import React from 'react';
+import React, { useState, useRef } from 'react';
 import { useProject } from '../hooks/useProject';
 import { useLocalization } from '../hooks/useLocalization';
 import LoadingSpinner from './icons/LoadingSpinner';
+import { BUNDLE_EXTENSION } from '../services/projectBundle';
 
 const WelcomeScreen: React.FC = () => {
-    const { startNewProject, archivedProjects, loadProject, deleteProject } = useProject();
+    const { startNewProject, archivedProjects, unreadableProjects, loadProject, deleteProject, exportProject, importProject, duplicateProject } = useProject();
     const { t } = useLocalization();
+    const [loadingProjectId, setLoadingProjectId] = useState<string | null>(null);
+    // The bundle action in progress, so its own button shows the spinner.
+    const [busyAction, setBusyAction] = useState<{ projectId: string; action: 'duplicate' | 'export' } | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     const handleStartProject = () => {
         startNewProject(t('project.defaultTitle'));
     };
 
+    const handleLoad = async (projectId: string) => {
+        setLoadingProjectId(projectId);
+        await loadProject(projectId);
+        setLoadingProjectId(null);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsImporting(true);
+        await importProject(file);
+        setIsImporting(false);
+    };
+
+    const handleBundleAction = async (projectId: string, action: 'duplicate' | 'export') => {
+        setBusyAction({ projectId, action });
+        try {
+            await (action === 'duplicate' ? duplicateProject : exportProject)(projectId);
+        } finally {
+            setBusyAction(null);
+        }
+    };
+
     const handleDelete = (projectId: string, projectTitle: string) => {
         if (window.confirm(t('welcome.confirmDelete', { title: projectTitle }))) {
             deleteProject(projectId);
@@ -24,12 +54,29 @@ const WelcomeScreen: React.FC = () => {
                 <p className="text-lg text-neutral-medium mb-8">
                     {t('welcome.description')}
                 </p>
-                <button
-                    onClick={handleStartProject}
-                    className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-3 px-6 rounded-lg transition-transform transform hover:scale-105 shadow-lg"
-                >
-                    {t('welcome.startProject')}
-                </button>
+                <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+                    <button
+                        onClick={handleStartProject}
+                        className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-3 px-6 rounded-lg transition-transform transform hover:scale-105 shadow-lg"
+                    >
+                        {t('welcome.startProject')}
+                    </button>
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={isImporting}
+                        className="flex items-center gap-2 bg-white border-2 border-brand-primary text-brand-primary hover:bg-blue-50 font-bold py-3 px-6 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        {isImporting && <LoadingSpinner className="animate-spin h-5 w-5 text-brand-primary" />}
+                        {t('welcome.importProject')}
+                    </button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept={`${BUNDLE_EXTENSION},.zip`}
+                        onChange={handleImport}
+                        className="hidden"
+                    />
+                </div>
             </div>
 
             {archivedProjects.length > 0 && (
@@ -41,13 +88,34 @@ const WelcomeScreen: React.FC = () => {
                                 <div>
                                     <h3 className="font-semibold text-lg text-neutral-dark">{p.projectTitle}</h3>
                                     <p className="text-sm text-neutral-medium">{t('welcome.lastSaved')}: {new Date(p.lastSaved).toLocaleString()}</p>
+                                    {unreadableProjects[p.id] && (
+                                        <p className="text-sm text-red-600 mt-1" title={unreadableProjects[p.id]}>{t('welcome.unreadable')}</p>
+                                    )}
                                 </div>
                                 <div className="flex items-center gap-2">
                                     <button
-                                        onClick={() => loadProject(p.id)}
-                                        className="bg-brand-secondary hover:bg-brand-dark text-white font-semibold py-2 px-4 rounded-md text-sm transition-colors"
+                                        onClick={() => handleLoad(p.id)}
+                                        disabled={loadingProjectId !== null}
+                                        className="flex items-center gap-2 bg-brand-secondary hover:bg-brand-dark text-white font-semibold py-2 px-4 rounded-md text-sm transition-colors disabled:opacity-50"
                                     >
+                                        {loadingProjectId === p.id && <LoadingSpinner className="animate-spin h-4 w-4 text-white" />}
                                         {t('welcome.loadProject')}
+                                    </button>
+                                    <button
+                                        onClick={() => handleBundleAction(p.id, 'duplicate')}
+                                        disabled={busyAction !== null}
+                                        className="flex items-center gap-2 bg-white border border-brand-secondary text-brand-secondary hover:bg-blue-50 font-semibold py-2 px-4 rounded-md text-sm transition-colors disabled:opacity-50"
+                                    >
+                                        {busyAction?.projectId === p.id && busyAction.action === 'duplicate' && <LoadingSpinner className="animate-spin h-4 w-4 text-brand-secondary" />}
+                                        {t('welcome.duplicateProject')}
+                                    </button>
+                                    <button
+                                        onClick={() => handleBundleAction(p.id, 'export')}
+                                        disabled={busyAction !== null}
+                                        className="flex items-center gap-2 bg-white border border-brand-secondary text-brand-secondary hover:bg-blue-50 font-semibold py-2 px-4 rounded-md text-sm transition-colors disabled:opacity-50"
+                                    >
+                                        {busyAction?.projectId === p.id && busyAction.action === 'export' && <LoadingSpinner className="animate-spin h-4 w-4 text-brand-secondary" />}
+                                        {t('welcome.exportProject')}
                                     </button>
                                      <button
                                         onClick={() => handleDelete(p.id, p.projectTitle)}
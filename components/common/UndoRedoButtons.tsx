@@ -0,0 +1,41 @@
+import React from 'react';
+import { useLocalization } from '../../hooks/useLocalization';
+import { useProject } from '../../hooks/useProject';
+import UndoIcon from '../icons/UndoIcon';
+import RedoIcon from '../icons/RedoIcon';
+
+interface UndoRedoButtonsProps {
+  beforeAction?: () => void;
+}
+
+const UndoRedoButtons: React.FC<UndoRedoButtonsProps> = ({ beforeAction }) => {
+  const { t } = useLocalization();
+  const { undo, redo, canUndo, canRedo, undoLabel, redoLabel } = useProject();
+
+  const buttonClass = 'p-2 rounded-md text-brand-dark hover:bg-neutral-light disabled:text-gray-300 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => { beforeAction?.(); undo(); }}
+        disabled={!canUndo}
+        className={buttonClass}
+        title={undoLabel ? t('undo.undoAction', { action: undoLabel }) : t('undo.undo')}
+        aria-label={t('undo.undo')}
+      >
+        <UndoIcon />
+      </button>
+      <button
+        onClick={() => { beforeAction?.(); redo(); }}
+        disabled={!canRedo}
+        className={buttonClass}
+        title={redoLabel ? t('undo.redoAction', { action: redoLabel }) : t('undo.redo')}
+        aria-label={t('undo.redo')}
+      >
+        <RedoIcon />
+      </button>
+    </div>
+  );
+};
+
+export default UndoRedoButtons;
@@ -5,6 +5,7 @@ import Card from '../common/Card';
 import type { GlossaryTerm } from '../../types';
 import PlusIcon from '../icons/PlusIcon';
 import TrashIcon from '../icons/TrashIcon';
+import LoadingSpinner from '../icons/LoadingSpinner';
 
 
 const GlossaryManager: React.FC = () => {
@@ -247,13 +248,20 @@ const AssetsArchive: React.FC = () => {
 
 const ArchiveTab: React.FC = () => {
     const { t } = useLocalization();
-    const { project } = useProject();
+    const { project, exportProject } = useProject();
     const [activeSubTab, setActiveSubTab] = useState<'assets' | 'glossary'>('assets');
+    const [isExporting, setIsExporting] = useState(false);
 
     if (!project) {
         return <Card><p>Loading project data...</p></Card>;
     }
     
+    const handleExport = async () => {
+        setIsExporting(true);
+        await exportProject(project.id);
+        setIsExporting(false);
+    };
+
     const SubTabButton: React.FC<{ tabId: 'assets' | 'glossary'; label: string }> = ({ tabId, label }) => (
       <button
         onClick={() => setActiveSubTab(tabId)}
@@ -269,7 +277,20 @@ const ArchiveTab: React.FC = () => {
 
     return (
         <Card className="bg-neutral-light/50">
-            <h2 className="text-2xl font-bold text-brand-dark mb-4">{t('archiveTab.title')}</h2>
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-brand-dark">{t('archiveTab.title')}</h2>
+                    <p className="text-sm text-neutral-medium mt-1">{t('archiveTab.exportDescription')}</p>
+                </div>
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting}
+                    className="flex-shrink-0 flex items-center justify-center gap-2 bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition-colors shadow disabled:bg-neutral-medium"
+                >
+                    {isExporting && <LoadingSpinner />}
+                    {t('archiveTab.exportBundle')}
+                </button>
+            </div>
             
             <div className="border-b border-gray-200 mb-6">
                 <nav className="-mb-px flex space-x-4">
@@ -1,12 +1,31 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useLocalization } from '../../hooks/useLocalization';
 import { useProject } from '../../hooks/useProject';
 import Card from '../common/Card';
 import LoadingSpinner from '../icons/LoadingSpinner';
 import { useToast } from '../../hooks/useToast';
-import { generateAudioSegment, pcmToWav, parseChaptersFromMarkdown } from '../../services/geminiService';
+import { parseChaptersFromMarkdown } from '../../services/geminiService';
+import { masterWav, analyzeWav, type ComplianceReport } from '../../services/audioMastering';
+import { generateChapterAudio } from '../../services/chapterAudio';
+import { encodeMp3, exportM4b, AudiobookExportError, type AudiobookMetadata } from '../../services/audiobookExport';
+import { saveAudioAsset, loadAudioAssets, clearSpeechCache } from '../../services/projectStore';
 import AudioIcon from '../icons/AudioIcon';
 import SparklesIcon from '../icons/SparklesIcon';
+import { useJobQueue } from '../../hooks/useJobQueue';
+import { isJobActive, type AudiobookJobInput, type AudiobookJobParams } from '../../services/jobQueue';
+import {
+    TTS_VOICES,
+    DEFAULT_NARRATOR_VOICE,
+    detectNarrationSpans,
+    isScriptCurrent,
+    scriptCharacters,
+    assignMissingVoices,
+    narrationSegments,
+} from '../../services/narration';
+import { applyPronunciationsToSegments, glossaryPronunciations } from '../../services/pronunciation';
+import NarrationScriptEditor from '../NarrationScriptEditor';
+import PronunciationLexicon from '../PronunciationLexicon';
+import type { NarrationSettings, NarrationSpan, PronunciationEntry } from '../../types';
 
 interface ChapterAudio {
     title: string;
@@ -15,21 +34,67 @@ interface ChapterAudio {
     status: 'idle' | 'generating' | 'success' | 'error';
 }
 
+type ChapterDownloadFormat = 'wav' | 'mp3';
+
+const AcxReport: React.FC<{
+    report: ComplianceReport;
+    onMaster: () => void;
+    disabled: boolean;
+}> = ({ report, onMaster, disabled }) => {
+    const { t } = useLocalization();
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className={`font-bold ${report.passed ? 'text-green-700' : 'text-red-700'}`}>
+                {t(report.passed ? 'audiobookTab.acx.passed' : 'audiobookTab.acx.failed')}
+            </span>
+            {report.checks.map(check => (
+                <span key={check.id} className={`px-2 py-0.5 rounded-full ${check.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                    {check.passed ? '✓' : '✗'} {t(`audiobookTab.acx.checks.${check.id}`, check.params)}
+                </span>
+            ))}
+            {!report.passed && (
+                <button onClick={onMaster} disabled={disabled} className="font-semibold text-brand-primary hover:text-brand-secondary underline disabled:opacity-50">
+                    {t('audiobookTab.acx.master')}
+                </button>
+            )}
+        </div>
+    );
+};
+
 const AudiobookTab: React.FC = () => {
     const { t } = useLocalization();
-    const { project } = useProject();
+    const { project, updateProject } = useProject();
     const { showToast } = useToast();
+    const { jobs, enqueueJob, cancelJob } = useJobQueue();
 
-    const [selectedVoice, setSelectedVoice] = useState<string>('Puck');
     const [chapters, setChapters] = useState<ChapterAudio[]>([]);
     const [isParsing, setIsParsing] = useState(false);
     const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
-    
-    const [isGeneratingAll, setIsGeneratingAll] = useState(false);
-    const isGeneratingAllRef = useRef(false);
-
-    const voices = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr'];
+    // ACX compliance of each chapter's audio, by object URL.
+    const [reports, setReports] = useState<{ [audioUrl: string]: ComplianceReport }>({});
+    const analyzedUrlsRef = useRef(new Set<string>());
+    const [downloadFormat, setDownloadFormat] = useState<ChapterDownloadFormat>('mp3');
+    const [m4bProgress, setM4bProgress] = useState<number | null>(null);
+
+    // "Generate all" runs in the job queue: chapters keep being voiced on other tabs and after a reload.
+    const audiobookJob = [...jobs].reverse().find(job => job.kind === 'generateAudiobook');
+    const isGeneratingAll = !!audiobookJob && isJobActive(audiobookJob);
+    // Chapters of the job whose audio has already been loaded, as `${jobId}/${title}`.
+    const loadedJobAudioRef = useRef(new Set<string>());
+
+    const [scriptChapterTitle, setScriptChapterTitle] = useState<string | null>(null);
+
+    // The narrator's voice reads every chapter; chapters with a script give their dialogue to the character voices.
+    const narration: NarrationSettings = project?.narration ?? { narratorVoice: DEFAULT_NARRATOR_VOICE, characterVoices: {}, scripts: [] };
+    const selectedVoice = narration.narratorVoice;
+    const characters = scriptCharacters(project?.narration);
+    // Until the lexicon is first edited it lists the glossary terms, waiting for their pronunciation.
+    const pronunciations: PronunciationEntry[] = useMemo(
+        () => project?.pronunciations ?? glossaryPronunciations(project?.glossary),
+        [project?.pronunciations, project?.glossary]
+    );
     const regeneratedText = project?.manuscript?.regenerated;
+    const projectId = project?.id;
 
     useEffect(() => {
         // Automatically parse chapters when the tab loads if we have a regenerated manuscript
@@ -58,6 +123,63 @@ const AudiobookTab: React.FC = () => {
         }
     }, [regeneratedText]);
 
+    useEffect(() => {
+        // Restore audio generated in previous sessions, stored per chapter title
+        if (!projectId || !regeneratedText) return;
+        let cancelled = false;
+        loadAudioAssets(projectId)
+            .then(storedAudio => {
+                if (cancelled || storedAudio.size === 0) return;
+                setChapters(prev => prev.map(c => {
+                    const blob = storedAudio.get(c.title);
+                    if (!blob || c.audioBlobUrl) return c;
+                    return { ...c, audioBlobUrl: URL.createObjectURL(blob), status: 'success' };
+                }));
+            })
+            .catch(error => console.error("Errore nel caricamento degli audio salvati:", error));
+        return () => { cancelled = true; };
+    }, [projectId, regeneratedText]);
+
+    const jobItemStates = audiobookJob?.items.map(item => item.status).join() || '';
+    useEffect(() => {
+        // Chapters of the job: show which one is being voiced, and load the audio of the finished ones.
+        if (!audiobookJob || !projectId) return;
+        const statusByTitle = new Map(audiobookJob.items.map(item => [(item.input as AudiobookJobInput).title, item.status]));
+        setChapters(prev => prev.map(c => {
+            const status = statusByTitle.get(c.title);
+            if (status === 'running') return { ...c, status: 'generating' };
+            if (status === 'failed') return { ...c, status: 'error' };
+            return c.status === 'generating' && status !== 'done' ? { ...c, status: 'idle' } : c;
+        }));
+        const finished = audiobookJob.items
+            .map(item => (item.input as AudiobookJobInput).title)
+            .filter(title => statusByTitle.get(title) === 'done' && !loadedJobAudioRef.current.has(`${audiobookJob.id}/${title}`));
+        if (finished.length === 0) return;
+        finished.forEach(title => loadedJobAudioRef.current.add(`${audiobookJob.id}/${title}`));
+        loadAudioAssets(projectId)
+            .then(storedAudio => {
+                setChapters(prev => prev.map(c => {
+                    const blob = storedAudio.get(c.title);
+                    if (!blob || !finished.includes(c.title)) return c;
+                    if (c.audioBlobUrl) URL.revokeObjectURL(c.audioBlobUrl);
+                    return { ...c, audioBlobUrl: URL.createObjectURL(blob), status: 'success' };
+                }));
+            })
+            .catch(error => console.error("Errore nel caricamento degli audio salvati:", error));
+    }, [audiobookJob?.id, jobItemStates, projectId]);
+
+    const audioUrls = chapters.map(c => c.audioBlobUrl).filter((url): url is string => !!url);
+    useEffect(() => {
+        // Measure every new audio file against the ACX requirements
+        audioUrls.filter(url => !analyzedUrlsRef.current.has(url)).forEach(url => {
+            analyzedUrlsRef.current.add(url);
+            fetch(url)
+                .then(response => response.arrayBuffer())
+                .then(wav => setReports(prev => ({ ...prev, [url]: analyzeWav(wav) })))
+                .catch(error => console.error("Errore nell'analisi dell'audio:", error));
+        });
+    }, [audioUrls.join()]);
+
     useEffect(() => {
         // Cleanup object URLs on unmount
         return () => {
@@ -67,6 +189,40 @@ const AudiobookTab: React.FC = () => {
         };
     }, []); // Empty dependency ensures cleanup on unmount
 
+    const updateNarration = (changes: Partial<NarrationSettings>) => {
+        updateProject({ narration: { ...narration, ...changes } });
+    };
+
+    const scriptFor = (chapter: ChapterAudio) => narration.scripts.find(script => script.chapterTitle === chapter.title);
+
+    // Segments to voice for a chapter with an up-to-date script; the others are read by the narrator alone.
+    const chapterSegments = (chapter: ChapterAudio) => {
+        const script = scriptFor(chapter);
+        return script && isScriptCurrent(script, chapter.content) ? narrationSegments(script.spans, narration) : undefined;
+    };
+
+    const saveScript = (chapter: ChapterAudio, spans: NarrationSpan[]) => {
+        const scripts = [...narration.scripts.filter(script => script.chapterTitle !== chapter.title), { chapterTitle: chapter.title, spans }];
+        const speakers = Array.from(new Set(spans.map(span => span.character).filter((name): name is string => !!name)));
+        updateNarration({ scripts, characterVoices: assignMissingVoices(narration, speakers) });
+    };
+
+    const handleDetectScript = (chapter: ChapterAudio) => {
+        const spans = detectNarrationSpans(chapter.content);
+        saveScript(chapter, spans);
+        setScriptChapterTitle(chapter.title);
+        const dialogue = spans.filter(span => span.kind === 'dialogue');
+        showToast(t('audiobookTab.narration.detected', {
+            count: dialogue.length,
+            characters: new Set(dialogue.map(span => span.character).filter(Boolean)).size,
+        }), 'success');
+    };
+
+    const handleRemoveScript = (chapter: ChapterAudio) => {
+        updateNarration({ scripts: narration.scripts.filter(script => script.chapterTitle !== chapter.title) });
+        setScriptChapterTitle(null);
+    };
+
     const handleToggleSelect = (index: number) => {
         const newSet = new Set(selectedIndices);
         if (newSet.has(index)) {
@@ -86,21 +242,31 @@ const AudiobookTab: React.FC = () => {
         }
     };
 
+    // Chapters whose audio misses the ACX requirements are downloaded only after a confirmation.
+    const confirmNonCompliantDownload = (indices: number[]): boolean => {
+        const failing = indices.filter(i => {
+            const url = chapters[i].audioBlobUrl;
+            return url && reports[url] && !reports[url].passed;
+        });
+        return failing.length === 0 || window.confirm(t('audiobookTab.acx.downloadConfirm', { count: failing.length }));
+    };
+
     const handleDownloadSelected = async () => {
-        const selectedList = Array.from(selectedIndices).sort((a: number, b: number) => a - b);
+        const selectedList = Array.from<number>(selectedIndices).sort((a: number, b: number) => a - b);
         const readyToDownload = selectedList.filter(i => chapters[i].audioBlobUrl);
 
         if (readyToDownload.length === 0) {
             showToast("Nessun audio pronto tra i capitoli selezionati.", 'error');
             return;
         }
+        if (!confirmNonCompliantDownload(readyToDownload)) return;
 
         showToast(`Avvio download di ${readyToDownload.length} file...`, 'success');
 
         for (const index of readyToDownload) {
             const chapter = chapters[index];
             if (chapter.audioBlobUrl) {
-                handleDownload(chapter.audioBlobUrl, chapter.title);
+                await handleDownload(index);
                 // Small delay to allow browser to process downloads without blocking
                 await new Promise(resolve => setTimeout(resolve, 800));
             }
@@ -109,6 +275,7 @@ const AudiobookTab: React.FC = () => {
 
     const handleGenerateChapterAudio = async (index: number) => {
         const chapter = chapters[index];
+        if (!projectId) return;
         if (!chapter.content || !chapter.content.trim()) {
             showToast("Contenuto vuoto per questo capitolo.", 'error');
             return;
@@ -118,34 +285,62 @@ const AudiobookTab: React.FC = () => {
         setChapters(prev => prev.map((c, i) => i === index ? { ...c, status: 'generating' } : c));
 
         try {
-            const pcmBuffer = await generateAudioSegment(chapter.content, selectedVoice);
-            if (pcmBuffer) {
-                const wavBuffer = pcmToWav(pcmBuffer);
-                const blob = new Blob([wavBuffer], { type: 'audio/wav' });
-                const url = URL.createObjectURL(blob);
-                
-                // Update state with new URL
-                setChapters(prev => prev.map((c, i) => i === index ? { ...c, status: 'success', audioBlobUrl: url } : c));
-                if (!isGeneratingAllRef.current) {
-                    showToast(`Audio generato per: ${chapter.title}`, "success");
-                }
-            } else {
-                throw new Error("Nessun dato audio restituito");
-            }
-        } catch (error: any) {
+            const segments = chapterSegments(chapter) || [{ text: chapter.content, voiceName: selectedVoice }];
+            const { blob, reused } = await generateChapterAudio(projectId, chapter.title, applyPronunciationsToSegments(segments, pronunciations));
+            const url = URL.createObjectURL(blob);
+
+            // Update state with new URL
+            setChapters(prev => prev.map((c, i) => {
+                if (i !== index) return c;
+                if (c.audioBlobUrl) URL.revokeObjectURL(c.audioBlobUrl);
+                return { ...c, status: 'success', audioBlobUrl: url };
+            }));
+            showToast(reused ? t('audiobookTab.cache.reused', { title: chapter.title }) : `Audio generato per: ${chapter.title}`, "success");
+        } catch (error) {
             console.error(`Errore generazione audio capitolo ${index}:`, error);
             setChapters(prev => prev.map((c, i) => i === index ? { ...c, status: 'error' } : c));
-            if (!isGeneratingAllRef.current) {
-                showToast(t('apiErrors.generic'), 'error');
+            showToast(t('audiobookTab.cache.partialError'), 'error');
+        }
+    };
+
+    const handleMasterChapter = async (index: number) => {
+        const chapter = chapters[index];
+        if (!chapter.audioBlobUrl) return;
+
+        setChapters(prev => prev.map((c, i) => i === index ? { ...c, status: 'generating' } : c));
+
+        try {
+            const wav = await (await fetch(chapter.audioBlobUrl)).arrayBuffer();
+            const blob = new Blob([masterWav(wav)], { type: 'audio/wav' });
+            if (projectId) {
+                await saveAudioAsset(projectId, chapter.title, blob);
             }
+            const url = URL.createObjectURL(blob);
+            setChapters(prev => prev.map((c, i) => i === index ? { ...c, status: 'success', audioBlobUrl: url } : c));
+            URL.revokeObjectURL(chapter.audioBlobUrl);
+            showToast(t('audiobookTab.acx.mastered', { title: chapter.title }), 'success');
+        } catch (error) {
+            console.error(`Errore mastering audio capitolo ${index}:`, error);
+            setChapters(prev => prev.map((c, i) => i === index ? { ...c, status: 'success' } : c));
+            showToast(t('audiobookTab.acx.masterError'), 'error');
+        }
+    };
+
+    const handleClearSpeechCache = async () => {
+        if (!projectId || !window.confirm(t('audiobookTab.cache.clearConfirm'))) return;
+        try {
+            await clearSpeechCache(projectId);
+            showToast(t('audiobookTab.cache.cleared'), 'success');
+        } catch (error) {
+            console.error("Errore nella pulizia della cache audio:", error);
+            showToast(t('audiobookTab.cache.clearError'), 'error');
         }
     };
 
-    const handleGenerateAll = async () => {
-        if (isGeneratingAllRef.current) {
+    const handleGenerateAll = () => {
+        if (audiobookJob && isGeneratingAll) {
             // Stop requested
-            isGeneratingAllRef.current = false;
-            setIsGeneratingAll(false);
+            cancelJob(audiobookJob.id);
             showToast("Generazione di massa interrotta.", "success");
             return;
         }
@@ -154,43 +349,93 @@ const AudiobookTab: React.FC = () => {
 
         const hasExistingAudio = chapters.some(ch => ch.audioBlobUrl);
         if (hasExistingAudio) {
-            if (!window.confirm("Alcuni capitoli hanno già un audio. Vuoi rigenerarli tutti con la voce selezionata?")) {
+            if (!window.confirm(t('audiobookTab.cache.regenerateConfirm'))) {
                 return;
             }
         }
 
-        isGeneratingAllRef.current = true;
-        setIsGeneratingAll(true);
-        showToast("Avvio generazione di tutti i capitoli...", "success");
-
-        for (let i = 0; i < chapters.length; i++) {
-            if (!isGeneratingAllRef.current) break;
-            
-            // Skip if already generating (unlikely unless race condition)
-            if (chapters[i].status === 'generating') continue;
-
-            await handleGenerateChapterAudio(i);
-
-            // Delay to avoid rate limiting and ensure smooth UI
-            if (i < chapters.length - 1 && isGeneratingAllRef.current) {
-                await new Promise(resolve => setTimeout(resolve, 2000));
-            }
+        const items = chapters
+            .filter(chapter => chapter.content.trim())
+            .map((chapter, index) => {
+                const segments = chapterSegments(chapter);
+                const input: AudiobookJobInput = { title: chapter.title, content: chapter.content, ...(segments ? { segments } : {}) };
+                return { id: `chapter-${index}`, label: chapter.title, input };
+            });
+        const params: AudiobookJobParams = { voice: selectedVoice, pronunciations };
+        if (enqueueJob('generateAudiobook', items, params, selectedVoice)) {
+            showToast("Avvio generazione di tutti i capitoli...", "success");
         }
-
-        isGeneratingAllRef.current = false;
-        setIsGeneratingAll(false);
-        showToast("Generazione completa terminata.", "success");
     };
 
-    const handleDownload = (url: string, title: string) => {
+    const downloadFile = (url: string, fileName: string) => {
         const a = document.createElement('a');
         a.href = url;
-        a.download = `${project?.projectTitle || 'audiobook'} - ${title}.wav`;
+        a.download = fileName;
         document.body.appendChild(a);
         a.click();
         document.body.removeChild(a);
     };
 
+    const audiobookMetadata = (): AudiobookMetadata => ({
+        title: project?.bookTitle || project?.projectTitle || '',
+        author: project?.author || '',
+        narrator: project?.narrator || '',
+        year: project?.copyright?.year || new Date().getFullYear(),
+        cover: project?.coverImage || null,
+    });
+
+    const showExportError = (error: unknown) => {
+        console.error("Errore nell'esportazione dell'audiolibro:", error);
+        const reason = error instanceof AudiobookExportError ? error.reason : 'generic';
+        showToast(t(`audiobookTab.export.errors.${reason}`), 'error');
+    };
+
+    const handleDownload = async (index: number) => {
+        const chapter = chapters[index];
+        if (!chapter.audioBlobUrl) return;
+        const baseName = `${project?.projectTitle || 'audiobook'} - ${chapter.title}`;
+        if (downloadFormat === 'wav') {
+            downloadFile(chapter.audioBlobUrl, `${baseName}.wav`);
+            return;
+        }
+        try {
+            const wav = await (await fetch(chapter.audioBlobUrl)).blob();
+            const mp3 = await encodeMp3(wav, { ...audiobookMetadata(), chapterTitle: chapter.title, track: index + 1, trackCount: chapters.length });
+            const url = URL.createObjectURL(mp3);
+            downloadFile(url, `${baseName}.mp3`);
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            showExportError(error);
+        }
+    };
+
+    const handleExportM4b = async () => {
+        const withAudio = chapters.filter(chapter => chapter.audioBlobUrl);
+        if (withAudio.length === 0) {
+            showToast(t('audiobookTab.export.noAudio'), 'error');
+            return;
+        }
+        const missing = chapters.length - withAudio.length;
+        if (missing > 0 && !window.confirm(t('audiobookTab.export.missingConfirm', { count: missing }))) return;
+
+        setM4bProgress(0);
+        try {
+            const book = await Promise.all(withAudio.map(async chapter => ({
+                title: chapter.title,
+                wav: await (await fetch(chapter.audioBlobUrl!)).blob(),
+            })));
+            const m4b = await exportM4b(book, audiobookMetadata(), (done, total) => setM4bProgress(Math.round((done / total) * 100)));
+            const url = URL.createObjectURL(m4b);
+            downloadFile(url, `${project?.projectTitle || 'audiobook'}.m4b`);
+            URL.revokeObjectURL(url);
+            showToast(t('audiobookTab.export.m4bDone'), 'success');
+        } catch (error) {
+            showExportError(error);
+        } finally {
+            setM4bProgress(null);
+        }
+    };
+
     if (!regeneratedText) {
          return (
             <Card>
@@ -223,21 +468,100 @@ const AudiobookTab: React.FC = () => {
                 <label htmlFor="voice-select" className="block text-sm font-medium text-gray-700 mb-2">
                     {t('audiobookTab.voiceLabel')}
                 </label>
-                <div className="flex flex-wrap gap-3">
-                    {voices.map(voice => (
-                        <button
-                            key={voice}
-                            onClick={() => setSelectedVoice(voice)}
-                            disabled={isGeneratingAll}
-                            className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors ${
-                                selectedVoice === voice 
-                                ? 'bg-brand-primary text-white shadow-md' 
-                                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
-                            } ${isGeneratingAll ? 'opacity-50 cursor-not-allowed' : ''}`}
+                <select
+                    id="voice-select"
+                    value={selectedVoice}
+                    onChange={e => updateNarration({ narratorVoice: e.target.value })}
+                    disabled={isGeneratingAll}
+                    className="w-full sm:w-64 p-2 border border-gray-300 rounded-md text-sm bg-white disabled:opacity-50"
+                >
+                    {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                </select>
+                <p className="text-xs text-neutral-medium mt-2">{t('audiobookTab.narration.narratorHint')}</p>
+
+                {characters.length > 0 && (
+                    <div className="mt-4">
+                        <h3 className="text-sm font-semibold text-gray-700">{t('audiobookTab.narration.castTitle')}</h3>
+                        <p className="text-xs text-neutral-medium mb-2">{t('audiobookTab.narration.castHint')}</p>
+                        <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                            {characters.map(character => (
+                                <li key={character} className="flex items-center gap-2">
+                                    <span className="text-sm font-medium truncate flex-grow">{character}</span>
+                                    <select
+                                        value={narration.characterVoices[character] || selectedVoice}
+                                        onChange={e => updateNarration({ characterVoices: { ...narration.characterVoices, [character]: e.target.value } })}
+                                        disabled={isGeneratingAll}
+                                        className="p-1 border border-gray-300 rounded-md text-xs bg-white disabled:opacity-50"
+                                    >
+                                        {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                                    </select>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                <p className="text-xs text-neutral-medium mt-3">{t('audiobookTab.acx.hint')}</p>
+                <div className="flex flex-wrap items-center gap-3 mt-3">
+                    <p className="text-xs text-neutral-medium flex-1">{t('audiobookTab.cache.hint')}</p>
+                    <button
+                        onClick={handleClearSpeechCache}
+                        disabled={isGeneratingAll || chapters.some(chapter => chapter.status === 'generating')}
+                        className="text-xs bg-gray-200 hover:bg-gray-300 text-neutral-dark font-semibold py-1 px-3 rounded-md disabled:opacity-50"
+                    >
+                        {t('audiobookTab.cache.clear')}
+                    </button>
+                </div>
+            </div>
+
+            <div className="mb-8 p-4 bg-neutral-light/50 rounded-lg border border-gray-200">
+                <h3 className="font-semibold text-brand-dark">{t('audiobookTab.pronunciation.title')}</h3>
+                <p className="text-xs text-neutral-medium mb-3">{t('audiobookTab.pronunciation.hint')}</p>
+                <PronunciationLexicon
+                    entries={pronunciations}
+                    glossary={project?.glossary || []}
+                    voice={selectedVoice}
+                    disabled={isGeneratingAll}
+                    onChange={entries => updateProject({ pronunciations: entries })}
+                />
+            </div>
+
+            <div className="mb-8 p-4 bg-neutral-light/50 rounded-lg border border-gray-200">
+                <h3 className="font-semibold text-brand-dark mb-3">{t('audiobookTab.export.title')}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="narrator-input" className="block text-sm font-medium text-gray-700 mb-1">{t('audiobookTab.export.narratorLabel')}</label>
+                        <input
+                            id="narrator-input"
+                            type="text"
+                            value={project?.narrator || ''}
+                            onChange={e => updateProject({ narrator: e.target.value })}
+                            placeholder={t('audiobookTab.export.narratorPlaceholder')}
+                            className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="download-format-select" className="block text-sm font-medium text-gray-700 mb-1">{t('audiobookTab.export.formatLabel')}</label>
+                        <select
+                            id="download-format-select"
+                            value={downloadFormat}
+                            onChange={e => setDownloadFormat(e.target.value as ChapterDownloadFormat)}
+                            className="w-full p-2 border border-gray-300 rounded-md text-sm bg-white"
                         >
-                            {selectedVoice === voice ? '✓ ' : ''}{voice}
-                        </button>
-                    ))}
+                            <option value="mp3">{t('audiobookTab.export.formatMp3')}</option>
+                            <option value="wav">{t('audiobookTab.export.formatWav')}</option>
+                        </select>
+                    </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 mt-4">
+                    <button
+                        onClick={handleExportM4b}
+                        disabled={m4bProgress !== null || isGeneratingAll || !chapters.some(chapter => chapter.audioBlobUrl)}
+                        className="flex items-center gap-2 bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {m4bProgress !== null ? <LoadingSpinner /> : <AudioIcon className="w-5 h-5" />}
+                        {m4bProgress !== null ? t('audiobookTab.export.m4bProgress', { percent: m4bProgress }) : t('audiobookTab.export.m4bButton')}
+                    </button>
+                    <p className="text-xs text-neutral-medium flex-1">{t('audiobookTab.export.m4bHint')}</p>
                 </div>
             </div>
 
@@ -317,6 +641,20 @@ const AudiobookTab: React.FC = () => {
                                             #{index + 1}
                                         </span>
                                         <h4 className="font-bold text-neutral-dark truncate">{chapter.title}</h4>
+                                        {scriptFor(chapter) && (
+                                            isScriptCurrent(scriptFor(chapter)!, chapter.content)
+                                                ? <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">{t('audiobookTab.narration.multiVoice')}</span>
+                                                : <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">{t('audiobookTab.narration.outdatedBadge')}</span>
+                                        )}
+                                        <button
+                                            onClick={() => scriptFor(chapter)
+                                                ? setScriptChapterTitle(scriptChapterTitle === chapter.title ? null : chapter.title)
+                                                : handleDetectScript(chapter)}
+                                            disabled={isGeneratingAll}
+                                            className="text-xs text-brand-primary hover:text-brand-secondary underline disabled:opacity-50"
+                                        >
+                                            {t(scriptFor(chapter) ? 'audiobookTab.narration.scriptButton' : 'audiobookTab.narration.detect')}
+                                        </button>
                                     </div>
                                     <p className="text-xs text-neutral-medium mt-1 truncate">
                                         {chapter.content.substring(0, 80)}...
@@ -333,9 +671,9 @@ const AudiobookTab: React.FC = () => {
                                         <div className="flex items-center gap-3">
                                             <audio controls src={chapter.audioBlobUrl} className="h-8 w-32 sm:w-48" />
                                             <button 
-                                                onClick={() => handleDownload(chapter.audioBlobUrl!, chapter.title)}
+                                                onClick={() => confirmNonCompliantDownload([index]) && handleDownload(index)}
                                                 className="text-green-600 hover:text-green-800 p-2 rounded-full hover:bg-green-50"
-                                                title="Scarica WAV"
+                                                title={t(downloadFormat === 'wav' ? 'audiobookTab.downloadWav' : 'audiobookTab.export.downloadMp3')}
                                                 disabled={isGeneratingAll}
                                             >
                                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -366,6 +704,32 @@ const AudiobookTab: React.FC = () => {
                             {chapter.status === 'error' && (
                                 <p className="text-xs text-red-600 mt-2 ml-9">Errore durante la generazione. Riprova.</p>
                             )}
+                            {chapter.audioBlobUrl && chapter.status !== 'generating' && (
+                                <div className="mt-3 ml-9">
+                                    {reports[chapter.audioBlobUrl] ? (
+                                        <AcxReport
+                                            report={reports[chapter.audioBlobUrl]}
+                                            onMaster={() => handleMasterChapter(index)}
+                                            disabled={isGeneratingAll}
+                                        />
+                                    ) : (
+                                        <span className="text-xs text-neutral-medium">{t('audiobookTab.acx.analyzing')}</span>
+                                    )}
+                                </div>
+                            )}
+                            {scriptChapterTitle === chapter.title && scriptFor(chapter) && (
+                                <NarrationScriptEditor
+                                    spans={scriptFor(chapter)!.spans}
+                                    characters={characters}
+                                    characterVoices={narration.characterVoices}
+                                    narratorVoice={selectedVoice}
+                                    isCurrent={isScriptCurrent(scriptFor(chapter)!, chapter.content)}
+                                    disabled={isGeneratingAll || chapter.status === 'generating'}
+                                    onChange={spans => saveScript(chapter, spans)}
+                                    onDetect={() => handleDetectScript(chapter)}
+                                    onRemove={() => handleRemoveScript(chapter)}
+                                />
+                            )}
                         </div>
                     ))}
                 </div>
@@ -5,8 +5,25 @@ import { generateContentStream, processTextWithGemini } from '../../services/gem
 import Card from '../common/Card';
 import LoadingSpinner from '../icons/LoadingSpinner';
 import RichTextEditor from '../common/RichTextEditor';
-import type { Chapter, SubChapter, ToneOfVoice, TargetAudience, WritingStyle } from '../../types';
+import type { OutlineNode, ToneOfVoice, TargetAudience, WritingStyle } from '../../types';
 import SparklesIcon from '../icons/SparklesIcon';
+import UndoRedoButtons from '../common/UndoRedoButtons';
+import { useUndoRedoShortcuts } from '../../hooks/useUndoRedoShortcuts';
+import { findOutlineNode, flattenOutline, outlinePath, CHAPTER_LEVEL } from '../../services/outline';
+import { useJobQueue } from '../../hooks/useJobQueue';
+import { isJobActive, jobProgress, type ContentJobInput, type ContentJobParams } from '../../services/jobQueue';
+
+// The chapter (or part) a node belongs to, and the titles of the sections leading down to it.
+const generationContext = (nodes: OutlineNode[], nodeId: string): { chapterTitle: string; sectionTitle?: string } | null => {
+  const path = outlinePath(nodes, nodeId);
+  if (path.length === 0) return null;
+  const chapterIndex = path[0].isPart && path.length > 1 ? 1 : 0;
+  const sections = path.slice(chapterIndex + 1);
+  return {
+    chapterTitle: path[chapterIndex].title,
+    sectionTitle: sections.length > 0 ? sections.map(node => node.title).join(' › ') : undefined,
+  };
+};
 
 const countWords = (html: string) => {
     if (!html) return 0;
@@ -19,10 +36,10 @@ const countWords = (html: string) => {
 const ContentTab: React.FC = () => {
   const { t } = useLocalization();
   const { project, updateNodeContent } = useProject();
+  const { jobs, enqueueJob } = useJobQueue();
   const [selectedChapterId, setSelectedChapterId] = useState<string | null>(null);
   const [content, setContent] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generationStatus, setGenerationStatus] = useState<{ running: boolean; current: number; total: number; nodeTitle: string } | null>(null);
   const [isProcessing, setIsProcessing] = useState<string | null>(null);
 
   const [tone, setTone] = useState<ToneOfVoice>('Informal');
@@ -37,19 +54,14 @@ const ContentTab: React.FC = () => {
 
   const getSelectedItem = useCallback(() => {
     if (!selectedChapterId || !structure) return null;
-    for (const chapter of structure.chapters) {
-      if (chapter.id === selectedChapterId) return chapter;
-      const subchapter = chapter.subchapters.find(sub => sub.id === selectedChapterId);
-      if (subchapter) return subchapter;
-    }
-    return null;
+    return findOutlineNode(structure.chapters, selectedChapterId);
   }, [selectedChapterId, structure]);
 
   const selectedItem = getSelectedItem();
     
-  const parentChapter = useMemo(() => {
+  const selectedContext = useMemo(() => {
     if (!selectedChapterId || !structure) return null;
-    return structure.chapters.find(c => c.subchapters.some(s => s.id === selectedChapterId) || c.id === selectedChapterId) || null;
+    return generationContext(structure.chapters, selectedChapterId);
   }, [selectedChapterId, structure]);
 
 
@@ -84,6 +96,18 @@ const ContentTab: React.FC = () => {
         }
     }, 1000);
   };
+
+  // Saves a pending debounced edit right away, so undo/redo act on the latest text.
+  const flushPendingSave = () => {
+    if (saveTimeoutRef.current && isSavingRef.current && selectedChapterId) {
+        clearTimeout(saveTimeoutRef.current);
+        saveTimeoutRef.current = null;
+        updateNodeContent(selectedChapterId, content);
+        isSavingRef.current = false;
+    }
+  };
+
+  useUndoRedoShortcuts({ beforeAction: flushPendingSave });
   
   // Periodic auto-save to prevent data loss on long editing sessions or if the tab is closed.
   useEffect(() => {
@@ -99,7 +123,7 @@ const ContentTab: React.FC = () => {
   }, [content, selectedChapterId, getSelectedItem, updateNodeContent]);
 
   const handleGenerate = async (isRegeneration = false) => {
-    if (!project?.topic || !selectedItem || !parentChapter) return;
+    if (!project?.topic || !selectedItem || !selectedContext) return;
 
     setIsGenerating(true);
     let initialContent = '';
@@ -112,19 +136,18 @@ const ContentTab: React.FC = () => {
         setContent('');
     }
     
-    const isSubchapter = parentChapter.id !== selectedItem.id;
-
     try {
       const stream = await generateContentStream(
         project.topic, 
-        parentChapter.title, 
-        isSubchapter ? selectedItem.title : undefined,
+        selectedContext.chapterTitle, 
+        selectedContext.sectionTitle,
         wordCount,
         project.researchData?.keywords,
         tone,
         audience,
         style,
-        isRegeneration ? initialContent : undefined
+        isRegeneration ? initialContent : undefined,
+        project.bookLanguage
       );
 
       let fullText = '';
@@ -142,66 +165,25 @@ const ContentTab: React.FC = () => {
     }
   };
   
-  const handleGenerateAll = async () => {
-    if (!project?.topic || !structure) return;
-
-    const allNodes: { node: Chapter | SubChapter; parent: Chapter }[] = [];
-    structure.chapters.forEach(ch => {
-        if (ch.subchapters.length === 0) {
-            if (ch.title.trim()) allNodes.push({ node: ch, parent: ch });
-        } else {
-            ch.subchapters.forEach(sub => {
-                if (sub.title.trim()) allNodes.push({ node: sub, parent: ch });
-            });
-        }
-    });
-
-    if (allNodes.length === 0) return;
+  // "Generate all" runs in the job queue, so it keeps going on other tabs and after a reload.
+  const generationJob = jobs.find(job => job.kind === 'generateContent' && isJobActive(job));
+  const generationProgress = generationJob && jobProgress(generationJob);
+  const generatingNode = generationJob?.items.find(item => item.status === 'running');
 
-    setGenerationStatus({ running: true, current: 0, total: allNodes.length, nodeTitle: '' });
-
-    for (let i = 0; i < allNodes.length; i++) {
-        const { node, parent } = allNodes[i];
-        setGenerationStatus(prev => ({ ...prev!, current: i + 1, nodeTitle: node.title }));
-
-        const isSubchapter = node.id !== parent.id;
-
-        try {
-            const stream = await generateContentStream(
-                project.topic,
-                parent.title,
-                isSubchapter ? (node as SubChapter).title : undefined,
-                wordCount,
-                project.researchData?.keywords,
-                tone,
-                audience,
-                style
-            );
-
-            let fullText = '';
-            for await (const chunk of stream) {
-                fullText += chunk.text;
-                if (node.id === selectedChapterId) {
-                    setContent(fullText.replace(/\n/g, '<br />'));
-                }
-            }
-            updateNodeContent(node.id, fullText.replace(/\n/g, '<br />'));
+  const handleGenerateAll = () => {
+    if (!project?.topic || !structure) return;
 
-        } catch (error) {
-            console.error(`Error generating content for ${node.title}:`, error);
-            const errorMsg = `<p style="color: red;">// ERROR: ${t('contentTab.error')}</p>`;
-            updateNodeContent(node.id, errorMsg);
-            if (node.id === selectedChapterId) {
-                setContent(errorMsg);
-            }
-        }
-        
-        // Add a delay between requests to avoid rate limiting
-        if (i < allNodes.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 61000)); // 61-second delay
-        }
-    }
-    setGenerationStatus(null);
+    // Text is written for the innermost nodes: chapters without sections, and the deepest sections.
+    const items = flattenOutline(structure.chapters)
+        .filter(({ node }) => !node.isPart && node.subchapters.length === 0 && node.title.trim())
+        .map(({ node }) => {
+            const context = generationContext(structure.chapters, node.id)!;
+            const input: ContentJobInput = { nodeId: node.id, chapterTitle: context.chapterTitle, sectionTitle: context.sectionTitle };
+            return { id: node.id, label: node.title, input };
+        });
+
+    const params: ContentJobParams = { topic: project.topic, wordCount, keywords: project.researchData?.keywords, tone, audience, style, language: project.bookLanguage };
+    enqueueJob('generateContent', items, params);
   };
   
   const handleProcessText = async (action: 'improve' | 'summarize' | 'expand') => {
@@ -223,7 +205,7 @@ const ContentTab: React.FC = () => {
     }
   };
 
-  const isBusy = isGenerating || !!generationStatus?.running || !!isProcessing;
+  const isBusy = isGenerating || generationJob?.status === 'running' || !!isProcessing;
   
   const currentWordCount = countWords(content);
   const progress = wordCount > 0 ? Math.min((currentWordCount / wordCount) * 100, 100) : 0;
@@ -306,21 +288,28 @@ const ContentTab: React.FC = () => {
                 {t('contentTab.description')}
             </p>
           </div>
-          <button
-              onClick={handleGenerateAll}
-              disabled={isBusy || !structure?.chapters?.length}
-              className="flex-shrink-0 flex items-center justify-center bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-md transition-colors shadow disabled:bg-neutral-medium disabled:cursor-not-allowed"
-          >
-              {generationStatus?.running ? <LoadingSpinner /> : '🚀 ' + t('contentTab.generateAllButton')}
-          </button>
+          <div className="flex items-center gap-2">
+            <UndoRedoButtons beforeAction={flushPendingSave} />
+            <button
+                onClick={handleGenerateAll}
+                disabled={isBusy || !!generationJob || !structure?.chapters?.length}
+                className="flex-shrink-0 flex items-center justify-center bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-md transition-colors shadow disabled:bg-neutral-medium disabled:cursor-not-allowed"
+            >
+                {generationJob ? <LoadingSpinner /> : '🚀 ' + t('contentTab.generateAllButton')}
+            </button>
+          </div>
       </div>
       
-      {generationStatus?.running && (
+      {generationJob && generationProgress && (
         <div className="my-4 p-3 bg-blue-100 border border-blue-300 rounded-md text-center animate-fade-in">
             <p className="font-semibold text-blue-800">{t('contentTab.generatingAll')}</p>
-            <p className="text-sm text-blue-700">{t('contentTab.generatingProgress', { nodeTitle: generationStatus.nodeTitle, current: generationStatus.current, total: generationStatus.total })}</p>
+            <p className="text-sm text-blue-700">
+                {generatingNode
+                    ? t('contentTab.generatingProgress', { nodeTitle: generatingNode.label, current: generationProgress.done + 1, total: generationProgress.total })
+                    : t(`jobs.status.${generationJob.status}`)}
+            </p>
             <div className="w-full bg-gray-200 rounded-full h-2.5 mt-2">
-                <div className="bg-blue-600 h-2.5 rounded-full transition-all duration-300 ease-linear" style={{ width: `${(generationStatus.current / generationStatus.total) * 100}%` }}></div>
+                <div className="bg-blue-600 h-2.5 rounded-full transition-all duration-300 ease-linear" style={{ width: `${(generationProgress.done / generationProgress.total) * 100}%` }}></div>
             </div>
         </div>
       )}
@@ -329,27 +318,15 @@ const ContentTab: React.FC = () => {
         {/* Sidebar della Struttura */}
         <aside className={`w-full md:w-1/3 lg:w-1/4 p-4 bg-neutral-light rounded-lg border transition-opacity ${isBusy ? 'opacity-50 pointer-events-none' : ''}`}>
           <h3 className="font-semibold text-lg mb-3 text-brand-dark">{t('tabs.structure')}</h3>
-          {structure?.chapters.map(chapter => (
-            <div key={chapter.id} className="mb-3">
-              <button
-                onClick={() => setSelectedChapterId(chapter.id)}
-                className={`w-full text-left font-bold p-2 rounded ${selectedChapterId === chapter.id ? 'bg-brand-accent/30' : 'hover:bg-gray-200'}`}
-              >
-                {chapter.title}
-              </button>
-              <ul className="ml-4 mt-1 border-l-2 border-gray-200">
-                {chapter.subchapters.map(sub => (
-                  <li key={sub.id}>
-                    <button
-                      onClick={() => setSelectedChapterId(sub.id)}
-                      className={`w-full text-left p-2 text-sm ${selectedChapterId === sub.id ? 'bg-brand-accent/30' : 'hover:bg-gray-200'}`}
-                    >
-                      {sub.title}
-                    </button>
-                  </li>
-                ))}
-              </ul>
-            </div>
+          {flattenOutline(structure?.chapters || []).map(({ node, level }) => (
+            <button
+              key={node.id}
+              onClick={() => setSelectedChapterId(node.id)}
+              className={`w-full text-left p-2 rounded ${level <= CHAPTER_LEVEL ? 'font-bold' : 'text-sm'} ${node.isPart ? 'uppercase text-brand-primary mt-2' : ''} ${selectedChapterId === node.id ? 'bg-brand-accent/30' : 'hover:bg-gray-200'}`}
+              style={{ paddingLeft: `${0.5 + Math.max(0, level - CHAPTER_LEVEL) * 1}rem` }}
+            >
+              {node.title}
+            </button>
           ))}
         </aside>
 
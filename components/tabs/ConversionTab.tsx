@@ -7,6 +7,8 @@ import { useToast } from '../../hooks/useToast';
 import DocxIcon from '../icons/DocxIcon';
 import PdfIcon from '../icons/PdfIcon';
 import OdtIcon from '../icons/OdtIcon';
+import { generatePaperbackInterior, interiorBookFromManuscript } from '../../services/paperbackInterior';
+import { DEFAULT_BOOK_LANGUAGE } from '../../services/bookLanguage';
 
 const ConversionTab: React.FC = () => {
   const { t } = useLocalization();
@@ -40,7 +42,7 @@ const ConversionTab: React.FC = () => {
         return line.trim() ? `<p>${escape(line)}</p>` : '';
     }).join('');
     
-    return `<!DOCTYPE html><html><head><meta charset="UTF-8">${kdpStyles}</head><body>${content}</body></html>`;
+    return `<!DOCTYPE html><html lang="${project?.bookLanguage ?? DEFAULT_BOOK_LANGUAGE}"><head><meta charset="UTF-8">${kdpStyles}</head><body>${content}</body></html>`;
   };
 
   const handleConvertToDocx = async () => {
@@ -70,44 +72,24 @@ const ConversionTab: React.FC = () => {
   };
 
   const handleConvertToPdf = async () => {
-    if (!manuscriptText) return;
-    if (typeof (window as any).jspdf === 'undefined') {
-        showToast('PDF conversion library not loaded. Please try again.', 'error');
-        return;
-    }
+    if (!manuscriptText || !project) return;
     setIsConverting('pdf');
     try {
-        const { jsPDF } = (window as any).jspdf;
-        const pdf = new jsPDF('p', 'pt', 'a4');
-        const htmlContent = getFullManuscriptAsHTML(manuscriptText);
-
-        const container = document.createElement('div');
-        // Add a title page to the container
-        const titlePage = `<div style="text-align: center; height: 842pt; display: flex; flex-direction: column; justify-content: center; page-break-after: always;">
-            <h1 style="font-size: 24pt;">${project?.bookTitle || ''}</h1>
-            <p style="font-size: 18pt; font-style: italic;">${project?.subtitle || ''}</p>
-            <p style="font-size: 14pt; margin-top: 3em;">${project?.author || ''}</p>
-        </div>`;
-        const bodyContentMatch = htmlContent.match(/<body[^>]*>([\s\S]*)<\/body>/i);
-        container.innerHTML = titlePage + (bodyContentMatch ? bodyContentMatch[1] : '');
-
-
-        // Basic styling for rendering
-        container.style.width = '210mm'; // A4 width
-        container.style.fontFamily = 'Times New Roman, serif';
-        document.body.appendChild(container);
-
-        await pdf.html(container, {
-            callback: function(doc: any) {
-                doc.save(`${project?.projectTitle || 'manuscript'}.pdf`);
-                document.body.removeChild(container);
-            },
-            margin: [40, 40, 40, 40],
-            autoPaging: 'text',
-            width: 595, // A4 width in points
-            windowWidth: 595
+        // Same print interior as the Layout tab: KDP trim size, gutter and bleed from the project settings.
+        const result = await generatePaperbackInterior(interiorBookFromManuscript(manuscriptText, project), {
+            pageSize: project.pageSize || '6x9',
+            bleed: !!project.interiorBleed,
+            layout: project.layoutTemplate || 'Classic',
+            customStyles: project.customStyles,
         });
-
+        const url = URL.createObjectURL(result.blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${project.projectTitle || 'manuscript'}.pdf`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
     } catch (e) {
         console.error(e);
         showToast('Error during PDF conversion.', 'error');
@@ -4,6 +4,7 @@ import { useProject } from '../../hooks/useProject';
 import { generateCoverImages, generateCoverPromptFromBestsellers, editCoverImage, generateCoverTagline, fetchCompetitorCovers } from '../../services/geminiService';
 import Card from '../common/Card';
 import LoadingSpinner from '../icons/LoadingSpinner';
+import CoverWrapBuilder from '../CoverWrapBuilder';
 import type { BonusStickerShape } from '../../types';
 
 /**
@@ -344,8 +345,8 @@ const CoverTab: React.FC = () => {
 
     try {
       // Step 1: Generate base images from the prompt
-      const response = await generateCoverImages(prompt);
-      const base64Images = response.generatedImages.map(img => img.image.imageBytes);
+      const images = await generateCoverImages(prompt);
+      const base64Images = images.map(img => img.base64);
       
       // Step 2: Add titles, author, and sticker to the base images
       const coversWithTextPromises = base64Images.map(base64 => addTextToImage(base64));
@@ -816,6 +817,8 @@ const CoverTab: React.FC = () => {
              </div>
         </div>
       )}
+
+      <CoverWrapBuilder />
     </Card>
   );
 };
@@ -0,0 +1,291 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useLocalization } from '../../hooks/useLocalization';
+import { useProject } from '../../hooks/useProject';
+import { useToast } from '../../hooks/useToast';
+import Card from '../common/Card';
+import LoadingSpinner from '../icons/LoadingSpinner';
+import TrashIcon from '../icons/TrashIcon';
+import type { Project, ProjectSnapshotInfo } from '../../types';
+import { listSnapshots, loadSnapshotProject, deleteSnapshot } from '../../services/projectStore';
+import { diffProjects, countWords, type ChapterChangeStatus } from '../../services/projectDiff';
+
+const PREVIEW_LENGTH = 300;
+
+const statusStyles: { [key in ChapterChangeStatus]: string } = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  modified: 'bg-yellow-100 text-yellow-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+};
+
+const truncate = (text: string) => text.length > PREVIEW_LENGTH ? `${text.substring(0, PREVIEW_LENGTH)}…` : text;
+
+const HistoryTab: React.FC = () => {
+  const { t } = useLocalization();
+  const { project, createSnapshot, restoreSnapshot, restoreChapterFromSnapshot } = useProject();
+  const { showToast } = useToast();
+
+  const [snapshots, setSnapshots] = useState<ProjectSnapshotInfo[]>([]);
+  const [isLoadingList, setIsLoadingList] = useState(true);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedSnapshot, setSelectedSnapshot] = useState<ProjectSnapshotInfo | null>(null);
+  const [snapshotProject, setSnapshotProject] = useState<Project | null>(null);
+  const [isLoadingSnapshot, setIsLoadingSnapshot] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const projectId = project?.id;
+
+  const refreshSnapshots = useCallback(async () => {
+    if (!projectId) return;
+    try {
+      setSnapshots(await listSnapshots(projectId));
+    } catch (error) {
+      console.error("Error loading snapshots:", error);
+    } finally {
+      setIsLoadingList(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    refreshSnapshots();
+  }, [refreshSnapshots]);
+
+  const diff = useMemo(() => {
+    if (!project || !snapshotProject) return null;
+    return diffProjects(snapshotProject, project);
+  }, [project, snapshotProject]);
+
+  const handleCreateSnapshot = async () => {
+    setIsSaving(true);
+    try {
+      if (await createSnapshot(snapshotName.trim() || t('historyTab.defaultName'), 'manual')) {
+        setSnapshotName('');
+        showToast(t('historyTab.snapshotCreated'), 'success');
+        refreshSnapshots();
+      }
+    } catch (error) {
+      console.error("Error creating snapshot:", error);
+      showToast(t('historyTab.snapshotError'), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelect = async (snapshot: ProjectSnapshotInfo) => {
+    setSelectedSnapshot(snapshot);
+    setSnapshotProject(null);
+    setIsLoadingSnapshot(true);
+    try {
+      setSnapshotProject(await loadSnapshotProject(snapshot.id));
+    } catch (error) {
+      console.error("Error loading snapshot:", error);
+      showToast(t('historyTab.restoreError'), 'error');
+    } finally {
+      setIsLoadingSnapshot(false);
+    }
+  };
+
+  const handleDelete = async (snapshot: ProjectSnapshotInfo) => {
+    if (!window.confirm(t('historyTab.confirmDelete', { label: snapshot.label }))) return;
+    try {
+      await deleteSnapshot(snapshot);
+      if (selectedSnapshot?.id === snapshot.id) {
+        setSelectedSnapshot(null);
+        setSnapshotProject(null);
+      }
+    } catch (error) {
+      console.error("Error deleting snapshot:", error);
+      showToast(t('historyTab.deleteError'), 'error');
+    } finally {
+      refreshSnapshots();
+    }
+  };
+
+  const handleRestoreProject = async () => {
+    if (!selectedSnapshot || !window.confirm(t('historyTab.confirmRestore', { label: selectedSnapshot.label }))) return;
+    setIsRestoring(true);
+    try {
+      if (await restoreSnapshot(selectedSnapshot.id)) {
+        showToast(t('historyTab.restored'), 'success');
+      }
+    } catch (error) {
+      console.error("Error restoring snapshot:", error);
+      showToast(t('historyTab.restoreError'), 'error');
+    } finally {
+      setIsRestoring(false);
+      refreshSnapshots();
+    }
+  };
+
+  const handleRestoreChapter = async (chapterId: string, title: string) => {
+    if (!selectedSnapshot) return;
+    setIsRestoring(true);
+    try {
+      if (await restoreChapterFromSnapshot(selectedSnapshot.id, chapterId)) {
+        showToast(t('historyTab.chapterRestored', { title }), 'success');
+      }
+    } catch (error) {
+      console.error("Error restoring chapter from snapshot:", error);
+      showToast(t('historyTab.restoreError'), 'error');
+    } finally {
+      setIsRestoring(false);
+      refreshSnapshots();
+    }
+  };
+
+  if (!project) return null;
+
+  const changedChapters = diff?.chapters.filter(ch => ch.status !== 'unchanged') || [];
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-brand-dark mb-2">{t('historyTab.title')}</h2>
+      <p className="text-neutral-medium mb-6">{t('historyTab.description')}</p>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <input
+          type="text"
+          value={snapshotName}
+          onChange={e => setSnapshotName(e.target.value)}
+          placeholder={t('historyTab.namePlaceholder')}
+          className="flex-grow p-2 border border-gray-300 rounded-md"
+        />
+        <button
+          onClick={handleCreateSnapshot}
+          disabled={isSaving}
+          className="flex items-center justify-center gap-2 bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition-colors disabled:bg-neutral-medium"
+        >
+          {isSaving && <LoadingSpinner />}
+          {t('historyTab.createSnapshot')}
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6">
+        <aside className="w-full md:w-1/3 p-4 bg-neutral-light rounded-lg border">
+          <h3 className="font-semibold text-lg text-brand-dark mb-3">{t('historyTab.listTitle')}</h3>
+          {isLoadingList ? (
+            <div className="flex justify-center py-4"><LoadingSpinner className="animate-spin h-6 w-6 text-brand-primary" /></div>
+          ) : snapshots.length === 0 ? (
+            <p className="text-sm text-neutral-medium text-center py-4">{t('historyTab.noSnapshots')}</p>
+          ) : (
+            <ul className="space-y-1 max-h-[32rem] overflow-y-auto pr-2">
+              {snapshots.map(snapshot => (
+                <li key={snapshot.id} className={`flex items-start gap-2 p-2 rounded ${selectedSnapshot?.id === snapshot.id ? 'bg-brand-accent/30' : 'hover:bg-gray-200'}`}>
+                  <button onClick={() => handleSelect(snapshot)} className="flex-grow text-left min-w-0">
+                    <span className="block font-semibold text-sm truncate">{snapshot.label}</span>
+                    <span className="block text-xs text-neutral-medium">
+                      {new Date(snapshot.createdAt).toLocaleString()} · {t(`historyTab.kind.${snapshot.kind}`)}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    className="p-1 text-red-600 hover:bg-red-100 rounded-full flex-shrink-0"
+                    title={t('historyTab.deleteSnapshot')}
+                  >
+                    <TrashIcon />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+
+        <main className="w-full md:w-2/3">
+          {!selectedSnapshot ? (
+            <p className="text-neutral-medium text-center py-10">{t('historyTab.selectPrompt')}</p>
+          ) : isLoadingSnapshot || !diff ? (
+            <div className="flex justify-center py-10"><LoadingSpinner className="animate-spin h-8 w-8 text-brand-primary" /></div>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-xl font-semibold text-brand-dark">{t('historyTab.diffTitle', { label: selectedSnapshot.label })}</h3>
+                <button
+                  onClick={handleRestoreProject}
+                  disabled={isRestoring}
+                  className="bg-brand-accent hover:bg-yellow-500 text-brand-dark font-bold py-2 px-4 rounded-md transition-colors disabled:opacity-50"
+                >
+                  {t('historyTab.restoreProject')}
+                </button>
+              </div>
+
+              <section>
+                <h4 className="font-semibold text-neutral-dark mb-2">{t('historyTab.fieldsTitle')}</h4>
+                {diff.fields.length === 0 ? (
+                  <p className="text-sm text-neutral-medium">{t('historyTab.noFieldChanges')}</p>
+                ) : (
+                  <div className="space-y-3">
+                    {diff.fields.map(change => (
+                      <div key={change.field} className="border rounded-md p-3">
+                        <p className="font-semibold text-sm mb-2">{t(`historyTab.fields.${change.field}`)}</p>
+                        {change.kind === 'image' ? (
+                          <div className="grid grid-cols-2 gap-3 text-xs text-neutral-medium">
+                            <div>
+                              <p className="mb-1">{t('historyTab.snapshotVersion')}</p>
+                              {change.before ? <img src={change.before} alt="" className="w-32 rounded shadow" /> : '—'}
+                            </div>
+                            <div>
+                              <p className="mb-1">{t('historyTab.currentVersion')}</p>
+                              {change.after ? <img src={change.after} alt="" className="w-32 rounded shadow" /> : '—'}
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                            <div className="bg-red-50 p-2 rounded whitespace-pre-wrap break-words">
+                              <p className="text-xs text-neutral-medium mb-1">
+                                {t('historyTab.snapshotVersion')} ({t('historyTab.words', { count: countWords(change.before) })})
+                              </p>
+                              {truncate(change.before) || '—'}
+                            </div>
+                            <div className="bg-green-50 p-2 rounded whitespace-pre-wrap break-words">
+                              <p className="text-xs text-neutral-medium mb-1">
+                                {t('historyTab.currentVersion')} ({t('historyTab.words', { count: countWords(change.after) })})
+                              </p>
+                              {truncate(change.after) || '—'}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              <section>
+                <h4 className="font-semibold text-neutral-dark mb-2">{t('historyTab.chaptersTitle')}</h4>
+                {changedChapters.length === 0 ? (
+                  <p className="text-sm text-neutral-medium">{t('historyTab.noChapterChanges')}</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {changedChapters.map(chapter => (
+                      <li key={chapter.chapterId} className="flex flex-wrap items-center gap-3 border rounded-md p-3">
+                        <span className={`text-xs font-bold px-2 py-1 rounded ${statusStyles[chapter.status]}`}>
+                          {t(`historyTab.status.${chapter.status}`)}
+                        </span>
+                        <span className="flex-grow font-medium truncate">{chapter.title || t('historyTab.untitled')}</span>
+                        <span className="text-xs text-neutral-medium">
+                          {t('historyTab.wordsChange', { before: chapter.wordsBefore, after: chapter.wordsAfter })}
+                        </span>
+                        {chapter.status !== 'added' && (
+                          <button
+                            onClick={() => handleRestoreChapter(chapter.chapterId, chapter.title)}
+                            disabled={isRestoring}
+                            className="text-sm bg-brand-secondary hover:bg-brand-dark text-white font-semibold py-1 px-3 rounded-md transition-colors disabled:opacity-50"
+                          >
+                            {t('historyTab.restoreChapter')}
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </div>
+          )}
+        </main>
+      </div>
+    </Card>
+  );
+};
+
+export default HistoryTab;
@@ -2,11 +2,20 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useLocalization } from '../../hooks/useLocalization';
 import { useProject } from '../../hooks/useProject';
 import Card from '../common/Card';
-import type { LayoutTemplate, PageSize, Project, CustomStyles } from '../../types';
+import type { LayoutTemplate, PageSize, Project, CustomStyles, TocDepth, BookLanguage } from '../../types';
 import BookPreview from '../PromptForm';
 import LoadingSpinner from '../icons/LoadingSpinner';
 import { useToast } from '../../hooks/useToast';
-import { translateFullProject } from '../../services/geminiService';
+import { collectTranslatableTexts, applyTranslations } from '../../services/geminiService';
+import { useJobQueue } from '../../hooks/useJobQueue';
+import { isJobActive, jobProgress, jobTranslations, TRANSLATION_BATCH_SIZE, type TranslationJobInput, type TranslationJobParams } from '../../services/jobQueue';
+import { generateEpub } from '../../services/epubExport';
+import { generatePaperbackInterior, interiorBookFromProject } from '../../services/paperbackInterior';
+import { buildTocEntries, buildIndexEntries, chapterAnchor, subchapterAnchor, partAnchor, getTocDepth } from '../../services/bookToc';
+import { outlineChapters, chapterSections, CHAPTER_LEVEL } from '../../services/outline';
+import { loadSeriesMatter } from '../../services/series';
+import { BOOK_LANGUAGES, DEFAULT_BOOK_LANGUAGE } from '../../services/bookLanguage';
+import { buildBookMatter, buildMatterLabels, type BookMatter, type ResolvedMatterSection } from '../../services/bookMatter';
 
 const LayoutTemplateCard: React.FC<{
   name: LayoutTemplate;
@@ -46,15 +55,14 @@ const defaultCustomStyles: CustomStyles = {
 
 const LayoutTab: React.FC = () => {
   const { t } = useLocalization();
-  const { project, updateProject } = useProject();
+  const { project, updateProject, archivedProjects } = useProject();
   const { showToast } = useToast();
+  const { jobs, enqueueJob, dismissJob } = useJobQueue();
 
   const [isExporting, setIsExporting] = useState(false);
   const [customStyles, setCustomStyles] = useState<CustomStyles>(project?.customStyles || defaultCustomStyles);
   
-  const [targetLang, setTargetLang] = useState('it');
-  const [isTranslating, setIsTranslating] = useState(false);
-  const [translationProgress, setTranslationProgress] = useState(0);
+  const [targetLang, setTargetLang] = useState<BookLanguage>(project?.bookLanguage ?? DEFAULT_BOOK_LANGUAGE);
   const [translatedProject, setTranslatedProject] = useState<Project | null>(null);
   
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
@@ -67,6 +75,12 @@ const LayoutTab: React.FC = () => {
     }
   }, [project?.customStyles]);
 
+  // A new book language makes the previous translation stale.
+  useEffect(() => {
+    setTargetLang(project?.bookLanguage ?? DEFAULT_BOOK_LANGUAGE);
+    setTranslatedProject(null);
+  }, [project?.bookLanguage]);
+
   useEffect(() => {
     if (project?.layoutTemplate === 'Custom') {
         const handler = setTimeout(() => {
@@ -99,35 +113,47 @@ const LayoutTab: React.FC = () => {
     updateProject({ layoutTemplate: template });
   };
   
-  const handleLanguageChange = (lang: string) => {
+  const handleLanguageChange = (lang: BookLanguage) => {
     setTargetLang(lang);
     setTranslatedProject(null); 
   };
 
-  const handleTranslate = async () => {
-    if (!project || targetLang === 'it') return;
+  // The translation runs in the job queue; the translated copy is picked up here when it completes.
+  const translationJob = jobs.find(job => job.kind === 'translateProject' && (isJobActive(job) || job.status === 'completed'));
+  const isTranslating = !!translationJob;
+  const translationCounts = translationJob && jobProgress(translationJob);
+  const translationProgress = translationCounts ? Math.round((translationCounts.done / translationCounts.total) * 100) : 0;
+
+  useEffect(() => {
+    if (translationJob?.status !== 'completed' || !project) return;
+    const { targetLanguage } = translationJob.params as TranslationJobParams;
+    setTargetLang(targetLanguage);
+    setTranslatedProject({ ...applyTranslations(project, jobTranslations(translationJob)), bookLanguage: targetLanguage });
+    dismissJob(translationJob.id);
+  }, [translationJob?.status]);
+
+  const handleTranslate = () => {
+    if (!project || targetLang === project.bookLanguage) return;
     
-    setIsTranslating(true);
-    setTranslationProgress(0);
     setTranslatedProject(null);
-
-    try {
-        const translation = await translateFullProject(
-            project,
-            targetLang,
-            (progress) => setTranslationProgress(progress)
-        );
-        setTranslatedProject(translation);
-        showToast('Traduzione completata!', 'success');
-    } catch (error) {
-        console.error("Translation failed:", error);
-        showToast('Errore durante la traduzione.', 'error');
-    } finally {
-        setIsTranslating(false);
+    const texts = collectTranslatableTexts(project);
+    if (texts.length === 0) {
+        setTranslatedProject(project);
+        return;
     }
+    const items = [];
+    for (let i = 0; i < texts.length; i += TRANSLATION_BATCH_SIZE) {
+        const input: TranslationJobInput = { entries: texts.slice(i, i + TRANSLATION_BATCH_SIZE) };
+        items.push({ id: `batch-${i / TRANSLATION_BATCH_SIZE}`, label: input.entries[0].text.slice(0, 60), input });
+    }
+    const params: TranslationJobParams = { targetLanguage: targetLang, sourceLanguage: project.bookLanguage };
+    enqueueJob('translateProject', items, params, targetLang.toUpperCase());
   };
   
-  const getBookAsHtmlString = (): string => {
+  const loadBookMatter = async (projectToRender: Project): Promise<BookMatter> =>
+    buildBookMatter(projectToRender, buildMatterLabels(t), await loadSeriesMatter(projectToRender, archivedProjects));
+
+  const getBookAsHtmlString = (matter: BookMatter): string => {
     const projectToRender = translatedProject || project;
     if (!projectToRender) return '';
 
@@ -135,20 +161,45 @@ const LayoutTab: React.FC = () => {
         <div style="text-align: center; page-break-after: always;">
             <h1>${projectToRender.bookTitle || ''}</h1>
             <h2>${projectToRender.subtitle || ''}</h2>
+            ${matter.seriesLine ? `<p><em>${matter.seriesLine}</em></p>` : ''}
             <p><em>di ${projectToRender.author || ''}</em></p>
         </div>
     `;
 
-    const chaptersHtml = projectToRender.bookStructure?.chapters.map(chapter => `
+    const matterHtml = (sections: ResolvedMatterSection[]) => sections.map(section => `
+        <div id="${section.anchor}" style="page-break-before: always; text-align: ${section.rules.align};">
+            ${section.rules.heading ? `<h3>${section.title}</h3>` : ''}
+            ${section.photo ? `<p style="text-align: center;"><img src="${section.photo}" alt="${projectToRender.author}" style="max-width: 40%;" /></p>` : ''}
+            ${section.paragraphs.map(paragraph => `<p>${paragraph}</p>`).join('')}
+        </div>
+    `).join('');
+
+    const tocEntries = buildTocEntries(projectToRender);
+    const tocHtml = tocEntries.length > 0 ? `
+        <div style="page-break-before: always;">
+            <h3>${t('layoutTab.toc.heading')}</h3>
+            ${tocEntries.map(entry => `
+                <p style="margin: 0.3em 0 0.3em ${Math.max(0, entry.level - CHAPTER_LEVEL) * 1.5}em;${entry.level < CHAPTER_LEVEL ? ' font-weight: bold;' : ''}"><a href="#${entry.anchor}">${entry.title}</a></p>
+            `).join('')}
+        </div>
+    ` : '';
+
+    const chaptersHtml = outlineChapters(projectToRender.bookStructure?.chapters || []).map(({ chapter, chapterIndex, part, partIndex, opensPart }) => `
+        ${opensPart && part && partIndex !== null ? `
+        <div style="page-break-before: always; text-align: center;">
+            <h2 id="${partAnchor(partIndex)}" style="font-style: normal;">${part.title}</h2>
+            <div>${part.content || ''}</div>
+        </div>
+        ` : ''}
         <div style="page-break-before: always;">
-            <h3>${chapter.title}</h3>
+            <h3 id="${chapterAnchor(chapterIndex)}">${chapter.title}</h3>
             <div>${chapter.content || ''}</div>
-            ${chapter.subchapters.map(sub => `
-                <h4>${sub.title}</h4>
-                <div>${sub.content || ''}</div>
+            ${chapterSections(chapter).map(section => `
+                <h${section.level + 2} id="${subchapterAnchor(chapterIndex, ...section.path)}">${section.node.title}</h${section.level + 2}>
+                <div>${section.node.content || ''}</div>
             `).join('')}
         </div>
-    `).join('') || '';
+    `).join('');
 
     const appendicesHtml = projectToRender.contentBlocks?.map(block => `
          <div style="page-break-before: always;">
@@ -157,24 +208,42 @@ const LayoutTab: React.FC = () => {
          </div>
     `).join('') || '';
 
+    // HTML has no pages: the index links to the sections that mention each term.
+    const indexEntries = projectToRender.includeIndex ? buildIndexEntries(projectToRender) : [];
+    const indexHtml = indexEntries.length > 0 ? `
+        <div style="page-break-before: always;">
+            <h3>${t('layoutTab.toc.indexHeading')}</h3>
+            ${indexEntries.map(entry => `
+                <p style="margin: 0.3em 0;"><strong>${entry.term}</strong>: ${entry.locations.map(location => `<a href="#${location.anchor}">${location.title}</a>`).join(', ')}</p>
+            `).join('')}
+        </div>
+    ` : '';
+
     return `
-        <html><head><meta charset="UTF-8">
+        <html lang="${projectToRender.bookLanguage}"><head><meta charset="UTF-8">
         <style>
             body { font-family: 'Times New Roman', Times, serif; font-size: 12pt; }
             h1 { font-size: 24pt; font-weight: bold; }
             h2 { font-size: 18pt; font-style: italic; }
             h3 { font-size: 18pt; font-weight: bold; }
             h4 { font-size: 14pt; font-weight: bold; }
+            h5 { font-size: 13pt; font-weight: bold; }
+            h6 { font-size: 12pt; font-weight: bold; font-style: italic; }
         </style>
         </head><body>
             ${titlePage}
+            ${matterHtml(matter.front.filter(section => section.rules.beforeContents))}
+            ${tocHtml}
+            ${matterHtml(matter.front.filter(section => !section.rules.beforeContents))}
             ${chaptersHtml}
             ${appendicesHtml}
+            ${indexHtml}
+            ${matterHtml(matter.back)}
         </body></html>
     `;
   };
   
-  const getBookAsTxtString = (): string => {
+  const getBookAsTxtString = (matter: BookMatter): string => {
     const projectToRender = translatedProject || project;
     if (!projectToRender) return '';
 
@@ -184,30 +253,35 @@ const LayoutTab: React.FC = () => {
         return div.textContent || div.innerText || '';
     };
 
-    const titlePage = `${projectToRender.bookTitle || ''}\n${projectToRender.subtitle || ''}\ndi ${projectToRender.author || ''}\n\n\n`;
+    const titlePage = `${projectToRender.bookTitle || ''}\n${projectToRender.subtitle || ''}\n${matter.seriesLine ? `${matter.seriesLine}\n` : ''}di ${projectToRender.author || ''}\n\n\n`;
 
-    const chaptersTxt = projectToRender.bookStructure?.chapters.map(chapter => 
+    const matterTxt = (sections: ResolvedMatterSection[]) => sections.map(section =>
+        `${section.rules.heading ? `--- ${section.title} ---\n\n` : ''}${section.paragraphs.join('\n')}\n\n\n`
+    ).join('');
+
+    const chaptersTxt = outlineChapters(projectToRender.bookStructure?.chapters || []).map(({ chapter, part, opensPart }) =>
+        (opensPart && part ? `=== PARTE: ${part.title} ===\n\n${part.content ? `${brToNewline(part.content)}\n\n` : ''}` : '') +
         `--- CAPITOLO: ${chapter.title} ---\n\n${brToNewline(chapter.content || '')}\n\n` +
-        chapter.subchapters.map(sub => 
-            `--- Sottocapitolo: ${sub.title} ---\n\n${brToNewline(sub.content || '')}\n\n`
+        chapterSections(chapter).map(section =>
+            `--- ${section.level === CHAPTER_LEVEL + 1 ? 'Sottocapitolo' : 'Sezione'}: ${section.node.title} ---\n\n${brToNewline(section.node.content || '')}\n\n`
         ).join('')
-    ).join('') || '';
+    ).join('');
 
     const appendicesTxt = projectToRender.contentBlocks?.map(block => 
         `--- APPENDICE: ${block.title} ---\n\n${block.textContent}\n\n`
     ).join('') || '';
 
-    return titlePage + chaptersTxt + appendicesTxt;
+    return titlePage + matterTxt(matter.front) + chaptersTxt + appendicesTxt + matterTxt(matter.back);
   };
 
-  const handleExportHtml = () => {
+  const handleExportHtml = async () => {
     const projectToRender = translatedProject || project;
     if (!projectToRender) return;
     setIsExportMenuOpen(false);
     setIsExporting(true);
 
     try {
-        const htmlContent = getBookAsHtmlString();
+        const htmlContent = getBookAsHtmlString(await loadBookMatter(projectToRender));
         const blob = new Blob([htmlContent], { type: 'text/html;charset=utf-8;' });
         const link = document.createElement('a');
         link.href = URL.createObjectURL(blob);
@@ -223,14 +297,14 @@ const LayoutTab: React.FC = () => {
     }
   };
 
-  const handleExportTxt = () => {
+  const handleExportTxt = async () => {
     const projectToRender = translatedProject || project;
     if (!projectToRender) return;
     setIsExportMenuOpen(false);
     setIsExporting(true);
     
     try {
-        const textContent = getBookAsTxtString();
+        const textContent = getBookAsTxtString(await loadBookMatter(projectToRender));
         const blob = new Blob([textContent], { type: 'text/plain;charset=utf-8;' });
         const link = document.createElement('a');
         link.href = URL.createObjectURL(blob);
@@ -246,6 +320,86 @@ const LayoutTab: React.FC = () => {
     }
   };
 
+  const handleExportEpub = async () => {
+    const projectToRender = translatedProject || project;
+    if (!projectToRender) return;
+    setIsExportMenuOpen(false);
+    setIsExporting(true);
+
+    try {
+        const epub = await generateEpub(projectToRender, {
+            language: projectToRender.bookLanguage,
+            labels: {
+                contents: t('layoutTab.toc.heading'),
+                index: t('layoutTab.toc.indexHeading'),
+                cover: t('layoutTab.epub.cover'),
+                titlePage: t('layoutTab.epub.titlePage'),
+                byAuthor: t('layoutTab.epub.byAuthor'),
+                recipes: t('tabs.recipes'),
+                bonus: t('tabs.bonus'),
+                glossary: t('layoutTab.glossaryHeading'),
+            },
+            matter: await loadBookMatter(projectToRender),
+        });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(epub);
+        link.download = `${projectToRender.projectTitle || 'book'}.epub`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+        // KDP charges the 70% royalty plan a delivery cost based on this size.
+        updateProject({ epubFileSize: epub.size });
+    } catch (error: any) {
+        console.error("Error exporting EPUB:", error);
+        showToast(t('layoutTab.epub.error', { message: error.message }), 'error');
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
+  const handleExportPaperback = async () => {
+    const projectToRender = translatedProject || project;
+    if (!projectToRender) return;
+    setIsExportMenuOpen(false);
+    setIsExporting(true);
+
+    try {
+        const book = interiorBookFromProject(projectToRender, {
+            recipes: t('tabs.recipes'),
+            bonus: t('tabs.bonus'),
+            glossary: t('layoutTab.glossaryHeading'),
+            contents: t('layoutTab.toc.heading'),
+            index: t('layoutTab.toc.indexHeading'),
+        }, await loadBookMatter(projectToRender));
+        const result = await generatePaperbackInterior(book, {
+            pageSize: projectToRender.pageSize || '6x9',
+            bleed: !!projectToRender.interiorBleed,
+            layout: projectToRender.layoutTemplate || 'Classic',
+            customStyles: projectToRender.customStyles,
+        });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(result.blob);
+        link.download = `${projectToRender.projectTitle || 'book'} - interior.pdf`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+        // The cover wrap's spine width depends on this page count.
+        updateProject({ interiorPageCount: result.pageCount });
+        const summary = t('layoutTab.paperback.done', { pages: result.pageCount, gutter: result.gutter });
+        // Only one toast is visible at a time, so font fallbacks are reported in the same message.
+        showToast(result.substitutedFonts.length > 0
+            ? `${summary} ${t('layoutTab.paperback.fontsSubstituted', { fonts: result.substitutedFonts.join(', ') })}`
+            : summary, 'success');
+    } catch (error: any) {
+        console.error("Error exporting paperback interior:", error);
+        showToast(t('layoutTab.paperback.error', { message: error.message }), 'error');
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
     const handleCustomStyleChange = (field: keyof CustomStyles, value: string | number) => {
         setCustomStyles(prev => ({ ...prev, [field]: value }));
     };
@@ -311,9 +465,11 @@ const LayoutTab: React.FC = () => {
                 <svg className={`w-4 h-4 transition-transform ${isExportMenuOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
             </button>
             {isExportMenuOpen && (
-                <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg z-10 border">
+                <div className="absolute right-0 mt-2 w-64 bg-white rounded-md shadow-lg z-10 border">
                     <button onClick={handleExportHtml} className="w-full text-left px-4 py-2 text-sm text-neutral-dark hover:bg-neutral-light">HTML (.html)</button>
                     <button onClick={handleExportTxt} className="w-full text-left px-4 py-2 text-sm text-neutral-dark hover:bg-neutral-light">Testo (.txt)</button>
+                    <button onClick={handleExportPaperback} className="w-full text-left px-4 py-2 text-sm text-neutral-dark hover:bg-neutral-light">{t('layoutTab.paperback.menuItem')}</button>
+                    <button onClick={handleExportEpub} className="w-full text-left px-4 py-2 text-sm text-neutral-dark hover:bg-neutral-light">{t('layoutTab.epub.menuItem')}</button>
                 </div>
             )}
         </div>
@@ -347,6 +503,43 @@ const LayoutTab: React.FC = () => {
                 <option value="6x9">6" x 9" (15.24 x 22.86 cm)</option>
                 <option value="7x10">7" x 10" (17.78 x 25.4 cm)</option>
             </select>
+            <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={!!project?.interiorBleed}
+                    onChange={(e) => updateProject({ interiorBleed: e.target.checked })}
+                    className="h-4 w-4 text-brand-primary border-gray-300 rounded"
+                />
+                {t('layoutTab.paperback.bleed')}
+            </label>
+            <p className="text-xs text-neutral-medium mt-1">{t('layoutTab.paperback.bleedHelp')}</p>
+            <label htmlFor="tocDepth" className="block text-sm font-medium text-gray-700 mt-4 mb-2">
+                {t('layoutTab.toc.depthLabel')}
+            </label>
+            <select
+                id="tocDepth"
+                name="tocDepth"
+                value={project ? getTocDepth(project) : 2}
+                onChange={(e) => updateProject({ tocDepth: Number(e.target.value) as TocDepth })}
+                className="mt-1 block w-full py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-brand-light focus:border-brand-light sm:text-sm"
+            >
+                <option value={0}>{t('layoutTab.toc.depthNone')}</option>
+                <option value={1}>{t('layoutTab.toc.depthChapters')}</option>
+                <option value={2}>{t('layoutTab.toc.depthSubchapters')}</option>
+                <option value={3}>{t('layoutTab.toc.depthSubsections')}</option>
+                <option value={4}>{t('layoutTab.toc.depthAll')}</option>
+            </select>
+            <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={!!project?.includeIndex}
+                    onChange={(e) => updateProject({ includeIndex: e.target.checked })}
+                    disabled={!project?.glossary?.length}
+                    className="h-4 w-4 text-brand-primary border-gray-300 rounded"
+                />
+                {t('layoutTab.toc.includeIndex')}
+            </label>
+            <p className="text-xs text-neutral-medium mt-1">{t('layoutTab.toc.includeIndexHelp')}</p>
        </div>
     </div>
     
@@ -398,13 +591,15 @@ const LayoutTab: React.FC = () => {
         <div className="flex items-end gap-4">
             <div className="flex-grow">
                 <label htmlFor="lang-select" className="block text-sm font-medium text-gray-700">Traduci il libro in:</label>
-                <select id="lang-select" value={targetLang} onChange={e => handleLanguageChange(e.target.value)} className="mt-1 block w-full p-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-brand-light focus:border-brand-light sm:text-sm" disabled={isTranslating}>
-                    <option value="it">Italiano (Originale)</option>
-                    <option value="en">Inglese</option>
-                    <option value="de">Tedesco</option>
+                <select id="lang-select" value={targetLang} onChange={e => handleLanguageChange(e.target.value as BookLanguage)} className="mt-1 block w-full p-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-brand-light focus:border-brand-light sm:text-sm" disabled={isTranslating}>
+                    {BOOK_LANGUAGES.map(language => (
+                        <option key={language} value={language}>
+                            {language === project?.bookLanguage ? t('layoutTab.originalLanguage', { language: t(`bookLanguages.${language}`) }) : t(`bookLanguages.${language}`)}
+                        </option>
+                    ))}
                 </select>
             </div>
-            <button onClick={handleTranslate} disabled={isTranslating || targetLang === 'it'} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-md transition-colors flex items-center gap-2 disabled:bg-neutral-medium">
+            <button onClick={handleTranslate} disabled={isTranslating || targetLang === project?.bookLanguage} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-md transition-colors flex items-center gap-2 disabled:bg-neutral-medium">
                 {isTranslating ? <LoadingSpinner/> : '🌍'} Traduci
             </button>
         </div>
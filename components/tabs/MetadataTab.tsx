@@ -6,6 +6,8 @@ import { fetchAmazonCategories, generateDescription } from '../../services/gemin
 import LoadingSpinner from '../icons/LoadingSpinner';
 import type { Keyword, Project, TitleSuggestion, SubtitleSuggestion, GroundingSource } from '../../types';
 import { useToast } from '../../hooks/useToast';
+import PricingCalculator from '../PricingCalculator';
+import SeriesAuthorPanel from '../SeriesAuthorPanel';
 
 const MetadataTab: React.FC = () => {
   const { t, locale } = useLocalization();
@@ -78,7 +80,7 @@ const MetadataTab: React.FC = () => {
     setError(null);
     setDescriptionSources([]);
     try {
-        const { description: desc, sources } = await generateDescription(project.bookTitle, project.bookStructure);
+        const { description: desc, sources } = await generateDescription(project.bookTitle, project.bookStructure, project.bookLanguage);
         setDescriptionSources(sources);
         const newArchive = project.descriptionsArchive.includes(desc) 
             ? project.descriptionsArchive 
@@ -266,6 +268,10 @@ const MetadataTab: React.FC = () => {
             </select>
         </div>
 
+        <SeriesAuthorPanel />
+
+        <PricingCalculator />
+
         <div className="mt-8 pt-6 border-t text-right">
             <button
             onClick={handleSaveMetadata}
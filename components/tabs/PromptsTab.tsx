@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLocalization } from '../../hooks/useLocalization';
+import { useProject } from '../../hooks/useProject';
+import { useToast } from '../../hooks/useToast';
+import { usePromptTemplates } from '../../hooks/usePromptTemplates';
+import Card from '../common/Card';
+import {
+  PROMPT_TEMPLATES,
+  effectivePromptText,
+  fillPromptTemplate,
+  isOverrideOutdated,
+  type PromptScope,
+  type PromptTemplateId,
+} from '../../services/promptTemplates';
+
+const placeholdersIn = (text: string) => Array.from(new Set(Array.from(text.matchAll(/\{\{(\w+)\}\}/g), match => match[1])));
+
+/**
+ * The prompt templates used by the AI features, with overrides for every project or for the open one
+ * and a preview filled in with the project's values.
+ */
+const PromptsTab: React.FC = () => {
+  const { t } = useLocalization();
+  const { project } = useProject();
+  const { showToast } = useToast();
+  const { globalOverrides, projectOverrides, saveOverride, resetOverride } = usePromptTemplates();
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(PROMPT_TEMPLATES[0].id);
+  const [scope, setScope] = useState<PromptScope>('project');
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const template = PROMPT_TEMPLATES.find(candidate => candidate.id === selectedId)!;
+  const scopeOverrides = scope === 'project' ? projectOverrides : globalOverrides;
+  const override = scopeOverrides.find(candidate => candidate.templateId === selectedId);
+  // The text in effect at this scope; a project without its own override uses the global one.
+  const savedText = effectivePromptText(selectedId, globalOverrides, scope === 'project' ? projectOverrides : [], scope);
+
+  useEffect(() => {
+    setDraft(savedText);
+  }, [savedText]);
+
+  const previewText = useMemo(
+    () => (project ? fillPromptTemplate(draft, template.preview(project)) : draft),
+    [draft, template, project]
+  );
+  const unknownVariables = placeholdersIn(draft).filter(name => !template.variables.includes(name));
+  const isDirty = draft !== savedText;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveOverride(scope, selectedId, draft);
+      showToast(t('promptsTab.saved'), 'success');
+    } catch (error) {
+      console.error("Error saving prompt override:", error);
+      showToast(t('promptsTab.saveError'), 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm(t(scope === 'project' ? 'promptsTab.resetProjectConfirm' : 'promptsTab.resetGlobalConfirm'))) return;
+    try {
+      await resetOverride(scope, selectedId);
+      showToast(t('promptsTab.resetDone'), 'success');
+    } catch (error) {
+      console.error("Error resetting prompt override:", error);
+      showToast(t('promptsTab.saveError'), 'error');
+    }
+  };
+
+  const insertVariable = (name: string) => setDraft(current => `${current}{{${name}}}`);
+
+  return (
+    <Card>
+      <h2 className="text-2xl font-bold text-brand-dark mb-2">{t('promptsTab.title')}</h2>
+      <p className="text-neutral-medium mb-6">{t('promptsTab.description')}</p>
+
+      <div className="flex flex-col md:flex-row gap-6">
+        <aside className="w-full md:w-1/3 p-4 bg-neutral-light rounded-lg border">
+          <h3 className="font-semibold text-lg text-brand-dark mb-3">{t('promptsTab.listTitle')}</h3>
+          <ul className="space-y-1 max-h-[40rem] overflow-y-auto pr-2">
+            {PROMPT_TEMPLATES.map(candidate => {
+              const projectOverride = projectOverrides.find(other => other.templateId === candidate.id);
+              const globalOverride = globalOverrides.find(other => other.templateId === candidate.id);
+              const isOutdated = [projectOverride, globalOverride].some(other => other && isOverrideOutdated(other));
+              return (
+                <li key={candidate.id}>
+                  <button
+                    onClick={() => setSelectedId(candidate.id)}
+                    className={`w-full text-left p-2 rounded ${selectedId === candidate.id ? 'bg-brand-accent/30' : 'hover:bg-gray-200'}`}
+                  >
+                    <span className="block font-semibold text-sm">{t(`promptsTab.templates.${candidate.id}.name`)}</span>
+                    <span className="flex flex-wrap gap-1 mt-1">
+                      {projectOverride && <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">{t('promptsTab.badgeProject')}</span>}
+                      {globalOverride && <span className="text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">{t('promptsTab.badgeGlobal')}</span>}
+                      {isOutdated && <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">{t('promptsTab.badgeOutdated')}</span>}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </aside>
+
+        <main className="w-full md:w-2/3 space-y-5">
+          <div>
+            <h3 className="text-xl font-semibold text-brand-dark">{t(`promptsTab.templates.${template.id}.name`)}</h3>
+            <p className="text-sm text-neutral-medium">{t(`promptsTab.templates.${template.id}.description`)}</p>
+            <p className="text-xs text-neutral-medium mt-1">{t('promptsTab.version', { version: template.version })}</p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="font-semibold">{t('promptsTab.scope')}</span>
+            {(['project', 'global'] as PromptScope[]).map(option => (
+              <label key={option} className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="prompt-scope" checked={scope === option} onChange={() => setScope(option)} />
+                {t(option === 'project' ? 'promptsTab.scopeProject' : 'promptsTab.scopeGlobal')}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-neutral-medium -mt-3">{t('promptsTab.scopeHint')}</p>
+
+          {override && isOverrideOutdated(override) && (
+            <p className="p-3 rounded-md bg-yellow-50 border border-yellow-300 text-sm text-yellow-800">
+              {t('promptsTab.outdated', { version: override.baseVersion, current: template.version })}
+            </p>
+          )}
+
+          <div>
+            <label htmlFor="prompt-template-text" className="block font-semibold text-neutral-dark mb-2">{t('promptsTab.templateText')}</label>
+            <textarea
+              id="prompt-template-text"
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              rows={14}
+              className="w-full p-2 border border-gray-300 rounded-md font-mono text-sm"
+              spellCheck={false}
+            />
+            {unknownVariables.length > 0 && (
+              <p className="text-sm text-red-700 mt-1">{t('promptsTab.unknownVariables', { names: unknownVariables.join(', ') })}</p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-neutral-dark mb-2">{t('promptsTab.variables')}</h4>
+            <ul className="flex flex-wrap gap-2">
+              {template.variables.map(name => (
+                <li key={name}>
+                  <button
+                    onClick={() => insertVariable(name)}
+                    title={t(`promptsTab.variableHints.${name}`)}
+                    className="font-mono text-xs px-2 py-1 rounded bg-gray-100 hover:bg-brand-accent/30 border"
+                  >
+                    {`{{${name}}}`}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-3">
+            <button
+              onClick={handleReset}
+              disabled={!override}
+              className="bg-gray-200 hover:bg-gray-300 text-neutral-dark font-semibold py-2 px-4 rounded-md transition-colors disabled:opacity-50"
+            >
+              {t('promptsTab.reset')}
+            </button>
+            <button
+              onClick={() => setDraft(savedText)}
+              disabled={!isDirty}
+              className="bg-gray-200 hover:bg-gray-300 text-neutral-dark font-semibold py-2 px-4 rounded-md transition-colors disabled:opacity-50"
+            >
+              {t('promptsTab.discard')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || isSaving || !draft.trim()}
+              className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition-colors disabled:bg-neutral-medium"
+            >
+              {t('promptsTab.save')}
+            </button>
+          </div>
+
+          <section>
+            <h4 className="font-semibold text-neutral-dark mb-1">{t('promptsTab.preview')}</h4>
+            <p className="text-xs text-neutral-medium mb-2">{t('promptsTab.previewHint')}</p>
+            <pre className="p-3 bg-neutral-light border rounded-md text-sm whitespace-pre-wrap break-words max-h-[32rem] overflow-y-auto">{previewText}</pre>
+          </section>
+        </main>
+      </div>
+    </Card>
+  );
+};
+
+export default PromptsTab;
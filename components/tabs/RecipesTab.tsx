@@ -7,10 +7,13 @@ import LoadingSpinner from '../icons/LoadingSpinner';
 import PlusIcon from '../icons/PlusIcon';
 import TrashIcon from '../icons/TrashIcon';
 import type { ContentBlock, ContentBlockType } from '../../types';
+import UndoRedoButtons from '../common/UndoRedoButtons';
+import { useUndoRedoShortcuts } from '../../hooks/useUndoRedoShortcuts';
 
 const AppendicesTab: React.FC = () => {
   const { t } = useLocalization();
   const { project, updateProject, addContentBlock, updateContentBlock, deleteContentBlock } = useProject();
+  useUndoRedoShortcuts();
   
   const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
   const [currentBlock, setCurrentBlock] = useState<Partial<ContentBlock> | null>(null);
@@ -220,9 +223,12 @@ const AppendicesTab: React.FC = () => {
 
   return (
     <Card>
-      <div className="mb-6">
-        <h2 className="text-2xl font-bold text-brand-dark">{t('appendicesTab.title')}</h2>
-        <p className="text-neutral-medium mt-1">{t('appendicesTab.description')}</p>
+      <div className="flex justify-between items-start gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-brand-dark">{t('appendicesTab.title')}</h2>
+          <p className="text-neutral-medium mt-1">{t('appendicesTab.description')}</p>
+        </div>
+        <UndoRedoButtons />
       </div>
 
       <div className="flex flex-col md:flex-row gap-6">
@@ -2,9 +2,10 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useLocalization } from '../../hooks/useLocalization';
 import { useProject } from '../../hooks/useProject';
 import { researchTopic } from '../../services/geminiService';
+import { BOOK_LANGUAGES, marketLanguage } from '../../services/bookLanguage';
 import LoadingSpinner from '../icons/LoadingSpinner';
 import Card from '../common/Card';
-import type { GroundingSource } from '../../types';
+import type { GroundingSource, BookLanguage } from '../../types';
 
 const StatCard: React.FC<{ value: number; label: string }> = ({ value, label }) => (
   <div>
@@ -24,6 +25,13 @@ const ResearchTab: React.FC = () => {
   
   const markets = ['Italy', 'USA', 'UK', 'Germany', 'France', 'Spain', 'Canada', 'Japan'];
 
+  // The book is written for the chosen market, so its language follows the market unless changed here.
+  const handleMarketChange = (market: string) => {
+    setSelectedMarket(market);
+    const language = marketLanguage(market);
+    if (language && language !== project?.bookLanguage) updateProject({ bookLanguage: language });
+  };
+
   useEffect(() => {
     if (project?.topic) {
       setTopic(project.topic);
@@ -148,13 +156,25 @@ const ResearchTab: React.FC = () => {
               <select
                   id="market-select-research"
                   value={selectedMarket}
-                  onChange={(e) => setSelectedMarket(e.target.value)}
+                  onChange={(e) => handleMarketChange(e.target.value)}
                   className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-brand-light focus:outline-none bg-white"
                   disabled={isLoading}
               >
                   {markets.map(m => <option key={m} value={m}>{m}</option>)}
               </select>
           </div>
+          <div className="w-full sm:w-auto">
+              <label htmlFor="book-language-select" className="block text-sm font-medium text-gray-700 mb-1">{t('researchTab.bookLanguageLabel')}</label>
+              <select
+                  id="book-language-select"
+                  value={project?.bookLanguage}
+                  onChange={(e) => updateProject({ bookLanguage: e.target.value as BookLanguage })}
+                  className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-brand-light focus:outline-none bg-white"
+                  disabled={isLoading || !project}
+              >
+                  {BOOK_LANGUAGES.map(language => <option key={language} value={language}>{t(`bookLanguages.${language}`)}</option>)}
+              </select>
+          </div>
           <button
             type="submit"
             disabled={isLoading || !topic.trim()}
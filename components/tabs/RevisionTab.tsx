@@ -1,12 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useLocalization } from '../../hooks/useLocalization';
 import { useProject } from '../../hooks/useProject';
-import { analyzeManuscript, regenerateManuscript, highlightManuscriptChanges, listManuscriptChanges, generateAudioSegment, pcmToWav } from '../../services/geminiService';
+import { analyzeManuscript, splitManuscriptIntoChunks, highlightManuscriptChanges, listManuscriptChanges, generateAudioSegment, pcmToWav } from '../../services/geminiService';
 import Card from '../common/Card';
 import LoadingSpinner from '../icons/LoadingSpinner';
 import type { Project } from '../../types';
 import { useToast } from '../../hooks/useToast';
 import AudioIcon from '../icons/AudioIcon';
+import ManuscriptDiffView from '../ManuscriptDiffView';
+import { diffManuscript, mergeManuscriptDiff, type DiffGranularity } from '../../services/textDiff';
+import { useJobQueue } from '../../hooks/useJobQueue';
+import { isJobActive, jobProgress, regeneratedManuscript, type RegenerationJobInput, type RegenerationJobParams } from '../../services/jobQueue';
+import { DEFAULT_BOOK_LANGUAGE } from '../../services/bookLanguage';
 
 const MarkdownRenderer: React.FC<{ content: string }> = ({ content }) => {
     const processLines = (text: string) => {
@@ -49,8 +54,9 @@ interface TextStats {
 
 const RevisionTab: React.FC = () => {
     const { t } = useLocalization();
-    const { project, updateProject } = useProject();
+    const { project, updateProject, createSnapshot } = useProject();
     const { showToast } = useToast();
+    const { jobs, enqueueJob, dismissJob } = useJobQueue();
 
     const [manuscriptText, setManuscriptText] = useState(project?.manuscript?.text || '');
     const [isLoading, setIsLoading] = useState(false);
@@ -60,7 +66,6 @@ const RevisionTab: React.FC = () => {
     
     const [revisionAction, setRevisionAction] = useState<RevisionAction>('regenerate');
     const [isApplying, setIsApplying] = useState(false);
-    const [progress, setProgress] = useState<{ current: number, total: number } | null>(null);
 
     const [isLoadingDownload, setIsLoadingDownload] = useState(false);
     const [downloadFormat, setDownloadFormat] = useState<'txt' | 'html'>('html');
@@ -68,6 +73,9 @@ const RevisionTab: React.FC = () => {
     const [proposedRevision, setProposedRevision] = useState<{ type: RevisionAction; content: string } | null>(null);
     const [originalStats, setOriginalStats] = useState<TextStats | null>(null);
     const [revisedStats, setRevisedStats] = useState<TextStats | null>(null);
+    // A regenerated text is reviewed change by change against the original before it is saved.
+    const [diffGranularity, setDiffGranularity] = useState<DiffGranularity>('word');
+    const [rejectedChanges, setRejectedChanges] = useState<Set<string>>(new Set());
 
     // Audio generation states inside revision
     const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
@@ -105,6 +113,9 @@ const RevisionTab: React.FC = () => {
         setFileName(file.name);
         setError(null);
         setManuscriptText('');
+        if (project?.manuscript) {
+            createSnapshot(t('historyTab.autoLabels.beforeRevision'), 'auto');
+        }
         updateProject({ manuscript: undefined });
 
         try {
@@ -162,26 +173,44 @@ const RevisionTab: React.FC = () => {
     };
 
 
+    // The chapter-by-chapter regeneration runs in the job queue; its result opens the review when done.
+    const regenerationJob = jobs.find(job => job.kind === 'regenerateManuscript' && (isJobActive(job) || job.status === 'completed'));
+    const regenerationProgress = regenerationJob && jobProgress(regenerationJob);
+
+    useEffect(() => {
+        if (regenerationJob?.status !== 'completed' || !project?.manuscript) return;
+        const result = regeneratedManuscript(regenerationJob);
+        setOriginalStats(analyzeTextStats(project.manuscript.text));
+        setRevisedStats(analyzeTextStats(result));
+        setRejectedChanges(new Set());
+        setProposedRevision({ type: 'regenerate', content: result });
+        dismissJob(regenerationJob.id);
+    }, [regenerationJob?.status]);
+
     const handleApplyRevision = async () => {
         const { text, analysis } = project?.manuscript || {};
         if (!text || !analysis) return;
         
-        setIsApplying(true);
         setError(null);
-        setProgress(null);
+        if (revisionAction === 'regenerate') {
+            const params: RegenerationJobParams = {
+                analysis,
+                currentDate: new Date().toLocaleDateString('it-IT', { year: 'numeric', month: 'long', day: 'numeric' }),
+            };
+            const items = splitManuscriptIntoChunks(text).map((chunk, index) => {
+                const input: RegenerationJobInput = { chunk };
+                return { id: `chunk-${index}`, label: chunk.trim().split('\n')[0].slice(0, 80), input };
+            });
+            enqueueJob('regenerateManuscript', items, params);
+            return;
+        }
 
+        setIsApplying(true);
         try {
             let result: string;
             let updates: Partial<Project['manuscript']> = {};
 
             switch (revisionAction) {
-                case 'regenerate':
-                    result = await regenerateManuscript(
-                        text, 
-                        analysis,
-                        (current, total) => setProgress({ current, total })
-                    );
-                    break;
                 case 'highlight':
                     result = await highlightManuscriptChanges(text, analysis);
                     break;
@@ -196,17 +225,42 @@ const RevisionTab: React.FC = () => {
             setError(err.toString().toLowerCase().includes('429') ? t('apiErrors.rateLimit') : t('apiErrors.generic'));
         } finally {
             setIsApplying(false);
-            setProgress(null);
         }
     };
 
+    const manuscriptDiff = useMemo(
+        () => proposedRevision?.type === 'regenerate' && project?.manuscript
+            ? diffManuscript(project.manuscript.text, proposedRevision.content, diffGranularity)
+            : null,
+        [proposedRevision, project?.manuscript?.text, diffGranularity]
+    );
+    const mergedRevision = useMemo(
+        () => manuscriptDiff ? mergeManuscriptDiff(manuscriptDiff, rejectedChanges) : null,
+        [manuscriptDiff, rejectedChanges]
+    );
+    const mergedStats = useMemo(() => mergedRevision !== null ? analyzeTextStats(mergedRevision) : revisedStats, [mergedRevision, revisedStats]);
+
+    const handleDecideChanges = (changeIds: string[], accept: boolean) => {
+        setRejectedChanges(current => {
+            const next = new Set(current);
+            changeIds.forEach(id => (accept ? next.delete(id) : next.add(id)));
+            return next;
+        });
+    };
+
+    const handleDiffGranularityChange = (granularity: DiffGranularity) => {
+        // Change ids are not stable across granularities.
+        setDiffGranularity(granularity);
+        setRejectedChanges(new Set());
+    };
+
     const handleAcceptRevision = () => {
         if (!proposedRevision || !project?.manuscript) return;
     
         let updates: Partial<Project['manuscript']> = {};
         switch (proposedRevision.type) {
             case 'regenerate':
-                updates = { regenerated: proposedRevision.content, highlighted: undefined, changeList: undefined };
+                updates = { regenerated: mergedRevision ?? proposedRevision.content, highlighted: undefined, changeList: undefined };
                 break;
             case 'highlight':
                 updates = { highlighted: proposedRevision.content, regenerated: undefined, changeList: undefined };
@@ -215,13 +269,16 @@ const RevisionTab: React.FC = () => {
                 updates = { changeList: proposedRevision.content, regenerated: undefined, highlighted: undefined };
                 break;
         }
+        createSnapshot(t('historyTab.autoLabels.beforeRevision'), 'auto');
         updateProject({ manuscript: { ...project.manuscript, ...updates } });
         setProposedRevision(null);
+        setRejectedChanges(new Set());
         showToast('Revisione applicata con successo!', 'success');
     };
     
     const handleCancelRevision = () => {
         setProposedRevision(null);
+        setRejectedChanges(new Set());
     };
 
     const createHtmlForExport = (text: string): string => {
@@ -277,7 +334,7 @@ const RevisionTab: React.FC = () => {
             return line.trim() ? `<p>${escape(line)}</p>` : '';
         }).join('');
         
-        return `<!DOCTYPE html><html><head><meta charset="UTF-8">${kdpStyles}</head><body>${content}</body></html>`;
+        return `<!DOCTYPE html><html lang="${project?.bookLanguage ?? DEFAULT_BOOK_LANGUAGE}"><head><meta charset="UTF-8">${kdpStyles}</head><body>${content}</body></html>`;
     };
 
     const handleDownload = async () => {
@@ -345,6 +402,9 @@ const RevisionTab: React.FC = () => {
     };
 
     const handleReset = () => {
+        if (project?.manuscript) {
+            createSnapshot(t('historyTab.autoLabels.beforeRevision'), 'auto');
+        }
         updateProject({ manuscript: undefined });
         setManuscriptText('');
         setFileName('');
@@ -429,25 +489,27 @@ const RevisionTab: React.FC = () => {
                     <div className="flex-shrink-0 lg:mt-4">
                         <button
                             onClick={handleApplyRevision}
-                            disabled={isApplying}
+                            disabled={isApplying || !!regenerationJob}
                             className="flex items-center bg-brand-accent hover:bg-yellow-500 text-brand-dark font-bold py-3 px-8 rounded-lg shadow-md disabled:bg-neutral-medium"
                         >
-                            {isApplying ? <LoadingSpinner className="text-brand-dark"/> : '✨'}
+                            {isApplying || regenerationJob ? <LoadingSpinner className="text-brand-dark"/> : '✨'}
                             <span className="ml-2">{t('revisionTab.applyButton')}</span>
                         </button>
                     </div>
                 </div>
-                 {isApplying && progress && (
+                 {regenerationJob && regenerationProgress && (
                      <div className="mt-4 p-3 bg-white border rounded-md">
                          <p className="text-center text-sm font-semibold text-brand-primary mb-2">
-                             Elaborazione capitolo {progress.current} di {progress.total}...
+                             {regenerationJob.status === 'running'
+                                 ? `Elaborazione capitolo ${Math.min(regenerationProgress.done + 1, regenerationProgress.total)} di ${regenerationProgress.total}...`
+                                 : t(`jobs.status.${regenerationJob.status}`)}
                          </p>
                          <div className="w-full bg-gray-200 rounded-full h-2.5">
-                             <div className="bg-brand-primary h-2.5 rounded-full transition-all duration-300" style={{ width: `${(progress.current / progress.total) * 100}%` }}></div>
+                             <div className="bg-brand-primary h-2.5 rounded-full transition-all duration-300" style={{ width: `${(regenerationProgress.done / regenerationProgress.total) * 100}%` }}></div>
                          </div>
                      </div>
                  )}
-                 {isApplying && !progress && <p className="text-center mt-3 text-sm">{t('revisionTab.applying')}</p>}
+                 {isApplying && <p className="text-center mt-3 text-sm">{t('revisionTab.applying')}</p>}
             </div>
             {(manuscript?.regenerated || manuscript?.highlighted || manuscript?.changeList) && (
                 <div className="animate-fade-in">
@@ -510,6 +572,18 @@ const RevisionTab: React.FC = () => {
             case 'list':
                 return <MarkdownRenderer content={proposedRevision.content} />;
             case 'regenerate':
+                if (manuscriptDiff) {
+                    return (
+                        <ManuscriptDiffView
+                            diff={manuscriptDiff}
+                            rejected={rejectedChanges}
+                            onDecide={handleDecideChanges}
+                            granularity={diffGranularity}
+                            onGranularityChange={handleDiffGranularityChange}
+                        />
+                    );
+                }
+                return proposedRevision.content.split('\n').map((p, i) => <p className="mb-2" key={i}>{p || <>&nbsp;</>}</p>);
             default:
                 return proposedRevision.content.split('\n').map((p, i) => <p className="mb-2" key={i}>{p || <>&nbsp;</>}</p>);
         }
@@ -518,7 +592,7 @@ const RevisionTab: React.FC = () => {
 
     return (
         <Card>
-            {proposedRevision && originalStats && revisedStats && (
+            {proposedRevision && originalStats && mergedStats && (
                 <div className="fixed inset-0 bg-black/60 z-30 flex items-center justify-center p-4 animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="revision-title">
                     <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
                         <h3 id="revision-title" className="text-xl font-bold p-4 border-b text-brand-dark">{t('revisionTab.confirmRevisionTitle')}</h3>
@@ -534,10 +608,10 @@ const RevisionTab: React.FC = () => {
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        <StatsRow label={t('revisionTab.words')} originalValue={originalStats.words} revisedValue={revisedStats.words} />
-                                        <StatsRow label={t('revisionTab.chapters')} originalValue={originalStats.chapters} revisedValue={revisedStats.chapters} />
-                                        <StatsRow label={t('revisionTab.subchapters')} originalValue={originalStats.subchapters} revisedValue={revisedStats.subchapters} />
-                                        <StatsRow label={t('revisionTab.pages_approx')} originalValue={originalStats.pages} revisedValue={revisedStats.pages} />
+                                        <StatsRow label={t('revisionTab.words')} originalValue={originalStats.words} revisedValue={mergedStats!.words} />
+                                        <StatsRow label={t('revisionTab.chapters')} originalValue={originalStats.chapters} revisedValue={mergedStats!.chapters} />
+                                        <StatsRow label={t('revisionTab.subchapters')} originalValue={originalStats.subchapters} revisedValue={mergedStats!.subchapters} />
+                                        <StatsRow label={t('revisionTab.pages_approx')} originalValue={originalStats.pages} revisedValue={mergedStats!.pages} />
                                     </tbody>
                                 </table>
                             </div>
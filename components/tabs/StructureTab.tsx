@@ -1,12 +1,28 @@
-import React, { useState, useRef } from 'react';
+import React, { useState } from 'react';
 import { useLocalization } from '../../hooks/useLocalization';
 import { useProject } from '../../hooks/useProject';
 import { generateStructure } from '../../services/geminiService';
 import LoadingSpinner from '../icons/LoadingSpinner';
 import Card from '../common/Card';
-import type { BookStructure } from '../../types';
+import type { OutlineNode } from '../../types';
 import TrashIcon from '../icons/TrashIcon';
 import PlusIcon from '../icons/PlusIcon';
+import UndoRedoButtons from '../common/UndoRedoButtons';
+import BookMatterEditor from '../BookMatterEditor';
+import ManuscriptImporter from '../ManuscriptImporter';
+import { useUndoRedoShortcuts } from '../../hooks/useUndoRedoShortcuts';
+import {
+  outlineChapters,
+  outlineParts,
+  normalizeOutline,
+  PART_LEVEL,
+  CHAPTER_LEVEL,
+  MAX_OUTLINE_LEVEL,
+  type OutlineDropPosition,
+} from '../../services/outline';
+
+// Share of a row's height, at its top and bottom edges, that drops before or after it instead of inside.
+const DROP_EDGE = 0.25;
 
 const StructureTab: React.FC = () => {
   const { t } = useLocalization();
@@ -14,22 +30,25 @@ const StructureTab: React.FC = () => {
     project, 
     updateProject,
     setBookStructure, 
-    updateChapterTitle, 
-    updateSubchapterTitle,
+    updateNodeTitle,
+    addPart,
     addChapter,
-    deleteChapter,
     addSubchapter,
-    deleteSubchapter,
+    deleteNode,
     reorderStructure,
+    promoteNode,
+    demoteNode,
   } = useProject();
+  useUndoRedoShortcuts();
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [useParts, setUseParts] = useState(false);
+  const [sectionDepth, setSectionDepth] = useState(2);
 
   // Drag and Drop State
   const [draggedId, setDraggedId] = useState<string | null>(null);
-  const [dragOverId, setDragOverId] = useState<string | null>(null);
-  const dragCounter = useRef(0);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: OutlineDropPosition } | null>(null);
 
   const generateUniqueId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
@@ -48,21 +67,9 @@ const StructureTab: React.FC = () => {
     setIsLoading(true);
     setError(null);
     try {
-      const structure = await generateStructure(project.topic, project.bookTitle, project.subtitle, project.researchData.keywords);
+      const structure = await generateStructure(project.topic, project.bookTitle, project.subtitle, project.researchData.keywords, { parts: useParts, depth: sectionDepth, language: project.bookLanguage });
       if (structure) {
-        const structureWithIds: BookStructure = {
-            chapters: structure.chapters.map((chapter) => ({
-                ...chapter,
-                id: chapter.id || generateUniqueId('ch'),
-                content: chapter.content || '',
-                subchapters: chapter.subchapters.map((sub) => ({
-                    ...sub,
-                    id: sub.id || generateUniqueId('sub'),
-                    content: sub.content || '',
-                }))
-            }))
-        };
-        setBookStructure(structureWithIds);
+        setBookStructure({ chapters: normalizeOutline(structure.chapters, generateUniqueId) });
       }
     } catch (err: any) {
       const errorMessage = err.toString().toLowerCase();
@@ -79,61 +86,116 @@ const StructureTab: React.FC = () => {
     }
   };
 
-  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, id: string, type: 'chapter' | 'subchapter', parentId?: string) => {
+  const handleDragStart = (e: React.DragEvent<HTMLDivElement>, id: string) => {
+    e.stopPropagation();
     e.dataTransfer.setData('text/plain', id);
-    e.dataTransfer.setData('type', type);
-    if (parentId) {
-      e.dataTransfer.setData('parentId', parentId);
-    }
+    e.dataTransfer.effectAllowed = 'move';
     setDraggedId(id);
   };
-  
-  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>, id: string, type: 'chapter' | 'subchapter', parentId?: string) => {
-    e.preventDefault();
-    const draggedType = e.dataTransfer.getData('type');
-    let isTargetValid = false;
-
-    if (draggedType === 'chapter' && type === 'chapter') {
-        isTargetValid = true;
-    } else if (draggedType === 'subchapter' && type === 'subchapter') {
-        const draggedParentId = e.dataTransfer.getData('parentId');
-        if (draggedParentId === parentId) {
-            isTargetValid = true;
-        }
-    }
-
-    if (isTargetValid) {
-        dragCounter.current++;
-        setDragOverId(id);
-    }
-  };
 
-  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
-      e.preventDefault();
-      dragCounter.current--;
-      if (dragCounter.current === 0) {
-          setDragOverId(null);
-      }
+  // The drop position follows the pointer: near the top or bottom edge of a row the node lands before or
+  // after it, in the middle it becomes the row's last child. Moves that break the outline rules are ignored.
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, node: OutlineNode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!draggedId || draggedId === node.id) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    const position: OutlineDropPosition = offset < DROP_EDGE ? 'before' : offset > 1 - DROP_EDGE ? 'after' : 'inside';
+    if (dropTarget?.id !== node.id || dropTarget.position !== position) setDropTarget({ id: node.id, position });
   };
 
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>, targetId: string) => {
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
+    e.stopPropagation();
     const sourceId = e.dataTransfer.getData('text/plain');
-    if (sourceId && sourceId !== targetId) {
-        reorderStructure(sourceId, targetId);
+    if (sourceId && dropTarget && sourceId !== dropTarget.id) {
+        reorderStructure(sourceId, dropTarget.id, dropTarget.position);
     }
-    setDraggedId(null);
-    setDragOverId(null);
-    dragCounter.current = 0;
+    handleDragEnd();
   };
   
   const handleDragEnd = () => {
       setDraggedId(null);
-      setDragOverId(null);
-      dragCounter.current = 0;
+      setDropTarget(null);
   };
   
   const currentStructure = project?.bookStructure;
+  const chapterNumbers = new Map(outlineChapters(currentStructure?.chapters || []).map(item => [item.chapter.id, item.chapterIndex + 1]));
+  const partNumbers = new Map(outlineParts(currentStructure?.chapters || []).map((part, index) => [part.id, index + 1]));
+
+  // A plain render function rather than a component, so the title inputs keep their focus while typing.
+  const renderNode = (node: OutlineNode, level: number, siblings: OutlineNode[], parentId: string | null): React.ReactNode => {
+    const index = siblings.indexOf(node);
+    const drop = dropTarget?.id === node.id ? dropTarget.position : null;
+    const childLevel = node.isPart ? CHAPTER_LEVEL : level + 1;
+    const label = level === PART_LEVEL
+      ? `${t('structureTab.part')} ${partNumbers.get(node.id)}:`
+      : level === CHAPTER_LEVEL ? `${t('structureTab.chapter')} ${chapterNumbers.get(node.id) ?? ''}:` : null;
+    const isBox = level <= CHAPTER_LEVEL && parentId === null;
+    return (
+      <div
+        key={node.id}
+        className={isBox ? `p-4 border rounded-lg ${node.isPart ? 'border-brand-primary bg-blue-50/50' : 'border-gray-200 bg-neutral-light/50'}` : level === CHAPTER_LEVEL ? 'p-3 border border-gray-200 rounded-lg bg-white' : ''}
+      >
+        <div
+          draggable
+          onDragStart={(e) => handleDragStart(e, node.id)}
+          onDragOver={(e) => handleDragOver(e, node)}
+          onDrop={handleDrop}
+          onDragEnd={handleDragEnd}
+          className={`flex items-center gap-2 p-1 rounded-md cursor-grab transition-all ${draggedId === node.id ? 'dragging' : ''} ${drop === 'inside' ? 'drag-over' : ''} ${drop === 'before' ? 'drop-before' : ''} ${drop === 'after' ? 'drop-after' : ''}`}
+        >
+          {label
+            ? <span className={`font-bold text-brand-dark whitespace-nowrap ${node.isPart ? 'text-xl uppercase' : 'text-lg'}`}>{label}</span>
+            : <span className="text-neutral-dark">{level === CHAPTER_LEVEL + 1 ? '\u2022' : '\u25E6'}</span>}
+          <input
+            type="text"
+            value={node.title}
+            onChange={(e) => updateNodeTitle(node.id, e.target.value)}
+            placeholder={t('structureTab.editTitlePlaceholder')}
+            className={`flex-grow p-1 border border-gray-300 rounded-md focus:ring-1 focus:ring-brand-light focus:outline-none ${level > CHAPTER_LEVEL ? 'text-sm' : ''}`}
+            aria-label={label ? `${label} ${t('structureTab.titleLabel')}` : t('structureTab.titleLabel')}
+          />
+          <button
+            onClick={() => promoteNode(node.id)}
+            disabled={parentId === null}
+            className="p-1 text-brand-secondary hover:text-brand-dark disabled:opacity-30 disabled:cursor-not-allowed"
+            title={t('structureTab.promote')}
+          >
+            &larr;
+          </button>
+          <button
+            onClick={() => demoteNode(node.id)}
+            disabled={node.isPart || index < 1 || level >= MAX_OUTLINE_LEVEL}
+            className="p-1 text-brand-secondary hover:text-brand-dark disabled:opacity-30 disabled:cursor-not-allowed"
+            title={t('structureTab.demote')}
+          >
+            &rarr;
+          </button>
+          <button
+            onClick={() => deleteNode(node.id)}
+            className="p-1 text-red-600 hover:text-red-800"
+            title={t(node.isPart ? 'structureTab.deletePartTitle' : level === CHAPTER_LEVEL ? 'structureTab.deleteChapterTitle' : 'structureTab.deleteSubchapterTitle')}
+          >
+            <TrashIcon className={level > CHAPTER_LEVEL ? 'w-4 h-4' : undefined} />
+          </button>
+        </div>
+
+        {(node.subchapters.length > 0 || childLevel <= MAX_OUTLINE_LEVEL) && (
+          <div className={`mt-2 ${node.isPart ? 'ml-2 space-y-3' : 'ml-6 space-y-2'}`}>
+            {node.subchapters.map(child => renderNode(child, childLevel, node.subchapters, node.id))}
+            {childLevel <= MAX_OUTLINE_LEVEL && (
+              <button onClick={() => addSubchapter(node.id)} className="flex items-center gap-1 text-sm text-brand-secondary hover:text-brand-dark font-semibold mt-2">
+                <PlusIcon className="w-4 h-4" />
+                {t(node.isPart ? 'structureTab.addChapter' : 'structureTab.addSubchapter')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   return (
     <Card>
@@ -147,8 +209,17 @@ const StructureTab: React.FC = () => {
           border: 2px dashed #0284C7; /* sky-600 */
           box-shadow: 0 0 10px rgba(59, 130, 246, 0.5);
         }
+        .drop-before {
+          box-shadow: 0 -3px 0 #0284C7; /* sky-600 */
+        }
+        .drop-after {
+          box-shadow: 0 3px 0 #0284C7;
+        }
       `}</style>
-      <h2 className="text-2xl font-bold text-brand-dark mb-4">{t('structureTab.title')}</h2>
+      <div className="flex justify-between items-start gap-4 mb-4">
+        <h2 className="text-2xl font-bold text-brand-dark">{t('structureTab.title')}</h2>
+        <UndoRedoButtons />
+      </div>
       <p className="text-neutral-medium mb-6">
         {t('structureTab.description')}
       </p>
@@ -198,6 +269,31 @@ const StructureTab: React.FC = () => {
       </div>
 
 
+      <div className="flex flex-wrap items-center gap-6 mb-6 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={useParts}
+            onChange={(e) => setUseParts(e.target.checked)}
+            className="h-4 w-4 text-brand-primary border-gray-300 rounded"
+          />
+          {t('structureTab.options.parts')}
+        </label>
+        <label className="flex items-center gap-2">
+          {t('structureTab.options.depth')}
+          <select
+            value={sectionDepth}
+            onChange={(e) => setSectionDepth(Number(e.target.value))}
+            className="py-1 px-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-brand-light focus:border-brand-light"
+          >
+            <option value={2}>{t('structureTab.options.depthSections')}</option>
+            <option value={3}>{t('structureTab.options.depthSubsections')}</option>
+          </select>
+        </label>
+      </div>
+
+      <ManuscriptImporter />
+
       {!currentStructure || currentStructure.chapters.length === 0 ? (
         <div className="text-center">
           <button
@@ -213,74 +309,20 @@ const StructureTab: React.FC = () => {
       ) : (
         <div className="animate-fade-in">
             <div className="space-y-4">
-            {currentStructure.chapters.map((chapter, index) => (
-                <div 
-                  key={chapter.id} 
-                  draggable
-                  onDragStart={(e) => handleDragStart(e, chapter.id, 'chapter')}
-                  onDragEnter={(e) => handleDragEnter(e, chapter.id, 'chapter')}
-                  onDragLeave={handleDragLeave}
-                  onDragOver={(e) => e.preventDefault()}
-                  onDrop={(e) => handleDrop(e, chapter.id)}
-                  onDragEnd={handleDragEnd}
-                  className={`p-4 border border-gray-200 rounded-lg bg-neutral-light/50 transition-all cursor-grab ${draggedId === chapter.id ? 'dragging' : ''} ${dragOverId === chapter.id ? 'drag-over' : ''}`}
-                >
-                    <div className="flex items-center gap-2 mb-2">
-                        <span className="font-bold text-lg text-brand-dark">{`${t('structureTab.chapter')} ${index + 1}:`}</span>
-                        <input
-                            type="text"
-                            value={chapter.title}
-                            onChange={(e) => updateChapterTitle(chapter.id, e.target.value)}
-                            placeholder={t('structureTab.editTitlePlaceholder')}
-                            className="flex-grow p-1 border border-gray-300 rounded-md focus:ring-1 focus:ring-brand-light focus:outline-none"
-                            aria-label={`${t('structureTab.chapter')} ${index + 1} title`}
-                        />
-                         <button onClick={() => deleteChapter(chapter.id)} className="p-1 text-red-600 hover:text-red-800" title={t('structureTab.deleteChapterTitle')}>
-                            <TrashIcon />
-                        </button>
-                    </div>
-                
-                    <div className="mt-2 ml-6 space-y-2">
-                        {chapter.subchapters.map((sub, subIndex) => (
-                             <div 
-                                key={sub.id}
-                                draggable
-                                onDragStart={(e) => handleDragStart(e, sub.id, 'subchapter', chapter.id)}
-                                onDragEnter={(e) => handleDragEnter(e, sub.id, 'subchapter', chapter.id)}
-                                onDragLeave={handleDragLeave}
-                                onDragOver={(e) => e.preventDefault()}
-                                onDrop={(e) => handleDrop(e, sub.id)}
-                                onDragEnd={handleDragEnd}
-                                className={`flex items-center gap-2 transition-all p-1 rounded-md cursor-grab ${draggedId === sub.id ? 'dragging' : ''} ${dragOverId === sub.id ? 'drag-over' : ''}`}
-                             >
-                                <span className="text-neutral-dark">&#8226;</span>
-                                <input
-                                    type="text"
-                                    value={sub.title}
-                                    onChange={(e) => updateSubchapterTitle(sub.id, e.target.value)}
-                                    placeholder={t('structureTab.editTitlePlaceholder')}
-                                    className="flex-grow p-1 text-sm border border-gray-300 rounded-md focus:ring-1 focus:ring-brand-light focus:outline-none"
-                                    aria-label={`${t('structureTab.subchapter')} ${subIndex + 1} title for chapter ${index + 1}`}
-                                />
-                                <button onClick={() => deleteSubchapter(sub.id)} className="p-1 text-red-500 hover:text-red-700" title={t('structureTab.deleteSubchapterTitle')}>
-                                    <TrashIcon className="w-4 h-4" />
-                                </button>
-                            </div>
-                        ))}
-                         <button onClick={() => addSubchapter(chapter.id)} className="flex items-center gap-1 text-sm text-brand-secondary hover:text-brand-dark font-semibold mt-2">
-                            <PlusIcon className="w-4 h-4" />
-                            {t('structureTab.addSubchapter')}
-                        </button>
-                    </div>
-                </div>
-            ))}
+              {currentStructure.chapters.map(node => renderNode(node, node.isPart ? PART_LEVEL : CHAPTER_LEVEL, currentStructure.chapters, null))}
             </div>
 
             <div className="mt-6 flex flex-col sm:flex-row items-center justify-between gap-4">
-                 <button onClick={addChapter} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-white hover:bg-neutral-light text-brand-dark font-bold py-2 px-4 rounded-md border border-brand-dark">
-                    <PlusIcon />
-                    {t('structureTab.addChapter')}
-                </button>
+                <div className="w-full sm:w-auto flex flex-col sm:flex-row gap-2">
+                    <button onClick={addChapter} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-white hover:bg-neutral-light text-brand-dark font-bold py-2 px-4 rounded-md border border-brand-dark">
+                        <PlusIcon />
+                        {t('structureTab.addChapter')}
+                    </button>
+                    <button onClick={addPart} className="w-full sm:w-auto flex items-center justify-center gap-2 bg-white hover:bg-neutral-light text-brand-dark font-bold py-2 px-4 rounded-md border border-brand-dark">
+                        <PlusIcon />
+                        {t('structureTab.addPart')}
+                    </button>
+                </div>
                 <div className="w-full sm:w-auto flex items-center justify-center sm:justify-end gap-4">
                     <button
                         onClick={handleGenerateStructure}
@@ -296,6 +338,8 @@ const StructureTab: React.FC = () => {
             {error && <p className="text-center mt-4 text-red-600">{error}</p>}
         </div>
       )}
+
+      <BookMatterEditor />
     </Card>
   );
 };
@@ -1,38 +1,34 @@
-import React from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useLocalization } from '../../hooks/useLocalization';
 import { useProject } from '../../hooks/useProject';
 import Card from '../common/Card';
+import type { TabKey } from '../../types';
+import { runPreflight, loadCoverSize } from '../../services/preflight';
 
-const ValidationTab: React.FC = () => {
+interface ValidationTabProps {
+  setActiveTab: (tab: TabKey) => void;
+}
+
+const ValidationTab: React.FC<ValidationTabProps> = ({ setActiveTab }) => {
   const { t } = useLocalization();
   const { project } = useProject();
+  const [coverSize, setCoverSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCoverSize(null);
+    if (project?.coverImage) {
+      loadCoverSize(project.coverImage).then(size => {
+        if (!cancelled) setCoverSize(size);
+      });
+    }
+    return () => { cancelled = true; };
+  }, [project?.coverImage]);
 
-  const isResearchComplete = !!project?.researchData;
-  const isStructureComplete = !!project?.bookStructure && project.bookStructure.chapters.length > 0;
-  const isMetadataComplete = !!(project?.bookTitle && project?.author && project?.description);
-  
-  let areAllChaptersWritten = false;
-  if (project?.bookStructure && project.bookStructure.chapters.length > 0) {
-    // A "content node" is a chapter without subchapters, or a subchapter.
-    // These are the only places we expect written content.
-    const contentNodes = project.bookStructure.chapters.flatMap(chapter =>
-      chapter.subchapters.length > 0 ? chapter.subchapters : [chapter]
-    );
-    
-    areAllChaptersWritten = contentNodes.length > 0 && contentNodes.every(
-      node => node.content?.trim() !== ''
-    );
-  }
+  const issues = useMemo(() => (project ? runPreflight({ project, coverSize }) : []), [project, coverSize]);
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
 
-  const checklistItems = [
-    { label: t('validationTab.item0_research'), checked: isResearchComplete },
-    { label: t('validationTab.item0_structure'), checked: isStructureComplete },
-    { label: t('validationTab.item1'), checked: areAllChaptersWritten },
-    { label: t('validationTab.item2'), checked: isMetadataComplete },
-    { label: t('validationTab.item3'), checked: !!project?.coverImage },
-    { label: t('validationTab.item4'), checked: !!project?.layoutTemplate },
-  ];
-  
   return (
     <>
       <Card>
@@ -42,19 +38,38 @@ const ValidationTab: React.FC = () => {
         </p>
 
         <div className="p-6 bg-neutral-light rounded-lg border">
-          <h3 className="text-xl font-semibold text-brand-dark mb-4">{t('validationTab.checklistTitle')}</h3>
-          <ul className="space-y-3">
-            {checklistItems.map((item, index) => (
-              <li key={index} className="flex items-center">
-                <span className={`mr-3 text-2xl ${item.checked ? 'text-green-500' : 'text-neutral-medium'}`}>
-                  {item.checked ? '✓' : '○'}
-                </span>
-                <span className={item.checked ? 'text-neutral-dark' : 'text-neutral-medium'}>
-                  {item.label}
-                </span>
-              </li>
-            ))}
-          </ul>
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+            <h3 className="text-xl font-semibold text-brand-dark">{t('validationTab.checklistTitle')}</h3>
+            <div className="flex gap-2 text-sm font-semibold">
+              <span className="px-3 py-1 rounded-full bg-red-100 text-red-700">{t('validationTab.errorCount', { count: errorCount })}</span>
+              <span className="px-3 py-1 rounded-full bg-yellow-100 text-yellow-800">{t('validationTab.warningCount', { count: warningCount })}</span>
+            </div>
+          </div>
+          {issues.length === 0 ? (
+            <p className="flex items-center text-green-700">
+              <span className="mr-3 text-2xl text-green-500">✓</span>
+              {t('validationTab.allPassed')}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {issues.map((issue, index) => (
+                <li key={`${issue.ruleId}-${index}`} className="flex items-start gap-3 p-3 bg-white rounded-md border">
+                  <span
+                    className={`shrink-0 text-xs font-bold uppercase px-2 py-0.5 rounded ${issue.severity === 'error' ? 'bg-red-600 text-white' : 'bg-yellow-400 text-brand-dark'}`}
+                  >
+                    {t(`validationTab.${issue.severity}`)}
+                  </span>
+                  <span className="flex-grow text-neutral-dark">{t(`validationTab.rules.${issue.messageKey}`, issue.params)}</span>
+                  <button
+                    onClick={() => setActiveTab(issue.tab)}
+                    className="shrink-0 text-sm font-semibold text-brand-primary hover:underline"
+                  >
+                    {t('validationTab.goToTab', { tab: t(`tabs.${issue.tab}`) })}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </Card>
     </>
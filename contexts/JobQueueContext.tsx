@@ -0,0 +1,230 @@
+import React, { createContext, useState, useEffect, useCallback, useRef } from 'react';
+import type { Job, JobItem, JobKind } from '../types';
+import { useProject } from '../hooks/useProject';
+import { useToast } from '../hooks/useToast';
+import { useLocalization } from '../hooks/useLocalization';
+import { listJobs, saveJobToStore, deleteJobFromStore } from '../services/projectStore';
+import { JOB_RUNNERS, waitFor, createAbortError } from '../services/jobQueue';
+
+export type NewJobItem = Pick<JobItem, 'id' | 'label' | 'input'>;
+
+export interface JobQueueContextType {
+  // Jobs of the open project, oldest first.
+  jobs: Job[];
+  enqueueJob: (kind: JobKind, items: NewJobItem[], params: unknown, detail?: string) => string | null;
+  pauseJob: (jobId: string) => void;
+  resumeJob: (jobId: string) => void;
+  cancelJob: (jobId: string) => void;
+  retryJobItem: (jobId: string, itemId: string) => void;
+  // Removes a finished job, or one whose result has been picked up.
+  dismissJob: (jobId: string) => void;
+}
+
+export const JobQueueContext = createContext<JobQueueContextType | undefined>(undefined);
+
+interface JobQueueProviderProps {
+  children: React.ReactNode;
+}
+
+// Why the running job was aborted: 'suspend' puts it back in the queue, e.g. when its project is closed.
+type StopReason = 'pause' | 'cancel' | 'suspend';
+
+interface RunningJob {
+  jobId: string;
+  controller: AbortController;
+  stopReason: StopReason | null;
+}
+
+const generateJobId = () => `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Runs long AI jobs one at a time, item by item, for the open project. Every change is written to
+ * IndexedDB, so a job interrupted by a reload carries on from its first unfinished item.
+ */
+export const JobQueueProvider: React.FC<JobQueueProviderProps> = ({ children }) => {
+  const { project, updateNodeContent } = useProject();
+  const { showToast } = useToast();
+  const { t } = useLocalization();
+  const [allJobs, setAllJobs] = useState<Job[]>([]);
+  // Source of truth for the running loop, which outlives renders.
+  const jobsRef = useRef<Job[]>([]);
+  const runningRef = useRef<RunningJob | null>(null);
+  const projectId = project?.id ?? null;
+  const projectIdRef = useRef<string | null>(projectId);
+  const updateNodeContentRef = useRef(updateNodeContent);
+
+  useEffect(() => {
+    projectIdRef.current = projectId;
+    updateNodeContentRef.current = updateNodeContent;
+  });
+
+  const getJob = (jobId: string) => jobsRef.current.find(job => job.id === jobId);
+
+  const updateJob = useCallback((jobId: string, update: (job: Job) => Job) => {
+    let updated: Job | undefined;
+    jobsRef.current = jobsRef.current.map(job => {
+      if (job.id !== jobId) return job;
+      updated = { ...update(job), updatedAt: new Date().toISOString() };
+      return updated;
+    });
+    setAllJobs(jobsRef.current);
+    if (updated) {
+      saveJobToStore(updated).catch(error => console.error("Failed to save job:", error));
+    }
+  }, []);
+
+  const updateItem = useCallback((jobId: string, itemId: string, changes: Partial<JobItem>) => {
+    updateJob(jobId, job => ({
+      ...job,
+      items: job.items.map(item => (item.id === itemId ? { ...item, ...changes } : item)),
+    }));
+  }, [updateJob]);
+
+  useEffect(() => {
+    // Jobs that were running when the page was closed go back in the queue, from their first unfinished item.
+    listJobs()
+      .then(storedJobs => {
+        const restored = storedJobs
+          .map(job => job.status !== 'running' ? job : {
+            ...job,
+            status: 'queued' as const,
+            items: job.items.map(item => (item.status === 'running' ? { ...item, status: 'pending' as const } : item)),
+          })
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        jobsRef.current = [...restored, ...jobsRef.current.filter(job => !restored.some(other => other.id === job.id))];
+        setAllJobs(jobsRef.current);
+      })
+      .catch(error => console.error("Failed to load jobs:", error));
+  }, []);
+
+  const jobTitle = useCallback((job: Job) =>
+    `${t(`jobs.kinds.${job.kind}`)}${job.detail ? ` (${job.detail})` : ''}`, [t]);
+
+  const runJob = useCallback(async (jobId: string) => {
+    const running: RunningJob = { jobId, controller: new AbortController(), stopReason: null };
+    const { signal } = running.controller;
+    runningRef.current = running;
+    updateJob(jobId, job => ({ ...job, status: 'running' }));
+
+    let isFirstItem = true;
+    while (!signal.aborted) {
+      const job = getJob(jobId);
+      const item = job?.items.find(candidate => candidate.status === 'pending');
+      if (!job || !item) break;
+      const runner = JOB_RUNNERS[job.kind];
+      try {
+        if (!isFirstItem && runner.delayMs > 0) await waitFor(runner.delayMs, signal);
+        isFirstItem = false;
+        updateItem(jobId, item.id, { status: 'running', error: undefined });
+        const result = await runner.runItem(item, {
+          job,
+          signal,
+          updateNodeContent: (nodeId, content) => updateNodeContentRef.current(nodeId, content),
+        });
+        if (signal.aborted) throw createAbortError();
+        updateItem(jobId, item.id, { status: 'done', result });
+      } catch (error: any) {
+        if (signal.aborted) {
+          updateItem(jobId, item.id, { status: 'pending' });
+          break;
+        }
+        console.error(`Job item "${item.label}" failed:`, error);
+        updateItem(jobId, item.id, { status: 'failed', error: error?.message || String(error) });
+      }
+    }
+
+    runningRef.current = null;
+    const job = getJob(jobId);
+    if (!job) return;
+    const hasFailures = job.items.some(item => item.status === 'failed');
+    const status = running.stopReason === 'cancel' ? 'cancelled'
+      : running.stopReason === 'pause' ? 'paused'
+      : running.stopReason === 'suspend' ? 'queued'
+      : hasFailures ? 'failed' : 'completed';
+    updateJob(jobId, current => ({ ...current, status }));
+    if (status === 'completed') showToast(t('jobs.toast.completed', { title: jobTitle(job) }), 'success');
+    if (status === 'failed') showToast(t('jobs.toast.failed', { title: jobTitle(job) }), 'error');
+  }, [updateJob, updateItem, showToast, t, jobTitle]);
+
+  const stopRunningJob = (jobId: string, reason: StopReason) => {
+    const running = runningRef.current;
+    if (running?.jobId !== jobId) return false;
+    running.stopReason = reason;
+    running.controller.abort();
+    return true;
+  };
+
+  useEffect(() => {
+    // Only the open project's jobs can run: they write into it.
+    const running = runningRef.current;
+    if (running) {
+      if (getJob(running.jobId)?.projectId !== projectId) stopRunningJob(running.jobId, 'suspend');
+      return;
+    }
+    const next = allJobs.find(job => job.projectId === projectId && job.status === 'queued');
+    if (next) runJob(next.id);
+  }, [allJobs, projectId, runJob]);
+
+  const enqueueJob = useCallback((kind: JobKind, items: NewJobItem[], params: unknown, detail?: string) => {
+    const currentProjectId = projectIdRef.current;
+    if (!currentProjectId || items.length === 0) return null;
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: generateJobId(),
+      projectId: currentProjectId,
+      kind,
+      detail,
+      status: 'queued',
+      params,
+      items: items.map(item => ({ ...item, status: 'pending' })),
+      createdAt: now,
+      updatedAt: now,
+    };
+    jobsRef.current = [...jobsRef.current, job];
+    setAllJobs(jobsRef.current);
+    saveJobToStore(job).catch(error => console.error("Failed to save job:", error));
+    return job.id;
+  }, []);
+
+  const pauseJob = useCallback((jobId: string) => {
+    if (!stopRunningJob(jobId, 'pause') && getJob(jobId)?.status === 'queued') {
+      updateJob(jobId, job => ({ ...job, status: 'paused' }));
+    }
+  }, [updateJob]);
+
+  const resumeJob = useCallback((jobId: string) => {
+    if (getJob(jobId)?.status === 'paused') {
+      updateJob(jobId, job => ({ ...job, status: 'queued' }));
+    }
+  }, [updateJob]);
+
+  const cancelJob = useCallback((jobId: string) => {
+    if (!stopRunningJob(jobId, 'cancel')) {
+      updateJob(jobId, job => ({ ...job, status: 'cancelled' }));
+    }
+  }, [updateJob]);
+
+  const retryJobItem = useCallback((jobId: string, itemId: string) => {
+    // A running job picks the item up by itself; a finished one is queued again.
+    updateJob(jobId, job => ({
+      ...job,
+      status: job.status === 'failed' || job.status === 'completed' ? 'queued' : job.status,
+      items: job.items.map(item => (item.id === itemId ? { ...item, status: 'pending', error: undefined } : item)),
+    }));
+  }, [updateJob]);
+
+  const dismissJob = useCallback((jobId: string) => {
+    stopRunningJob(jobId, 'cancel');
+    jobsRef.current = jobsRef.current.filter(job => job.id !== jobId);
+    setAllJobs(jobsRef.current);
+    deleteJobFromStore(jobId).catch(error => console.error("Failed to delete job:", error));
+  }, []);
+
+  const jobs = allJobs.filter(job => job.projectId === projectId);
+
+  return (
+    <JobQueueContext.Provider value={{ jobs, enqueueJob, pauseJob, resumeJob, cancelJob, retryJobItem, dismissJob }}>
+      {children}
+    </JobQueueContext.Provider>
+  );
+};
@@ -1,26 +1,76 @@
-import React, { createContext, useState, useEffect, useCallback } from 'react';
-import { Project, BookStructure, Chapter, ContentBlock, GlossaryTerm } from '../types';
+import React, { createContext, useState, useEffect, useCallback, useRef } from 'react';
+import { Project, ProjectSummary, BookStructure, OutlineNode, ContentBlock, GlossaryTerm, SnapshotKind, MatterSection, MatterSectionType, FrontMatterType, BackMatterType } from '../types';
+import { useToast } from '../hooks/useToast';
+import { useLocalization } from '../hooks/useLocalization';
+import {
+  listProjectSummaries,
+  loadProjectFromStore,
+  saveProjectToStore,
+  deleteProjectFromStore,
+  migrateLocalStorageArchive,
+  saveSnapshot,
+  loadSnapshotProject,
+  saveAudioAsset,
+  toSummary,
+} from '../services/projectStore';
+import { createDefaultProject, ProjectMigrationError } from '../services/projectSchema';
+import { createMatterSection, isFrontMatterType } from '../services/bookMatter';
+import {
+  findOutlineItem,
+  findOutlineNode,
+  mapOutline,
+  updateOutlineNode,
+  removeOutlineNode,
+  insertOutlineNode,
+  moveOutlineNode,
+  promoteOutlineNode,
+  demoteOutlineNode,
+  MAX_OUTLINE_LEVEL,
+  type OutlineDropPosition,
+} from '../services/outline';
+import {
+  exportProjectBundle,
+  importProjectBundle,
+  saveBundledLibraryRecords,
+  ProjectBundleError,
+  BUNDLE_EXTENSION,
+  type ImportedBundle,
+} from '../services/projectBundle';
 
 export interface ProjectContextType {
   project: Project | null;
-  archivedProjects: Project[];
+  archivedProjects: ProjectSummary[];
+  // Projects that failed schema migration when opened, with the reason.
+  unreadableProjects: { [projectId: string]: string };
   isProjectStarted: boolean;
   startNewProject: (title: string) => void;
-  loadProject: (projectId: string) => void;
+  loadProject: (projectId: string) => Promise<void>;
   updateProject: (updates: Partial<Project>) => void;
   updateNodeContent: (nodeId: string, content: string) => void;
   endCurrentProject: () => void;
   deleteProject: (projectId: string) => void;
+
+  // Portable .bookforge bundles
+  exportProject: (projectId: string) => Promise<void>;
+  importProject: (file: File) => Promise<void>;
+  duplicateProject: (projectId: string) => Promise<void>;
   
-  // Chapter/structure methods
+  // Outline methods: parts, chapters and sections at any depth
   setBookStructure: (structure: BookStructure) => void;
-  updateChapterTitle: (chapterId: string, title: string) => void;
-  updateSubchapterTitle: (subchapterId: string, title: string) => void;
+  updateNodeTitle: (nodeId: string, title: string) => void;
+  addPart: () => void;
   addChapter: () => void;
-  deleteChapter: (chapterId: string) => void;
-  addSubchapter: (chapterId: string) => void;
-  deleteSubchapter: (subchapterId: string) => void;
-  reorderStructure: (draggedId: string, targetId: string) => void;
+  addSubchapter: (parentId: string) => void;
+  // Deleting a part keeps its chapters, at the top level.
+  deleteNode: (nodeId: string) => void;
+  reorderStructure: (draggedId: string, targetId: string, position: OutlineDropPosition) => void;
+  promoteNode: (nodeId: string) => void;
+  demoteNode: (nodeId: string) => void;
+
+  // Front and back matter methods
+  addMatterSection: (type: MatterSectionType) => void;
+  updateMatterSection: (section: MatterSection) => void;
+  deleteMatterSection: (sectionId: string) => void;
 
 
   // Content Block (Recipes/Exercises) methods
@@ -35,6 +85,20 @@ export interface ProjectContextType {
   
   // Author Archive methods
   addAuthorToArchive: (author: string) => void;
+
+  // Undo/redo of structure, content, appendix and glossary edits
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+
+  // Version history methods
+  // Each resolves to whether it succeeded; failures have already been reported with a toast.
+  createSnapshot: (label: string, kind?: SnapshotKind) => Promise<boolean>;
+  restoreSnapshot: (snapshotId: string) => Promise<boolean>;
+  restoreChapterFromSnapshot: (snapshotId: string, chapterId: string) => Promise<boolean>;
 }
 
 
@@ -44,65 +108,110 @@ interface ProjectProviderProps {
   children: React.ReactNode;
 }
 
+// A recorded mutation: `undo` and `redo` reapply the state before and after it.
+interface UndoableCommand {
+  label: string;
+  coalesceKey?: string;
+  timestamp: number;
+  undo: () => void;
+  redo: () => void;
+}
+
 const generateId = () => `id_${new Date().getTime()}_${Math.random().toString(36).substring(2, 9)}`;
+// Legacy localStorage archive, migrated to IndexedDB on first start.
 const ARCHIVE_KEY = 'kdp-projects-archive-local';
 const AUTHORS_ARCHIVE_KEY = 'kdp-authors-archive-local';
-
-
-// Helper function to save a "lean" version of the project archive to localStorage.
-// This omits potentially large fields like 'coverOptions' to prevent exceeding storage quotas.
-const saveArchiveToLocalStorage = (archive: Project[], archiveKey: string) => {
-    try {
-        const leanArchive = archive.map(p => {
-            const { coverOptions, ...rest } = p; // Omit coverOptions from persisted data
-            return rest;
-        });
-        localStorage.setItem(archiveKey, JSON.stringify(leanArchive));
-    } catch (e: any) {
-        if (e.name === 'QuotaExceededError') {
-            console.error("LocalStorage quota exceeded. Could not save project changes.", e);
-            // Inform the user with a more helpful message
-            alert("Error: Could not save changes. The browser's local storage is full. Please delete old or unused projects to free up space.");
-        } else {
-            console.error("Failed to save to localStorage:", e);
-            // Throw other errors to be handled elsewhere if necessary
-            throw e;
-        }
-    }
-};
+const AUTO_SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+const MAX_UNDO_STEPS = 100;
+// Edits with the same coalesce key closer than this are merged into a single undo step.
+const COALESCE_WINDOW = 3000;
 
 
 export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) => {
   const [project, setProject] = useState<Project | null>(null);
-  const [archivedProjects, setArchivedProjects] = useState<Project[]>([]);
+  const [archivedProjects, setArchivedProjects] = useState<ProjectSummary[]>([]);
+  const [unreadableProjects, setUnreadableProjects] = useState<{ [projectId: string]: string }>({});
   const [isProjectStarted, setIsProjectStarted] = useState(false);
+  const { showToast } = useToast();
+  const { t } = useLocalization();
+  // Latest project for async callbacks, and whether it changed since the last snapshot.
+  const projectRef = useRef<Project | null>(null);
+  const hasUnsnapshottedChangesRef = useRef(false);
+
+  useEffect(() => {
+    projectRef.current = project;
+  }, [project]);
+
+  const undoStackRef = useRef<UndoableCommand[]>([]);
+  const redoStackRef = useRef<UndoableCommand[]>([]);
+  // Bumped whenever the stacks change so canUndo/canRedo re-render consumers.
+  const [, setUndoVersion] = useState(0);
+
+  const clearUndoHistory = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    setUndoVersion(v => v + 1);
+  }, []);
+
+  const recordCommand = useCallback((command: Omit<UndoableCommand, 'timestamp'>) => {
+    const now = Date.now();
+    const undoStack = undoStackRef.current;
+    const last = undoStack[undoStack.length - 1];
+    if (command.coalesceKey && last?.coalesceKey === command.coalesceKey && now - last.timestamp < COALESCE_WINDOW) {
+      // Keep the oldest "undo" and the newest "redo" so the merged step spans the whole burst of edits.
+      undoStack[undoStack.length - 1] = { ...last, redo: command.redo, timestamp: now };
+    } else {
+      undoStackRef.current = [...undoStack, { ...command, timestamp: now }].slice(-MAX_UNDO_STEPS);
+    }
+    redoStackRef.current = [];
+    setUndoVersion(v => v + 1);
+  }, []);
 
   useEffect(() => {
-    const archiveKey = ARCHIVE_KEY;
-    const savedArchive = localStorage.getItem(archiveKey);
-    if (savedArchive) {
+    const loadArchive = async () => {
       try {
-        const parsedArchive = JSON.parse(savedArchive);
-        if (Array.isArray(parsedArchive)) {
-          // Hydrate lean project objects with transient fields like coverOptions
-          const hydratedArchive = parsedArchive.map((p: Omit<Project, 'coverOptions'>) => ({
-            ...p,
-            coverOptions: [], // Initialize as empty array on load
-          }));
-          setArchivedProjects(hydratedArchive);
+        const { migrated, failed } = await migrateLocalStorageArchive(ARCHIVE_KEY);
+        if (migrated > 0) {
+          showToast(t('project.migrated', { count: migrated }), 'success');
+        }
+        if (failed.length > 0) {
+          showToast(t('project.migrationFailed', { titles: failed.join(', ') }), 'error');
         }
       } catch (error) {
-        console.error("Error parsing project archive:", error);
-        localStorage.removeItem(archiveKey);
+        console.error("Error migrating the localStorage archive:", error);
       }
-    } else {
-        setArchivedProjects([]); // No archive, reset
-    }
+      try {
+        setArchivedProjects(await listProjectSummaries());
+      } catch (error) {
+        console.error("Error reading project archive:", error);
+        setArchivedProjects([]);
+      }
+    };
+    loadArchive();
   }, []);
 
-  const updateProject = useCallback((updates: Partial<Project>) => {
-    const archiveKey = ARCHIVE_KEY;
+  // Updates the archive listing and writes the project to IndexedDB in the background.
+  const persistProject = useCallback((projectToSave: Project) => {
+    setArchivedProjects(prevArchive => {
+      const summary = toSummary(projectToSave);
+      const existingIndex = prevArchive.findIndex(p => p.id === summary.id);
+      if (existingIndex > -1) {
+        const newArchive = [...prevArchive];
+        newArchive[existingIndex] = summary;
+        return newArchive;
+      }
+      return [...prevArchive, summary];
+    });
+    saveProjectToStore(projectToSave).catch(error => {
+      console.error("Failed to save project to IndexedDB:", error);
+      showToast(t('project.saveError'), 'error');
+    });
+  }, [showToast, t]);
 
+  const updateProject = useCallback((updates: Partial<Project>) => {
+    if (Object.keys(updates).length > 0) {
+      hasUnsnapshottedChangesRef.current = true;
+    }
     setProject(currentProject => {
       if (!currentProject) return null;
       
@@ -112,21 +221,44 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
         lastSaved: new Date().toISOString() 
       };
       
-      setArchivedProjects(prevArchive => {
-        const existingIndex = prevArchive.findIndex(p => p.id === updatedProject.id);
-        let newArchive;
-        if (existingIndex > -1) {
-          newArchive = [...prevArchive];
-          newArchive[existingIndex] = updatedProject;
-        } else {
-          newArchive = [...prevArchive, updatedProject];
-        }
-        saveArchiveToLocalStorage(newArchive, archiveKey);
-        return newArchive;
-      });
+      persistProject(updatedProject);
 
       return updatedProject;
     });
+  }, [persistProject]);
+
+  // Applies updates like updateProject and records them so they can be undone.
+  const commitUndoable = useCallback((label: string, updates: Partial<Project>, coalesceKey?: string) => {
+    const currentProject = projectRef.current;
+    if (!currentProject) return;
+    const before = Object.fromEntries(
+      Object.keys(updates).map(key => [key, currentProject[key as keyof Project]])
+    ) as Partial<Project>;
+    recordCommand({
+      label,
+      coalesceKey,
+      undo: () => updateProject(before),
+      redo: () => updateProject(updates),
+    });
+    updateProject(updates);
+  }, [recordCommand, updateProject]);
+
+  const undo = useCallback(() => {
+    const command = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!command) return;
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+    redoStackRef.current = [...redoStackRef.current, command];
+    command.undo();
+    setUndoVersion(v => v + 1);
+  }, []);
+
+  const redo = useCallback(() => {
+    const command = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!command) return;
+    redoStackRef.current = redoStackRef.current.slice(0, -1);
+    undoStackRef.current = [...undoStackRef.current, command];
+    command.redo();
+    setUndoVersion(v => v + 1);
   }, []);
 
   // Auto-save effect
@@ -143,86 +275,77 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
     return () => clearInterval(intervalId); // Cleanup on component unmount or when dependencies change
   }, [project, updateProject]);
 
+  const createSnapshot = useCallback(async (label: string, kind: SnapshotKind = 'manual'): Promise<boolean> => {
+    const currentProject = projectRef.current;
+    if (!currentProject) return false;
+    try {
+      await saveSnapshot(currentProject, label, kind);
+      hasUnsnapshottedChangesRef.current = false;
+      return true;
+    } catch (error) {
+      console.error("Failed to create project snapshot:", error);
+      showToast(t('historyTab.snapshotError'), 'error');
+      return false;
+    }
+  }, [showToast, t]);
+
+  // Automatic snapshot every few minutes, only if something changed in the meantime.
+  useEffect(() => {
+    if (!isProjectStarted) return;
+    const intervalId = setInterval(() => {
+      if (hasUnsnapshottedChangesRef.current) {
+        createSnapshot(t('historyTab.autoLabels.periodic'), 'auto');
+      }
+    }, AUTO_SNAPSHOT_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [isProjectStarted, createSnapshot, t]);
+
 
   const startNewProject = (title: string) => {
-    const archiveKey = ARCHIVE_KEY;
     const authorsArchiveKey = AUTHORS_ARCHIVE_KEY;
     const savedAuthors = authorsArchiveKey ? localStorage.getItem(authorsArchiveKey) : null;
     const initialAuthors = savedAuthors ? JSON.parse(savedAuthors) : [];
       
     const newProject: Project = {
-      id: generateId(),
-      projectTitle: title,
-      bookTitle: '',
-      titlesArchive: [],
-      topic: title,
-      subtitle: '',
-      subtitlesArchive: [],
-      author: '',
+      ...createDefaultProject(generateId(), title),
       authorsArchive: initialAuthors,
-      description: '',
-      descriptionsArchive: [],
-      metadataKeywords: [],
-      categories: [],
-      categoriesArchive: [],
-      researchData: null,
-      selectedSources: [],
-      bookStructure: null,
-      lastSaved: new Date().toISOString(),
-      layoutTemplate: 'Classic',
-      pageSize: '6x9',
-      coverImage: null,
-      coverOptions: [],
-      coverPrompts: [],
-      archivedCovers: [],
-      contentBlocks: [],
-      glossary: [],
-      coverBonusCount: 0,
-      titleFontSize: 60,
-      subtitleFontSize: 30,
-      authorFontSize: 18,
-      bonusStickerShape: 'star',
-      coverTagline: '',
     };
     // Directly set and save the new project
     setProject(newProject);
-    setArchivedProjects(prev => {
-        const newArchive = [...prev, newProject];
-        saveArchiveToLocalStorage(newArchive, archiveKey);
-        return newArchive;
-    });
+    persistProject(newProject);
+    clearUndoHistory();
     setIsProjectStarted(true);
   };
   
-  const loadProject = (projectId: string) => {
-      const projectToLoad = archivedProjects.find(p => p.id === projectId);
-      if (projectToLoad) {
-          setProject(projectToLoad);
-          setIsProjectStarted(true);
+  // Projects are read from IndexedDB only when opened; the archive list holds summaries.
+  const loadProject = async (projectId: string) => {
+      try {
+          const projectToLoad = await loadProjectFromStore(projectId);
+          if (projectToLoad) {
+              setProject(projectToLoad);
+              clearUndoHistory();
+              setIsProjectStarted(true);
+          }
+      } catch (error) {
+          console.error("Error loading project:", error);
+          if (error instanceof ProjectMigrationError) {
+              setUnreadableProjects(prev => ({ ...prev, [projectId]: error.message }));
+              showToast(t('project.unreadable'), 'error');
+          } else {
+              showToast(t('project.loadError'), 'error');
+          }
       }
   };
 
-  const updateNodeContent = useCallback((nodeId: string, content: string) => {
-    const archiveKey = ARCHIVE_KEY;
-
+  const writeNodeContent = useCallback((nodeId: string, content: string) => {
+    hasUnsnapshottedChangesRef.current = true;
     setProject(currentProject => {
       if (!currentProject) return null;
 
       const newBookStructure = currentProject.bookStructure
         ? {
             ...currentProject.bookStructure,
-            chapters: currentProject.bookStructure.chapters.map(ch => {
-              if (ch.id === nodeId) {
-                return { ...ch, content };
-              }
-              const subIndex = ch.subchapters.findIndex(sub => sub.id === nodeId);
-              if (subIndex > -1) {
-                const newSubchapters = [...ch.subchapters];
-                newSubchapters[subIndex] = { ...newSubchapters[subIndex], content };
-                return { ...ch, subchapters: newSubchapters };
-              }
-              return ch;
-            }),
+            chapters: updateOutlineNode(currentProject.bookStructure.chapters, nodeId, node => ({ ...node, content })),
           }
         : null;
 
@@ -232,186 +355,184 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
         lastSaved: new Date().toISOString(),
       };
       
-      setArchivedProjects(prevArchive => {
-        const existingIndex = prevArchive.findIndex(p => p.id === updatedProject.id);
-        let newArchive;
-        if (existingIndex > -1) {
-          newArchive = [...prevArchive];
-          newArchive[existingIndex] = updatedProject;
-        } else {
-          newArchive = [...prevArchive, updatedProject];
-        }
-        saveArchiveToLocalStorage(newArchive, archiveKey);
-        return newArchive;
-      });
+      persistProject(updatedProject);
 
       return updatedProject;
     });
-  }, []);
+  }, [persistProject]);
+
+  const updateNodeContent = useCallback((nodeId: string, content: string) => {
+    const node = findOutlineNode(projectRef.current?.bookStructure?.chapters || [], nodeId);
+    const previousContent = node?.content || '';
+    if (previousContent !== content) {
+      recordCommand({
+        label: t('undo.actions.editContent', { title: node?.title || '' }),
+        coalesceKey: `content:${nodeId}`,
+        undo: () => writeNodeContent(nodeId, previousContent),
+        redo: () => writeNodeContent(nodeId, content),
+      });
+    }
+    writeNodeContent(nodeId, content);
+  }, [recordCommand, writeNodeContent, t]);
 
 
   const setBookStructure = (structure: BookStructure) => {
-    const hydratedChapters = structure.chapters.map(ch => ({
-      ...ch,
-      content: ch.content || '',
-      subchapters: ch.subchapters.map(sub => ({
-        ...sub,
-        content: sub.content || '',
-      })),
-    }));
-    updateProject({ bookStructure: { chapters: hydratedChapters } });
+    if (project?.bookStructure?.chapters.length) {
+      createSnapshot(t('historyTab.autoLabels.beforeStructure'), 'auto');
+    }
+    const hydratedChapters = mapOutline(structure.chapters, node => ({ ...node, content: node.content || '' }));
+    // A generated outline only has chapters: the front and back matter are kept.
+    commitUndoable(t('undo.actions.setStructure'), { bookStructure: { ...project?.bookStructure, ...structure, chapters: hydratedChapters } });
   };
 
-  const updateChapterTitle = (chapterId: string, title: string) => {
+  const updateNodeTitle = (nodeId: string, title: string) => {
     if (!project?.bookStructure) return;
     const newStructure = {
       ...project.bookStructure,
-      chapters: project.bookStructure.chapters.map(ch => ch.id === chapterId ? { ...ch, title } : ch)
+      chapters: updateOutlineNode(project.bookStructure.chapters, nodeId, node => ({ ...node, title })),
     };
-    updateProject({ bookStructure: newStructure });
+    commitUndoable(t('undo.actions.renameChapter'), { bookStructure: newStructure }, `title:${nodeId}`);
   };
 
-  const updateSubchapterTitle = (subchapterId: string, title: string) => {
-    if (!project?.bookStructure) return;
-    const newStructure = {
+  const addPart = () => {
+    if (!project) return;
+    const newPart: OutlineNode = { id: generateId(), title: '', content: '', isPart: true, subchapters: [] };
+    const newStructure: BookStructure = {
       ...project.bookStructure,
-      chapters: project.bookStructure.chapters.map(ch => ({
-        ...ch,
-        subchapters: ch.subchapters.map(sub => sub.id === subchapterId ? { ...sub, title } : sub)
-      }))
+      chapters: [...(project.bookStructure?.chapters || []), newPart]
     };
-    updateProject({ bookStructure: newStructure });
+    commitUndoable(t('undo.actions.addPart'), { bookStructure: newStructure });
   };
 
   const addChapter = () => {
     if (!project) return;
-    const newChapter: Chapter = { id: generateId(), title: '', content: '', subchapters: [] };
+    const newChapter: OutlineNode = { id: generateId(), title: '', content: '', subchapters: [] };
     const newStructure: BookStructure = {
+      ...project.bookStructure,
       chapters: [...(project.bookStructure?.chapters || []), newChapter]
     };
-    updateProject({ bookStructure: newStructure });
+    commitUndoable(t('undo.actions.addChapter'), { bookStructure: newStructure });
   };
 
-  const deleteChapter = (chapterId: string) => {
+  const addSubchapter = (parentId: string) => {
     if (!project?.bookStructure) return;
+    const parent = findOutlineItem(project.bookStructure.chapters, parentId);
+    if (!parent || parent.level >= MAX_OUTLINE_LEVEL) return;
+    const newNode: OutlineNode = { id: generateId(), title: '', content: '', subchapters: [] };
     const newStructure = {
       ...project.bookStructure,
-      chapters: project.bookStructure.chapters.filter(ch => ch.id !== chapterId)
+      chapters: insertOutlineNode(project.bookStructure.chapters, parentId, parent.node.subchapters.length, newNode),
     };
-    updateProject({ bookStructure: newStructure });
+    commitUndoable(t(parent.node.isPart ? 'undo.actions.addChapter' : 'undo.actions.addSubchapter'), { bookStructure: newStructure });
   };
-  
-  const addSubchapter = (chapterId: string) => {
+
+  const deleteNode = (nodeId: string) => {
     if (!project?.bookStructure) return;
-    const newStructure = {
-      ...project.bookStructure,
-      chapters: project.bookStructure.chapters.map(ch => {
-        if (ch.id === chapterId) {
-          return {
-            ...ch,
-            subchapters: [...ch.subchapters, { id: generateId(), title: '', content: '' }]
-          };
-        }
-        return ch;
-      })
-    };
-    updateProject({ bookStructure: newStructure });
+    const chapters = project.bookStructure.chapters;
+    const node = findOutlineNode(chapters, nodeId);
+    if (!node) return;
+    let newChapters: OutlineNode[];
+    if (node.isPart) {
+      const index = chapters.findIndex(item => item.id === nodeId);
+      newChapters = [...chapters.slice(0, index), ...node.subchapters, ...chapters.slice(index + 1)];
+    } else {
+      createSnapshot(t('historyTab.autoLabels.beforeDelete', { title: node.title }), 'auto');
+      newChapters = removeOutlineNode(chapters, nodeId);
+    }
+    commitUndoable(t('undo.actions.deleteChapter', { title: node.title }), { bookStructure: { ...project.bookStructure, chapters: newChapters } });
   };
 
-  const deleteSubchapter = (subchapterId: string) => {
+  const reorderStructure = (draggedId: string, targetId: string, position: OutlineDropPosition) => {
     if (!project?.bookStructure) return;
-    const newStructure = {
-      ...project.bookStructure,
-      chapters: project.bookStructure.chapters.map(ch => ({
-        ...ch,
-        subchapters: ch.subchapters.filter(sub => sub.id !== subchapterId)
-      }))
-    };
-    updateProject({ bookStructure: newStructure });
+    const newChapters = moveOutlineNode(project.bookStructure.chapters, draggedId, targetId, position);
+    if (newChapters) {
+        commitUndoable(t('undo.actions.reorder'), { bookStructure: { ...project.bookStructure, chapters: newChapters } });
+    }
   };
 
-  const reorderStructure = (draggedId: string, targetId: string) => {
-    if (!project?.bookStructure || draggedId === targetId) return;
-
-    const chapters = [...project.bookStructure.chapters];
-    let newChapters: Chapter[] | null = null;
-    
-    // Check if we are dragging chapters
-    const draggedChapterIndex = chapters.findIndex(c => c.id === draggedId);
-    const targetChapterIndex = chapters.findIndex(c => c.id === targetId);
-    
-    if (draggedChapterIndex > -1 && targetChapterIndex > -1) {
-        // Reorder chapters
-        const [removed] = chapters.splice(draggedChapterIndex, 1);
-        chapters.splice(targetChapterIndex, 0, removed);
-        newChapters = chapters;
-    } else {
-        // Dragging subchapters - find which chapter they belong to
-        let parentChapterIndex = -1;
-        for (let i = 0; i < chapters.length; i++) {
-            if (chapters[i].subchapters.some(s => s.id === draggedId)) {
-                parentChapterIndex = i;
-                break;
-            }
-        }
-        
-        if (parentChapterIndex > -1) {
-            const chapter = chapters[parentChapterIndex];
-            const subchapters = [...chapter.subchapters];
-            const draggedSubIndex = subchapters.findIndex(s => s.id === draggedId);
-            const targetSubIndex = subchapters.findIndex(s => s.id === targetId);
-
-            if (draggedSubIndex > -1 && targetSubIndex > -1) {
-                const [removed] = subchapters.splice(draggedSubIndex, 1);
-                subchapters.splice(targetSubIndex, 0, removed);
-                
-                const modifiedChapters = [...chapters];
-                modifiedChapters[parentChapterIndex] = { ...chapter, subchapters };
-                newChapters = modifiedChapters;
-            }
-        }
+  const promoteNode = (nodeId: string) => {
+    if (!project?.bookStructure) return;
+    const newChapters = promoteOutlineNode(project.bookStructure.chapters, nodeId);
+    if (newChapters) {
+      commitUndoable(t('undo.actions.changeLevel'), { bookStructure: { ...project.bookStructure, chapters: newChapters } });
     }
+  };
 
+  const demoteNode = (nodeId: string) => {
+    if (!project?.bookStructure) return;
+    const newChapters = demoteOutlineNode(project.bookStructure.chapters, nodeId);
     if (newChapters) {
-        updateProject({ bookStructure: { chapters: newChapters } });
+      commitUndoable(t('undo.actions.changeLevel'), { bookStructure: { ...project.bookStructure, chapters: newChapters } });
     }
   };
+
+  const addMatterSection = (type: MatterSectionType) => {
+    if (!project) return;
+    const structure: BookStructure = project.bookStructure || { chapters: [] };
+    const newStructure: BookStructure = isFrontMatterType(type)
+      ? { ...structure, frontMatter: [...(structure.frontMatter || []), createMatterSection(type)] }
+      : { ...structure, backMatter: [...(structure.backMatter || []), createMatterSection(type as BackMatterType)] };
+    commitUndoable(t('undo.actions.addMatter', { section: t(`structureTab.matter.types.${type}`) }), { bookStructure: newStructure });
+  };
+
+  const updateMatterSection = (section: MatterSection) => {
+    if (!project?.bookStructure) return;
+    const newStructure: BookStructure = {
+      ...project.bookStructure,
+      frontMatter: project.bookStructure.frontMatter?.map(item => item.id === section.id ? section as MatterSection<FrontMatterType> : item),
+      backMatter: project.bookStructure.backMatter?.map(item => item.id === section.id ? section as MatterSection<BackMatterType> : item),
+    };
+    commitUndoable(t('undo.actions.editMatter', { section: t(`structureTab.matter.types.${section.type}`) }), { bookStructure: newStructure }, `matter:${section.id}`);
+  };
+
+  const deleteMatterSection = (sectionId: string) => {
+    if (!project?.bookStructure) return;
+    const section = [...(project.bookStructure.frontMatter || []), ...(project.bookStructure.backMatter || [])].find(item => item.id === sectionId);
+    const newStructure: BookStructure = {
+      ...project.bookStructure,
+      frontMatter: project.bookStructure.frontMatter?.filter(item => item.id !== sectionId),
+      backMatter: project.bookStructure.backMatter?.filter(item => item.id !== sectionId),
+    };
+    commitUndoable(t('undo.actions.deleteMatter', { section: section ? t(`structureTab.matter.types.${section.type}`) : '' }), { bookStructure: newStructure });
+  };
   
   const addContentBlock = (block: Omit<ContentBlock, 'id'>) => {
     if (!project) return;
     const newBlock = { ...block, id: generateId() };
-    updateProject({ contentBlocks: [...project.contentBlocks, newBlock] });
+    commitUndoable(t('undo.actions.addBlock'), { contentBlocks: [...project.contentBlocks, newBlock] });
   };
   
   const updateContentBlock = (block: ContentBlock) => {
       if (!project) return;
       const newBlocks = project.contentBlocks.map(b => b.id === block.id ? block : b);
-      updateProject({ contentBlocks: newBlocks });
+      commitUndoable(t('undo.actions.editBlock', { title: block.title }), { contentBlocks: newBlocks }, `block:${block.id}`);
   };
 
   const deleteContentBlock = (blockId: string) => {
     if (!project) return;
+    const deletedBlock = project.contentBlocks.find(b => b.id === blockId);
     const newBlocks = project.contentBlocks.filter(b => b.id !== blockId);
-    updateProject({ contentBlocks: newBlocks });
+    commitUndoable(t('undo.actions.deleteBlock', { title: deletedBlock?.title || '' }), { contentBlocks: newBlocks });
   };
   
   // Glossary methods
   const addGlossaryTerm = (term: Omit<GlossaryTerm, 'id'>) => {
     if (!project) return;
     const newTerm = { ...term, id: generateId() };
-    updateProject({ glossary: [...project.glossary, newTerm] });
+    commitUndoable(t('undo.actions.addTerm'), { glossary: [...project.glossary, newTerm] });
   };
   
   const updateGlossaryTerm = (term: GlossaryTerm) => {
     if (!project) return;
     const newGlossary = project.glossary.map(t => t.id === term.id ? term : t);
-    updateProject({ glossary: newGlossary });
+    commitUndoable(t('undo.actions.editTerm', { term: term.term }), { glossary: newGlossary }, `term:${term.id}`);
   };
 
   const deleteGlossaryTerm = (termId: string) => {
     if (!project) return;
-    const newGlossary = project.glossary.filter(t => t.id !== termId);
-    updateProject({ glossary: newGlossary });
+    const deletedTerm = project.glossary.find(g => g.id === termId);
+    const newGlossary = project.glossary.filter(g => g.id !== termId);
+    commitUndoable(t('undo.actions.deleteTerm', { term: deletedTerm?.term || '' }), { glossary: newGlossary });
   };
 
   const addAuthorToArchive = (author: string) => {
@@ -431,16 +552,122 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
   };
 
   const deleteProject = (projectId: string) => {
-      const archiveKey = ARCHIVE_KEY;
-      
-      setArchivedProjects(prevArchive => {
-          const newArchive = prevArchive.filter(p => p.id !== projectId);
-          saveArchiveToLocalStorage(newArchive, archiveKey);
-          return newArchive;
+      setArchivedProjects(prevArchive => prevArchive.filter(p => p.id !== projectId));
+      deleteProjectFromStore(projectId).catch(error => {
+          console.error("Failed to delete project from IndexedDB:", error);
       });
   };
   
+  // The open project may have changes still being written, so it is exported from memory.
+  const getProjectForBundle = async (projectId: string): Promise<Project | null> =>
+    projectRef.current?.id === projectId ? projectRef.current : loadProjectFromStore(projectId);
+
+  const showBundleError = (error: unknown) => {
+    console.error("Project bundle error:", error);
+    const reason = error instanceof ProjectBundleError ? error.reason : 'generic';
+    showToast(t(`bundle.errors.${reason}`), 'error');
+  };
+
+  // Writes an imported project, its audio and its series and pen name to the store, then lists it in the archive.
+  const addImportedProject = async (imported: ImportedBundle) => {
+    const importedProject = await saveBundledLibraryRecords(imported);
+    await saveProjectToStore(importedProject);
+    for (const [name, blob] of imported.audio) {
+      await saveAudioAsset(importedProject.id, name, blob);
+    }
+    setArchivedProjects(prevArchive => [...prevArchive, toSummary(importedProject)]);
+  };
+
+  const exportProject = async (projectId: string) => {
+    try {
+      const projectToExport = await getProjectForBundle(projectId);
+      if (!projectToExport) return;
+      const bundle = await exportProjectBundle(projectToExport);
+      const url = URL.createObjectURL(bundle);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${projectToExport.projectTitle || 'project'}${BUNDLE_EXTENSION}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      showBundleError(error);
+    }
+  };
+
+  const importProject = async (file: File) => {
+    try {
+      const imported = await importProjectBundle(file, archivedProjects.map(p => p.id));
+      await addImportedProject(imported);
+      showToast(t('bundle.imported', { title: imported.project.projectTitle }), 'success');
+    } catch (error) {
+      showBundleError(error);
+    }
+  };
+
+  // A duplicate is an export immediately imported back, so it always gets a new id.
+  const duplicateProject = async (projectId: string) => {
+    try {
+      const source = await getProjectForBundle(projectId);
+      if (!source) return;
+      const imported = await importProjectBundle(await exportProjectBundle(source), archivedProjects.map(p => p.id));
+      imported.project.projectTitle = t('bundle.copyTitle', { title: source.projectTitle });
+      await addImportedProject(imported);
+      showToast(t('bundle.duplicated', { title: source.projectTitle }), 'success');
+    } catch (error) {
+      showBundleError(error);
+    }
+  };
+
+  // Replaces the whole project with a snapshot; the current state is snapshotted first so the restore can be undone.
+  const restoreSnapshot = async (snapshotId: string): Promise<boolean> => {
+    const currentProject = projectRef.current;
+    if (!currentProject) return false;
+    const snapshotProject = await loadSnapshotProject(snapshotId);
+    if (!snapshotProject) {
+      showToast(t('historyTab.restoreError'), 'error');
+      return false;
+    }
+    if (!(await createSnapshot(t('historyTab.autoLabels.beforeRestore'), 'auto'))) return false;
+    const restoredProject: Project = {
+      ...snapshotProject,
+      id: currentProject.id,
+      lastSaved: new Date().toISOString(),
+    };
+    setProject(restoredProject);
+    persistProject(restoredProject);
+    clearUndoHistory();
+    return true;
+  };
+
+  const restoreChapterFromSnapshot = async (snapshotId: string, chapterId: string): Promise<boolean> => {
+    const snapshotProject = await loadSnapshotProject(snapshotId);
+    const snapshotChapters = snapshotProject?.bookStructure?.chapters || [];
+    const snapshotItem = findOutlineItem(snapshotChapters, chapterId);
+    if (!snapshotItem || !projectRef.current) {
+      showToast(t('historyTab.restoreError'), 'error');
+      return false;
+    }
+    if (!(await createSnapshot(t('historyTab.autoLabels.beforeRestore'), 'auto'))) return false;
+
+    const restoredChapter = snapshotItem.node;
+    const currentChapters = projectRef.current.bookStructure?.chapters || [];
+    let chapters: OutlineNode[];
+    if (findOutlineNode(currentChapters, chapterId)) {
+      chapters = updateOutlineNode(currentChapters, chapterId, () => restoredChapter);
+    } else {
+      // The chapter was deleted: put it back where it was, as far as the current structure allows.
+      const parentId = snapshotItem.parentId && findOutlineNode(currentChapters, snapshotItem.parentId) ? snapshotItem.parentId : null;
+      const snapshotSiblings = snapshotItem.parentId ? findOutlineNode(snapshotChapters, snapshotItem.parentId)!.subchapters : snapshotChapters;
+      chapters = insertOutlineNode(currentChapters, parentId, snapshotSiblings.findIndex(node => node.id === chapterId), restoredChapter);
+    }
+    commitUndoable(t('undo.actions.restoreChapter', { title: restoredChapter.title }), { bookStructure: { ...projectRef.current.bookStructure, chapters } });
+    return true;
+  };
+
   const endCurrentProject = () => {
+      clearUndoHistory();
       setProject(null);
       setIsProjectStarted(false);
   };
@@ -450,20 +677,28 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
       project, 
       isProjectStarted, 
       archivedProjects,
+      unreadableProjects,
       startNewProject, 
       loadProject,
       updateProject, 
       updateNodeContent,
       endCurrentProject,
       deleteProject,
+      exportProject,
+      importProject,
+      duplicateProject,
       setBookStructure,
-      updateChapterTitle,
-      updateSubchapterTitle,
+      updateNodeTitle,
+      addPart,
       addChapter,
-      deleteChapter,
       addSubchapter,
-      deleteSubchapter,
+      deleteNode,
       reorderStructure,
+      promoteNode,
+      demoteNode,
+      addMatterSection,
+      updateMatterSection,
+      deleteMatterSection,
       addContentBlock,
       updateContentBlock,
       deleteContentBlock,
@@ -471,6 +706,15 @@ export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) =>
       updateGlossaryTerm,
       deleteGlossaryTerm,
       addAuthorToArchive,
+      undo,
+      redo,
+      canUndo: undoStackRef.current.length > 0,
+      canRedo: redoStackRef.current.length > 0,
+      undoLabel: undoStackRef.current[undoStackRef.current.length - 1]?.label ?? null,
+      redoLabel: redoStackRef.current[redoStackRef.current.length - 1]?.label ?? null,
+      createSnapshot,
+      restoreSnapshot,
+      restoreChapterFromSnapshot,
     }}>
       {children}
     </ProjectContext.Provider>
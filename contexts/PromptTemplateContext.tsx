@@ -0,0 +1,72 @@
+import React, { createContext, useState, useEffect, useLayoutEffect, useCallback } from 'react';
+import type { PromptOverride } from '../types';
+import { useProject } from '../hooks/useProject';
+import { listPromptOverrides, savePromptOverrideToStore, deletePromptOverrideFromStore } from '../services/projectStore';
+import { getPromptTemplate, setPromptOverrides, type PromptScope, type PromptTemplateId } from '../services/promptTemplates';
+
+export interface PromptTemplateContextType {
+  globalOverrides: PromptOverride[];
+  // Overrides of the open project, which win over the global ones.
+  projectOverrides: PromptOverride[];
+  saveOverride: (scope: PromptScope, templateId: PromptTemplateId, template: string) => Promise<void>;
+  resetOverride: (scope: PromptScope, templateId: PromptTemplateId) => Promise<void>;
+}
+
+// Shared by projects without overrides, so the overrides only change when a project's do.
+const NO_OVERRIDES: PromptOverride[] = [];
+
+export const PromptTemplateContext = createContext<PromptTemplateContextType | undefined>(undefined);
+
+interface PromptTemplateProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Loads the prompt template overrides and keeps the ones renderPrompt uses in step with the open project.
+ */
+export const PromptTemplateProvider: React.FC<PromptTemplateProviderProps> = ({ children }) => {
+  const { project, updateProject } = useProject();
+  const [globalOverrides, setGlobalOverrides] = useState<PromptOverride[]>([]);
+  const projectOverrides = project?.promptOverrides ?? NO_OVERRIDES;
+
+  useEffect(() => {
+    listPromptOverrides()
+      .then(setGlobalOverrides)
+      .catch(error => console.error("Failed to load prompt overrides:", error));
+  }, []);
+
+  // A layout effect runs before the job queue's effects, so a job started for a newly opened project uses its overrides.
+  useLayoutEffect(() => {
+    setPromptOverrides(globalOverrides, projectOverrides);
+  }, [globalOverrides, projectOverrides]);
+
+  const saveOverride = useCallback(async (scope: PromptScope, templateId: PromptTemplateId, template: string) => {
+    const override: PromptOverride = {
+      templateId,
+      template,
+      baseVersion: getPromptTemplate(templateId).version,
+      updatedAt: new Date().toISOString(),
+    };
+    if (scope === 'project') {
+      updateProject({ promptOverrides: [...projectOverrides.filter(other => other.templateId !== templateId), override] });
+      return;
+    }
+    await savePromptOverrideToStore(override);
+    setGlobalOverrides(current => [...current.filter(other => other.templateId !== templateId), override]);
+  }, [projectOverrides, updateProject]);
+
+  const resetOverride = useCallback(async (scope: PromptScope, templateId: PromptTemplateId) => {
+    if (scope === 'project') {
+      updateProject({ promptOverrides: projectOverrides.filter(other => other.templateId !== templateId) });
+      return;
+    }
+    await deletePromptOverrideFromStore(templateId);
+    setGlobalOverrides(current => current.filter(other => other.templateId !== templateId));
+  }, [projectOverrides, updateProject]);
+
+  return (
+    <PromptTemplateContext.Provider value={{ globalOverrides, projectOverrides, saveOverride, resetOverride }}>
+      {children}
+    </PromptTemplateContext.Provider>
+  );
+};
@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { JobQueueContext, JobQueueContextType } from '../contexts/JobQueueContext';
+
+export const useJobQueue = (): JobQueueContextType => {
+  const context = useContext(JobQueueContext);
+  if (!context) {
+    throw new Error('useJobQueue must be used within a JobQueueProvider');
+  }
+  return context;
+};
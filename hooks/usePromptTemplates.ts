@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { PromptTemplateContext, PromptTemplateContextType } from '../contexts/PromptTemplateContext';
+
+export const usePromptTemplates = (): PromptTemplateContextType => {
+  const context = useContext(PromptTemplateContext);
+  if (!context) {
+    throw new Error('usePromptTemplates must be used within a PromptTemplateProvider');
+  }
+  return context;
+};
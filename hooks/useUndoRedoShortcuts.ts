@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { useProject } from './useProject';
+
+interface UndoRedoShortcutOptions {
+  // Runs before undo/redo, e.g. to flush a pending debounced save so it becomes its own undo step.
+  beforeAction?: () => void;
+}
+
+/**
+ * Binds Ctrl/Cmd+Z (undo) and Ctrl/Cmd+Shift+Z or Ctrl+Y (redo) to the project history
+ * while the calling tab is mounted. Plain inputs and textareas keep their native undo.
+ */
+export const useUndoRedoShortcuts = (options: UndoRedoShortcutOptions = {}) => {
+  const { undo, redo } = useProject();
+  const beforeActionRef = useRef(options.beforeAction);
+  beforeActionRef.current = options.beforeAction;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) return;
+
+      const key = event.key.toLowerCase();
+      const isUndo = key === 'z' && !event.shiftKey;
+      const isRedo = (key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey);
+      if (!isUndo && !isRedo) return;
+
+      event.preventDefault();
+      beforeActionRef.current?.();
+      if (isUndo) {
+        undo();
+      } else {
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+};
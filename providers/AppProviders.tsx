@@ -2,6 +2,8 @@ import React from 'react';
 import { LocalizationProvider } from '../contexts/LocalizationContext';
 import { ProjectProvider } from '../contexts/ProjectContext';
 import { ToastProvider } from '../contexts/ToastContext';
+import { JobQueueProvider } from '../contexts/JobQueueContext';
+import { PromptTemplateProvider } from '../contexts/PromptTemplateContext';
 
 interface AppProvidersProps {
   children: React.ReactNode;
@@ -12,7 +14,11 @@ export const AppProviders: React.FC<AppProvidersProps> = ({ children }) => {
     <LocalizationProvider>
       <ToastProvider>
         <ProjectProvider>
-          {children}
+          <PromptTemplateProvider>
+            <JobQueueProvider>
+              {children}
+            </JobQueueProvider>
+          </PromptTemplateProvider>
         </ProjectProvider>
       </ToastProvider>
     </LocalizationProvider>
@@ -0,0 +1,140 @@
+import type { GroundingSource } from '../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+
+/**
+ * Identifies which high-level operation a request belongs to.
+ * Real providers ignore it; the local provider uses it to pick the right fixture.
+ */
+export type AITask =
+  | 'discoverTrends'
+  | 'researchTopic'
+  | 'generateStructure'
+  | 'generateContent'
+  | 'fetchCompetitorCovers'
+  | 'generateCoverPrompt'
+  | 'generateCoverImages'
+  | 'editCoverImage'
+  | 'generateDescription'
+  | 'fetchAmazonCategories'
+  | 'generateContentBlockPrompt'
+  | 'generateContentBlockText'
+  | 'generateContentBlockImage'
+  | 'translateText'
+  | 'processText'
+  | 'generateCoverTagline'
+  | 'generateMatterText'
+  | 'analyzeManuscript'
+  | 'regenerateManuscript'
+  | 'highlightManuscriptChanges'
+  | 'listManuscriptChanges'
+  | 'generateAudioSegment';
+
+/**
+ * Provider-neutral subset of JSON schema used for structured output.
+ */
+export interface AISchema {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  items?: AISchema;
+  properties?: { [key: string]: AISchema };
+  required?: string[];
+}
+
+interface AIRequestBase {
+  task: AITask;
+  model: string;
+  // Values the prompt was built from. Providers that cannot understand free text (the local one) read these.
+  context?: { [key: string]: string | number };
+}
+
+export interface TextRequest extends AIRequestBase {
+  prompt: string;
+  useSearch?: boolean;
+}
+
+export interface JsonRequest extends TextRequest {
+  schema: AISchema;
+}
+
+export interface TextResult {
+  text: string;
+  sources: GroundingSource[];
+}
+
+export interface TextChunk {
+  text: string;
+}
+
+export interface ImageRequest extends AIRequestBase {
+  prompt: string;
+  numberOfImages: number;
+  mimeType: 'image/png' | 'image/jpeg';
+  aspectRatio: '1:1' | '3:4';
+}
+
+export interface ImageEditRequest extends AIRequestBase {
+  prompt: string;
+  imageBase64: string;
+  imageMimeType: string;
+}
+
+export interface GeneratedImage {
+  base64: string;
+  mimeType: string;
+}
+
+export interface SpeechRequest extends AIRequestBase {
+  text: string;
+  voiceName: string;
+}
+
+/**
+ * Every backend the app can talk to implements this interface.
+ * Speech output is raw PCM (24kHz, mono, 16 bit little endian), the format `pcmToWav` expects.
+ */
+export interface AIProvider {
+  readonly name: string;
+  generateText(request: TextRequest): Promise<TextResult>;
+  generateJson<T>(request: JsonRequest): Promise<T>;
+  generateTextStream(request: TextRequest): Promise<AsyncGenerator<TextChunk>>;
+  generateImages(request: ImageRequest): Promise<GeneratedImage[]>;
+  editImage(request: ImageEditRequest): Promise<GeneratedImage | null>;
+  generateSpeech(request: SpeechRequest): Promise<ArrayBuffer | null>;
+}
+
+export type AIProviderName = 'gemini' | 'local';
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Resolves the provider from the environment: `AI_PROVIDER=local` forces the offline provider,
+ * and a missing API key falls back to it so the app still runs without network.
+ */
+export const resolveProviderName = (): AIProviderName => {
+  const configured = process.env.AI_PROVIDER;
+  if (configured === 'local' || configured === 'gemini') {
+    return configured;
+  }
+  if (!process.env.API_KEY) {
+    console.warn("Gemini API key is missing. The local AI provider will be used and all generated content will be placeholder data.");
+    return 'local';
+  }
+  return 'gemini';
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = resolveProviderName() === 'local'
+      ? createLocalProvider()
+      : createGeminiProvider(process.env.API_KEY as string);
+  }
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. to run the workflow against fixtures.
+ * Passing null makes the next call resolve it from the environment again.
+ */
+export const setAIProvider = (provider: AIProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,294 @@
+import { pcmToWav } from './geminiService';
+
+// --- ACX audio submission requirements ---
+
+export const ACX_REQUIREMENTS = {
+  sampleRate: 44100,
+  rmsDb: { min: -23, max: -18 },
+  maxPeakDb: -3,
+  maxNoiseFloorDb: -60,
+  headRoomToneSeconds: { min: 0.5, max: 1 },
+  tailRoomToneSeconds: { min: 1, max: 5 },
+};
+
+// --- Mastering targets, inside the ACX ranges with some margin ---
+
+const TARGET_RMS_DB = -20;
+const RMS_TOLERANCE_DB = 0.5;
+const MAX_GAIN_PASSES = 4;
+const LIMITER_CEILING_DB = -3.5;
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+const HEAD_ROOM_TONE_SECONDS = 0.75;
+const TAIL_ROOM_TONE_SECONDS = 2;
+// Room tone is faint noise rather than digital silence, well below the noise floor limit.
+const ROOM_TONE_DB = -75;
+// Samples quieter than this count as room tone when measuring the head and tail of a chapter.
+const SILENCE_THRESHOLD_DB = -50;
+// The noise floor is the RMS of the quietest stretch of this length.
+const NOISE_FLOOR_WINDOW_SECONDS = 0.5;
+const NOISE_FLOOR_BLOCKS = 10;
+// Digital silence has no level; it is reported as the floor of 16 bit audio.
+const MIN_DB = -96;
+
+export interface AudioLevels {
+  rmsDb: number;
+  peakDb: number;
+  noiseFloorDb: number;
+  headRoomToneSeconds: number;
+  tailRoomToneSeconds: number;
+  durationSeconds: number;
+  sampleRate: number;
+}
+
+export type ComplianceCheckId = 'rms' | 'peak' | 'noiseFloor' | 'headRoomTone' | 'tailRoomTone' | 'sampleRate';
+
+export interface ComplianceCheck {
+  id: ComplianceCheckId;
+  passed: boolean;
+  // Placeholders of the check's message under audiobookTab.acx.checks.
+  params: { [key: string]: string | number };
+}
+
+export interface ComplianceReport {
+  levels: AudioLevels;
+  checks: ComplianceCheck[];
+  passed: boolean;
+}
+
+const toDb = (level: number): number => (level > 0 ? Math.max(20 * Math.log10(level), MIN_DB) : MIN_DB);
+const fromDb = (db: number): number => Math.pow(10, db / 20);
+
+const sumOfSquares = (samples: Float32Array, start: number, end: number): number => {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return sum;
+};
+
+const rmsDb = (samples: Float32Array): number =>
+  samples.length > 0 ? toDb(Math.sqrt(sumOfSquares(samples, 0, samples.length) / samples.length)) : MIN_DB;
+
+const leadingSilence = (samples: Float32Array, threshold: number): number => {
+  let i = 0;
+  while (i < samples.length && Math.abs(samples[i]) < threshold) i++;
+  return i;
+};
+
+const trailingSilence = (samples: Float32Array, threshold: number): number => {
+  let i = samples.length;
+  while (i > 0 && Math.abs(samples[i - 1]) < threshold) i--;
+  return samples.length - i;
+};
+
+const noiseFloorDb = (samples: Float32Array, sampleRate: number): number => {
+  const blockLength = Math.max(1, Math.round((NOISE_FLOOR_WINDOW_SECONDS * sampleRate) / NOISE_FLOOR_BLOCKS));
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= samples.length; start += blockLength) {
+    blocks.push(sumOfSquares(samples, start, start + blockLength));
+  }
+  if (blocks.length < NOISE_FLOOR_BLOCKS) return rmsDb(samples);
+  let windowSum = blocks.slice(0, NOISE_FLOOR_BLOCKS).reduce((sum, block) => sum + block, 0);
+  let quietest = windowSum;
+  for (let i = NOISE_FLOOR_BLOCKS; i < blocks.length; i++) {
+    windowSum += blocks[i] - blocks[i - NOISE_FLOOR_BLOCKS];
+    quietest = Math.min(quietest, windowSum);
+  }
+  return toDb(Math.sqrt(Math.max(quietest, 0) / (blockLength * NOISE_FLOOR_BLOCKS)));
+};
+
+const measureAudio = (samples: Float32Array, sampleRate: number): AudioLevels => {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  const threshold = fromDb(SILENCE_THRESHOLD_DB);
+  return {
+    rmsDb: rmsDb(samples),
+    peakDb: toDb(peak),
+    noiseFloorDb: noiseFloorDb(samples, sampleRate),
+    headRoomToneSeconds: leadingSilence(samples, threshold) / sampleRate,
+    tailRoomToneSeconds: trailingSilence(samples, threshold) / sampleRate,
+    durationSeconds: samples.length / sampleRate,
+    sampleRate,
+  };
+};
+
+/**
+ * Checks measured levels against the ACX requirements.
+ */
+export const checkCompliance = (levels: AudioLevels): ComplianceReport => {
+  const { rmsDb: rms, maxPeakDb, maxNoiseFloorDb, headRoomToneSeconds: head, tailRoomToneSeconds: tail, sampleRate } = ACX_REQUIREMENTS;
+  const inRange = (value: number, range: { min: number; max: number }) => value >= range.min && value <= range.max;
+  const checks: ComplianceCheck[] = [
+    { id: 'rms', passed: inRange(levels.rmsDb, rms), params: { value: levels.rmsDb.toFixed(1), min: rms.min, max: rms.max } },
+    { id: 'peak', passed: levels.peakDb <= maxPeakDb, params: { value: levels.peakDb.toFixed(1), max: maxPeakDb } },
+    { id: 'noiseFloor', passed: levels.noiseFloorDb <= maxNoiseFloorDb, params: { value: levels.noiseFloorDb.toFixed(1), max: maxNoiseFloorDb } },
+    { id: 'headRoomTone', passed: inRange(levels.headRoomToneSeconds, head), params: { value: levels.headRoomToneSeconds.toFixed(2), min: head.min, max: head.max } },
+    { id: 'tailRoomTone', passed: inRange(levels.tailRoomToneSeconds, tail), params: { value: levels.tailRoomToneSeconds.toFixed(2), min: tail.min, max: tail.max } },
+    { id: 'sampleRate', passed: levels.sampleRate === sampleRate, params: { value: levels.sampleRate, required: sampleRate } },
+  ];
+  return { levels, checks, passed: checks.every(check => check.passed) };
+};
+
+// --- 16 bit PCM and WAV ---
+
+const decodePcm16 = (view: DataView, offset: number, byteLength: number, channels: number): Float32Array => {
+  const frames = Math.floor(byteLength / (2 * channels));
+  const samples = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += view.getInt16(offset + (frame * channels + channel) * 2, true);
+    }
+    samples[frame] = sum / channels / 32768;
+  }
+  return samples;
+};
+
+export const encodePcm16 = (samples: Float32Array): ArrayBuffer => {
+  const buffer = new ArrayBuffer(samples.length * 2);
+  const view = new DataView(buffer);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, Math.round(sample < 0 ? sample * 32768 : sample * 32767), true);
+  }
+  return buffer;
+};
+
+/**
+ * Reads the samples of a 16 bit PCM WAV file, mixed down to mono.
+ */
+export const decodeWav = (wav: ArrayBuffer): { samples: Float32Array; sampleRate: number } => {
+  const view = new DataView(wav);
+  const chunkId = (offset: number) => String.fromCharCode(...Array.from(new Uint8Array(wav, offset, 4)));
+  if (wav.byteLength < 12 || chunkId(0) !== 'RIFF' || chunkId(8) !== 'WAVE') throw new Error('Not a WAV file');
+  let format: { channels: number; sampleRate: number; bitsPerSample: number; audioFormat: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= wav.byteLength) {
+    const id = chunkId(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      format = {
+        audioFormat: view.getUint16(offset + 8, true),
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+    } else if (id === 'data') {
+      if (!format || format.audioFormat !== 1 || format.bitsPerSample !== 16) throw new Error('Unsupported WAV format');
+      const length = Math.min(size, wav.byteLength - offset - 8);
+      return { samples: decodePcm16(view, offset + 8, length, format.channels), sampleRate: format.sampleRate };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error('WAV file without audio data');
+};
+
+// --- Processing ---
+
+/**
+ * Linear interpolation; the speech models output 24 kHz, so this mostly upsamples.
+ */
+export const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate || samples.length === 0) return samples;
+  const output = new Float32Array(Math.round((samples.length * toRate) / fromRate));
+  const step = fromRate / toRate;
+  const last = samples.length - 1;
+  for (let i = 0; i < output.length; i++) {
+    const position = i * step;
+    const index = Math.min(Math.floor(position), last);
+    const fraction = position - index;
+    output[i] = samples[index] + (samples[Math.min(index + 1, last)] - samples[index]) * fraction;
+  }
+  return output;
+};
+
+const fillRoomTone = (output: Float32Array, start: number, end: number) => {
+  // Uniform noise in [-a, a] has an RMS of a / √3. A fixed seed keeps re-mastering reproducible.
+  const amplitude = fromDb(ROOM_TONE_DB) * Math.sqrt(3);
+  let seed = 0x2545f491;
+  for (let i = start; i < end; i++) {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    output[i] = ((seed / 0x100000000) * 2 - 1) * amplitude;
+  }
+};
+
+/**
+ * Writes the speech into `output` at `offset` with the given gain, holding every peak under the ceiling.
+ * The gain drops as soon as a peak enters the lookahead window and recovers over the release time.
+ */
+const writeLimited = (speech: Float32Array, output: Float32Array, offset: number, gain: number, sampleRate: number) => {
+  const ceiling = fromDb(LIMITER_CEILING_DB);
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * sampleRate));
+  const release = 1 / (LIMITER_RELEASE_SECONDS * sampleRate);
+  const required = (index: number) => {
+    const level = Math.abs(speech[index] * gain);
+    return level > ceiling ? ceiling / level : 1;
+  };
+  // Indices of the lowest required gains in the window, as a monotonic queue.
+  const queue = new Int32Array(speech.length);
+  let head = 0;
+  let tail = 0;
+  let envelope = 1;
+  for (let ahead = 0; ahead < speech.length + lookahead; ahead++) {
+    if (ahead < speech.length) {
+      const value = required(ahead);
+      while (tail > head && required(queue[tail - 1]) >= value) tail--;
+      queue[tail++] = ahead;
+    }
+    const i = ahead - lookahead;
+    if (i < 0) continue;
+    while (queue[head] < i) head++;
+    envelope = Math.min(required(queue[head]), envelope + release);
+    output[offset + i] = speech[i] * gain * envelope;
+  }
+};
+
+const masterSamples = (samples: Float32Array, sampleRate: number): Float32Array => {
+  const rate = ACX_REQUIREMENTS.sampleRate;
+  const resampled = resample(samples, sampleRate, rate);
+  // Whatever silence the voice has at its ends is replaced by room tone of the required length.
+  const threshold = fromDb(SILENCE_THRESHOLD_DB);
+  const start = leadingSilence(resampled, threshold);
+  const end = Math.max(start, resampled.length - trailingSilence(resampled, threshold));
+  const speech = resampled.subarray(start, end);
+  const headLength = Math.round(HEAD_ROOM_TONE_SECONDS * rate);
+  const tailLength = Math.round(TAIL_ROOM_TONE_SECONDS * rate);
+  const output = new Float32Array(headLength + speech.length + tailLength);
+  fillRoomTone(output, 0, headLength);
+  fillRoomTone(output, headLength + speech.length, output.length);
+  if (speech.length === 0) return output;
+
+  // The limiter and the room tone lower the RMS, so the gain is corrected until the whole file hits the target.
+  let gainDb = TARGET_RMS_DB - rmsDb(speech);
+  for (let pass = 0; pass < MAX_GAIN_PASSES; pass++) {
+    writeLimited(speech, output, headLength, fromDb(gainDb), rate);
+    const error = TARGET_RMS_DB - rmsDb(output);
+    if (Math.abs(error) <= RMS_TOLERANCE_DB) break;
+    gainDb += error;
+  }
+  return output;
+};
+
+/**
+ * Masters raw speech PCM (mono, 16 bit little endian) for ACX: 44.1 kHz, RMS normalised, peaks limited
+ * and room tone at the head and tail. Returns a WAV file.
+ */
+export const masterPcm = (pcmData: ArrayBuffer, sampleRate: number = 24000): ArrayBuffer => {
+  const samples = decodePcm16(new DataView(pcmData), 0, pcmData.byteLength, 1);
+  return pcmToWav(encodePcm16(masterSamples(samples, sampleRate)), ACX_REQUIREMENTS.sampleRate);
+};
+
+/**
+ * Masters a WAV file for ACX, e.g. audio generated before mastering existed.
+ */
+export const masterWav = (wav: ArrayBuffer): ArrayBuffer => {
+  const { samples, sampleRate } = decodeWav(wav);
+  return pcmToWav(encodePcm16(masterSamples(samples, sampleRate)), ACX_REQUIREMENTS.sampleRate);
+};
+
+/**
+ * Measures a WAV file and checks it against the ACX requirements.
+ */
+export const analyzeWav = (wav: ArrayBuffer): ComplianceReport => {
+  const { samples, sampleRate } = decodeWav(wav);
+  return checkCompliance(measureAudio(samples, sampleRate));
+};
@@ -0,0 +1,413 @@
+import { dataUrlToBlob } from './projectStore';
+import { ACX_REQUIREMENTS, decodeWav, encodePcm16, resample } from './audioMastering';
+
+// ACX asks for constant bit rate MP3 at 192 kbps or more, at 44.1 kHz.
+export const MP3_BITRATE_KBPS = 192;
+const MP3_BLOCK_SAMPLES = 1152;
+// AAC in the M4B: spoken word needs far less than music.
+const AAC_BITRATE = 64000;
+const AAC_FRAME_SAMPLES = 1024;
+// About one second of audio per chunk of the MP4 file.
+const AAC_FRAMES_PER_CHUNK = 43;
+const ENCODE_BLOCK_SAMPLES = ACX_REQUIREMENTS.sampleRate;
+// Blocks waiting in the AAC encoder before the next one is queued, so a whole book is never held in memory.
+const MAX_ENCODE_QUEUE = 8;
+const MOVIE_TIMESCALE = 1000;
+const MAX_CHAPTER_TITLE_BYTES = 255;
+
+export type AudiobookExportErrorReason = 'libraryMissing' | 'aacUnsupported';
+
+export class AudiobookExportError extends Error {
+  constructor(public reason: AudiobookExportErrorReason, message: string) {
+    super(message);
+    this.name = 'AudiobookExportError';
+  }
+}
+
+export interface AudiobookMetadata {
+  title: string;
+  author: string;
+  narrator: string;
+  year: number;
+  cover: string | null; // base64 data URL
+}
+
+export interface AudiobookChapter {
+  title: string;
+  wav: Blob;
+}
+
+export interface Mp3Tags extends AudiobookMetadata {
+  chapterTitle: string;
+  track: number;
+  trackCount: number;
+}
+
+interface CoverArt {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+const loadCover = async (cover: string | null): Promise<CoverArt | null> => {
+  if (!cover?.startsWith('data:')) return null;
+  const blob = dataUrlToBlob(cover);
+  return { data: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type };
+};
+
+// --- Bytes ---
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+};
+
+const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text);
+const latin1 = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+const u8 = (value: number): Uint8Array => Uint8Array.of(value & 0xff);
+const u16 = (value: number): Uint8Array => Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+
+const u32Array = (values: number[]): Uint8Array => {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+};
+const u32 = (value: number): Uint8Array => u32Array([value]);
+
+const u64 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(Math.round(value)));
+  return bytes;
+};
+
+// Titles cut to a byte limit without splitting a character.
+const truncatedUtf8 = (text: string, maxBytes: number): Uint8Array => {
+  let bytes = utf8(text);
+  let chars = Array.from(text);
+  while (bytes.length > maxBytes) {
+    chars = chars.slice(0, -1);
+    bytes = utf8(chars.join(''));
+  }
+  return bytes;
+};
+
+// --- MP3 with ID3v2.3 tags ---
+
+const syncsafe = (value: number): Uint8Array =>
+  Uint8Array.of((value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f);
+
+const id3Frame = (id: string, body: Uint8Array): Uint8Array => concat([latin1(id), u32(body.length), new Uint8Array(2), body]);
+
+// Text frames are written as UTF-16 with a byte order mark, the only Unicode encoding of ID3v2.3.
+const id3TextFrame = (id: string, text: string): Uint8Array => {
+  const body = new Uint8Array(3 + text.length * 2);
+  body.set([1, 0xff, 0xfe]);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    body[3 + i * 2] = code & 0xff;
+    body[4 + i * 2] = code >> 8;
+  }
+  return id3Frame(id, body);
+};
+
+const id3Tag = (tags: Mp3Tags, cover: CoverArt | null): Uint8Array => {
+  const texts: [string, string][] = [
+    ['TIT2', tags.chapterTitle],
+    ['TALB', tags.title],
+    ['TPE1', tags.author],
+    ['TPE2', tags.author],
+    // Audiobook players show the narrator as the composer.
+    ['TCOM', tags.narrator],
+    ['TYER', String(tags.year)],
+    ['TRCK', `${tags.track}/${tags.trackCount}`],
+    ['TCON', 'Audiobook'],
+  ];
+  const frames = texts.filter(([, text]) => text.trim()).map(([id, text]) => id3TextFrame(id, text));
+  if (cover) {
+    // Latin-1 description (empty), picture type 3: front cover.
+    frames.push(id3Frame('APIC', concat([u8(0), latin1(cover.mimeType), u8(0), u8(3), u8(0), cover.data])));
+  }
+  const body = concat(frames);
+  return concat([latin1('ID3'), Uint8Array.of(3, 0, 0), syncsafe(body.length), body]);
+};
+
+/**
+ * Encodes a chapter's WAV audio as 192 kbps CBR MP3 at 44.1 kHz, as ACX requires, with ID3 tags and the cover.
+ */
+export const encodeMp3 = async (wav: Blob, tags: Mp3Tags): Promise<Blob> => {
+  const lamejs = (window as any).lamejs;
+  if (!lamejs) {
+    throw new AudiobookExportError('libraryMissing', 'MP3 encoder not loaded. Please check your internet connection and try again.');
+  }
+  const { samples, sampleRate } = decodeWav(await wav.arrayBuffer());
+  const pcm = new Int16Array(encodePcm16(resample(samples, sampleRate, ACX_REQUIREMENTS.sampleRate)));
+  const encoder = new lamejs.Mp3Encoder(1, ACX_REQUIREMENTS.sampleRate, MP3_BITRATE_KBPS);
+  const parts: Uint8Array[] = [id3Tag(tags, await loadCover(tags.cover))];
+  const addFrames = (frames: Int8Array) => {
+    if (frames.length > 0) parts.push(new Uint8Array(frames.buffer, frames.byteOffset, frames.length).slice());
+  };
+  for (let i = 0; i < pcm.length; i += MP3_BLOCK_SAMPLES) {
+    addFrames(encoder.encodeBuffer(pcm.subarray(i, i + MP3_BLOCK_SAMPLES)));
+  }
+  addFrames(encoder.flush());
+  return new Blob(parts, { type: 'audio/mpeg' });
+};
+
+// --- AAC ---
+
+interface EncodedAudio {
+  frames: Uint8Array[];
+  // AudioSpecificConfig of the stream, for the esds box.
+  decoderConfig: Uint8Array;
+  // First sample of each chapter.
+  chapterStarts: number[];
+}
+
+// AAC LC, 44.1 kHz, mono: for encoders that do not report their configuration.
+const DEFAULT_AUDIO_SPECIFIC_CONFIG = Uint8Array.of(0x12, 0x08);
+
+const bufferBytes = (source: AllowSharedBufferSource): Uint8Array =>
+  ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice();
+
+const encodeAac = async (chapters: AudiobookChapter[], onProgress?: (done: number, total: number) => void): Promise<EncodedAudio> => {
+  const sampleRate = ACX_REQUIREMENTS.sampleRate;
+  const config: AudioEncoderConfig = { codec: 'mp4a.40.2', sampleRate, numberOfChannels: 1, bitrate: AAC_BITRATE };
+  if (typeof AudioEncoder === 'undefined' || !(await AudioEncoder.isConfigSupported(config)).supported) {
+    throw new AudiobookExportError('aacUnsupported', 'This browser cannot encode AAC audio.');
+  }
+
+  const frames: Uint8Array[] = [];
+  let decoderConfig: Uint8Array | null = null;
+  let failure: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push(data);
+      if (!decoderConfig && metadata?.decoderConfig?.description) {
+        decoderConfig = bufferBytes(metadata.decoderConfig.description);
+      }
+    },
+    error: error => { failure = error; },
+  });
+  encoder.configure(config);
+
+  const chapterStarts: number[] = [];
+  let position = 0;
+  try {
+    for (const [index, chapter] of chapters.entries()) {
+      chapterStarts.push(position);
+      const decoded = decodeWav(await chapter.wav.arrayBuffer());
+      const samples = resample(decoded.samples, decoded.sampleRate, sampleRate);
+      for (let offset = 0; offset < samples.length; offset += ENCODE_BLOCK_SAMPLES) {
+        const block = samples.slice(offset, offset + ENCODE_BLOCK_SAMPLES);
+        const audioData = new AudioData({
+          format: 'f32',
+          sampleRate,
+          numberOfFrames: block.length,
+          numberOfChannels: 1,
+          timestamp: Math.round(((position + offset) / sampleRate) * 1e6),
+          data: block,
+        });
+        encoder.encode(audioData);
+        audioData.close();
+        while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        if (failure) throw failure;
+      }
+      position += samples.length;
+      onProgress?.(index + 1, chapters.length);
+    }
+    await encoder.flush();
+  } finally {
+    // A failed export must not leave the codec running.
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (failure) throw failure;
+  return { frames, decoderConfig: decoderConfig ?? DEFAULT_AUDIO_SPECIFIC_CONFIG, chapterStarts };
+};
+
+// --- MP4 boxes ---
+
+const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concat(payload);
+  return concat([u32(body.length + 8), latin1(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array =>
+  box(type, u8(version), u8(flags >> 16), u16(flags), ...payload);
+
+const MATRIX = u32Array([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000]);
+const UNDETERMINED_LANGUAGE = 0x55c4; // 'und', packed ISO 639-2
+
+const mvhd = (durationMs: number, nextTrackId: number) =>
+  fullBox('mvhd', 0, 0, u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(durationMs), u32(0x00010000), u16(0x0100),
+    new Uint8Array(10), MATRIX, new Uint8Array(24), u32(nextTrackId));
+
+// Flags: 1 enabled, 2 in movie. The chapter track is neither, so players do not show it as subtitles.
+const tkhd = (trackId: number, flags: number, durationMs: number, volume: number) =>
+  fullBox('tkhd', 0, flags, u32(0), u32(0), u32(trackId), u32(0), u32(durationMs), new Uint8Array(8),
+    u16(0), u16(0), u16(volume), u16(0), MATRIX, u32(0), u32(0));
+
+const mdhd = (duration: number) =>
+  fullBox('mdhd', 0, 0, u32(0), u32(0), u32(ACX_REQUIREMENTS.sampleRate), u32(duration), u16(UNDETERMINED_LANGUAGE), u16(0));
+
+const hdlr = (handlerType: string, name: string) =>
+  fullBox('hdlr', 0, 0, u32(0), latin1(handlerType), new Uint8Array(12), utf8(name), u8(0));
+
+const dinf = () => box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+
+interface SampleTable {
+  sampleEntry: Uint8Array;
+  durations: number[];
+  sizes: number[];
+  // Samples in each chunk, and where each chunk starts in the file.
+  chunkSamples: number[];
+  chunkOffsets: number[];
+}
+
+const stbl = ({ sampleEntry, durations, sizes, chunkSamples, chunkOffsets }: SampleTable) => {
+  const timeToSample: number[] = [];
+  durations.forEach((duration, i) => {
+    if (i > 0 && timeToSample[timeToSample.length - 1] === duration) timeToSample[timeToSample.length - 2]++;
+    else timeToSample.push(1, duration);
+  });
+  const sampleToChunk: number[] = [];
+  chunkSamples.forEach((count, i) => {
+    if (i === 0 || chunkSamples[i - 1] !== count) sampleToChunk.push(i + 1, count, 1);
+  });
+  return box('stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry),
+    fullBox('stts', 0, 0, u32(timeToSample.length / 2), u32Array(timeToSample)),
+    fullBox('stsc', 0, 0, u32(sampleToChunk.length / 3), u32Array(sampleToChunk)),
+    fullBox('stsz', 0, 0, u32(0), u32(sizes.length), u32Array(sizes)),
+    fullBox('stco', 0, 0, u32(chunkOffsets.length), u32Array(chunkOffsets)),
+  );
+};
+
+const descriptor = (tag: number, ...payload: Uint8Array[]) => {
+  const body = concat(payload);
+  return concat([u8(tag), u8(body.length), body]);
+};
+
+const mp4aEntry = (decoderConfig: Uint8Array) =>
+  box('mp4a', new Uint8Array(6), u16(1), new Uint8Array(8), u16(1), u16(16), u16(0), u16(0), u32(ACX_REQUIREMENTS.sampleRate * 0x10000),
+    fullBox('esds', 0, 0,
+      descriptor(3, u16(1), u8(0),
+        // Audio ISO/IEC 14496-3, audio stream.
+        descriptor(4, u8(0x40), u8(0x15), new Uint8Array(3), u32(AAC_BITRATE), u32(AAC_BITRATE), descriptor(5, decoderConfig)),
+        descriptor(6, u8(2)))));
+
+// QuickTime text sample entry, for the chapter titles.
+const textEntry = () =>
+  box('text', new Uint8Array(6), u16(1), u32(0), u32(0), new Uint8Array(6), new Uint8Array(8), new Uint8Array(8),
+    u16(0), u16(0), u8(0), u16(0), new Uint8Array(6), u8(0));
+
+const TEXT_ENCODING_UTF8 = concat([u32(12), latin1('encd'), u32(0x00000100)]);
+const chapterTextSample = (title: string) => {
+  const text = truncatedUtf8(title, MAX_CHAPTER_TITLE_BYTES);
+  return concat([u16(text.length), text, TEXT_ENCODING_UTF8]);
+};
+
+// Nero chapter list, read by the players that ignore QuickTime chapter tracks. Start times are in 100 ns units.
+const chpl = (titles: string[], starts: number[]) => {
+  const count = Math.min(titles.length, 255);
+  return fullBox('chpl', 1, 0, u32(0), u8(count), ...titles.slice(0, count).map((title, i) => {
+    const text = truncatedUtf8(title, MAX_CHAPTER_TITLE_BYTES);
+    return concat([u64((starts[i] / ACX_REQUIREMENTS.sampleRate) * 1e7), u8(text.length), text]);
+  }));
+};
+
+// iTunes metadata item; data types: 1 UTF-8, 13 JPEG, 14 PNG, 21 integer.
+const ilstItem = (type: string, dataType: number, value: Uint8Array) => box(type, box('data', u32(dataType), u32(0), value));
+
+const ilst = (metadata: AudiobookMetadata, cover: CoverArt | null) => {
+  const texts: [string, string][] = [
+    ['©nam', metadata.title],
+    ['©alb', metadata.title],
+    ['©ART', metadata.author],
+    ['aART', metadata.author],
+    // Audiobook players show the narrator as the composer.
+    ['©wrt', metadata.narrator],
+    ['©day', String(metadata.year)],
+    ['©gen', 'Audiobook'],
+  ];
+  const items = texts.filter(([, text]) => text.trim()).map(([type, text]) => ilstItem(type, 1, utf8(text)));
+  // Media kind 2: audiobook.
+  items.push(ilstItem('stik', 21, u8(2)));
+  if (cover) items.push(ilstItem('covr', cover.mimeType === 'image/png' ? 14 : 13, cover.data));
+  return box('ilst', ...items);
+};
+
+/**
+ * Builds a single M4B of the whole book: AAC audio, a chapter for each entry and the book's metadata and cover.
+ */
+export const exportM4b = async (
+  chapters: AudiobookChapter[],
+  metadata: AudiobookMetadata,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const { frames, decoderConfig, chapterStarts } = await encodeAac(chapters, onProgress);
+  const cover = await loadCover(metadata.cover);
+  const duration = frames.length * AAC_FRAME_SAMPLES;
+  const durationMs = Math.round((duration / ACX_REQUIREMENTS.sampleRate) * MOVIE_TIMESCALE);
+  const starts = chapterStarts.map(start => Math.min(start, duration));
+  const chapterDurations = starts.map((start, i) => (i + 1 < starts.length ? starts[i + 1] : duration) - start);
+  const chapterSamples = chapters.map(chapter => chapterTextSample(chapter.title));
+
+  // ftyp, then mdat with the audio frames followed by the chapter titles, then moov.
+  const ftyp = box('ftyp', latin1('M4B '), u32(0), latin1('M4B '), latin1('M4A '), latin1('mp42'), latin1('isom'));
+  const audioSize = frames.reduce((size, frame) => size + frame.length, 0);
+  const mdatSize = 8 + audioSize + chapterSamples.reduce((size, sample) => size + sample.length, 0);
+  let offset = ftyp.length + 8;
+
+  const audioChunkSamples: number[] = [];
+  const audioChunkOffsets: number[] = [];
+  for (let i = 0; i < frames.length; i += AAC_FRAMES_PER_CHUNK) {
+    const chunk = frames.slice(i, i + AAC_FRAMES_PER_CHUNK);
+    audioChunkSamples.push(chunk.length);
+    audioChunkOffsets.push(offset);
+    offset += chunk.reduce((size, frame) => size + frame.length, 0);
+  }
+  const textChunkOffsets = chapterSamples.map(sample => {
+    const start = offset;
+    offset += sample.length;
+    return start;
+  });
+
+  const audioTrack = box('trak',
+    tkhd(1, 3, durationMs, 0x0100),
+    box('tref', box('chap', u32(2))),
+    box('mdia', mdhd(duration), hdlr('soun', 'SoundHandler'),
+      box('minf', fullBox('smhd', 0, 0, u16(0), u16(0)), dinf(), stbl({
+        sampleEntry: mp4aEntry(decoderConfig),
+        durations: frames.map(() => AAC_FRAME_SAMPLES),
+        sizes: frames.map(frame => frame.length),
+        chunkSamples: audioChunkSamples,
+        chunkOffsets: audioChunkOffsets,
+      }))));
+  const chapterTrack = box('trak',
+    tkhd(2, 0, durationMs, 0),
+    box('mdia', mdhd(duration), hdlr('text', 'ChapterHandler'),
+      box('minf', fullBox('nmhd', 0, 0), dinf(), stbl({
+        sampleEntry: textEntry(),
+        durations: chapterDurations,
+        sizes: chapterSamples.map(sample => sample.length),
+        chunkSamples: chapterSamples.map(() => 1),
+        chunkOffsets: textChunkOffsets,
+      }))));
+  const udta = box('udta',
+    chpl(chapters.map(chapter => chapter.title), starts),
+    fullBox('meta', 0, 0, fullBox('hdlr', 0, 0, u32(0), latin1('mdir'), latin1('appl'), new Uint8Array(8), u8(0)), ilst(metadata, cover)));
+  const moov = box('moov', mvhd(durationMs, 3), audioTrack, chapterTrack, udta);
+
+  return new Blob([ftyp, u32(mdatSize), latin1('mdat'), ...frames, ...chapterSamples, moov], { type: 'audio/mp4' });
+};
@@ -0,0 +1,47 @@
+import type { BookLanguage } from '../types';
+
+export const BOOK_LANGUAGES: BookLanguage[] = ['it', 'en', 'de', 'fr', 'es', 'ja'];
+
+// Books created before the language could be chosen are in Italian.
+export const DEFAULT_BOOK_LANGUAGE: BookLanguage = 'it';
+
+// Language names as written into the prompts, most of which are in Italian.
+const PROMPT_LANGUAGE_NAMES: { [language in BookLanguage]: string } = {
+  it: 'italiano',
+  en: 'inglese',
+  de: 'tedesco',
+  fr: 'francese',
+  es: 'spagnolo',
+  ja: 'giapponese',
+};
+
+// The same names in English, for the prompts written in English.
+const ENGLISH_LANGUAGE_NAMES: { [language in BookLanguage]: string } = {
+  it: 'Italian',
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  ja: 'Japanese',
+};
+
+// Language of the books sold on each market the research and trend tabs target.
+const MARKET_LANGUAGES: { [market: string]: BookLanguage } = {
+  Italy: 'it',
+  USA: 'en',
+  UK: 'en',
+  Canada: 'en',
+  Germany: 'de',
+  France: 'fr',
+  Spain: 'es',
+  Japan: 'ja',
+};
+
+export const isBookLanguage = (value: string): value is BookLanguage => (BOOK_LANGUAGES as string[]).includes(value);
+
+export const promptLanguageName = (language: BookLanguage): string => PROMPT_LANGUAGE_NAMES[language] || PROMPT_LANGUAGE_NAMES[DEFAULT_BOOK_LANGUAGE];
+
+export const englishLanguageName = (language: string): string =>
+  isBookLanguage(language) ? ENGLISH_LANGUAGE_NAMES[language] : language;
+
+export const marketLanguage = (market: string): BookLanguage | undefined => MARKET_LANGUAGES[market];
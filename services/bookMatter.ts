@@ -0,0 +1,154 @@
+import type { Project, MatterSection, MatterSectionType, FrontMatterType, BackMatterType } from '../types';
+import { EMPTY_SERIES_MATTER, type SeriesMatter } from './series';
+
+// Reading order of the sections; each type appears at most once.
+export const FRONT_MATTER_TYPES: FrontMatterType[] = ['copyright', 'dedication', 'foreword'];
+export const BACK_MATTER_TYPES: BackMatterType[] = ['acknowledgements', 'aboutAuthor', 'alsoBy', 'callToReview'];
+
+export const isFrontMatterType = (type: MatterSectionType): type is FrontMatterType =>
+  (FRONT_MATTER_TYPES as MatterSectionType[]).includes(type);
+
+/**
+ * How a section is paginated. Every exporter and the preview follow these rules.
+ */
+export interface MatterPageRules {
+  // The copyright notice goes on the back of the title page; everything else opens on a right-hand page.
+  opensOn: 'titleVerso' | 'recto';
+  // Front matter before the table of contents (copyright, dedication) or after it (foreword).
+  beforeContents: boolean;
+  heading: boolean;
+  align: 'left' | 'center';
+  // Folio and running head; display pages such as the dedication carry neither.
+  furniture: boolean;
+  inToc: boolean;
+}
+
+const TEXT_SECTION: MatterPageRules = { opensOn: 'recto', beforeContents: false, heading: true, align: 'left', furniture: true, inToc: true };
+
+export const MATTER_PAGE_RULES: { [type in MatterSectionType]: MatterPageRules } = {
+  copyright: { opensOn: 'titleVerso', beforeContents: true, heading: false, align: 'left', furniture: false, inToc: false },
+  dedication: { opensOn: 'recto', beforeContents: true, heading: false, align: 'center', furniture: false, inToc: false },
+  foreword: TEXT_SECTION,
+  acknowledgements: TEXT_SECTION,
+  aboutAuthor: TEXT_SECTION,
+  alsoBy: { ...TEXT_SECTION, align: 'center' },
+  callToReview: { ...TEXT_SECTION, align: 'center' },
+};
+
+/**
+ * Headings and notices the exporters print, in the language of the book.
+ */
+export interface MatterLabels {
+  headings: { [type in MatterSectionType]: string }; // alsoBy e.g. "Also by {author}"
+  copyright: string; // e.g. "Copyright © {year} {author}"
+  isbn: string; // e.g. "ISBN {isbn}"
+  allRightsReserved: string;
+  seriesVolume: string; // e.g. "Book {volume} of {series}"
+}
+
+export const buildMatterLabels = (t: (key: string, options?: { [key: string]: string | number }) => string): MatterLabels => ({
+  headings: {
+    copyright: t('layoutTab.matter.headings.copyright'),
+    dedication: t('layoutTab.matter.headings.dedication'),
+    foreword: t('layoutTab.matter.headings.foreword'),
+    acknowledgements: t('layoutTab.matter.headings.acknowledgements'),
+    aboutAuthor: t('layoutTab.matter.headings.aboutAuthor'),
+    alsoBy: t('layoutTab.matter.headings.alsoBy'),
+    callToReview: t('layoutTab.matter.headings.callToReview'),
+  },
+  copyright: t('layoutTab.matter.copyrightLine'),
+  isbn: t('layoutTab.matter.isbnLine'),
+  allRightsReserved: t('layoutTab.matter.allRightsReserved'),
+  seriesVolume: t('layoutTab.matter.seriesVolume'),
+});
+
+export interface ResolvedMatterSection {
+  type: MatterSectionType;
+  anchor: string;
+  title: string;
+  paragraphs: string[];
+  photo: string | null;
+  rules: MatterPageRules;
+}
+
+export interface BookMatter {
+  series: SeriesMatter['series'];
+  seriesLine: string | null;
+  front: ResolvedMatterSection[];
+  back: ResolvedMatterSection[];
+}
+
+export const EMPTY_BOOK_MATTER: BookMatter = { series: null, seriesLine: null, front: [], back: [] };
+
+export const matterAnchor = (type: MatterSectionType) => `matter-${type}`;
+
+const generateSectionId = () => `matter_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+export const createMatterSection = <T extends MatterSectionType>(type: T): MatterSection<T> => ({
+  id: generateSectionId(),
+  type,
+  title: '',
+  content: '',
+});
+
+const toParagraphs = (text: string) => text.split(/\n+/).map(line => line.trim()).filter(Boolean);
+
+export const copyrightParagraphs = (project: Project, labels: MatterLabels): string[] => {
+  const info = project.copyright;
+  const lines = [
+    labels.copyright.replace('{year}', String(info?.year || new Date().getFullYear())).replace('{author}', project.author),
+    ...(info?.rightsText.trim() ? toParagraphs(info.rightsText) : [labels.allRightsReserved]),
+  ];
+  if (info?.isbn.trim()) lines.push(labels.isbn.replace('{isbn}', info.isbn.trim()));
+  return lines;
+};
+
+/**
+ * Resolves the project's front and back matter into printable sections, in reading order.
+ * Author profile details fill the "about the author" and "also by" pages when the project
+ * leaves them empty, or adds them when the project has no such section.
+ */
+export const buildBookMatter = (project: Project, labels: MatterLabels, series: SeriesMatter = EMPTY_SERIES_MATTER): BookMatter => {
+  const authorName = series.author?.penName || project.author;
+
+  const resolve = (section: MatterSection): ResolvedMatterSection | null => {
+    const own = toParagraphs(section.content);
+    let paragraphs = own;
+    let photo: string | null = null;
+    if (section.type === 'copyright') {
+      paragraphs = [...copyrightParagraphs(project, labels), ...own];
+    } else if (section.type === 'aboutAuthor') {
+      if (own.length === 0) paragraphs = toParagraphs(series.author?.bio || '');
+      photo = series.author?.photo || null;
+    } else if (section.type === 'alsoBy' && own.length === 0) {
+      paragraphs = series.alsoBy;
+    }
+    if (paragraphs.length === 0 && !photo) return null;
+    return {
+      type: section.type,
+      anchor: matterAnchor(section.type),
+      title: (section.title.trim() || labels.headings[section.type]).replace('{author}', authorName),
+      paragraphs,
+      photo,
+      rules: MATTER_PAGE_RULES[section.type],
+    };
+  };
+
+  const front = FRONT_MATTER_TYPES.flatMap(type => project.bookStructure?.frontMatter?.find(section => section.type === type) || []);
+  const back = BACK_MATTER_TYPES.flatMap(type => {
+    const section = project.bookStructure?.backMatter?.find(item => item.type === type);
+    if (section) return [section];
+    const implicit = (type === 'aboutAuthor' && series.author && (series.author.bio.trim() || series.author.photo))
+      || (type === 'alsoBy' && series.alsoBy.length > 0);
+    return implicit ? [createMatterSection(type)] : [];
+  });
+
+  return {
+    series: series.series,
+    seriesLine: series.series
+      ? labels.seriesVolume.replace('{volume}', String(series.series.volume)).replace('{series}', series.series.name)
+      : null,
+    front: front.map(resolve).filter((section): section is ResolvedMatterSection => section !== null),
+    back: back.map(resolve).filter((section): section is ResolvedMatterSection => section !== null),
+  };
+};
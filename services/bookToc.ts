@@ -0,0 +1,82 @@
+import type { Project, TocDepth } from '../types';
+import { outlineChapters, chapterSections, PART_LEVEL, CHAPTER_LEVEL } from './outline';
+
+export const DEFAULT_TOC_DEPTH: TocDepth = 2;
+
+export interface TocEntry {
+  title: string;
+  level: number; // 0 part, 1 chapter, 2 and deeper sections (see services/outline)
+  chapterIndex: number; // for a part, its first chapter
+  // Element id of the heading, the same in every export format.
+  anchor: string;
+}
+
+export interface IndexEntry {
+  term: string;
+  // Sections of the book whose text mentions the term, in reading order.
+  locations: TocEntry[];
+}
+
+export const chapterAnchor = (chapterIndex: number) => `chapter-${chapterIndex + 1}`;
+// `path` is the position of the section below its chapter, one index per level.
+export const subchapterAnchor = (chapterIndex: number, ...path: number[]) =>
+  [`chapter-${chapterIndex + 1}`, ...path.map(index => index + 1)].join('-');
+export const partAnchor = (partIndex: number) => `part-${partIndex + 1}`;
+
+export const getTocDepth = (project: Project): TocDepth => project.tocDepth ?? DEFAULT_TOC_DEPTH;
+
+/**
+ * Lists the parts, chapters and, down to `depth`, the sections of the book structure, in reading order.
+ */
+export const buildTocEntries = (project: Project, depth: TocDepth = getTocDepth(project)): TocEntry[] => {
+  if (depth === 0) return [];
+  return outlineChapters(project.bookStructure?.chapters || []).flatMap(({ chapter, chapterIndex, part, partIndex, opensPart }) => [
+    ...(opensPart && part && partIndex !== null
+      ? [{ title: part.title, level: PART_LEVEL, chapterIndex, anchor: partAnchor(partIndex) }]
+      : []),
+    { title: chapter.title, level: CHAPTER_LEVEL, chapterIndex, anchor: chapterAnchor(chapterIndex) },
+    ...chapterSections(chapter)
+      .filter(section => section.level <= depth && section.node.title)
+      .map(section => ({ title: section.node.title, level: section.level, chapterIndex, anchor: subchapterAnchor(chapterIndex, ...section.path) })),
+  ]);
+};
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches a glossary term as a whole word, ignoring case. The match starts after the first group.
+ */
+export const termPattern = (term: string): RegExp =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?=$|[^\\p{L}\\p{N}])`, 'giu');
+
+const htmlToText = (html: string): string =>
+  new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body.textContent || '';
+
+/**
+ * Builds the back-of-book index: every glossary term, alphabetically, with the chapters and
+ * sections that mention it. Terms that never occur in the text are left out.
+ */
+export const buildIndexEntries = (project: Project): IndexEntry[] => {
+  const sections = outlineChapters(project.bookStructure?.chapters || []).flatMap(({ chapter, chapterIndex }) => [
+    { entry: { title: chapter.title, level: CHAPTER_LEVEL, chapterIndex, anchor: chapterAnchor(chapterIndex) }, text: htmlToText(chapter.content || '') },
+    ...chapterSections(chapter).map(section => ({
+      entry: { title: section.node.title || chapter.title, level: section.level, chapterIndex, anchor: subchapterAnchor(chapterIndex, ...section.path) },
+      text: htmlToText(section.node.content || ''),
+    })),
+  ]);
+
+  return [...(project.glossary || [])]
+    .filter(item => item.term.trim())
+    .sort((a, b) => a.term.localeCompare(b.term))
+    .map(item => {
+      const pattern = termPattern(item.term);
+      return {
+        term: item.term.trim(),
+        locations: sections.filter(section => {
+          pattern.lastIndex = 0;
+          return pattern.test(section.text);
+        }).map(section => section.entry),
+      };
+    })
+    .filter(entry => entry.locations.length > 0);
+};
@@ -0,0 +1,43 @@
+import { generateNarratedAudio, type SpeechCache } from './geminiService';
+import { masterPcm } from './audioMastering';
+import { loadCachedAudioAsset, loadSpeechChunk, saveAudioAsset, saveSpeechChunk } from './projectStore';
+import type { NarrationSegment } from './narration';
+
+const chunkSource = (text: string, voiceName: string) => `${voiceName}\n${text}`;
+
+/**
+ * Keeps every chunk voiced for the project, keyed by its text and voice.
+ */
+export const projectSpeechCache = (projectId: string): SpeechCache => ({
+  load: (text, voiceName) => loadSpeechChunk(projectId, chunkSource(text, voiceName)),
+  save: (text, voiceName, audio) => saveSpeechChunk(projectId, chunkSource(text, voiceName), audio),
+});
+
+export interface ChapterAudioResult {
+  blob: Blob;
+  reused: boolean; // the chapter hadn't changed and its stored audio was returned
+}
+
+/**
+ * Voices a chapter, masters it and stores it under the chapter title. A chapter whose spoken text and
+ * voices are the same as when it was last voiced gets its stored audio back without any speech call;
+ * a changed one only voices the chunks that aren't in the project's speech cache yet. Once the signal
+ * aborts no more chunks are voiced and nothing is stored under the chapter title.
+ */
+export const generateChapterAudio = async (
+  projectId: string,
+  title: string,
+  segments: NarrationSegment[],
+  signal?: AbortSignal
+): Promise<ChapterAudioResult> => {
+  const source = JSON.stringify(segments.map(segment => [segment.voiceName, segment.text]));
+  const stored = await loadCachedAudioAsset(projectId, title, source);
+  if (stored) return { blob: stored, reused: true };
+
+  const pcm = await generateNarratedAudio(segments, projectSpeechCache(projectId), signal);
+  if (!pcm) throw new Error("No audio data returned");
+  const blob = new Blob([masterPcm(pcm)], { type: 'audio/wav' });
+  signal?.throwIfAborted();
+  await saveAudioAsset(projectId, title, blob, source);
+  return { blob, reused: false };
+};
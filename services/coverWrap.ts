@@ -0,0 +1,295 @@
+import type { PageSize, PaperType } from '../types';
+import { TRIM_SIZES, BLEED } from './paperbackInterior';
+
+// --- KDP cover specifications (inches) ---
+
+// Spine width per interior page, from the KDP cover calculator.
+export const SPINE_INCHES_PER_PAGE: { [key in PaperType]: number } = {
+  white: 0.002252,
+  cream: 0.0025,
+  color: 0.002347,
+};
+
+export const MIN_PAGE_COUNT = 24;
+export const MAX_PAGE_COUNT = 828;
+// KDP only allows text on the spine from this page count up.
+export const MIN_SPINE_TEXT_PAGES = 80;
+
+// Text must stay this far inside the trim lines, and this far from the spine folds.
+const SAFE_MARGIN = 0.125;
+const SPINE_SAFE_MARGIN = 0.0625;
+// Area KDP covers with the ISBN barcode, measured from the bottom of the back cover and the spine fold.
+const BARCODE_WIDTH = 2;
+const BARCODE_HEIGHT = 1.2;
+const BARCODE_OFFSET = 0.25;
+
+export const PRINT_DPI = 300;
+
+export interface CoverWrapDimensions {
+  pageCount: number;
+  paper: PaperType;
+  trimWidth: number;
+  trimHeight: number;
+  bleed: number;
+  spineWidth: number;
+  totalWidth: number;
+  totalHeight: number;
+  spineTextAllowed: boolean;
+}
+
+export const isValidPageCount = (pageCount: number): boolean =>
+  Number.isInteger(pageCount) && pageCount >= MIN_PAGE_COUNT && pageCount <= MAX_PAGE_COUNT;
+
+/**
+ * Computes the full wrap (back cover, spine and front cover, with bleed on every outer edge)
+ * for a paperback of the given trim size, page count and paper.
+ */
+export const computeCoverWrap = (pageSize: PageSize, pageCount: number, paper: PaperType): CoverWrapDimensions => {
+  const trim = TRIM_SIZES[pageSize];
+  const spineWidth = pageCount * SPINE_INCHES_PER_PAGE[paper];
+  return {
+    pageCount,
+    paper,
+    trimWidth: trim.width,
+    trimHeight: trim.height,
+    bleed: BLEED,
+    spineWidth,
+    totalWidth: BLEED + trim.width + spineWidth + trim.width + BLEED,
+    totalHeight: BLEED + trim.height + BLEED,
+    spineTextAllowed: pageCount >= MIN_SPINE_TEXT_PAGES,
+  };
+};
+
+export interface CoverWrapContent {
+  frontImage: string | null;
+  title: string;
+  author: string;
+  blurb: string;
+  // Shown in the barcode area when guides are on.
+  barcodeLabel: string;
+}
+
+export interface CoverWrapRender {
+  canvas: HTMLCanvasElement;
+  // The blurb did not fit above the barcode area and was cut.
+  blurbTruncated: boolean;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+
+// The back and spine take the average colour of the front art's spine-side edge, so the wrap reads as one piece.
+const edgeColor = (img: HTMLImageElement): [number, number, number] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 8;
+  canvas.height = 64;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [31, 41, 55];
+  ctx.drawImage(img, 0, 0, Math.max(1, img.naturalWidth * 0.05), img.naturalHeight, 0, 0, 8, 64);
+  const data = ctx.getImageData(0, 0, 8, 64).data;
+  const sum = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+  }
+  const count = data.length / 4;
+  return [Math.round(sum[0] / count), Math.round(sum[1] / count), Math.round(sum[2] / count)];
+};
+
+const textColorOn = ([r, g, b]: [number, number, number]) => (0.299 * r + 0.587 * g + 0.114 * b > 150 ? '#111111' : '#ffffff');
+
+// Descriptions may come from the AI as HTML or Markdown; the back cover gets plain paragraphs.
+const blurbParagraphs = (blurb: string): string[] => {
+  const text = new DOMParser().parseFromString(`<body>${blurb.replace(/<\/p>|<br\s*\/?>/gi, '\n')}</body>`, 'text/html').body.textContent || '';
+  return text.replace(/[*#_`]/g, '').split(/\n+/).map(line => line.trim()).filter(Boolean);
+};
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Shrinks the font until the text fits the given width.
+const fitFont = (ctx: CanvasRenderingContext2D, text: string, weight: string, size: number, maxWidth: number): number => {
+  let fitted = size;
+  ctx.font = `${weight} ${fitted}px Georgia, serif`;
+  while (fitted > 6 && ctx.measureText(text).width > maxWidth) {
+    fitted *= 0.95;
+    ctx.font = `${weight} ${fitted}px Georgia, serif`;
+  }
+  return fitted;
+};
+
+/**
+ * Draws the wrap at `dpi`: front art (scaled to cover the front panel and its bleed), spine title and
+ * author when the page count allows them, the blurb on the back and a white barcode area. With
+ * `showGuides` the trim lines, spine folds, safe zones and barcode area are marked on top.
+ */
+export const renderCoverWrap = async (
+  dimensions: CoverWrapDimensions,
+  content: CoverWrapContent,
+  options: { showGuides: boolean; dpi?: number },
+): Promise<CoverWrapRender> => {
+  const dpi = options.dpi ?? PRINT_DPI;
+  const px = (inches: number) => inches * dpi;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(px(dimensions.totalWidth));
+  canvas.height = Math.round(px(dimensions.totalHeight));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser.');
+
+  const { bleed, trimWidth, trimHeight, spineWidth } = dimensions;
+  const spineLeft = bleed + trimWidth;
+  const spineRight = spineLeft + spineWidth;
+
+  const front = content.frontImage ? await loadImage(content.frontImage) : null;
+  const background = front ? edgeColor(front) : [31, 41, 55] as [number, number, number];
+  const textColor = textColorOn(background);
+  ctx.fillStyle = `rgb(${background.join(',')})`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Front: cover the panel and its bleed, cropping the art evenly.
+  if (front) {
+    const panelX = px(spineRight);
+    const panelWidth = canvas.width - panelX;
+    const scale = Math.max(panelWidth / front.naturalWidth, canvas.height / front.naturalHeight);
+    const drawWidth = front.naturalWidth * scale;
+    const drawHeight = front.naturalHeight * scale;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(panelX, 0, panelWidth, canvas.height);
+    ctx.clip();
+    ctx.drawImage(front, panelX + (panelWidth - drawWidth) / 2, (canvas.height - drawHeight) / 2, drawWidth, drawHeight);
+    ctx.restore();
+  }
+
+  // Spine: title from the top, author at the bottom, reading top to bottom.
+  ctx.fillStyle = textColor;
+  if (dimensions.spineTextAllowed) {
+    const spineTextHeight = px(spineWidth - 2 * SPINE_SAFE_MARGIN);
+    const spineLength = px(trimHeight - 2 * SAFE_MARGIN) - px(0.25);
+    ctx.save();
+    ctx.translate(px(spineLeft + spineWidth / 2), px(bleed + SAFE_MARGIN + 0.125));
+    ctx.rotate(Math.PI / 2);
+    ctx.textBaseline = 'middle';
+    const authorLength = content.author ? spineLength * 0.3 : 0;
+    if (content.title) {
+      const size = fitFont(ctx, content.title, 'bold', Math.min(spineTextHeight * 0.7, px(0.3)), spineLength - authorLength - px(0.25));
+      ctx.font = `bold ${size}px Georgia, serif`;
+      ctx.textAlign = 'left';
+      ctx.fillText(content.title, 0, 0);
+    }
+    if (content.author) {
+      const size = fitFont(ctx, content.author, 'normal', Math.min(spineTextHeight * 0.55, px(0.22)), authorLength);
+      ctx.font = `normal ${size}px Georgia, serif`;
+      ctx.textAlign = 'right';
+      ctx.fillText(content.author, spineLength, 0);
+    }
+    ctx.restore();
+  }
+
+  // Back: the blurb fills the safe area above the barcode.
+  const barcodeX = spineLeft - BARCODE_OFFSET - BARCODE_WIDTH;
+  const barcodeY = bleed + trimHeight - BARCODE_OFFSET - BARCODE_HEIGHT;
+  const backLeft = bleed + SAFE_MARGIN + 0.375;
+  const backWidth = spineLeft - SAFE_MARGIN - 0.375 - backLeft;
+  const fontSize = px(0.16);
+  const lineHeight = fontSize * 1.45;
+  const blurbBottom = px(barcodeY - 0.25);
+  let y = px(bleed + SAFE_MARGIN + 0.625);
+  let blurbTruncated = false;
+  ctx.font = `normal ${fontSize}px Georgia, serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+  for (const paragraph of blurbParagraphs(content.blurb)) {
+    const lines = wrapLines(ctx, paragraph, px(backWidth));
+    for (let i = 0; i < lines.length; i++) {
+      if (y + lineHeight > blurbBottom) {
+        blurbTruncated = true;
+        break;
+      }
+      const isLastFitting = y + 2 * lineHeight > blurbBottom && i < lines.length - 1;
+      ctx.fillText(isLastFitting ? `${lines[i]}…` : lines[i], px(backLeft), y + fontSize);
+      y += lineHeight;
+    }
+    if (blurbTruncated) break;
+    y += lineHeight * 0.6;
+  }
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(px(barcodeX), px(barcodeY), px(BARCODE_WIDTH), px(BARCODE_HEIGHT));
+
+  if (options.showGuides) {
+    const line = Math.max(1, dpi / 100);
+    ctx.lineWidth = line;
+    // Bleed: everything outside the trim lines is cut off.
+    ctx.fillStyle = 'rgba(255, 0, 0, 0.15)';
+    ctx.fillRect(0, 0, canvas.width, px(bleed));
+    ctx.fillRect(0, canvas.height - px(bleed), canvas.width, px(bleed));
+    ctx.fillRect(0, px(bleed), px(bleed), canvas.height - 2 * px(bleed));
+    ctx.fillRect(canvas.width - px(bleed), px(bleed), px(bleed), canvas.height - 2 * px(bleed));
+    ctx.strokeStyle = '#00aeef';
+    ctx.setLineDash([]);
+    ctx.strokeRect(px(bleed), px(bleed), px(dimensions.totalWidth - 2 * bleed), px(trimHeight));
+    [spineLeft, spineRight].forEach(x => {
+      ctx.beginPath();
+      ctx.moveTo(px(x), 0);
+      ctx.lineTo(px(x), canvas.height);
+      ctx.stroke();
+    });
+    ctx.strokeStyle = '#ec008c';
+    ctx.setLineDash([line * 6, line * 4]);
+    ctx.strokeRect(px(bleed + SAFE_MARGIN), px(bleed + SAFE_MARGIN), px(trimWidth - 2 * SAFE_MARGIN), px(trimHeight - 2 * SAFE_MARGIN));
+    ctx.strokeRect(px(spineRight + SAFE_MARGIN), px(bleed + SAFE_MARGIN), px(trimWidth - 2 * SAFE_MARGIN), px(trimHeight - 2 * SAFE_MARGIN));
+    if (spineWidth > 2 * SPINE_SAFE_MARGIN) {
+      ctx.strokeRect(px(spineLeft + SPINE_SAFE_MARGIN), px(bleed + SAFE_MARGIN), px(spineWidth - 2 * SPINE_SAFE_MARGIN), px(trimHeight - 2 * SAFE_MARGIN));
+    }
+    ctx.strokeStyle = '#fbbf24';
+    ctx.strokeRect(px(barcodeX), px(barcodeY), px(BARCODE_WIDTH), px(BARCODE_HEIGHT));
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#6b7280';
+    ctx.font = `normal ${px(0.14)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(content.barcodeLabel, px(barcodeX + BARCODE_WIDTH / 2), px(barcodeY + BARCODE_HEIGHT / 2));
+  }
+
+  return { canvas, blurbTruncated };
+};
+
+export const coverWrapToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the cover image.'))), 'image/png');
+  });
+
+/**
+ * Wraps the rendered cover in a single-page PDF at the exact wrap size, as KDP expects for upload.
+ */
+export const coverWrapToPdf = (canvas: HTMLCanvasElement, dimensions: CoverWrapDimensions): Blob => {
+  if (typeof (window as any).jspdf === 'undefined') {
+    throw new Error('PDF library not loaded. Please check your internet connection and try again.');
+  }
+  const { jsPDF } = (window as any).jspdf;
+  const width = dimensions.totalWidth * 72;
+  const height = dimensions.totalHeight * 72;
+  const pdf = new jsPDF({ orientation: 'l', unit: 'pt', format: [width, height] });
+  pdf.addImage(canvas.toDataURL('image/jpeg', 0.95), 'JPEG', 0, 0, width, height);
+  return pdf.output('blob');
+};
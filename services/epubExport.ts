@@ -0,0 +1,566 @@
+import type { Project, LayoutTemplate, CustomStyles, ContentBlock, MatterSectionType, OutlineNode } from '../types';
+import { dataUrlToBlob } from './projectStore';
+import { buildTocEntries, buildIndexEntries, chapterAnchor, subchapterAnchor, partAnchor, getTocDepth, type TocEntry } from './bookToc';
+import { outlineChapters, PART_LEVEL, CHAPTER_LEVEL } from './outline';
+import { EMPTY_BOOK_MATTER, type BookMatter, type ResolvedMatterSection } from './bookMatter';
+
+/**
+ * Headings the generator writes into the book itself, in the language of the book.
+ */
+export interface EpubLabels {
+  contents: string;
+  cover: string;
+  titlePage: string;
+  byAuthor: string; // e.g. "by {author}"
+  recipes: string;
+  bonus: string;
+  glossary: string;
+  index: string;
+}
+
+export interface EpubOptions {
+  language: string; // BCP 47 code, e.g. 'it'
+  labels: EpubLabels;
+  matter?: BookMatter;
+}
+
+// Structural semantics (EPUB 3 SSV) of each front and back matter section.
+const MATTER_EPUB_TYPES: { [type in MatterSectionType]: string } = {
+  copyright: 'copyright-page',
+  dedication: 'dedication',
+  foreword: 'foreword',
+  acknowledgements: 'acknowledgments',
+  aboutAuthor: 'appendix',
+  alsoBy: 'appendix',
+  callToReview: 'appendix',
+};
+const MATTER_CLASSES: Partial<{ [type in MatterSectionType]: string }> = { copyright: 'copyright-page', dedication: 'dedication' };
+
+interface EpubDocument {
+  id: string;
+  file: string;
+  title: string;
+  body: string;
+  // Entries shown below this document in the table of contents; depth 1 sits directly under it.
+  sections: { anchor: string; title: string; depth: number }[];
+  inToc: boolean;
+  // Chapters are listed below the part they belong to.
+  inPart?: boolean;
+}
+
+interface NavPoint {
+  id: string;
+  href: string;
+  title: string;
+  children: NavPoint[];
+}
+
+interface EpubImage {
+  id: string;
+  file: string;
+  mimeType: string;
+  blob: Blob;
+}
+
+const chapterFile = (chapterIndex: number) => `${chapterAnchor(chapterIndex)}.xhtml`;
+const partFile = (partIndex: number) => `${partAnchor(partIndex)}.xhtml`;
+// Parts have a document of their own; every other entry lives in its chapter's document.
+const tocEntryHref = (entry: TocEntry) =>
+  entry.level === PART_LEVEL ? `${entry.anchor}.xhtml` : `${chapterFile(entry.chapterIndex)}#${entry.anchor}`;
+
+const getJSZip = () => {
+  const JSZip = (window as any).JSZip;
+  if (!JSZip) {
+    throw new Error("JSZip library not loaded. Please check your internet connection and try again.");
+  }
+  return JSZip;
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const extensionForMimeType = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1] || 'png';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '');
+};
+
+// --- Stylesheet ---
+
+const TEMPLATE_CSS: { [key in Exclude<LayoutTemplate, 'Custom'>]: string } = {
+  Classic: `
+body { font-family: 'EB Garamond', Georgia, serif; }
+.content-block { text-align: justify; }
+.chapter-title { text-align: center; }`,
+  Modern: `
+body { font-family: Georgia, serif; }
+.chapter-title { border-bottom: 2px solid #1E40AF; color: #1E40AF; }
+.content-block { text-align: left; }`,
+  Minimalist: `
+body { font-family: 'Times New Roman', Times, serif; }
+.book-title { font-size: 1.875em; font-weight: 600; }
+.chapter-title { font-size: 1.5em; font-weight: 600; }
+.subchapter-title { font-size: 1.125em; font-weight: 600; }
+.content-block { line-height: 1.8; }`,
+};
+
+const customCss = (styles: CustomStyles): string => `
+body { font-family: '${styles.bodyFont}', serif; }
+.book-title { font-family: '${styles.titleFont}', serif; font-size: ${styles.titleSize}pt; }
+.book-subtitle { font-family: '${styles.subtitleFont}', sans-serif; font-size: ${styles.subtitleSize}pt; }
+.chapter-title { font-family: '${styles.chapterTitleFont}', sans-serif; font-size: ${styles.chapterTitleSize}pt; }
+.subchapter-title { font-family: '${styles.chapterTitleFont}', sans-serif; }
+.content-block { font-size: ${styles.bodySize}pt; line-height: ${styles.lineHeight}; }`;
+
+/**
+ * Builds the book stylesheet from the chosen layout template. Sizes are relative where possible
+ * so e-readers can still apply the reader's own font size.
+ */
+export const buildEpubStylesheet = (template: LayoutTemplate, customStyles?: CustomStyles): string => `@charset "UTF-8";
+body { margin: 0 5%; line-height: 1.5; }
+h1, h2, h3, h4 { page-break-after: avoid; }
+.title-page { text-align: center; margin-top: 20%; }
+.book-title { font-size: 2em; margin-bottom: 0.5em; }
+.book-subtitle { font-size: 1.3em; font-style: italic; font-weight: normal; }
+.book-author { margin-top: 2em; }
+.book-series { margin-top: 1em; font-style: italic; }
+.author-photo { display: block; max-width: 40%; margin: 0 auto 1em; }
+.matter-center { text-align: center; }
+.matter-center p { text-indent: 0; }
+.copyright-page { font-size: 0.8em; margin-top: 40%; }
+.copyright-page p { text-indent: 0; margin: 0 0 0.5em; }
+.dedication { font-style: italic; margin-top: 30%; }
+.chapter-title { font-size: 1.6em; margin: 1.5em 0 1em; }
+.subchapter-title { font-size: 1.2em; margin: 1.2em 0 0.6em; }
+.section-level-3 { font-size: 1.1em; }
+.section-level-4 { font-size: 1em; font-style: italic; }
+.part-page { text-align: center; margin-top: 30%; }
+.part-title { font-size: 2em; margin: 0 0 1em; }
+.content-block p { margin: 0 0 0.8em; }
+.content-block-image { display: block; max-width: 100%; margin: 1em auto; }
+.cover { text-align: center; margin: 0; padding: 0; }
+.cover img { max-width: 100%; max-height: 100%; }
+.glossary-term { font-weight: bold; }
+nav ol { list-style: none; padding-left: 1em; }
+.toc-entry, .index-entry { margin: 0.3em 0; text-indent: 0; }
+.toc-level-0 { font-weight: bold; margin-top: 1em; }
+.toc-level-2 { margin-left: 1.5em; }
+.toc-level-3 { margin-left: 3em; }
+.toc-level-4 { margin-left: 4.5em; }
+${template === 'Custom' ? (customStyles ? customCss(customStyles) : TEMPLATE_CSS.Classic) : TEMPLATE_CSS[template]}
+`;
+
+// --- Content conversion ---
+
+/**
+ * Turns editor HTML into well-formed XHTML. Embedded data-URL images are moved into
+ * the package through `addImage`, which returns the path to reference.
+ */
+const htmlToXhtml = (html: string, addImage: (dataUrl: string) => string): string => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  doc.body.querySelectorAll('script, style, iframe, object, embed').forEach(el => el.remove());
+  doc.body.querySelectorAll('img').forEach(img => {
+    const src = img.getAttribute('src') || '';
+    if (src.startsWith('data:')) {
+      img.setAttribute('src', addImage(src));
+    } else {
+      // Remote images are not allowed in the package without declaring them; drop them.
+      img.remove();
+      return;
+    }
+    if (!img.hasAttribute('alt')) img.setAttribute('alt', '');
+  });
+  // Contenteditable leaves these attributes behind and they are not valid EPUB.
+  doc.body.querySelectorAll('[contenteditable], [data-placeholder]').forEach(el => {
+    el.removeAttribute('contenteditable');
+    el.removeAttribute('data-placeholder');
+  });
+  const serializer = new XMLSerializer();
+  return Array.from(doc.body.childNodes)
+    .map(node => serializer.serializeToString(node))
+    .join('')
+    // XMLSerializer repeats the namespace on every top-level element; the document root already declares it.
+    .replace(/ xmlns="http:\/\/www\.w3\.org\/1999\/xhtml"/g, '');
+};
+
+const plainTextToXhtml = (text: string): string =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeXml(paragraph).replace(/\n/g, '<br/>')}</p>`)
+    .join('\n');
+
+const xhtmlDocument = (title: string, language: string, body: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+// --- Package documents ---
+
+const containerXml = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+/**
+ * Nests the listed documents and their sections by depth: chapters under their part,
+ * sections under their chapter.
+ */
+const buildNavTree = (documents: EpubDocument[]): NavPoint[] => {
+  const entries = documents
+    .filter(doc => doc.inToc)
+    .flatMap(doc => {
+      const base = doc.inPart ? 1 : 0;
+      return [
+        { depth: base, point: { id: doc.id, href: doc.file, title: doc.title, children: [] as NavPoint[] } },
+        ...doc.sections.map(section => ({
+          depth: base + section.depth,
+          point: { id: `${doc.id}-${section.anchor}`, href: `${doc.file}#${section.anchor}`, title: section.title, children: [] as NavPoint[] },
+        })),
+      ];
+    });
+  const roots: NavPoint[] = [];
+  const open: { depth: number; point: NavPoint }[] = [];
+  entries.forEach(entry => {
+    while (open.length > 0 && open[open.length - 1].depth >= entry.depth) open.pop();
+    (open.length > 0 ? open[open.length - 1].point.children : roots).push(entry.point);
+    open.push(entry);
+  });
+  return roots;
+};
+
+const navDepth = (points: NavPoint[]): number =>
+  points.length === 0 ? 0 : 1 + Math.max(...points.map(point => navDepth(point.children)));
+
+const buildNav = (documents: EpubDocument[], options: EpubOptions): string => {
+  const renderList = (points: NavPoint[], indent: string): string => points
+    .map(point => {
+      const children = point.children.length > 0
+        ? `\n${indent}  <ol>\n${renderList(point.children, `${indent}    `)}\n${indent}  </ol>\n${indent}`
+        : '';
+      return `${indent}<li><a href="${point.href}">${escapeXml(point.title)}</a>${children}</li>`;
+    })
+    .join('\n');
+  const body = `  <nav epub:type="toc" id="toc">
+    <h1>${escapeXml(options.labels.contents)}</h1>
+    <ol>
+${renderList(buildNavTree(documents), '      ')}
+    </ol>
+  </nav>`;
+  return xhtmlDocument(options.labels.contents, options.language, body);
+};
+
+// EPUB 2 table of contents, still read by older Kindle conversion tools.
+const buildNcx = (documents: EpubDocument[], identifier: string, title: string): string => {
+  // playOrder follows reading order: an entry is numbered before the entries below it.
+  let playOrder = 0;
+  const renderPoints = (points: NavPoint[], indent: string): string => points
+    .map(point => {
+      const order = ++playOrder;
+      const children = point.children.length > 0 ? `\n${renderPoints(point.children, `${indent}  `)}` : '';
+      return `${indent}<navPoint id="nav-${point.id}" playOrder="${order}">
+${indent}  <navLabel><text>${escapeXml(point.title)}</text></navLabel>
+${indent}  <content src="${point.href}"/>${children}
+${indent}</navPoint>`;
+    })
+    .join('\n');
+  const tree = buildNavTree(documents);
+  const points = renderPoints(tree, '    ');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+    <meta name="dtb:depth" content="${Math.max(1, navDepth(tree))}"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeXml(title)}</text></docTitle>
+  <navMap>
+${points}
+  </navMap>
+</ncx>`;
+};
+
+const buildOpf = (
+  project: Project,
+  options: EpubOptions,
+  identifier: string,
+  documents: EpubDocument[],
+  images: EpubImage[],
+  coverImageId: string | null,
+): string => {
+  const title = project.bookTitle || project.projectTitle;
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const metadata = [
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title id="title">${escapeXml(title)}</dc:title>`,
+    `<meta refines="#title" property="title-type">main</meta>`,
+    project.subtitle && `<dc:title id="subtitle">${escapeXml(project.subtitle)}</dc:title>`,
+    project.subtitle && `<meta refines="#subtitle" property="title-type">subtitle</meta>`,
+    project.author && `<dc:creator id="creator">${escapeXml(project.author)}</dc:creator>`,
+    project.author && `<meta refines="#creator" property="role" scheme="marc:relators">aut</meta>`,
+    `<dc:language>${escapeXml(options.language)}</dc:language>`,
+    ...(options.matter?.series ? [
+      `<meta property="belongs-to-collection" id="series">${escapeXml(options.matter.series.name)}</meta>`,
+      `<meta refines="#series" property="collection-type">series</meta>`,
+      `<meta refines="#series" property="group-position">${options.matter.series.volume}</meta>`,
+    ] : []),
+    project.description && `<dc:description>${escapeXml(project.description)}</dc:description>`,
+    ...(project.categories || []).map(category => `<dc:subject>${escapeXml(category)}</dc:subject>`),
+    `<meta property="dcterms:modified">${modified}</meta>`,
+    // Kindle reads the cover from the EPUB 2 style meta as well.
+    coverImageId && `<meta name="cover" content="${coverImageId}"/>`,
+  ].filter(Boolean).map(line => `    ${line}`).join('\n');
+
+  const manifest = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>`,
+    `<item id="css" href="styles.css" media-type="text/css"/>`,
+    ...documents.map(doc => `<item id="${doc.id}" href="${doc.file}" media-type="application/xhtml+xml"/>`),
+    ...images.map(image =>
+      `<item id="${image.id}" href="${image.file}" media-type="${image.mimeType}"${image.id === coverImageId ? ' properties="cover-image"' : ''}/>`
+    ),
+  ].map(line => `    ${line}`).join('\n');
+
+  const spine = documents
+    .map(doc => `    <itemref idref="${doc.id}"${doc.id === 'cover' ? ' linear="no"' : ''}/>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(options.language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata}
+  </metadata>
+  <manifest>
+${manifest}
+  </manifest>
+  <spine toc="ncx">
+${spine}
+  </spine>
+</package>`;
+};
+
+/**
+ * Builds an EPUB 3 package (with an NCX for older readers) from the project's structure, front and back matter,
+ * appendices, glossary, cover and metadata.
+ */
+export const generateEpub = async (project: Project, options: EpubOptions): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const { labels, language } = options;
+  const matter = options.matter || EMPTY_BOOK_MATTER;
+  const title = project.bookTitle || project.projectTitle;
+  const identifier = `urn:bookforge:${project.id}`;
+
+  const images: EpubImage[] = [];
+  const imagesByDataUrl = new Map<string, EpubImage>();
+  const addImage = (dataUrl: string): string => {
+    let image = imagesByDataUrl.get(dataUrl);
+    if (!image) {
+      const blob = dataUrlToBlob(dataUrl);
+      const index = images.length + 1;
+      image = { id: `image-${index}`, file: `images/image-${index}.${extensionForMimeType(blob.type)}`, mimeType: blob.type, blob };
+      imagesByDataUrl.set(dataUrl, image);
+      images.push(image);
+    }
+    return image.file;
+  };
+
+  const documents: EpubDocument[] = [];
+  const tocDepth = getTocDepth(project);
+  let coverImageId: string | null = null;
+
+  if (project.coverImage?.startsWith('data:')) {
+    const coverFile = addImage(project.coverImage);
+    coverImageId = imagesByDataUrl.get(project.coverImage)!.id;
+    documents.push({
+      id: 'cover',
+      file: 'cover.xhtml',
+      title: labels.cover,
+      body: `<section class="cover" epub:type="cover"><img src="${coverFile}" alt="${escapeXml(title)}"/></section>`,
+      sections: [],
+      inToc: false,
+    });
+  }
+
+  documents.push({
+    id: 'title-page',
+    file: 'title.xhtml',
+    title: labels.titlePage,
+    body: `<section class="title-page" epub:type="titlepage">
+  <h1 class="book-title">${escapeXml(title)}</h1>
+  ${project.subtitle ? `<h2 class="book-subtitle">${escapeXml(project.subtitle)}</h2>` : ''}
+  ${matter.seriesLine ? `<p class="book-series">${escapeXml(matter.seriesLine)}</p>` : ''}
+  ${project.author ? `<p class="book-author">${escapeXml(labels.byAuthor.replace('{author}', project.author))}</p>` : ''}
+</section>`,
+    sections: [],
+    inToc: false,
+  });
+
+  const matterDocument = (section: ResolvedMatterSection): EpubDocument => {
+    const classes = [MATTER_CLASSES[section.type], section.rules.align === 'center' && 'matter-center'].filter(Boolean).join(' ');
+    const photo = section.photo?.startsWith('data:') ? addImage(section.photo) : null;
+    return {
+      id: section.anchor,
+      file: `${section.anchor}.xhtml`,
+      title: section.title,
+      body: `<section epub:type="${MATTER_EPUB_TYPES[section.type]}"${classes ? ` class="${classes}"` : ''}>
+  ${section.rules.heading ? `<h2 class="chapter-title">${escapeXml(section.title)}</h2>` : ''}
+  ${photo ? `<img class="author-photo" src="${photo}" alt="${escapeXml(section.title)}"/>` : ''}
+  <div class="content-block">
+${section.paragraphs.map(paragraph => `    <p>${escapeXml(paragraph)}</p>`).join('\n')}
+  </div>
+</section>`,
+      sections: [],
+      inToc: section.rules.inToc,
+    };
+  };
+  matter.front.filter(section => section.rules.beforeContents).forEach(section => documents.push(matterDocument(section)));
+
+  // The navigation document is not part of the reading order, so the book also gets a printed contents page.
+  const tocEntries = buildTocEntries(project, tocDepth);
+  if (tocEntries.length > 0) {
+    documents.push({
+      id: 'contents',
+      file: 'contents.xhtml',
+      title: labels.contents,
+      body: `<section class="contents" epub:type="toc">
+  <h2 class="chapter-title">${escapeXml(labels.contents)}</h2>
+${tocEntries.map(entry => `  <p class="toc-entry toc-level-${entry.level}"><a href="${tocEntryHref(entry)}">${escapeXml(entry.title || String(entry.chapterIndex + 1))}</a></p>`).join('\n')}
+</section>`,
+      sections: [],
+      inToc: false,
+    });
+  }
+
+  matter.front.filter(section => !section.rules.beforeContents).forEach(section => documents.push(matterDocument(section)));
+
+  // Sections nest inside each other; the heading level follows the outline level.
+  const renderSections = (nodes: OutlineNode[], chapterIndex: number, path: number[], level: number, indent: string): string =>
+    nodes.map((node, index) => {
+      const anchor = subchapterAnchor(chapterIndex, ...path, index);
+      const heading = `h${level + 1}`;
+      return `${indent}<section id="${anchor}">
+${indent}  <${heading} class="subchapter-title section-level-${level}">${escapeXml(node.title)}</${heading}>
+${indent}  ${node.content ? `<div class="content-block">${htmlToXhtml(node.content, addImage)}</div>` : ''}
+${renderSections(node.subchapters, chapterIndex, [...path, index], level + 1, `${indent}  `)}
+${indent}</section>`;
+    }).join('\n');
+
+  const tocSections = (nodes: OutlineNode[], chapterIndex: number, path: number[], level: number): EpubDocument['sections'] =>
+    level > tocDepth ? [] : nodes.flatMap((node, index) => [
+      ...(node.title ? [{ anchor: subchapterAnchor(chapterIndex, ...path, index), title: node.title, depth: level - CHAPTER_LEVEL }] : []),
+      ...tocSections(node.subchapters, chapterIndex, [...path, index], level + 1),
+    ]);
+
+  outlineChapters(project.bookStructure?.chapters || []).forEach(({ chapter, chapterIndex: index, part, partIndex, opensPart }) => {
+    if (opensPart && part && partIndex !== null) {
+      documents.push({
+        id: partAnchor(partIndex),
+        file: partFile(partIndex),
+        title: part.title || String(partIndex + 1),
+        body: `<section epub:type="part" class="part-page" id="${partAnchor(partIndex)}">
+  <h1 class="part-title">${escapeXml(part.title)}</h1>
+  ${part.content ? `<div class="content-block">${htmlToXhtml(part.content, addImage)}</div>` : ''}
+</section>`,
+        sections: [],
+        inToc: true,
+      });
+    }
+    documents.push({
+      id: chapterAnchor(index),
+      file: chapterFile(index),
+      // Navigation entries may not be empty.
+      title: chapter.title || String(index + 1),
+      body: `<section epub:type="chapter" id="${chapterAnchor(index)}">
+  <h2 class="chapter-title">${escapeXml(chapter.title)}</h2>
+  ${chapter.content ? `<div class="content-block">${htmlToXhtml(chapter.content, addImage)}</div>` : ''}
+${renderSections(chapter.subchapters, index, [], CHAPTER_LEVEL + 1, '  ')}
+</section>`,
+      sections: tocSections(chapter.subchapters, index, [], CHAPTER_LEVEL + 1),
+      inToc: true,
+      inPart: part !== null,
+    });
+  });
+
+  const appendix = (id: string, heading: string, blocks: ContentBlock[]) => {
+    if (blocks.length === 0) return;
+    const items = blocks.map((block, index) => ({ ...block, anchor: `block-${index + 1}` }));
+    documents.push({
+      id,
+      file: `${id}.xhtml`,
+      title: heading,
+      body: `<section epub:type="appendix">
+  <h2 class="chapter-title">${escapeXml(heading)}</h2>
+${items.map(block => `  <section id="${block.anchor}">
+    <h3 class="subchapter-title">${escapeXml(block.title)}</h3>
+    ${block.imageUrl?.startsWith('data:') ? `<img class="content-block-image" src="${addImage(block.imageUrl)}" alt="${escapeXml(block.title)}"/>` : ''}
+    <div class="content-block">${plainTextToXhtml(block.textContent)}</div>
+  </section>`).join('\n')}
+</section>`,
+      sections: items.filter(block => block.title).map(block => ({ anchor: block.anchor, title: block.title, depth: 1 })),
+      inToc: true,
+    });
+  };
+  const contentBlocks = project.contentBlocks || [];
+  appendix('appendix-recipes', labels.recipes, contentBlocks.filter(b => b.type === 'recipe' || b.type === 'exercise'));
+  appendix('appendix-bonus', labels.bonus, contentBlocks.filter(b => b.type === 'bonus'));
+
+  if (project.glossary?.length) {
+    const sortedGlossary = [...project.glossary].sort((a, b) => a.term.localeCompare(b.term));
+    documents.push({
+      id: 'glossary',
+      file: 'glossary.xhtml',
+      title: labels.glossary,
+      body: `<section epub:type="glossary">
+  <h2 class="chapter-title">${escapeXml(labels.glossary)}</h2>
+  <dl class="content-block">
+${sortedGlossary.map(item => `    <dt class="glossary-term">${escapeXml(item.term)}</dt>\n    <dd>${escapeXml(item.definition)}</dd>`).join('\n')}
+  </dl>
+</section>`,
+      sections: [],
+      inToc: true,
+    });
+  }
+
+  const indexEntries = project.includeIndex ? buildIndexEntries(project) : [];
+  if (indexEntries.length > 0) {
+    documents.push({
+      id: 'index',
+      file: 'index.xhtml',
+      title: labels.index,
+      body: `<section epub:type="index">
+  <h2 class="chapter-title">${escapeXml(labels.index)}</h2>
+${indexEntries.map(entry => `  <p class="index-entry"><span class="glossary-term">${escapeXml(entry.term)}</span>: ${entry.locations
+        .map(location => `<a href="${chapterFile(location.chapterIndex)}#${location.anchor}">${escapeXml(location.title || String(location.chapterIndex + 1))}</a>`)
+        .join(', ')}</p>`).join('\n')}
+</section>`,
+      sections: [],
+      inToc: true,
+    });
+  }
+
+  matter.back.forEach(section => documents.push(matterDocument(section)));
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed.
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', containerXml);
+  zip.file('OEBPS/styles.css', buildEpubStylesheet(project.layoutTemplate, project.customStyles));
+  documents.forEach(doc => zip.file(`OEBPS/${doc.file}`, xhtmlDocument(doc.title, language, doc.body)));
+  zip.file('OEBPS/nav.xhtml', buildNav(documents, options));
+  zip.file('OEBPS/toc.ncx', buildNcx(documents, identifier, title));
+  images.forEach(image => zip.file(`OEBPS/${image.file}`, image.blob));
+  zip.file('OEBPS/content.opf', buildOpf(project, options, identifier, documents, images, coverImageId));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+};
@@ -0,0 +1,134 @@
+import { GoogleGenAI, Type, Modality, GenerateContentResponse, type Schema } from "@google/genai";
+import type { GroundingSource } from '../types';
+import type { AIProvider, AISchema, TextRequest, TextChunk } from './aiProvider';
+
+const schemaTypes: { [key in AISchema['type']]: Type } = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+};
+
+const toGeminiSchema = (schema: AISchema): Schema => ({
+  type: schemaTypes[schema.type],
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  ...(schema.properties
+    ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])) }
+    : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+});
+
+const extractSources = (response: GenerateContentResponse): GroundingSource[] => {
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  return chunks
+    .filter(chunk => chunk.web?.uri && chunk.web.title)
+    .map(chunk => ({ web: { uri: chunk.web!.uri!, title: chunk.web!.title! } }));
+};
+
+/**
+ * Provider backed by the Google Gemini / Imagen APIs.
+ */
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const searchConfig = (request: TextRequest) => request.useSearch ? { tools: [{ googleSearch: {} }] } : {};
+
+  return {
+    name: 'gemini',
+
+    async generateText(request) {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: request.prompt,
+        config: searchConfig(request),
+      });
+      return { text: (response.text || '').trim(), sources: extractSources(response) };
+    },
+
+    async generateJson<T>(request) {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: request.prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema),
+        },
+      });
+      return JSON.parse((response.text || '').trim()) as T;
+    },
+
+    async generateTextStream(request) {
+      const stream = await ai.models.generateContentStream({
+        model: request.model,
+        contents: request.prompt,
+        config: searchConfig(request),
+      });
+      return (async function* (): AsyncGenerator<TextChunk> {
+        for await (const chunk of stream) {
+          yield { text: chunk.text || '' };
+        }
+      })();
+    },
+
+    async generateImages(request) {
+      const response = await ai.models.generateImages({
+        model: request.model,
+        prompt: request.prompt,
+        config: {
+          numberOfImages: request.numberOfImages,
+          outputMimeType: request.mimeType,
+          aspectRatio: request.aspectRatio,
+        },
+      });
+      return (response.generatedImages || [])
+        .filter(img => img.image?.imageBytes)
+        .map(img => ({ base64: img.image!.imageBytes!, mimeType: request.mimeType }));
+    },
+
+    async editImage(request) {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: {
+          parts: [
+            { inlineData: { data: request.imageBase64, mimeType: request.imageMimeType } },
+            { text: request.prompt },
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE],
+        },
+      });
+      const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+      if (!imagePart?.inlineData?.data) {
+        return null;
+      }
+      return { base64: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType || 'image/png' };
+    },
+
+    async generateSpeech(request) {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: [{ parts: [{ text: request.text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: request.voiceName },
+            },
+          },
+        },
+      });
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) {
+        return null;
+      }
+      const binaryString = atob(base64Audio);
+      const bytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+      }
+      return bytes.buffer;
+    },
+  };
+};
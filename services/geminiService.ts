@@ -1,7 +1,15 @@
-import { GoogleGenAI, Type, GenerateContentResponse, GenerateImagesResponse, Modality } from "@google/genai";
-import type { BookStructure, ResearchResult, Keyword, GroundingSource, Project, ContentBlockType, Trend, Language, CompetitorBook } from '../types';
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import type { BookStructure, OutlineNode, MatterSection, ContentBlock, ResearchResult, Keyword, GroundingSource, Project, ContentBlockType, Trend, Language, BookLanguage, CompetitorBook } from '../types';
+import { getAIProvider, type AISchema, type GeneratedImage, type TextChunk } from './aiProvider';
+import { flattenOutline, outlineChapters } from './outline';
+import {
+  renderPrompt,
+  structureRequirements,
+  contentPromptFragments,
+  contentBlockExample,
+  contentBlockUniquenessInstruction,
+} from './promptTemplates';
+import { DEFAULT_BOOK_LANGUAGE, promptLanguageName, englishLanguageName } from './bookLanguage';
+import type { NarrationSegment } from './narration';
 
 const cleanText = (text: string): string => {
   if (!text) return '';
@@ -68,40 +76,28 @@ export const discoverTrends = async (category: string, market: string): Promise<
   };
   const amazonDomain = marketToDomain[market] || 'amazon.com';
 
-  const prompt = `AGISCI COME un analista di mercato KDP esperto. La tua missione è analizzare i dati di vendita e le tendenze di mercato dal sito **${amazonDomain}** per identificare le 5 nicchie di saggistica più redditizie e con meno concorrenza per il self-publishing su Amazon KDP, focalizzandoti sulla categoria: "${category}".
-
-Se la categoria è "Tutte le Categorie" o "Libri", analizza il mercato librario nel suo complesso su **${amazonDomain}**. Altrimenti, fornisci risultati specifici per la categoria data.
-
-Per ogni nicchia identificata, fornisci:
-1. "topic": Il nome della nicchia o dell'argomento del libro, conciso e pronto per KDP. Evita asterischi nel testo.
-2. "reason": Una spiegazione breve (1-2 frasi) e convincente del perché questa nicchia è profittevole, analizzando le tendenze di mercato e identificando opportunità per nuovi autori all'interno della categoria di riferimento ("${category}") e del mercato ("${market}").
-3. "trendScore": un punteggio da 0 a 100 che rappresenta il potenziale di redditività della nicchia. 100 è il massimo potenziale.
-
-Fornisci la risposta esclusivamente come un array JSON di oggetti. Ordina i risultati dal "trendScore" più alto al più basso. Assicurati che l'analisi sia basata sulle informazioni più recenti disponibili nel tuo set di dati per il mercato di riferimento. L'output deve essere solo il JSON.`;
+  const prompt = renderPrompt('discoverTrends', { amazonDomain, category, market });
 
   try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const trendsData = await withRetry(() => getAIProvider().generateJson<Trend[]>({
+      task: 'discoverTrends',
       model: "gemini-3-pro-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              topic: { type: Type.STRING },
-              reason: { type: Type.STRING },
-              trendScore: { type: Type.NUMBER }
-            },
-            required: ["topic", "reason", "trendScore"]
-          }
+      prompt,
+      context: { category, market },
+      schema: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            topic: { type: 'string' },
+            reason: { type: 'string' },
+            trendScore: { type: 'number' }
+          },
+          required: ["topic", "reason", "trendScore"]
         }
       },
     }));
     
-    const trendsData = JSON.parse(response.text.trim()) as Trend[];
-    
     return { trends: trendsData, sources: [] };
   } catch (error) {
     console.error("Error during trend discovery:", error);
@@ -115,41 +111,17 @@ Fornisci la risposta esclusivamente come un array JSON di oggetti. Ordina i risu
  * Uses Gemini 3 Pro for deep research capabilities.
  */
 export const researchTopic = async (topic: string, market: string): Promise<{ result: ResearchResult | null; sources: GroundingSource[] }> => {
-  const prompt = `AGISCI COME un esperto di marketing e publishing per Amazon KDP. Esegui una ricerca approfondita, basata sulle informazioni più recenti dal web e con un focus sul mercato di **${market}**, per un libro sull'argomento: "${topic}".
-L'obiettivo è massimizzare le vendite e la visibilità in quel mercato specifico. Fornisci una risposta strutturata in Markdown con le seguenti sezioni ESATTE, ciascuna seguita da un elenco puntato o da un paragrafo:
-
-### Market Summary
-[Un'analisi concisa del mercato di riferimento, del potenziale pubblico e delle tendenze.]
-
-### KDP Keywords
-[Un elenco di 10 parole chiave KDP redditizie, miste tra coda corta e lunga, con il più alto intento di acquisto. Per ogni parola chiave, fornisci:
-- Una valutazione del **Volume di Ricerca** (Valori possibili: Alto, Medio, Basso).
-- Una valutazione della **Competizione** (Valori possibili: Alta, Media, Bassa).
-- Un punteggio di **Rilevanza** (Rilevanza: X%).
-Formatta ogni voce in questo modo ESATTO, ordinando per Rilevanza decrescente:
-- [Parola Chiave] (Rilevanza: X%, Volume: [Valore], Competizione: [Valore])]
-
-### Suggested Titles
-- [Titolo 1] (Rilevanza: X%)
-- [Titolo 2] (Rilevanza: X%)
-- ... (Fornisci 5 titoli magnetici che massimizzano il CTR e incorporano parole chiave. NON USARE ASTERISCHI.)
-
-### Suggested Subtitles
-- [Sottotitolo 1] (Rilevanza: X%)
-- [Sottotitolo 2] (Rilevanza: X%)
-- ... (Fornisci 5 sottotitoli che espandono il titolo e contengono parole chiave. NON USARE ASTERISCHI.)
-`;
+  const prompt = renderPrompt('researchTopic', { market, topic });
 
   try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const { text, sources: validSources } = await withRetry(() => getAIProvider().generateText({
+      task: 'researchTopic',
       model: "gemini-3-pro-preview",
-      contents: prompt,
-      config: {
-        tools: [{googleSearch: {}}],
-      },
+      prompt,
+      useSearch: true,
+      context: { topic, market },
     }));
-    
-    const text = response.text.trim();
+
     // Regex per splittare in base a "### Header" e catturare sia l'header che il contenuto
     const sections = text.split(/#{3}\s(.+)/).slice(1);
 
@@ -216,9 +188,6 @@ Formatta ogni voce in questo modo ESATTO, ordinando per Rilevanza decrescente:
         }
     }
 
-    const groundingSources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const validSources = groundingSources.filter(s => s.web?.uri && s.web.title);
-    
     const finalResult: ResearchResult = {
         ...researchData,
         sources: validSources,
@@ -231,70 +200,76 @@ Formatta ogni voce in questo modo ESATTO, ordinando per Rilevanza decrescente:
   }
 };
 
+export interface StructureOptions {
+  // Raggruppa i capitoli in parti.
+  parts?: boolean;
+  // Livelli sotto il capitolo: 2 = sezioni, 3 = sezioni e sottosezioni.
+  depth?: number;
+  // Lingua in cui scrivere i titoli; italiano se non indicata.
+  language?: BookLanguage;
+}
+
+// Schema di un nodo dello schema del libro con `levels` livelli annidati sotto di esso.
+const outlineNodeSchema = (levels: number): AISchema => ({
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    ...(levels > 0 ? { subchapters: { type: 'array', items: outlineNodeSchema(levels - 1) } } : {}),
+  },
+  required: levels > 0 ? ["id", "title", "subchapters"] : ["id", "title"],
+});
+
+// L'ultimo livello dello schema non ha "subchapters": viene aggiunto vuoto.
+const cleanOutlineTitles = (nodes: OutlineNode[]): OutlineNode[] =>
+  nodes.map(node => ({ ...node, title: cleanText(node.title), subchapters: cleanOutlineTitles(node.subchapters || []) }));
+
 /**
- * Genera una struttura di libro (capitoli e sottocapitoli) in formato JSON.
+ * Genera una struttura di libro (parti facoltative, capitoli, sezioni e sottosezioni) in formato JSON.
  * Uses Gemini 3 Flash for speed and structure.
  */
-export const generateStructure = async (topic: string, title: string, subtitle: string, keywords: Keyword[]): Promise<BookStructure | null> => {
+export const generateStructure = async (
+  topic: string,
+  title: string,
+  subtitle: string,
+  keywords: Keyword[],
+  options: StructureOptions = {},
+): Promise<BookStructure | null> => {
   const keywordList = keywords.map(k => k.keyword).join(', ');
-  const prompt = `Crea una struttura logica e dettagliata per un libro KDP sull'argomento "${topic}", con il titolo "${title}" e il sottotitolo "${subtitle}".
-La struttura deve seguire rigorosamente i seguenti requisiti:
-1.  Deve contenere esattamente 10 capitoli.
-2.  Ogni capitolo deve contenere esattamente 4 sottocapitoli.
-I titoli dei capitoli e dei sottocapitoli devono essere pertinenti, coprire in modo esauriente l'argomento e includere in modo naturale le seguenti parole chiave per massimizzare la visibilità e le vendite su Amazon: ${keywordList}.
-IMPORTANTE: Non usare asterischi o formattazione Markdown nei valori JSON.
-Fornisci la risposta come un singolo oggetto JSON con una chiave "chapters" che contiene un array di oggetti capitolo.`;
-  
+  const depth = Math.min(Math.max(options.depth ?? 2, 2), 3);
+  const prompt = renderPrompt('generateStructure', {
+    topic,
+    title,
+    subtitle,
+    requirements: structureRequirements(!!options.parts, depth),
+    keywords: keywordList,
+    itemKind: options.parts ? 'parte' : 'capitolo',
+    bookLanguage: promptLanguageName(options.language ?? DEFAULT_BOOK_LANGUAGE),
+  });
+
+  // Livelli annidati sotto un elemento di primo livello: le parti aggiungono quello dei capitoli.
+  const levels = depth - 1 + (options.parts ? 1 : 0);
+  const topLevel = outlineNodeSchema(levels);
+  if (options.parts) topLevel.properties!.isPart = { type: 'boolean' };
+
   try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const structure = await withRetry(() => getAIProvider().generateJson<BookStructure>({
+      task: 'generateStructure',
       model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            chapters: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  title: { type: Type.STRING },
-                  subchapters: {
-                    type: Type.ARRAY,
-                    items: {
-                      type: Type.OBJECT,
-                      properties: {
-                        id: { type: Type.STRING },
-                        title: { type: Type.STRING },
-                      },
-                      required: ["id", "title"]
-                    }
-                  }
-                },
-                required: ["id", "title", "subchapters"]
-              }
-            }
-          },
-          required: ["chapters"]
+      prompt,
+      context: { topic, title, subtitle, parts: options.parts ? 1 : 0, depth, language: options.language ?? DEFAULT_BOOK_LANGUAGE },
+      schema: {
+        type: 'object',
+        properties: {
+          chapters: { type: 'array', items: topLevel },
         },
+        required: ["chapters"]
       },
     }));
 
-    const jsonText = response.text.trim();
-    const structure = JSON.parse(jsonText) as BookStructure;
-
     // Clean asterisks from titles
     if (structure && structure.chapters) {
-        structure.chapters = structure.chapters.map(chapter => ({
-            ...chapter,
-            title: cleanText(chapter.title),
-            subchapters: chapter.subchapters.map(sub => ({
-                ...sub,
-                title: cleanText(sub.title)
-            }))
-        }));
+        structure.chapters = cleanOutlineTitles(structure.chapters);
     }
 
     return structure;
@@ -317,49 +292,22 @@ export const generateContentStream = (
   tone?: string,
   audience?: string,
   style?: string,
-  existingContent?: string
-): Promise<AsyncGenerator<GenerateContentResponse>> => {
+  existingContent?: string,
+  language: BookLanguage = DEFAULT_BOOK_LANGUAGE
+): Promise<AsyncGenerator<TextChunk>> => {
   const keywordList = keywords && keywords.length > 0 ? keywords.map(k => k.keyword).join(', ') : '';
   
-  const writingGuidelines = [
-    tone && `- Tono di voce: ${tone}`,
-    audience && `- Pubblico di destinazione: ${audience}`,
-    style && `- Stile di scrittura: ${style}`
-  ].filter(Boolean).join('\n');
-
-  const wordCountInstruction = wordCount 
-    ? `REQUISITO FONDAMENTALE: Il contenuto di questa sezione DEVE avere una lunghezza di circa ${wordCount} parole. Scrivi un testo completo e dettagliato che rispetti questa lunghezza target. Non fornire un breve riassunto.`
-    : '';
-
-  const regenerationInstruction = existingContent 
-    ? `Migliora, espandi e riscrivi il seguente testo per renderlo più coinvolgente, dettagliato e di alta qualità. Assicurati che la nuova versione sia coerente con le linee guida fornite e che soddisfi il requisito del conteggio parole. Testo originale da migliorare:\n---\n${existingContent}\n---\n`
-    : `Scrivi il contenuto per il libro sull'argomento "${topic}".`;
-
-  const prompt = `AGISCI COME un autore di bestseller per KDP e un ghostwriter di fama mondiale. La tua missione è scrivere una sezione di capitolo della massima qualità possibile, estremamente coinvolgente e che fornisca un valore immenso al lettore. Questo contenuto DEVE essere degno di un bestseller.
-${regenerationInstruction}
-Sezione corrente: Capitolo "${chapterTitle}" ${subchapterTitle ? `- Sottocapitolo "${subchapterTitle}"` : ''}.
-
-Linee Guida Fondamentali per un Contenuto da Bestseller:
-1.  **Qualità Superiore**: Scrivi in modo professionale, chiaro e informativo. Il livello deve essere impeccabile, paragonabile a un libro leader nel suo settore. Evita frasi generiche e superficiali.
-2.  **Stile Coinvolgente e Magnetico**: Utilizza tecniche di storytelling per catturare l'attenzione. Inizia ogni sezione con un'apertura forte e concludi con un pensiero o una transizione che inviti a continuare la lettura. Varia la struttura delle frasi per creare un ritmo di lettura dinamico.
-3.  **Struttura Chiara**: Organizza il contenuto in modo logico. Dove appropriato, usa sotto-intestazioni implicite (separate da una riga vuota) o elenchi puntati/numerati per migliorare la leggibilità e la comprensione.
-4.  **Tono Autorevole ma Accessibile**: Posizionati come un esperto, ma spiega concetti complessi in modo semplice e comprensibile per il pubblico di destinazione. Usa un linguaggio che risuoni con loro.
-5.  **Valore Pratico Immenso**: Fornisci esempi pratici, strategie attuabili, aneddoti, analogie o casi studio che il lettore possa applicare. Il contenuto deve essere utile e trasformazionale.
-6.  **Originalità e Profondità**: Non limitarti a ripetere informazioni comuni. Offri una prospettiva unica, approfondimenti non ovvi e una sintesi intelligente delle informazioni.
-7.  **Accuratezza Assoluta**: Verifica che tutte le informazioni siano aggiornate, corrette e supportate da fonti attendibili se necessario.
-8.  **Ottimizzazione per KDP**: ${keywordList ? `Integra in modo naturale e strategico le seguenti parole chiave per massimizzare la visibilità: ${keywordList}.` : 'Scrivi in modo naturale senza forzare parole chiave.'}
-
-${writingGuidelines ? `\nSegui anche queste specifiche aggiuntive:\n${writingGuidelines}` : ''}
-
-${wordCountInstruction}
-
-Output:
-- Fornisci solo il testo del contenuto, senza alcuna introduzione, titolo o preambolo.
-- Formatta il testo in paragrafi ben strutturati per una leggibilità ottimale, utilizzando interruzioni di riga per separare le idee.`;
-
-  return withRetry(() => ai.models.generateContentStream({
+  const prompt = renderPrompt('generateContent', {
+    chapterTitle,
+    bookLanguage: promptLanguageName(language),
+    ...contentPromptFragments({ topic, subchapterTitle, wordCount, keywordList, tone, audience, style, existingContent }),
+  });
+
+  return withRetry(() => getAIProvider().generateTextStream({
+    task: 'generateContent',
     model: "gemini-3-pro-preview",
-    contents: prompt,
+    prompt,
+    context: { topic, chapterTitle, subchapterTitle: subchapterTitle || '', wordCount: wordCount || 0, language },
   }));
 };
 
@@ -369,28 +317,16 @@ Output:
  * Uses Gemini 3 Pro because it uses Tools and needs complex reasoning.
  */
 export const fetchCompetitorCovers = async (topic: string, category: string): Promise<CompetitorBook[]> => {
-    const prompt = `AGISCI COME un esperto di analisi di mercato editoriale.
-    Trova i 3 libri bestseller attuali su Amazon.com o Amazon.it che sono più pertinenti per l'argomento "${topic}" nella categoria "${category}".
-    
-    Il tuo obiettivo principale è trovare il codice **ASIN** (Amazon Standard Identification Number) o **ISBN-10** corretto per ciascun libro, in modo da poter recuperare l'immagine di copertina.
-    
-    Restituisci un array JSON con i seguenti campi per ogni libro:
-    1. "title": Titolo del libro.
-    2. "author": Autore del libro.
-    3. "asin": Il codice ASIN o ISBN-10 (stringa di 10 caratteri). DEVE essere accurato.
-    4. "reason": Una breve frase sul perché questo libro è un bestseller o cosa rende la sua copertina efficace.
-    
-    Usa Google Search per verificare i bestseller attuali.
-    L'output deve essere SOLO il JSON grezzo, senza markdown formatting come \`\`\`json.`;
+    const prompt = renderPrompt('fetchCompetitorCovers', { topic, category });
 
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const response = await withRetry(() => getAIProvider().generateText({
+            task: 'fetchCompetitorCovers',
             model: "gemini-3-pro-preview",
-            contents: prompt,
-            config: {
-                tools: [{ googleSearch: {} }],
-                // Removed responseMimeType and responseSchema because they are incompatible with tools in current API version for this specific request type.
-            },
+            prompt,
+            useSearch: true,
+            // Niente generateJson: lo schema di risposta non è compatibile con i tools di ricerca per questo tipo di richiesta.
+            context: { topic, category },
         }));
 
         let jsonString = response.text || '';
@@ -434,41 +370,16 @@ export const generateCoverPromptFromBestsellers = async (
   category: string
 ): Promise<string> => {
   const keywordList = keywords.map(k => k.keyword).join(', ');
-  const prompt = `ACT AS an award-winning art director and an expert in book cover design for Amazon KDP. Your mission is to create a prompt for an AI image generator (like Imagen) that will produce a visually stunning, commercially effective, and deeply relevant cover image.
-
-Book Details:
-- Title: "${title}"
-- Topic: "${topic}"
-- Category: "${category}"
-- Emotional Keywords: ${keywordList}
-
-Your Creative Process:
-1.  **Target Audience and Emotional Tone Analysis (CRITICAL FIRST STEP)**: Based on the book's details, first analyze and define the target audience (e.g., beginners, experts, young adults) and the core emotional tone of the book (e.g., empowering, serene, urgent, mysterious). This analysis is the foundation and MUST guide all subsequent visual choices.
-2.  **Conceptual and Symbolic Analysis**: Don't just do a literal representation. Dive deep into the topic "${topic}" and the title "${title}". What is the core promise to the reader? What is the key transformation or emotion (hope, power, serenity, curiosity)? Translate these abstract concepts into a **powerful and original visual metaphor**. Strictly avoid clichés and generic stock photo imagery.
-3.  **Visual Market Research**: Analyze current bestsellers in the "${category}" category on Amazon to understand the visual language that attracts the target audience. Identify archetypes, color palettes, and styles, but not to imitate them. The goal is to innovate and stand out while speaking a familiar language to the reader.
-4.  **Winning Concept Development**: Choose a single, strong artistic direction (e.g., photographic, illustrative, graphic, symbolic) and build the prompt around it.
-5.  **Final Prompt Construction**: Write a single prompt, in English, that is a masterpiece of descriptiveness. It must be rich, evocative, and precise.
-
-Final Prompt Requirements:
--   **Language**: Exclusively in **English**.
--   **Focus on Symbolism**: The main subject must be a visual metaphor, not a literal depiction of the title.
--   **Absolute Specificity**: Include details on:
-    *   **Subject and Scene**: Describe the central visual element and its environment with great detail. If it's an object, describe its texture, material, and symbolic meaning. If it's a scene, describe the atmosphere.
-    *   **Artistic Style**: Be precise (e.g., "cinematic high-definition photography with soft bokeh", "painterly digital illustration with rich textures", "bold and minimalist vector graphic design").
-    *   **Composition and Text Space**: Guide the AI on element placement. **THIS IS CRITICAL**: design the composition (e.g., "using the rule of thirds", "subject off-center to the left") to leave a large, clean area of negative space at the top for the title and subtitle.
-    *   **Lighting**: Describe the lighting to create the desired mood (e.g., "dramatic, low-key lighting creating long shadows", "soft, ethereal lighting coming from above", "vibrant neon glow").
-    *   **Color Palette**: Define a specific and emotional color palette (e.g., "an analogous color palette of blues and greens to evoke calm, with a single accent of orange for energy", "monochromatic tones of gray with a single bright red element").
-    *   **Output**: Provide **only the final prompt text**, with no introduction, explanation, analysis, or alternative options.
-
-Example of a quality output for a book on procrastination:
-"Surrealist digital illustration of an elegant glass hourglass where the falling sand transforms into a flock of paper birds flying away freely. The background is a sunset sky with warm, gradient colors from purple to orange. The lighting is soft and emanates from within the hourglass, creating a magical glow. Detailed painterly style with visible textures. Minimalist composition with the hourglass off-center, leaving ample negative space at the top for text."`;
+  const prompt = renderPrompt('generateCoverPrompt', { title, topic, category, keywords: keywordList });
 
   try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const response = await withRetry(() => getAIProvider().generateText({
+      task: 'generateCoverPrompt',
       model: "gemini-3-pro-preview",
-      contents: prompt,
+      prompt,
+      context: { topic, title, category },
     }));
-    return response.text.trim();
+    return response.text;
   } catch (error) {
     console.error("Error generating cover prompt from bestsellers:", error);
     return `Book cover for a book titled "${title}" on the topic of "${topic}". Clean, modern, and eye-catching design, incorporating ideas from these keywords: ${keywordList}. The reference category is ${category}.`;
@@ -480,15 +391,14 @@ Example of a quality output for a book on procrastination:
  * Genera immagini di copertina per il libro.
  * Uses Imagen 4.
  */
-export const generateCoverImages = (prompt: string): Promise<GenerateImagesResponse> => {
-    return withRetry(() => ai.models.generateImages({
+export const generateCoverImages = (prompt: string): Promise<GeneratedImage[]> => {
+    return withRetry(() => getAIProvider().generateImages({
+        task: 'generateCoverImages',
         model: 'imagen-4.0-generate-001',
-        prompt: prompt,
-        config: {
-          numberOfImages: 3,
-          outputMimeType: 'image/png',
-          aspectRatio: '3:4',
-        },
+        prompt,
+        numberOfImages: 3,
+        mimeType: 'image/png',
+        aspectRatio: '3:4',
     }));
 };
 
@@ -499,29 +409,17 @@ export const generateCoverImages = (prompt: string): Promise<GenerateImagesRespo
 const dataUrlToBase64 = (dataUrl: string) => dataUrl.split(',')[1];
 
 export const editCoverImage = async (base64ImageDataUrl: string, prompt: string): Promise<string | null> => {
-    const imagePart = {
-        inlineData: {
-            data: dataUrlToBase64(base64ImageDataUrl),
-            mimeType: 'image/jpeg', // Le immagini compresse sono JPEG
-        },
-    };
-    const textPart = { text: prompt };
-
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const image = await withRetry(() => getAIProvider().editImage({
+            task: 'editCoverImage',
             model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [imagePart, textPart]
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
+            prompt,
+            imageBase64: dataUrlToBase64(base64ImageDataUrl),
+            imageMimeType: 'image/jpeg', // Le immagini compresse sono JPEG
         }));
         
-        const imageResponsePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-        if (imageResponsePart?.inlineData) {
-            // L'output di Nano Banana è PNG
-            return `data:image/png;base64,${imageResponsePart.inlineData.data}`;
+        if (image) {
+            return `data:${image.mimeType};base64,${image.base64}`;
         }
         console.warn("Nessuna parte immagine trovata nella risposta di modifica della copertina.");
         return null;
@@ -536,30 +434,22 @@ export const editCoverImage = async (base64ImageDataUrl: string, prompt: string)
  * Genera una descrizione del libro per i metadati KDP.
  * Uses Gemini 3 Flash for quick and effective copy.
  */
-export const generateDescription = async (title: string, structure: BookStructure | null): Promise<{ description: string, sources: GroundingSource[] }> => {
-    const chapterTitles = structure?.chapters.map(c => c.title).join(', ') || 'vari argomenti';
-    const prompt = `AGISCI COME un copywriter di livello mondiale specializzato in descrizioni di libri per Amazon KDP che convertono. La tua missione è scrivere una descrizione magnetica e irresistibile per un libro intitolato "${title}".
-Il libro tratta i seguenti argomenti principali: ${chapterTitles}.
-
-Segui questa struttura vincente in 3 parti per massimizzare l'impatto e le vendite:
-1.  **Gancio Potente (Prime 1-2 frasi)**: Inizia con una domanda audace, una statistica scioccante o un'affermazione che colpisca direttamente il punto dolente o il desiderio più grande del lettore. Cattura immediatamente la loro attenzione.
-2.  **Corpo Persuasivo (Paragrafo centrale)**: Elenca i benefici chiave e le soluzioni che il lettore otterrà leggendo il libro. Usa un linguaggio orientato all'azione. Spiega cosa impareranno, come la loro vita migliorerà o quale problema risolveranno.
-3.  **Call to Action Irresistibile (Frase finale)**: Concludi con un invito all'azione chiaro, energico e ad altissima conversione che spinga il lettore a comprare ORA.
-
-Requisiti Aggiuntivi:
--   **Linguaggio**: Scrivi in italiano fluente e naturale.
--   **Lunghezza**: Mantieni la descrizione tra le 150 e le 200 parole.
--   **Emoji Strategiche**: Inserisci 3-5 emoji altamente motivanti (es. ✨, 🚀, 💪, ✅, 📚) per spezzare il testo e aumentare l'engagement visivo. Posizionale in modo strategico per enfatizzare i punti chiave.
--   **Formattazione**: NON usare markdown o HTML. Fornisci solo il testo puro.
-
-Esempio di Call to Action efficace: "Non aspettare un altro giorno per trasformare la tua vita. Scorri verso l'alto e clicca su 'Acquista ora' per iniziare il tuo viaggio oggi stesso!"`;
+export const generateDescription = async (
+    title: string,
+    structure: BookStructure | null,
+    language: BookLanguage = DEFAULT_BOOK_LANGUAGE
+): Promise<{ description: string, sources: GroundingSource[] }> => {
+    const chapterTitles = outlineChapters(structure?.chapters || []).map(({ chapter }) => chapter.title).join(', ') || 'vari argomenti';
+    const prompt = renderPrompt('generateDescription', { title, chapterTitles, bookLanguage: promptLanguageName(language) });
 
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const response = await withRetry(() => getAIProvider().generateText({
+            task: 'generateDescription',
             model: 'gemini-3-flash-preview',
-            contents: prompt,
+            prompt,
+            context: { title, language },
         }));
-        return { description: response.text.trim(), sources: [] };
+        return { description: response.text, sources: [] };
     } catch(error) {
         console.error("Error generating description:", error);
         return { description: "", sources: [] };
@@ -572,25 +462,20 @@ Esempio di Call to Action efficace: "Non aspettare un altro giorno per trasforma
  */
 export const fetchAmazonCategories = async (language: Language): Promise<string[]> => {
   const languageName = language === 'it' ? 'Italian' : 'English';
-  const prompt = `Generate a comprehensive list of top-level book categories as found on major online bookstores like Amazon. Provide the list in ${languageName}.
-  Return the result as a single, flat JSON array of strings. For example: ["Arts & Photography", "Biographies & Memoirs", "Business & Money"].
-  Return the result as a single, flat JSON array of strings. For example: ["Arts & Photography", "Biographies & Memoirs", "Business & Money"].
-  Do not include sub-categories. The output must be only the JSON array. Do not include a general category like "Books" or "All categories".`;
+  const prompt = renderPrompt('fetchAmazonCategories', { languageName });
 
   try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const categories = await withRetry(() => getAIProvider().generateJson<string[]>({
+      task: 'fetchAmazonCategories',
       model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING },
-        },
+      prompt,
+      context: { language },
+      schema: {
+        type: 'array',
+        items: { type: 'string' },
       },
     }));
 
-    const categories = JSON.parse(response.text.trim()) as string[];
     return categories?.sort() || [];
   } catch (error) {
     console.error("Error fetching Amazon categories:", error);
@@ -606,30 +491,24 @@ export const fetchAmazonCategories = async (language: Language): Promise<string[
  * Uses Gemini 3 Flash.
  */
 export const generateContentBlockPrompt = async (project: Project, contentType: ContentBlockType): Promise<string> => {
-    const chapterTitles = project.bookStructure?.chapters.map(c => c.title).slice(0, 5).join(', ') || '';
-    const context = `Basandosi su un libro intitolato "${project.bookTitle}" sull'argomento "${project.topic}", che include capitoli come "${chapterTitles}"...`;
-    
-    let typeInstruction = '';
-    switch (contentType) {
-        case 'recipe':
-            typeInstruction = "Per una 'ricetta', deve essere una singola preparazione, ad esempio: 'Una ricetta per una colazione energetica in linea con i temi del libro.'";
-            break;
-        case 'exercise':
-            typeInstruction = "Per un 'esercizio', deve essere una singola attività, ad esempio: 'Un esercizio di respirazione per ridurre lo stress, spiegato passo dopo passo.'";
-            break;
-        case 'bonus':
-            typeInstruction = "Per un 'bonus', deve essere un singolo contenuto aggiuntivo, ad esempio: 'Una checklist stampabile per la routine mattinina suggerita nel capitolo 3.'";
-            break;
-    }
-
-    const prompt = `${context} genera un prompt creativo e altamente pertinente in **italiano** per un'appendice di tipo '${contentType}'. Il prompt deve descrivere UN SINGOLO elemento (es. una ricetta, un esercizio), NON una raccolta (es. un menù settimanale, un piano di allenamento). Esempio: ${typeInstruction} L'output deve essere solo il testo del prompt.`;
+    const chapterTitles = outlineChapters(project.bookStructure?.chapters || []).map(({ chapter }) => chapter.title).slice(0, 5).join(', ');
+    const prompt = renderPrompt('generateContentBlockPrompt', {
+        title: project.bookTitle,
+        topic: project.topic,
+        chapterTitles,
+        contentType,
+        example: contentBlockExample(contentType),
+        bookLanguage: promptLanguageName(project.bookLanguage),
+    });
     
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const response = await withRetry(() => getAIProvider().generateText({
+            task: 'generateContentBlockPrompt',
             model: "gemini-3-flash-preview",
-            contents: prompt
+            prompt,
+            context: { topic: project.topic, contentType, language: project.bookLanguage },
         }));
-        return response.text.trim();
+        return response.text;
     } catch (error) {
         console.error(`Error generating bonus prompt:`, error);
         return "";
@@ -649,43 +528,37 @@ export const generateContentBlockText = async (
     contentType: ContentBlockType
 ): Promise<{ title: string; textContent: string }[] | null> => {
     
-    const chapterTitles = project.bookStructure?.chapters.map(c => c.title).slice(0, 5).join(', ') || '';
-    const context = `per un libro intitolato "${project.bookTitle}" sull'argomento "${project.topic}", i cui capitoli principali includono: "${chapterTitles}".`;
-    
-    const uniquenessInstruction = existingTitles.length > 0
-      ? `IMPORTANTE: Evita di generare contenuti bonus con i seguenti titoli, poiché esistono già: ${existingTitles.join(', ')}.`
-      : '';
-
-    const prompt = `Agisci come un esperto creatore di contenuti ed esperto di marketing editoriale. ${context} Basandoti sulla seguente descrizione, genera ${count} contenuti bonus unici di tipo '${contentType}': "${description}".
-
-**REGOLA FONDAMENTALE**: Ogni contenuto bonus generato deve essere un singolo elemento specifico (es. UNA ricetta, UN esercizio, UNA checklist). NON generare raccolte o piani (es. NON un menù settimanale, NON un programma di allenamento). Se la descrizione chiede una raccolta, estrai e genera un singolo elemento rappresentativo da essa.
-
-Per ognuno, fornisci un "title" accattivante e specifico per il singolo elemento, una "description" (un riassunto accattivante del contenuto bonus) e una lista di "items" (punti, passaggi, o elementi per il contenuto bonus).
-${uniquenessInstruction}
-Rispondi con un array JSON di oggetti, anche se ne generi solo uno.`;
+    const chapterTitles = outlineChapters(project.bookStructure?.chapters || []).map(({ chapter }) => chapter.title).slice(0, 5).join(', ');
+    const prompt = renderPrompt('generateContentBlockText', {
+        title: project.bookTitle,
+        topic: project.topic,
+        chapterTitles,
+        count,
+        contentType,
+        description,
+        uniquenessInstruction: contentBlockUniquenessInstruction(existingTitles),
+        bookLanguage: promptLanguageName(project.bookLanguage),
+    });
 
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const results = await withRetry(() => getAIProvider().generateJson<any[]>({
+            task: 'generateContentBlockText',
             model: "gemini-3-flash-preview",
-            contents: prompt,
-            config: { 
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                           title: { type: Type.STRING },
-                           description: { type: Type.STRING },
-                           items: { type: Type.ARRAY, items: { type: Type.STRING } }
-                        },
-                        required: ["title", "description", "items"]
-                    }
+            prompt,
+            context: { topic: project.topic, description, count, contentType, language: project.bookLanguage },
+            schema: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                       title: { type: 'string' },
+                       description: { type: 'string' },
+                       items: { type: 'array', items: { type: 'string' } }
+                    },
+                    required: ["title", "description", "items"]
                 }
             }
         }));
-        
-        const results = JSON.parse(response.text.trim());
 
         return results.map((item: any) => {
             let formattedText = `${item.description}\n\n`;
@@ -709,22 +582,20 @@ Rispondi con un array JSON di oggetti, anche se ne generi solo uno.`;
  * Uses Imagen 4.
  */
 export const generateContentBlockImage = async (title: string, project: Project): Promise<string | null> => {
-    const stylePrompt = `Come illustratore per un libro su "${project.topic}", crea un'immagine pulita, professionale e simbolica per una voce dell'appendice intitolata "${title}". Lo stile deve essere minimalista e grafico, visivamente coerente con il tema del libro e adatto per un'appendice di un libro.`;
+    const stylePrompt = renderPrompt('generateContentBlockImage', { topic: project.topic, entryTitle: title });
 
     try {
-        const response: GenerateImagesResponse = await withRetry(() => ai.models.generateImages({
+        const images = await withRetry(() => getAIProvider().generateImages({
+            task: 'generateContentBlockImage',
             model: 'imagen-4.0-generate-001',
             prompt: stylePrompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: '1:1',
-            },
+            numberOfImages: 1,
+            mimeType: 'image/jpeg',
+            aspectRatio: '1:1',
         }));
 
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-            return `data:image/jpeg;base64,${base64ImageBytes}`;
+        if (images.length > 0) {
+            return `data:image/jpeg;base64,${images[0].base64}`;
         }
         return null;
     } catch (error) {
@@ -737,28 +608,24 @@ export const generateContentBlockImage = async (title: string, project: Project)
  * Traduce un dato testo in una lingua di destinazione.
  * Uses Gemini 3 Flash for speed.
  */
-export const translateText = async (text: string, targetLanguage: string): Promise<string> => {
+export const translateText = async (text: string, targetLanguage: string, sourceLanguage: BookLanguage = DEFAULT_BOOK_LANGUAGE): Promise<string> => {
     if (!text || text.trim() === '') {
         return '';
     }
-    const targetLanguageName = { en: 'English', de: 'German' }[targetLanguage] || targetLanguage;
-
-    const prompt = `You are an expert multilingual translator. Translate the following text from Italian to ${targetLanguageName}.
-    Preserve original formatting such as line breaks or special characters.
-    Return ONLY the translated text, without any introductory phrases or explanations.
-
-    Text to translate:
-    ---
-    ${text}
-    ---
-    `;
+    const prompt = renderPrompt('translateText', {
+        sourceLanguage: englishLanguageName(sourceLanguage),
+        targetLanguage: englishLanguageName(targetLanguage),
+        text,
+    });
 
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const response = await withRetry(() => getAIProvider().generateText({
+            task: 'translateText',
             model: "gemini-3-flash-preview",
-            contents: prompt,
+            prompt,
+            context: { text, targetLanguage, sourceLanguage },
         }));
-        return response.text.trim();
+        return response.text;
     } catch (error) {
         console.error(`Error translating text to ${targetLanguage}:`, error);
         return `[Translation Error] ${text}`; // Restituisce il testo originale con un marcatore di errore
@@ -766,66 +633,85 @@ export const translateText = async (text: string, targetLanguage: string): Promi
 };
 
 /**
- * Traduce l'intero contenuto testuale di un progetto.
+ * Dove va scritto un testo tradotto: un campo del progetto, di un nodo della struttura,
+ * di una sezione di apertura/chiusura o di un blocco di contenuto, identificati per id.
  */
-export const translateFullProject = async (
-    project: Project, 
-    targetLanguage: string, 
-    onProgress: (progress: number) => void
-): Promise<Project> => {
-    
-    const translatedProject = JSON.parse(JSON.stringify(project)); // Copia profonda
+export type TranslationTarget =
+    | { scope: 'project'; key: 'bookTitle' | 'subtitle' | 'author' }
+    | { scope: 'outline'; id: string; key: 'title' | 'content' }
+    | { scope: 'matter'; id: string; key: 'title' | 'content' }
+    | { scope: 'block'; id: string; key: 'title' | 'textContent' };
+
+export interface TranslatableText {
+    target: TranslationTarget;
+    text: string;
+}
+
+/**
+ * Raccoglie tutti i campi di testo di un progetto da tradurre, nell'ordine di lettura.
+ */
+export const collectTranslatableTexts = (project: Project): TranslatableText[] => {
+    const texts: TranslatableText[] = [];
+    const add = (target: TranslationTarget, text: string | undefined | null) => {
+        if (text) texts.push({ target, text });
+    };
 
-    const textsToTranslate: { obj: any; key: string }[] = [];
+    add({ scope: 'project', key: 'bookTitle' }, project.bookTitle);
+    add({ scope: 'project', key: 'subtitle' }, project.subtitle);
+    add({ scope: 'project', key: 'author' }, project.author);
 
-    // Raccoglie tutti i campi di testo
-    if (translatedProject.bookTitle) textsToTranslate.push({ obj: translatedProject, key: 'bookTitle' });
-    if (translatedProject.subtitle) textsToTranslate.push({ obj: translatedProject, key: 'subtitle' });
-    if (translatedProject.author) textsToTranslate.push({ obj: translatedProject, key: 'author' });
-    
-    translatedProject.bookStructure?.chapters.forEach((ch: any) => {
-        if (ch.title) textsToTranslate.push({ obj: ch, key: 'title' });
-        if (ch.content) textsToTranslate.push({ obj: ch, key: 'content' });
-        ch.subchapters.forEach((sub: any) => {
-            if (sub.title) textsToTranslate.push({ obj: sub, key: 'title' });
-            if (sub.content) textsToTranslate.push({ obj: sub, key: 'content' });
-        });
+    // Parti, capitoli e sezioni a ogni livello dello schema
+    flattenOutline(project.bookStructure?.chapters || []).forEach(({ node }) => {
+        add({ scope: 'outline', id: node.id, key: 'title' }, node.title);
+        add({ scope: 'outline', id: node.id, key: 'content' }, node.content);
     });
 
-    translatedProject.contentBlocks?.forEach((block: any) => {
-        if (block.title) textsToTranslate.push({ obj: block, key: 'title' });
-        if (block.textContent) textsToTranslate.push({ obj: block, key: 'textContent' });
+    [...(project.bookStructure?.frontMatter || []), ...(project.bookStructure?.backMatter || [])].forEach(section => {
+        add({ scope: 'matter', id: section.id, key: 'title' }, section.title);
+        add({ scope: 'matter', id: section.id, key: 'content' }, section.content);
     });
-    
-    const totalItems = textsToTranslate.length;
-    if (totalItems === 0) {
-        onProgress(100);
-        return translatedProject;
-    }
 
-    let completedItems = 0;
-
-    const translateChunk = async (chunk: { obj: any; key: string }[]) => {
-        const promises = chunk.map(item => translateText(item.obj[item.key], targetLanguage));
-        const translatedTexts = await Promise.all(promises);
-        chunk.forEach((item, index) => {
-            item.obj[item.key] = translatedTexts[index];
-        });
-        completedItems += chunk.length;
-        onProgress(Math.round((completedItems / totalItems) * 100));
-    };
+    project.contentBlocks?.forEach(block => {
+        add({ scope: 'block', id: block.id, key: 'title' }, block.title);
+        add({ scope: 'block', id: block.id, key: 'textContent' }, block.textContent);
+    });
+    return texts;
+};
 
-    // Elabora in blocchi per evitare di raggiungere i limiti di velocità troppo velocemente
-    const chunkSize = 5; 
-    for (let i = 0; i < totalItems; i += chunkSize) {
-        const chunk = textsToTranslate.slice(i, i + chunkSize);
-        await translateChunk(chunk);
-        // Aggiunge un ritardo significativo tra i blocchi
-        if (i + chunkSize < totalItems) {
-            await new Promise(resolve => setTimeout(resolve, 61000)); 
+/**
+ * Restituisce una copia del progetto con i testi tradotti al posto degli originali.
+ * I campi il cui nodo o blocco non esiste più vengono ignorati.
+ */
+export const applyTranslations = (project: Project, translations: { target: TranslationTarget; text: string }[]): Project => {
+    const translatedProject: Project = JSON.parse(JSON.stringify(project)); // Copia profonda
+    const nodes = new Map<string, OutlineNode>(flattenOutline(translatedProject.bookStructure?.chapters || []).map(({ node }) => [node.id, node]));
+    const sections = new Map<string, MatterSection>(
+        [...(translatedProject.bookStructure?.frontMatter || []), ...(translatedProject.bookStructure?.backMatter || [])].map(section => [section.id, section])
+    );
+    const blocks = new Map<string, ContentBlock>((translatedProject.contentBlocks || []).map(block => [block.id, block]));
+
+    translations.forEach(({ target, text }) => {
+        switch (target.scope) {
+            case 'project':
+                translatedProject[target.key] = text;
+                break;
+            case 'outline': {
+                const node = nodes.get(target.id);
+                if (node) node[target.key] = text;
+                break;
+            }
+            case 'matter': {
+                const section = sections.get(target.id);
+                if (section) section[target.key] = text;
+                break;
+            }
+            case 'block': {
+                const block = blocks.get(target.id);
+                if (block) block[target.key] = text;
+                break;
+            }
         }
-    }
-
+    });
     return translatedProject;
 };
 
@@ -843,24 +729,26 @@ export const processTextWithGemini = async (
   switch (action) {
     case 'improve':
       model = 'gemini-3-pro-preview';
-      prompt = `AGISCI COME un editor professionista. Riscrivi il seguente testo per migliorarne la chiarezza, il coinvolgimento e la qualità generale senza alterarne il significato fondamentale. Migliora la scelta delle parole, la struttura delle frasi e il flusso. Fornisci solo il testo riscritto. Testo da migliorare:\n---\n${text}\n---`;
+      prompt = renderPrompt('improveText', { text });
       break;
     case 'summarize':
       model = 'gemini-3-flash-preview';
-      prompt = `Riassumi il seguente testo in modo conciso, cogliendo i punti principali. Fornisci solo il riassunto. Testo da riassumere:\n---\n${text}\n---`;
+      prompt = renderPrompt('summarizeText', { text });
       break;
     case 'expand':
       model = 'gemini-3-pro-preview';
-      prompt = `Espandi il seguente testo. Aggiungi maggiori dettagli, esempi o spiegazioni per renderlo più completo e informativo. Mantieni uno stile di scrittura coerente. Fornisci solo il testo espanso. Testo da espandere:\n---\n${text}\n---`;
+      prompt = renderPrompt('expandText', { text });
       break;
   }
 
   try {
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-        model: model,
-        contents: prompt
+    const response = await withRetry(() => getAIProvider().generateText({
+        task: 'processText',
+        model,
+        prompt,
+        context: { text, action },
     }));
-    return response.text.trim();
+    return response.text;
   } catch (error) {
     console.error(`Error during text processing with action '${action}':`, error);
     throw error;
@@ -872,71 +760,67 @@ export const processTextWithGemini = async (
  * Uses Gemini 3 Flash.
  */
 export const generateCoverTagline = async (project: Project): Promise<string> => {
-    const prompt = `AGISCI COME un copywriter specializzato in copertine di libri. Crea una tagline estremamente breve (massimo 10 parole), accattivante e ad alta conversione per un libro intitolato "${project.bookTitle}" sull'argomento "${project.topic}".
-La tagline deve suscitare curiosità o promettere un beneficio immediato. Deve essere perfetta da inserire sulla copertina di un libro per catturare l'attenzione.
-Fornisci solo il testo della tagline, nient'altro. Evita asterischi.`;
+    const prompt = renderPrompt('generateCoverTagline', {
+        title: project.bookTitle,
+        topic: project.topic,
+        bookLanguage: promptLanguageName(project.bookLanguage),
+    });
 
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const response = await withRetry(() => getAIProvider().generateText({
+            task: 'generateCoverTagline',
             model: "gemini-3-flash-preview",
-            contents: prompt,
+            prompt,
+            context: { topic: project.topic, title: project.bookTitle, language: project.bookLanguage },
         }));
-        return cleanText(response.text.trim().replace(/"/g, '')); // Rimuove eventuali virgolette e asterischi
+        return cleanText(response.text.replace(/"/g, '')); // Rimuove eventuali virgolette e asterischi
     } catch (error) {
         console.error("Error generating cover tagline:", error);
         return "";
     }
 };
 
+/**
+ * Scrive la bozza di una dedica o di una pagina "Sull'autore".
+ * Uses Gemini 3 Flash.
+ */
+export const generateMatterText = async (project: Project, type: 'dedication' | 'aboutAuthor'): Promise<string> => {
+    const prompt = renderPrompt(type, {
+        title: project.bookTitle,
+        author: project.author,
+        topic: project.topic,
+        bookLanguage: promptLanguageName(project.bookLanguage),
+    });
+
+    try {
+        const response = await withRetry(() => getAIProvider().generateText({
+            task: 'generateMatterText',
+            model: "gemini-3-flash-preview",
+            prompt,
+            context: { type, topic: project.topic, title: project.bookTitle, author: project.author, language: project.bookLanguage },
+        }));
+        return cleanText(response.text);
+    } catch (error) {
+        console.error(`Error generating ${type} text:`, error);
+        throw error;
+    }
+};
+
 /**
  * Analizza un manoscritto completo e fornisce un feedback strutturato.
  * Uses Gemini 3 Pro for deep critical analysis.
  */
 export const analyzeManuscript = async (manuscriptText: string): Promise<string> => {
-    const prompt = `AGISCI COME un editor di libri professionista e un critico letterario di fama mondiale. La tua missione è analizzare in modo approfondito il seguente manoscritto e fornire un feedback costruttivo, dettagliato e attuabile per migliorarne drasticamente la qualità.
-
-Il tuo output deve essere in formato **Markdown** e seguire ESATTAMENTE questa struttura, con intestazioni di terzo livello (###):
-
-### Riepilogo Generale
-[Fornisci una valutazione complessiva del manoscritto. Evidenzia i punti di forza principali (es. concetto, voce, ritmo) e le aree di debolezza più significative che necessitano di attenzione.]
-
-### Miglioramenti Strutturali e di Trama
-[Analizza la struttura generale, l'arco narrativo, lo sviluppo dei personaggi e il ritmo.
-- La trama è avvincente? Ci sono buchi o incongruenze?
-- I personaggi sono ben sviluppati e le loro motivazioni sono chiare?
-- Il ritmo è efficace o ci sono parti lente/affrettate?
-- Fornisci suggerimenti specifici per rafforzare la struttura (es. riordinare capitoli, aggiungere foreshadowing, approfondire un subplot).]
-
-### Perfezionamento Stilistico e di Voce
-[Valuta lo stile di scrittura, il tono e la voce dell'autore.
-- La prosa è chiara, coinvolgente e coerente?
-- La scelta delle parole (diction) è efficace e appropriata?
-- Ci sono cliché, frasi ripetitive o passaggi goffi da migliorare?
-- Fornisci esempi concreti presi dal testo e suggerisci delle alternative migliori.]
-
-### Chiarezza e Coerenza
-[Identifica eventuali passaggi confusi, ambigui o contraddittori.
-- La cronologia è chiara?
-- I concetti (specialmente in saggi o manuali) sono spiegati in modo efficace?
-- Ci sono incongruenze nella caratterizzazione o nei dettagli della trama?
-- Elenca i punti problematici in modo che l'autore possa individuarli e correggerli.]
-
-### Prossimi Passi Consigliati
-[Concludi con un elenco puntato di 3-5 azioni prioritarie che l'autore dovrebbe intraprendere per migliorare il manoscritto. Sii strategico e concentrati sugli interventi con il maggiore impatto.]
-
----
-MANOSCRITTO DA ANALIZZARE:
----
-${manuscriptText}
----
-`;
+    const prompt = renderPrompt('analyzeManuscript', { manuscript: manuscriptText });
 
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const response = await withRetry(() => getAIProvider().generateText({
+            task: 'analyzeManuscript',
             model: "gemini-3-pro-preview",
-            contents: prompt,
+            prompt,
+            context: { manuscriptText },
         }));
-        return response.text.trim();
+        return response.text;
     } catch (error) {
         console.error("Error analyzing manuscript:", error);
         throw error; // Rilancia l'errore per gestirlo nel componente
@@ -944,170 +828,99 @@ ${manuscriptText}
 };
 
 /**
- * Rigenera un manoscritto basandosi sul testo originale e sull'analisi di un editor.
- * Uses Gemini 3 Pro to ensure high quality rewriting and context retention.
+ * Divide un manoscritto in capitoli/sezioni, o in blocchi di lunghezza massima se non ha intestazioni.
  */
-export const regenerateManuscript = async (
-    originalText: string,
-    analysisText: string,
-    onProgress?: (current: number, total: number) => void
-): Promise<string> => {
+export const splitManuscriptIntoChunks = (text: string): string[] => {
+    // Cerca intestazioni Markdown o pattern comuni di capitoli
+    const chapterRegex = /(^|\n)(#{1,3}\s.+|Capitolo\s+\d+|Chapter\s+\d+)(\r?\n|$)/i;
     
-    const currentDate = new Date().toLocaleDateString('it-IT', { year: 'numeric', month: 'long', day: 'numeric' });
-    
-    // Funzione per dividere il testo in capitoli/sezioni
-    const splitManuscriptIntoChunks = (text: string): string[] => {
-        // Cerca intestazioni Markdown o pattern comuni di capitoli
-        const chapterRegex = /(^|\n)(#{1,3}\s.+|Capitolo\s+\d+|Chapter\s+\d+)(\r?\n|$)/i;
-        
-        // Se troviamo intestazioni, dividiamo
-        if (chapterRegex.test(text)) {
-            const chunks = text.split(chapterRegex).filter(chunk => chunk.trim().length > 10); // Filtra spazi vuoti o delimitatori
-             
-             // Ricostruisci i chunks corretti perché split con gruppi di cattura include i delimitatori
-             const rebuiltChunks: string[] = [];
-             let currentBuffer = "";
-             
-             // Un approccio più semplice: split per intestazioni ma mantenendo l'intestazione
-             const lines = text.split('\n');
-             for (const line of lines) {
-                 if (line.match(/^(#{1,3}\s|Capitolo\s+\d+|Chapter\s+\d+)/i)) {
-                     if (currentBuffer.trim()) {
-                         rebuiltChunks.push(currentBuffer);
-                     }
-                     currentBuffer = line + "\n";
-                 } else {
-                     currentBuffer += line + "\n";
+    // Se troviamo intestazioni, dividiamo
+    if (chapterRegex.test(text)) {
+        const chunks = text.split(chapterRegex).filter(chunk => chunk.trim().length > 10); // Filtra spazi vuoti o delimitatori
+         
+         // Ricostruisci i chunks corretti perché split con gruppi di cattura include i delimitatori
+         const rebuiltChunks: string[] = [];
+         let currentBuffer = "";
+         
+         // Un approccio più semplice: split per intestazioni ma mantenendo l'intestazione
+         const lines = text.split('\n');
+         for (const line of lines) {
+             if (line.match(/^(#{1,3}\s|Capitolo\s+\d+|Chapter\s+\d+)/i)) {
+                 if (currentBuffer.trim()) {
+                     rebuiltChunks.push(currentBuffer);
                  }
-             }
-             if (currentBuffer.trim()) {
-                 rebuiltChunks.push(currentBuffer);
-             }
-             
-             // Se abbiamo ottenuto dei chunks sensati, ritornali
-             if (rebuiltChunks.length > 1) {
-                 return rebuiltChunks;
-             }
-        }
-        
-        // Fallback: dividi per lunghezza (es. ogni 15000 caratteri, cercando di spezzare ai paragrafi)
-        const MAX_CHUNK_SIZE = 15000;
-        const chunks: string[] = [];
-        let currentChunk = '';
-        const paragraphs = text.split('\n\n');
-        
-        for (const paragraph of paragraphs) {
-             if ((currentChunk.length + paragraph.length) < MAX_CHUNK_SIZE) {
-                 currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
+                 currentBuffer = line + "\n";
              } else {
-                 if (currentChunk) chunks.push(currentChunk);
-                 currentChunk = paragraph;
+                 currentBuffer += line + "\n";
              }
-        }
-        if (currentChunk) chunks.push(currentChunk);
-        return chunks;
-    };
-
-    const chunks = splitManuscriptIntoChunks(originalText);
-    let fullRegeneratedText = "";
+         }
+         if (currentBuffer.trim()) {
+             rebuiltChunks.push(currentBuffer);
+         }
+         
+         // Se abbiamo ottenuto dei chunks sensati, ritornali
+         if (rebuiltChunks.length > 1) {
+             return rebuiltChunks;
+         }
+    }
     
-    for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        if (onProgress) {
-            onProgress(i + 1, chunks.length);
-        }
-
-        const prompt = `AGISCI COME un autore e editor esperto di fama mondiale.
-DATA CORRENTE: ${currentDate}.
-
-La tua missione è espandere e arricchire questa SEZIONE SPECIFICA (Capitolo o parte) del manoscritto originale, applicando i suggerimenti pertinenti dell'"ANALISI DELL'EDITOR" e aggiornando tutte le informazioni obsolete.
-
-**REGOLA FONDAMENTALE E ASSOLUTA: APPEND-ONLY (SOLO AGGIUNTA).**
-Il tuo compito è prendere la "SEZIONE ORIGINALE" e AGGIUNGERE valore.
-
-Segui queste regole FERREE:
-1.  **COPIA-INCOLLA OBBLIGATORIO**: Il testo della "SEZIONE ORIGINALE" deve essere presente nel tuo output **PAROLA PER PAROLA**.
-2.  **DIVIETO DI CANCELLAZIONE**: Non rimuovere, riassumere o sostituire nemmeno una frase del testo originale.
-3.  **AGGIORNAMENTO TRAMITE AGGIUNTA**: Se un'informazione è obsoleta, **NON CANCELLARLA**. Aggiungi subito dopo un nuovo paragrafo che inizia con "Aggiornamento al ${currentDate}:" fornendo i dati recenti.
-4.  **ESPANSIONE**: Inserisci nuovi paragrafi per approfondire i concetti basandoti sull'analisi.
-5.  **FORMATTAZIONE**: Usa Markdown standard (## Titolo). **NON USARE ASTERISCHI** nei titoli o nel testo.
-
----
-CONTESTO (ANALISI COMPLETA):
----
-${analysisText}
----
-SEZIONE ORIGINALE DA ELABORARE (PARTE ${i + 1} DI ${chunks.length}):
----
-${chunk}
----
-SEZIONE ESPANSA E AGGIORNATA (ORIGINALE + NUOVE AGGIUNTE):
----
-`;
-
-        try {
-            const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-                model: "gemini-3-pro-preview",
-                contents: prompt,
-                config: {
-                    tools: [{googleSearch: {}}],
-                },
-            }));
-            
-            // Clean asterisks from the generated chunk immediately
-            const cleanedChunk = response.text.trim().replace(/\*\*/g, '');
-            fullRegeneratedText += cleanedChunk + "\n\n";
-            
-            // Short delay between chunks to be nice to the API
-            if (i < chunks.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, 2000));
-            }
-        } catch (error) {
-            console.error(`Error regenerating chunk ${i + 1}:`, error);
-            // If a chunk fails, append the original to avoid losing data
-            fullRegeneratedText += chunk + "\n\n"; 
-        }
+    // Fallback: dividi per lunghezza (es. ogni 15000 caratteri, cercando di spezzare ai paragrafi)
+    const MAX_CHUNK_SIZE = 15000;
+    const chunks: string[] = [];
+    let currentChunk = '';
+    const paragraphs = text.split('\n\n');
+    
+    for (const paragraph of paragraphs) {
+         if ((currentChunk.length + paragraph.length) < MAX_CHUNK_SIZE) {
+             currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
+         } else {
+             if (currentChunk) chunks.push(currentChunk);
+             currentChunk = paragraph;
+         }
     }
-
-    return fullRegeneratedText.trim();
+    if (currentChunk) chunks.push(currentChunk);
+    return chunks;
 };
 
+/**
+ * Rigenera una sezione del manoscritto basandosi sul testo originale e sull'analisi di un editor.
+ * Uses Gemini 3 Pro to ensure high quality rewriting and context retention.
+ */
+export const regenerateManuscriptChunk = async (
+    chunk: string,
+    analysisText: string,
+    index: number,
+    total: number,
+    currentDate: string
+): Promise<string> => {
+    const prompt = renderPrompt('regenerateManuscript', { currentDate, analysis: analysisText, part: index + 1, total, chunk });
+
+    const response = await withRetry(() => getAIProvider().generateText({
+        task: 'regenerateManuscript',
+        model: "gemini-3-pro-preview",
+        prompt,
+        useSearch: true,
+        context: { chunk, currentDate },
+    }));
+    // Rimuove subito gli asterischi dalla sezione generata
+    return response.text.replace(/\*\*/g, '');
+};
 
 /**
  * Highlights changes in a manuscript based on an editor's analysis.
  * Uses Gemini 3 Pro.
  */
 export const highlightManuscriptChanges = async (originalText: string, analysisText: string): Promise<string> => {
-    const prompt = `AGISCI COME un editor esperto che usa la funzione "Revisioni" in modalità solo aggiunta. La tua missione è modificare il "MANOSCRITTO ORIGINALE" applicando i suggerimenti dall'"ANALISI DELL'EDITOR" esclusivamente tramite aggiunte.
-
-Il tuo output DEVE essere il manoscritto completo, ma con le modifiche indicate usando **SOLO** i tag HTML <ins> per le aggiunte.
-
-REGOLE FONDAMENTALI:
-1.  **NIENTE CANCELLAZIONI**: Non è permesso usare i tag <del> o rimuovere testo. Il testo originale deve rimanere intatto.
-2.  **Solo Aggiunte**: Racchiudi qualsiasi nuovo testo (parole, frasi) che aggiungi all'interno di tag <ins>...</ins>. Esempio: "Il cielo era <ins>molto</ins> blu."
-3.  **Testo Invariato**: Qualsiasi testo che non viene modificato deve rimanere esattamente com'è, senza alcun tag.
-4.  **Output Completo**: Restituisci l'INTERO manoscritto dall'inizio alla fine, con i tag di revisione applicati. Non fornire spiegazioni, solo il testo HTML formattato.
-5.  **Formattazione Originale**: Mantieni la formattazione originale del manoscritto (paragrafi, interruzioni di riga).
-
----
-ANALISI DELL'EDITOR:
----
-${analysisText}
----
-MANOSCRITTO ORIGINALE:
----
-${originalText}
----
-MANOSCRITTO CON REVISIONI EVIDENZIATE:
----
-`;
+    const prompt = renderPrompt('highlightManuscriptChanges', { analysis: analysisText, manuscript: originalText });
 
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const response = await withRetry(() => getAIProvider().generateText({
+            task: 'highlightManuscriptChanges',
             model: "gemini-3-pro-preview",
-            contents: prompt,
+            prompt,
+            context: { originalText },
         }));
-        return response.text.trim();
+        return response.text;
     } catch (error) {
         console.error("Error highlighting manuscript changes:", error);
         throw error;
@@ -1119,52 +932,41 @@ MANOSCRITTO CON REVISIONI EVIDENZIATE:
  * Uses Gemini 3 Pro.
  */
 export const listManuscriptChanges = async (originalText: string, analysisText: string): Promise<string> => {
-    const prompt = `AGISCI COME un assistente editoriale meticoloso. La tua missione è creare una checklist di **integrazioni e aggiunte** basata sull'"ANALISI DELL'EDITOR" per il "MANOSCRITTO ORIGINALE". Le modifiche proposte devono solo aggiungere contenuto, non rimuoverlo o sostituirlo.
-
-Crea un elenco puntato in formato **Markdown** di azioni concrete e precise che l'autore deve intraprendere. Ogni punto dell'elenco deve essere specifico e facile da applicare.
-
-Esempi di formato desiderato (solo aggiunte):
-- **Nel Capitolo 3, Paragrafo 2**: Dopo la frase "Era stanco", aggiungi "La stanchezza gli pesava sulle palpebre come macigni" per essere più descrittivo.
-- **Generale**: Valuta di aggiungere esempi pratici dopo le definizioni teoriche per migliorare la chiarezza.
-- **Nel Capitolo 5**: Considera di inserire un nuovo paragrafo che descriva il passato del personaggio prima del confronto finale per aumentare la tensione.
-
-REGOLE:
-1.  **Approccio Additivo**: Suggerisci solo aggiunte, integrazioni o espansioni. NON suggerire di rimuovere o sostituire testo.
-2.  **Formato**: Usa solo elenchi puntati Markdown (\`- \`).
-3.  **Specificità**: Sii il più specifico possibile, indicando capitoli o sezioni se possibile.
-4.  **Azione**: Formula ogni punto come un'azione chiara di "aggiungere", "integrare", "espandere".
-5.  **Output**: Fornisci solo l'elenco Markdown, senza introduzioni o conclusioni.
-
----
-ANALISI DELL'EDITOR:
----
-${analysisText}
----
-MANOSCRITTO ORIGINALE:
----
-${originalText}
----
-ELENCO DELLE MODIFICHE:
----
-`;
+    const prompt = renderPrompt('listManuscriptChanges', { analysis: analysisText, manuscript: originalText });
 
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const response = await withRetry(() => getAIProvider().generateText({
+            task: 'listManuscriptChanges',
             model: "gemini-3-pro-preview",
-            contents: prompt,
+            prompt,
+            context: { originalText },
         }));
-        return response.text.trim();
+        return response.text;
     } catch (error) {
         console.error("Error listing manuscript changes:", error);
         throw error;
     }
 };
 
+/**
+ * Dove vengono conservati i pezzi di testo già letti, per non chiederli di nuovo al modello.
+ */
+export interface SpeechCache {
+  load: (text: string, voiceName: string) => Promise<ArrayBuffer | null>;
+  save: (text: string, voiceName: string, audio: ArrayBuffer) => Promise<void>;
+}
+
 /**
  * Genera l'audio da un testo utilizzando il modello Text-to-Speech di Gemini.
- * Uses standard TTS model.
+ * Uses standard TTS model. With a cache, every chunk is stored as soon as it is voiced, so after a
+ * failure the next attempt resumes from the first missing chunk. An aborted signal stops before the next chunk.
  */
-export const generateAudioSegment = async (text: string, voiceName: string = 'Puck'): Promise<ArrayBuffer | null> => {
+export const generateAudioSegment = async (
+  text: string,
+  voiceName: string = 'Puck',
+  cache?: SpeechCache,
+  signal?: AbortSignal
+): Promise<ArrayBuffer | null> => {
   // Define chunk size (approx 2000 characters is a safe limit for TTS to avoid 8k token limit and keep latency reasonable)
   const CHUNK_SIZE = 2000;
 
@@ -1206,29 +1008,29 @@ export const generateAudioSegment = async (text: string, voiceName: string = 'Pu
 
   for (const chunk of textChunks) {
     if (!chunk.trim()) continue;
+    signal?.throwIfAborted();
+    const cached = cache
+      ? await cache.load(chunk, voiceName).catch(error => {
+          console.error("Error reading cached audio chunk:", error);
+          return null;
+        })
+      : null;
+    if (cached) {
+        audioBuffers.push(cached);
+        continue;
+    }
     try {
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const audio = await withRetry(() => getAIProvider().generateSpeech({
+          task: 'generateAudioSegment',
           model: "gemini-2.5-flash-preview-tts",
-          contents: [{ parts: [{ text: chunk }] }],
-          config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                  prebuiltVoiceConfig: { voiceName: voiceName },
-                },
-            },
-          },
+          text: chunk,
+          voiceName,
         }));
         
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (base64Audio) {
-            const binaryString = atob(base64Audio);
-            const len = binaryString.length;
-            const bytes = new Uint8Array(len);
-            for (let i = 0; i < len; i++) {
-                bytes[i] = binaryString.charCodeAt(i);
-            }
-            audioBuffers.push(bytes.buffer);
+        if (audio) {
+            audioBuffers.push(audio);
+            // A chunk that was already paid for is kept even when the generation has just been stopped.
+            await cache?.save(chunk, voiceName, audio).catch(error => console.error("Error caching audio chunk:", error));
         }
         
         // Short delay to prevent hitting rate limits too aggressively
@@ -1256,6 +1058,31 @@ export const generateAudioSegment = async (text: string, voiceName: string = 'Pu
   return combinedBuffer.buffer;
 };
 
+// Pausa tra due voci diverse: 0,3 secondi di silenzio PCM a 24kHz, 16 bit.
+const VOICE_CHANGE_PAUSE_BYTES = 0.3 * 24000 * 2;
+
+/**
+ * Genera l'audio di un copione a più voci, segmento per segmento, e lo unisce in un unico PCM.
+ */
+export const generateNarratedAudio = async (segments: NarrationSegment[], cache?: SpeechCache, signal?: AbortSignal): Promise<ArrayBuffer | null> => {
+  const parts: Uint8Array[] = [];
+  for (const segment of segments) {
+    const audio = await generateAudioSegment(segment.text, segment.voiceName, cache, signal);
+    if (!audio) continue;
+    if (parts.length > 0) parts.push(new Uint8Array(VOICE_CHANGE_PAUSE_BYTES));
+    parts.push(new Uint8Array(audio));
+  }
+  if (parts.length === 0) return null;
+
+  const combined = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    combined.set(part, offset);
+    offset += part.length;
+  }
+  return combined.buffer;
+};
+
 /**
  * Parses chapters from a markdown text (regenerated manuscript).
  * Splits based on standard Markdown headers (## or #).
@@ -0,0 +1,190 @@
+import type { Job, JobItem, JobKind, JobStatus, Keyword, BookLanguage, PronunciationEntry } from '../types';
+import {
+  generateContentStream,
+  regenerateManuscriptChunk,
+  translateText,
+  type TranslationTarget,
+} from './geminiService';
+import type { NarrationSegment } from './narration';
+import { applyPronunciationsToSegments } from './pronunciation';
+import { generateChapterAudio } from './chapterAudio';
+
+export interface ContentJobParams {
+  topic: string;
+  wordCount: number;
+  keywords?: Keyword[];
+  tone: string;
+  audience: string;
+  style: string;
+  // Missing from jobs queued before the book language existed; those books are Italian.
+  language?: BookLanguage;
+}
+
+export interface ContentJobInput {
+  nodeId: string;
+  chapterTitle: string;
+  sectionTitle?: string;
+}
+
+export interface RegenerationJobParams {
+  analysis: string;
+  currentDate: string;
+}
+
+export interface RegenerationJobInput {
+  chunk: string;
+}
+
+export interface TranslationJobParams {
+  targetLanguage: BookLanguage;
+  sourceLanguage?: BookLanguage;
+}
+
+export interface TranslationJobInput {
+  entries: { target: TranslationTarget; text: string }[];
+}
+
+export interface AudiobookJobParams {
+  voice: string;
+  // Applied to the text sent to the speech model when each chapter is voiced.
+  pronunciations?: PronunciationEntry[];
+}
+
+export interface AudiobookJobInput {
+  title: string;
+  content: string;
+  // Chapters with a multi-voice script are voiced segment by segment instead of with the job's voice.
+  segments?: NarrationSegment[];
+}
+
+// What a runner may touch besides its own item: the open project is the job's project.
+export interface JobRunContext {
+  job: Job;
+  signal: AbortSignal;
+  updateNodeContent: (nodeId: string, content: string) => void;
+}
+
+export interface JobRunner {
+  // Pause between two items, to stay below the API rate limits.
+  delayMs: number;
+  // Resolves with the item result, which is stored with the job.
+  runItem: (item: JobItem, context: JobRunContext) => Promise<unknown>;
+}
+
+// Texts translated per item; they are sent together and the job waits between items.
+export const TRANSLATION_BATCH_SIZE = 5;
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running', 'paused'];
+
+export const isJobActive = (job: Job) => ACTIVE_STATUSES.includes(job.status);
+
+export const jobProgress = (job: Job) => ({
+  done: job.items.filter(item => item.status === 'done').length,
+  failed: job.items.filter(item => item.status === 'failed').length,
+  total: job.items.length,
+});
+
+export const createAbortError = () => new DOMException('The job was stopped', 'AbortError');
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw createAbortError();
+};
+
+/**
+ * Rejects as soon as the signal aborts. The providers cannot cancel a request in flight,
+ * so its result is simply dropped.
+ */
+export const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+export const waitFor = (ms: number, signal: AbortSignal): Promise<void> =>
+  abortable(new Promise(resolve => setTimeout(resolve, ms)), signal);
+
+export const JOB_RUNNERS: Record<JobKind, JobRunner> = {
+  generateContent: {
+    delayMs: 61000,
+    runItem: async (item, { job, signal, updateNodeContent }) => {
+      const params = job.params as ContentJobParams;
+      const input = item.input as ContentJobInput;
+      const stream = await abortable(generateContentStream(
+        params.topic,
+        input.chapterTitle,
+        input.sectionTitle,
+        params.wordCount,
+        params.keywords,
+        params.tone,
+        params.audience,
+        params.style,
+        undefined,
+        params.language
+      ), signal);
+      let fullText = '';
+      for await (const chunk of stream) {
+        throwIfAborted(signal);
+        fullText += chunk.text;
+      }
+      throwIfAborted(signal);
+      updateNodeContent(input.nodeId, fullText.replace(/\n/g, '<br />'));
+      return undefined;
+    },
+  },
+  regenerateManuscript: {
+    delayMs: 2000,
+    runItem: async (item, { job, signal }) => {
+      const params = job.params as RegenerationJobParams;
+      const index = job.items.findIndex(other => other.id === item.id);
+      const chunk = await abortable(
+        regenerateManuscriptChunk((item.input as RegenerationJobInput).chunk, params.analysis, index, job.items.length, params.currentDate),
+        signal
+      );
+      throwIfAborted(signal);
+      return chunk;
+    },
+  },
+  translateProject: {
+    delayMs: 61000,
+    runItem: async (item, { job, signal }) => {
+      const { targetLanguage, sourceLanguage } = job.params as TranslationJobParams;
+      const translations = await abortable(
+        Promise.all((item.input as TranslationJobInput).entries.map(entry => translateText(entry.text, targetLanguage, sourceLanguage))),
+        signal
+      );
+      throwIfAborted(signal);
+      return translations;
+    },
+  },
+  generateAudiobook: {
+    delayMs: 2000,
+    runItem: async (item, { job, signal }) => {
+      const { voice, pronunciations } = job.params as AudiobookJobParams;
+      const input = item.input as AudiobookJobInput;
+      const segments = input.segments?.length ? input.segments : [{ text: input.content, voiceName: voice }];
+      // Unchanged chapters come back from the project's audio without being voiced again, and a
+      // failed or stopped chapter keeps the chunks it had voiced for the next attempt.
+      await abortable(generateChapterAudio(job.projectId, input.title, applyPronunciationsToSegments(segments, pronunciations), signal), signal);
+      throwIfAborted(signal);
+      return undefined;
+    },
+  },
+};
+
+/**
+ * The regenerated manuscript of a completed job: the chunks in order, separated by blank lines.
+ */
+export const regeneratedManuscript = (job: Job): string =>
+  job.items.map(item => `${item.result as string}\n\n`).join('').trim();
+
+/**
+ * The translated texts of a completed job, ready for applyTranslations.
+ */
+export const jobTranslations = (job: Job): { target: TranslationTarget; text: string }[] =>
+  job.items.flatMap(item =>
+    (item.input as TranslationJobInput).entries.map((entry, index) => ({ target: entry.target, text: (item.result as string[])[index] })));
@@ -0,0 +1,203 @@
+import type { AITask } from './aiProvider';
+
+type Context = { [key: string]: string | number };
+
+/**
+ * Piccolo generatore pseudo-casuale (mulberry32) inizializzato da una stringa,
+ * così lo stesso input produce sempre lo stesso output.
+ */
+export const createSeededRandom = (seed: string) => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  let state = h >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T,>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const str = (context: Context | undefined, key: string, fallback = '') => {
+  const value = context?.[key];
+  return value === undefined || value === null ? fallback : String(value);
+};
+
+const OPENINGS = ['Ogni percorso inizia con', 'Il punto di partenza è', 'Per comprendere davvero', 'Molti lettori sottovalutano', 'La ricerca più recente mostra', 'Un esempio concreto chiarisce'];
+const SUBJECTS = ['una strategia chiara', 'le abitudini quotidiane', 'un metodo pratico', 'gli errori più comuni', 'la costanza', 'una pianificazione realistica', 'i piccoli progressi'];
+const VERBS = ['trasforma', 'semplifica', 'rafforza', 'accelera', 'rende misurabile', 'chiarisce'];
+const OBJECTS = ['il risultato finale', 'ogni passo successivo', 'il rapporto con', 'la motivazione legata a', 'la comprensione di', 'il modo di affrontare'];
+
+/**
+ * Genera un paragrafo deterministico in italiano sull'argomento dato.
+ */
+export const buildParagraph = (random: () => number, topic: string, sentences = 4): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < sentences; i++) {
+    parts.push(`${pick(random, OPENINGS)} ${pick(random, SUBJECTS)}: ${pick(random, SUBJECTS)} ${pick(random, VERBS)} ${pick(random, OBJECTS)} ${topic.toLowerCase()}.`);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Genera testo di circa `wordCount` parole, suddiviso in paragrafi.
+ */
+export const buildBody = (seed: string, topic: string, wordCount: number): string => {
+  const random = createSeededRandom(seed);
+  const paragraphs: string[] = [];
+  let words = 0;
+  while (words < wordCount) {
+    const paragraph = buildParagraph(random, topic, 3 + Math.floor(random() * 3));
+    paragraphs.push(paragraph);
+    words += paragraph.split(/\s+/).length;
+  }
+  return paragraphs.join('\n\n');
+};
+
+const researchFixture = (context?: Context): string => {
+  const topic = str(context, 'topic', 'Argomento');
+  const market = str(context, 'market', 'Italy');
+  const random = createSeededRandom(`research:${topic}:${market}`);
+  const levels = ['Alto', 'Medio', 'Basso'];
+  const competition = ['Alta', 'Media', 'Bassa'];
+  const keywords = ['guida', 'per principianti', 'metodo', 'manuale pratico', 'strategie', 'esercizi', 'in 30 giorni', 'completo', 'facile', 'avanzato']
+    .map((suffix, i) => `- ${topic} ${suffix} (Rilevanza: ${95 - i * 5}%, Volume: ${pick(random, levels)}, Competizione: ${pick(random, competition)})`);
+  const titles = ['La Guida Definitiva', 'Il Metodo Semplice', 'Da Zero a Esperto', 'Il Manuale Pratico', 'Tutto Quello che Devi Sapere']
+    .map((prefix, i) => `- ${prefix}: ${topic} (Rilevanza: ${92 - i * 6}%)`);
+  const subtitles = ['Strategie pratiche per risultati immediati', 'Il percorso passo dopo passo per principianti', 'Esercizi, esempi e piani d\'azione', 'Come evitare gli errori più comuni', 'Tecniche collaudate per ogni giorno']
+    .map((text, i) => `- ${text} (Rilevanza: ${90 - i * 5}%)`);
+
+  return `### Market Summary
+${buildParagraph(random, topic, 3)} Il mercato di ${market} mostra una domanda stabile per guide pratiche su ${topic}.
+
+### KDP Keywords
+${keywords.join('\n')}
+
+### Suggested Titles
+${titles.join('\n')}
+
+### Suggested Subtitles
+${subtitles.join('\n')}`;
+};
+
+const analysisFixture = (context?: Context): string => {
+  const random = createSeededRandom(`analysis:${str(context, 'manuscriptText').slice(0, 200)}`);
+  const topic = 'il manoscritto';
+  return ['Riepilogo Generale', 'Miglioramenti Strutturali e di Trama', 'Perfezionamento Stilistico e di Voce', 'Chiarezza e Coerenza', 'Prossimi Passi Consigliati']
+    .map(header => `### ${header}\n- ${buildParagraph(random, topic, 1)}\n- ${buildParagraph(random, topic, 1)}`)
+    .join('\n\n');
+};
+
+const TEXT_FIXTURES: Partial<{ [key in AITask]: (context?: Context) => string }> = {
+  researchTopic: researchFixture,
+  analyzeManuscript: analysisFixture,
+  generateCoverPrompt: (context) =>
+    `Minimalist symbolic illustration for a book about ${str(context, 'topic', 'a topic')}, soft lighting, calm analogous palette, large clean negative space at the top for the title.`,
+  generateDescription: (context) => {
+    const title = str(context, 'title', 'questo libro');
+    const random = createSeededRandom(`description:${title}`);
+    return `Sei pronto a cambiare tutto? ✨ ${buildParagraph(random, title, 3)}\n\n✅ ${buildParagraph(random, title, 2)}\n\n🚀 Scorri verso l'alto e clicca su 'Acquista ora' per iniziare oggi stesso!`;
+  },
+  generateContentBlockPrompt: (context) =>
+    `Un singolo contenuto di tipo '${str(context, 'contentType', 'bonus')}' collegato ai temi di "${str(context, 'topic', 'questo libro')}", spiegato passo dopo passo.`,
+  generateCoverTagline: (context) => `Il primo passo verso ${str(context, 'topic', 'il cambiamento').toLowerCase()}`,
+  generateMatterText: (context) => str(context, 'type') === 'dedication'
+    ? `A chi cerca ogni giorno ${str(context, 'topic', 'il cambiamento').toLowerCase()}.`
+    : `${str(context, 'author', "L'autore")} scrive di ${str(context, 'topic', 'crescita personale').toLowerCase()} da molti anni.\n${buildParagraph(createSeededRandom(`about:${str(context, 'author')}`), 'questo tema', 2)}`,
+  translateText: (context) => `[${str(context, 'targetLanguage', 'en').toUpperCase()}] ${str(context, 'text')}`,
+  processText: (context) => {
+    const text = str(context, 'text');
+    switch (str(context, 'action')) {
+      case 'summarize':
+        return text.split(/(?<=[.!?])\s+/).slice(0, 2).join(' ');
+      case 'expand':
+        return `${text}\n\n${buildParagraph(createSeededRandom(`expand:${text}`), 'questo tema', 4)}`;
+      default:
+        return text;
+    }
+  },
+  regenerateManuscript: (context) => {
+    const chunk = str(context, 'chunk');
+    const date = str(context, 'currentDate');
+    return `${chunk.trim()}\n\nAggiornamento al ${date}: ${buildParagraph(createSeededRandom(`regen:${chunk}`), 'questo argomento', 2)}`;
+  },
+  highlightManuscriptChanges: (context) => {
+    const random = createSeededRandom(`highlight:${str(context, 'originalText').slice(0, 200)}`);
+    return str(context, 'originalText')
+      .split('\n')
+      .map(line => line.trim() && !line.startsWith('#') ? `${line} <ins>${buildParagraph(random, 'questo punto', 1)}</ins>` : line)
+      .join('\n');
+  },
+  listManuscriptChanges: (context) => {
+    const random = createSeededRandom(`list:${str(context, 'originalText').slice(0, 200)}`);
+    return [1, 2, 3, 4].map(n => `- **Nel Capitolo ${n}**: aggiungi un paragrafo che spieghi meglio il concetto. ${buildParagraph(random, 'il capitolo', 1)}`).join('\n');
+  },
+  fetchCompetitorCovers: (context) => {
+    const topic = str(context, 'topic', 'Argomento');
+    return JSON.stringify([1, 2, 3].map(n => ({
+      title: `${topic} - Bestseller ${n}`,
+      author: `Autore Esempio ${n}`,
+      asin: `B00000000${n}`,
+      reason: 'Titolo leggibile in miniatura e contrasto cromatico forte.',
+    })));
+  },
+};
+
+const CATEGORIES = ['Arte, cinema e fotografia', 'Economia, affari e finanza', 'Famiglia, salute e benessere', 'Letteratura e narrativa', 'Self-help', 'Scienze, tecnologia e medicina', 'Storia', 'Viaggi'];
+
+const JSON_FIXTURES: Partial<{ [key in AITask]: (context?: Context) => unknown }> = {
+  discoverTrends: (context) => {
+    const category = str(context, 'category', 'Libri');
+    const random = createSeededRandom(`trends:${category}:${str(context, 'market')}`);
+    return ['Routine mattutine produttive', 'Cucina vegetale veloce', 'Finanza personale per giovani', 'Mindfulness per genitori', 'Giardinaggio sul balcone']
+      .map((topic, i) => ({ topic, reason: buildParagraph(random, topic, 1), trendScore: 92 - i * 7 }));
+  },
+  generateStructure: (context) => {
+    const topic = str(context, 'topic', 'Argomento');
+    const chapterThemes = ['Le basi', 'I principi fondamentali', 'Gli strumenti essenziali', 'Il metodo passo dopo passo', 'Gli errori da evitare', 'Casi pratici', 'Costruire l\'abitudine', 'Superare gli ostacoli', 'Livello avanzato', 'Il piano d\'azione'];
+    const subThemes = ['Perché è importante', 'Come iniziare', 'Esempi concreti', 'Esercizio guidato'];
+    const detailThemes = ['In teoria', 'In pratica'];
+    const chapters = chapterThemes.map((theme, i) => ({
+      id: `ch_${i + 1}`,
+      title: `${theme} di ${topic}`,
+      subchapters: subThemes.map((sub, j) => ({
+        id: `sub_${i + 1}_${j + 1}`,
+        title: `${sub}: ${theme.toLowerCase()}`,
+        subchapters: Number(context?.depth) === 3
+          ? detailThemes.map((detail, k) => ({ id: `sub_${i + 1}_${j + 1}_${k + 1}`, title: `${detail}: ${sub.toLowerCase()}`, subchapters: [] }))
+          : [],
+      })),
+    }));
+    if (!Number(context?.parts)) return { chapters };
+    const partThemes: [string, number, number][] = [['Capire', 0, 3], ['Applicare', 3, 7], ['Andare oltre', 7, 10]];
+    return {
+      chapters: partThemes.map(([theme, start, end], i) => ({
+        id: `part_${i + 1}`,
+        title: `${theme} ${topic.toLowerCase()}`,
+        isPart: true,
+        subchapters: chapters.slice(start, end),
+      })),
+    };
+  },
+  fetchAmazonCategories: () => CATEGORIES,
+  generateContentBlockText: (context) => {
+    const count = Number(context?.count || 1);
+    const type = str(context, 'contentType', 'bonus');
+    const random = createSeededRandom(`block:${str(context, 'description')}:${type}`);
+    return Array.from({ length: count }, (_, i) => ({
+      title: `${type.charAt(0).toUpperCase()}${type.slice(1)} ${i + 1}: ${str(context, 'topic', 'extra')}`,
+      description: buildParagraph(random, str(context, 'topic', 'il tema'), 2),
+      items: [1, 2, 3, 4].map(n => `Passo ${n}: ${pick(random, SUBJECTS)}`),
+    }));
+  },
+};
+
+export const getTextFixture = (task: AITask, context?: Context): string | undefined => TEXT_FIXTURES[task]?.(context);
+
+export const getJsonFixture = (task: AITask, context?: Context): unknown => JSON_FIXTURES[task]?.(context);
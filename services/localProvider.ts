@@ -0,0 +1,160 @@
+import type { AIProvider, AISchema, GeneratedImage, TextChunk } from './aiProvider';
+import { buildBody, buildParagraph, createSeededRandom, getJsonFixture, getTextFixture } from './localFixtures';
+
+const SAMPLE_RATE = 24000;
+
+/**
+ * Costruisce un valore valido per lo schema quando non esiste una fixture dedicata.
+ */
+const valueFromSchema = (schema: AISchema, random: () => number): unknown => {
+  switch (schema.type) {
+    case 'string':
+      return buildParagraph(random, 'questo argomento', 1);
+    case 'number':
+      return Math.round(random() * 100);
+    case 'boolean':
+      return random() > 0.5;
+    case 'array':
+      return schema.items ? [1, 2, 3].map(() => valueFromSchema(schema.items!, random)) : [];
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, valueFromSchema(value, random)])
+      );
+  }
+};
+
+const hashColor = (random: () => number) => `hsl(${Math.floor(random() * 360)}, 55%, ${35 + Math.floor(random() * 30)}%)`;
+
+/**
+ * Disegna un'immagine segnaposto (gradiente + forme) deterministica per il prompt dato.
+ */
+const drawPlaceholderImage = async (
+  seed: string,
+  width: number,
+  height: number,
+  mimeType: string,
+  background?: string
+): Promise<GeneratedImage> => {
+  const random = createSeededRandom(seed);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+
+  if (background) {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('Could not load the image to edit.'));
+      img.src = background;
+    });
+    ctx.drawImage(img, 0, 0, width, height);
+    ctx.fillStyle = hashColor(random);
+    ctx.globalAlpha = 0.25;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = 1;
+  } else {
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, hashColor(random));
+    gradient.addColorStop(1, hashColor(random));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+    for (let i = 0; i < 6; i++) {
+      ctx.beginPath();
+      ctx.globalAlpha = 0.3;
+      ctx.fillStyle = hashColor(random);
+      ctx.arc(random() * width, height * 0.4 + random() * height * 0.6, 40 + random() * width * 0.3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  const dataUrl = canvas.toDataURL(mimeType);
+  return { base64: dataUrl.split(',')[1], mimeType };
+};
+
+/**
+ * Sintetizza PCM a 16 bit: una breve nota per ogni parola, con pause sulla punteggiatura.
+ */
+const synthesizeSpeech = (text: string, voiceName: string): ArrayBuffer => {
+  const random = createSeededRandom(voiceName);
+  const baseFrequency = 140 + Math.floor(random() * 120);
+  const words = text.split(/\s+/).filter(Boolean);
+  const wordSamples = Math.floor(SAMPLE_RATE * 0.18);
+  const gapSamples = Math.floor(SAMPLE_RATE * 0.05);
+  const pauseSamples = Math.floor(SAMPLE_RATE * 0.3);
+
+  const totalSamples = words.reduce((acc, word) => acc + wordSamples + (/[.!?,;:]$/.test(word) ? pauseSamples : gapSamples), 0);
+  const samples = new Int16Array(totalSamples);
+  let offset = 0;
+  for (const word of words) {
+    const frequency = baseFrequency + (word.length % 7) * 12;
+    for (let i = 0; i < wordSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / wordSamples);
+      samples[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 6000);
+    }
+    offset += wordSamples + (/[.!?,;:]$/.test(word) ? pauseSamples : gapSamples);
+  }
+  return samples.buffer;
+};
+
+/**
+ * Provider offline basato su fixture: stessi input, stessi output, nessuna chiamata di rete.
+ * Pensato per sviluppo, demo e per percorrere l'intero flusso senza chiave API.
+ */
+export const createLocalProvider = (): AIProvider => ({
+  name: 'local',
+
+  async generateText(request) {
+    const text = getTextFixture(request.task, request.context)
+      ?? buildParagraph(createSeededRandom(request.prompt), String(request.context?.topic || 'questo argomento'));
+    const sources = request.useSearch
+      ? [{ web: { uri: 'https://example.com/local-provider', title: 'Local provider (dati di esempio)' } }]
+      : [];
+    return { text, sources };
+  },
+
+  async generateJson<T>(request) {
+    const fixture = getJsonFixture(request.task, request.context);
+    return (fixture ?? valueFromSchema(request.schema, createSeededRandom(request.prompt))) as T;
+  },
+
+  async generateTextStream(request) {
+    const topic = String(request.context?.subchapterTitle || request.context?.chapterTitle || request.context?.topic || 'questo argomento');
+    const wordCount = Number(request.context?.wordCount || 300);
+    const body = buildBody(request.prompt, topic, wordCount);
+    return (async function* (): AsyncGenerator<TextChunk> {
+      const paragraphs = body.split('\n\n');
+      for (let i = 0; i < paragraphs.length; i++) {
+        await new Promise(resolve => setTimeout(resolve, 30));
+        yield { text: (i > 0 ? '\n\n' : '') + paragraphs[i] };
+      }
+    })();
+  },
+
+  async generateImages(request) {
+    const [w, h] = request.aspectRatio === '1:1' ? [768, 768] : [768, 1024];
+    const images: GeneratedImage[] = [];
+    for (let i = 0; i < request.numberOfImages; i++) {
+      images.push(await drawPlaceholderImage(`${request.prompt}:${i}`, w, h, request.mimeType));
+    }
+    return images;
+  },
+
+  async editImage(request) {
+    return drawPlaceholderImage(
+      request.prompt,
+      768,
+      1024,
+      'image/png',
+      `data:${request.imageMimeType};base64,${request.imageBase64}`
+    );
+  },
+
+  async generateSpeech(request) {
+    return synthesizeSpeech(request.text, request.voiceName);
+  },
+});
@@ -0,0 +1,293 @@
+import type { OutlineNode } from '../types';
+import { CHAPTER_LEVEL, MAX_OUTLINE_LEVEL } from './outline';
+
+export type ManuscriptFormat = 'docx' | 'markdown' | 'text' | 'pdf';
+
+// Outline level of an imported heading (1 chapter, 2 section, ...). 0 keeps the heading as body text.
+export type ImportLevel = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * A heading of the manuscript and the text that follows it, up to the next heading.
+ */
+export interface ManuscriptSegment {
+  id: string;
+  title: string;
+  level: ImportLevel;
+  html: string;
+}
+
+export const detectManuscriptFormat = (file: File): ManuscriptFormat | null => {
+  const extension = file.name.toLowerCase().split('.').pop() || '';
+  if (extension === 'docx') return 'docx';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'txt' || file.type === 'text/plain') return 'text';
+  if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf';
+  return null;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// --- Format conversion: every format becomes HTML with h1-h6 headings ---
+
+const markdownInline = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/\*(?!\s)([^*]+?)\*/g, '<em>$1</em>')
+    .replace(/\b_(?!\s)([^_]+?)_\b/g, '<em>$1</em>');
+
+/**
+ * Converts Markdown headings (ATX and underlined), paragraphs, lists, bold and italic.
+ */
+export const markdownToHtml = (markdown: string): string => {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) html.push(`<p>${paragraph.map(markdownInline).join(' ')}</p>`);
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (list) html.push(`<${list.tag}>${list.items.map(item => `<li>${markdownInline(item)}</li>`).join('')}</${list.tag}>`);
+    list = null;
+  };
+
+  markdown.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const underline = line.match(/^(=+|-+)\s*$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      html.push(`<h${heading[1].length}>${markdownInline(heading[2])}</h${heading[1].length}>`);
+    } else if (underline && paragraph.length === 1) {
+      const level = underline[1].startsWith('=') ? 1 : 2;
+      html.push(`<h${level}>${markdownInline(paragraph[0])}</h${level}>`);
+      paragraph = [];
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const tag = bullet ? 'ul' : 'ol';
+      if (list?.tag !== tag) flushList();
+      if (!list) list = { tag, items: [] };
+      list.items.push((bullet || numbered)![1]);
+    } else if (!line.trim()) {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line.trim());
+    }
+  });
+  flushParagraph();
+  flushList();
+  return html.join('\n');
+};
+
+const CHAPTER_HEADING = /^(chapter|capitolo|chapitre|kapitel|cap[ií]tulo|part|parte|prologue|prologo|epilogue|epilogo|introduction|introduzione)\b/i;
+const NUMBERED_SECTION = /^\d+\.\d+(\.\d+)*\.?\s+\S/;
+
+// A short line without closing punctuation, written in capitals or announcing a chapter.
+const plainTextHeadingLevel = (line: string): number | null => {
+  if (line.length > 80 || /[.,;:]$/.test(line)) return null;
+  if (CHAPTER_HEADING.test(line)) return 1;
+  if (NUMBERED_SECTION.test(line)) return Math.min(line.split(/\s/)[0].replace(/\.$/, '').split('.').length, 6);
+  if (/\p{L}/u.test(line) && line === line.toUpperCase() && line.length > 2) return 1;
+  return null;
+};
+
+/**
+ * Plain text has no markup: chapter headings are guessed from short lines such as "Chapter 3" or
+ * "PART ONE", and "2.1 Title" numbering marks sections.
+ */
+export const plainTextToHtml = (text: string): string => {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  // Without blank lines every line is a paragraph.
+  const blocks = /\n\s*\n/.test(normalized) ? normalized.split(/\n\s*\n/) : normalized.split('\n');
+  return blocks
+    .map(block => block.trim())
+    .filter(Boolean)
+    .flatMap(block => {
+      const [first, ...rest] = block.split('\n');
+      const level = plainTextHeadingLevel(first.trim());
+      if (level === null) return [`<p>${escapeHtml(block.replace(/\s*\n\s*/g, ' '))}</p>`];
+      const heading = `<h${level}>${escapeHtml(first.trim())}</h${level}>`;
+      return rest.length > 0 ? [heading, `<p>${escapeHtml(rest.join(' ').trim())}</p>`] : [heading];
+    })
+    .join('\n');
+};
+
+/**
+ * One line of text on a PDF page, with its font size and baseline.
+ */
+export interface PdfLine {
+  text: string;
+  size: number;
+  y: number;
+  page: number;
+}
+
+/**
+ * Rebuilds paragraphs from PDF lines. The most common font size is the body text; clearly larger
+ * lines become headings, a wider gap between lines starts a new paragraph, and bare page numbers
+ * are dropped.
+ */
+export const pdfLinesToHtml = (lines: PdfLine[]): string => {
+  const content = lines.filter(line => line.text.trim() && !/^\d{1,4}$/.test(line.text.trim()));
+  const sizeWeights = new Map<number, number>();
+  content.forEach(line => {
+    const size = Math.round(line.size);
+    sizeWeights.set(size, (sizeWeights.get(size) || 0) + line.text.length);
+  });
+  const bodySize = [...sizeWeights.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 12;
+
+  const html: string[] = [];
+  let paragraph = '';
+  let previous: PdfLine | null = null;
+  const flush = () => {
+    if (paragraph.trim()) html.push(`<p>${escapeHtml(paragraph.trim())}</p>`);
+    paragraph = '';
+  };
+
+  content.forEach(line => {
+    const text = line.text.trim();
+    const headingLevel = line.size >= bodySize * 1.4 ? 1 : line.size >= bodySize * 1.15 ? 2 : null;
+    if (headingLevel !== null) {
+      flush();
+      // A heading set over two lines continues the previous one.
+      const last = html[html.length - 1];
+      const open = `<h${headingLevel}>`;
+      if (previous && previous.page === line.page && last?.startsWith(open) && Math.abs(previous.size - line.size) < 0.5) {
+        html[html.length - 1] = `${last.slice(0, -open.length - 1)} ${escapeHtml(text)}</h${headingLevel}>`;
+      } else {
+        html.push(`${open}${escapeHtml(text)}</h${headingLevel}>`);
+      }
+    } else {
+      const gap = previous && previous.page === line.page ? previous.y - line.y : 0;
+      if (gap > line.size * 1.8) flush();
+      if (paragraph.endsWith('-') && /^\p{Ll}/u.test(text)) paragraph = paragraph.slice(0, -1) + text;
+      else paragraph = paragraph ? `${paragraph} ${text}` : text;
+    }
+    previous = line;
+  });
+  flush();
+  return html.join('\n');
+};
+
+const extractPdfLines = async (data: ArrayBuffer): Promise<PdfLine[]> => {
+  const pdfjsLib = (window as any).pdfjsLib;
+  if (!pdfjsLib) {
+    throw new Error("pdf.js library not loaded. Please check your internet connection and try again.");
+  }
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+  const lines: PdfLine[] = [];
+  for (let page = 1; page <= pdf.numPages; page++) {
+    const textContent = await (await pdf.getPage(page)).getTextContent();
+    let current: PdfLine | null = null;
+    textContent.items.forEach((item: any) => {
+      if (typeof item.str !== 'string') return;
+      const size = Math.hypot(item.transform[2], item.transform[3]) || item.height || 0;
+      const y = item.transform[5];
+      // Items on the same baseline belong to one line.
+      if (current && Math.abs(current.y - y) < size / 2) {
+        current.text += item.str;
+        current.size = Math.max(current.size, size);
+      } else {
+        if (current) lines.push(current);
+        current = { text: item.str, size, y, page };
+      }
+      if (item.hasEOL && current) {
+        lines.push(current);
+        current = null;
+      }
+    });
+    if (current) lines.push(current);
+  }
+  return lines;
+};
+
+const docxToHtml = async (data: ArrayBuffer): Promise<string> => {
+  const mammoth = (window as any).mammoth;
+  if (!mammoth) {
+    throw new Error("mammoth.js library not loaded. Please check your internet connection and try again.");
+  }
+  // Heading styles become h1-h6; bold, italic, lists and embedded images are kept.
+  const result = await mammoth.convertToHtml({ arrayBuffer: data }, {
+    styleMap: ["p[style-name='Title'] => h1:fresh", "p[style-name='Subtitle'] => h2:fresh"],
+  });
+  return result.value;
+};
+
+/**
+ * Reads a DOCX, Markdown, plain text or PDF manuscript as HTML.
+ */
+export const manuscriptToHtml = async (file: File, format: ManuscriptFormat): Promise<string> => {
+  switch (format) {
+    case 'docx':
+      return docxToHtml(await file.arrayBuffer());
+    case 'pdf':
+      return pdfLinesToHtml(await extractPdfLines(await file.arrayBuffer()));
+    case 'markdown':
+      return markdownToHtml(await file.text());
+    case 'text':
+      return plainTextToHtml(await file.text());
+  }
+};
+
+// --- Splitting into the outline ---
+
+/**
+ * Cuts the manuscript at its headings. The heading levels the document uses are mapped, from the
+ * top, onto chapters, sections and so on; text before the first heading becomes an untitled chapter.
+ */
+export const splitManuscriptHtml = (html: string, generateId: (prefix: string) => string): ManuscriptSegment[] => {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  doc.body.querySelectorAll('script, style, iframe, object, embed').forEach(el => el.remove());
+
+  const raw: { tag: number | null; title: string; html: string }[] = [];
+  Array.from(doc.body.children).forEach(element => {
+    const heading = element.tagName.match(/^H([1-6])$/);
+    const title = (element.textContent || '').replace(/\s+/g, ' ').trim();
+    if (heading && title) {
+      raw.push({ tag: Number(heading[1]), title, html: '' });
+    } else {
+      if (raw.length === 0) raw.push({ tag: null, title: '', html: '' });
+      raw[raw.length - 1].html += element.outerHTML;
+    }
+  });
+
+  const tags = [...new Set(raw.flatMap(segment => (segment.tag === null ? [] : [segment.tag])))].sort((a, b) => a - b);
+  return raw
+    .filter(segment => segment.tag !== null || segment.html.trim())
+    .map(segment => ({
+      id: generateId('import'),
+      title: segment.title,
+      level: (segment.tag === null ? CHAPTER_LEVEL : Math.min(tags.indexOf(segment.tag) + 1, MAX_OUTLINE_LEVEL)) as ImportLevel,
+      html: segment.html,
+    }));
+};
+
+/**
+ * Builds the chapters from the reviewed segments. A section never sits more than one level below
+ * the one before it, and a segment kept as body text joins the text of the previous one.
+ */
+export const buildOutlineFromSegments = (segments: ManuscriptSegment[], generateId: (prefix: string) => string): OutlineNode[] => {
+  const chapters: OutlineNode[] = [];
+  // The open node at each level, chapter first.
+  const open: OutlineNode[] = [];
+  segments.forEach(segment => {
+    const last = open[open.length - 1];
+    if (segment.level === 0 && last) {
+      last.content += `${segment.title ? `<p><strong>${escapeHtml(segment.title)}</strong></p>` : ''}${segment.html}`;
+      return;
+    }
+    const level = Math.max(CHAPTER_LEVEL, Math.min(segment.level, open.length + 1));
+    const node: OutlineNode = { id: generateId(level === CHAPTER_LEVEL ? 'ch' : 'sub'), title: segment.title, content: segment.html, subchapters: [] };
+    open.length = level - 1;
+    if (level === CHAPTER_LEVEL) chapters.push(node);
+    else open[level - 2].subchapters.push(node);
+    open.push(node);
+  });
+  return chapters;
+};
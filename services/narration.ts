@@ -0,0 +1,129 @@
+import type { ChapterNarration, NarrationSettings, NarrationSpan } from '../types';
+
+// Prebuilt voices of the speech model.
+export const TTS_VOICES = [
+  'Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe',
+  'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar',
+  'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird', 'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+];
+export const DEFAULT_NARRATOR_VOICE = 'Puck';
+
+// Quoted speech: curly and straight double quotes, guillemets and German quotes. Straight quotes stop at a line break.
+const QUOTE_PATTERN = /“[^”]*”|«[^»]*»|„[^“”]*[“”]|"[^"\n]*"/g;
+// Dialogue introduced by a dash at the start of a paragraph, as in Italian, Spanish and French fiction.
+const DASH_DIALOGUE_PATTERN = /^[ \t]*[—–―]/;
+// Verbs of speech of the book languages, used to find who says a line.
+const SPEECH_VERBS = [
+  'said', 'says', 'asked', 'asks', 'replied', 'answered', 'whispered', 'shouted', 'cried', 'exclaimed', 'muttered', 'added', 'continued', 'called',
+  'disse', 'dice', 'chiese', 'chiede', 'rispose', 'risponde', 'sussurrò', 'gridò', 'esclamò', 'mormorò', 'aggiunse', 'domandò', 'replicò', 'continuò',
+  'sagte', 'fragte', 'antwortete', 'rief', 'flüsterte', 'murmelte',
+  'dit', 'demanda', 'répondit', 'cria', 'murmura', 'ajouta',
+  'dijo', 'preguntó', 'respondió', 'gritó', 'susurró', 'añadió',
+].join('|');
+const NAME = `(\\p{Lu}[\\p{L}'’-]+(?:\\s\\p{Lu}[\\p{L}'’-]+)?)`;
+// `"…", said Anna` or `"…", Anna said`, right after the quote.
+const TAG_AFTER = new RegExp(`^[\\s,.;:!?—–-]*(?:(?:${SPEECH_VERBS})\\s+${NAME}|${NAME}\\s+(?:${SPEECH_VERBS}))(?![\\p{L}])`, 'u');
+// `Anna said: "…"` right before the quote.
+const TAG_BEFORE = new RegExp(`${NAME}\\s+(?:${SPEECH_VERBS})(?![\\p{L}])[^.!?"“«„]{0,40}[:,]?\\s*$`, 'u');
+// Capitalised words of the tags that are not names.
+const NOT_NAMES = new Set(['He', 'She', 'They', 'I', 'We', 'You', 'Lui', 'Lei', 'Loro', 'Io', 'Noi', 'Er', 'Sie', 'Il', 'Elle', 'Ils', 'Elles', 'Él', 'Ella']);
+
+const speakerNear = (before: string, after: string): string | undefined => {
+  const match = after.match(TAG_AFTER);
+  const name = match ? match[1] || match[2] : before.match(TAG_BEFORE)?.[1];
+  return name && !NOT_NAMES.has(name.split(/\s/)[0]) ? name : undefined;
+};
+
+/**
+ * Splits a chapter into narration and dialogue spans, guessing the speaker of each line from its
+ * speaker tag. Untagged lines of a conversation alternate between its last two speakers.
+ */
+export const detectNarrationSpans = (text: string): NarrationSpan[] => {
+  const spans: NarrationSpan[] = [];
+  const recentSpeakers: string[] = [];
+  const addSpan = (span: NarrationSpan) => {
+    if (!span.text) return;
+    const last = spans[spans.length - 1];
+    if (last && last.kind === 'narration' && span.kind === 'narration') last.text += span.text;
+    else spans.push(span);
+  };
+  const addDialogue = (dialogue: string, before: string, after: string, sameParagraphSpeaker?: string) => {
+    let character = speakerNear(before, after) || sameParagraphSpeaker;
+    if (!character && recentSpeakers.length === 2) character = recentSpeakers[0];
+    if (character) {
+      if (recentSpeakers[recentSpeakers.length - 1] !== character) recentSpeakers.push(character);
+      if (recentSpeakers.length > 2) recentSpeakers.shift();
+    }
+    addSpan({ kind: 'dialogue', text: dialogue, ...(character ? { character } : {}) });
+    return character;
+  };
+
+  // Paragraphs keep their line breaks, so the spans join back into the original text.
+  const paragraphs = text.split(/(?<=\n)/);
+  paragraphs.forEach(paragraph => {
+    if (DASH_DIALOGUE_PATTERN.test(paragraph)) {
+      addDialogue(paragraph, '', paragraph.replace(DASH_DIALOGUE_PATTERN, '').replace(/^[^—–―]*[—–―]/, ''));
+      return;
+    }
+    let position = 0;
+    let paragraphSpeaker: string | undefined;
+    for (const match of paragraph.matchAll(QUOTE_PATTERN)) {
+      const start = match.index ?? 0;
+      addSpan({ kind: 'narration', text: paragraph.slice(position, start) });
+      const end = start + match[0].length;
+      paragraphSpeaker = addDialogue(match[0], paragraph.slice(position, start), paragraph.slice(end), paragraphSpeaker);
+      position = end;
+    }
+    addSpan({ kind: 'narration', text: paragraph.slice(position) });
+  });
+  return spans;
+};
+
+/**
+ * Whether a script still matches its chapter: a revised chapter needs its spans detected again.
+ */
+export const isScriptCurrent = (script: ChapterNarration, chapterText: string): boolean =>
+  script.spans.map(span => span.text).join('') === chapterText;
+
+export const scriptCharacters = (settings: NarrationSettings | undefined): string[] => {
+  const names = new Set(Object.keys(settings?.characterVoices || {}));
+  settings?.scripts.forEach(script => script.spans.forEach(span => span.character && names.add(span.character)));
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Gives each character without a voice one that nobody else uses yet, while there are any left.
+ */
+export const assignMissingVoices = (settings: NarrationSettings, characters: string[]): { [character: string]: string } => {
+  const voices = { ...settings.characterVoices };
+  characters.forEach(character => {
+    if (voices[character]) return;
+    const used = new Set([settings.narratorVoice, ...Object.values(voices)]);
+    voices[character] = TTS_VOICES.find(voice => !used.has(voice)) || settings.narratorVoice;
+  });
+  return voices;
+};
+
+export interface NarrationSegment {
+  text: string;
+  voiceName: string;
+}
+
+/**
+ * The script as text to voice, one segment for each run of spans read by the same voice.
+ */
+export const narrationSegments = (spans: NarrationSpan[], settings: NarrationSettings): NarrationSegment[] => {
+  const segments: NarrationSegment[] = [];
+  spans.forEach(span => {
+    const last = segments[segments.length - 1];
+    // Blank text between two lines stays with the voice before it instead of breaking the run.
+    if (last && !span.text.trim()) {
+      last.text += span.text;
+      return;
+    }
+    const voiceName = (span.kind === 'dialogue' && span.character && settings.characterVoices[span.character]) || settings.narratorVoice;
+    if (last && last.voiceName === voiceName) last.text += span.text;
+    else segments.push({ text: span.text, voiceName });
+  });
+  return segments.filter(segment => segment.text.trim());
+};
@@ -0,0 +1,220 @@
+import type { OutlineNode } from '../types';
+
+/**
+ * Outline levels: 0 part, 1 chapter, 2 section, 3 subsection, 4 sub-subsection.
+ */
+export const PART_LEVEL = 0;
+export const CHAPTER_LEVEL = 1;
+export const MAX_OUTLINE_LEVEL = 4;
+
+export interface OutlineItem {
+  node: OutlineNode;
+  level: number;
+  parentId: string | null;
+}
+
+export interface OutlineChapter {
+  chapter: OutlineNode;
+  chapterIndex: number;
+  part: OutlineNode | null;
+  partIndex: number | null;
+  // Exports open the part (its title page) before its first chapter. Parts without chapters are left out.
+  opensPart: boolean;
+}
+
+export interface OutlineSection {
+  node: OutlineNode;
+  level: number;
+  // Position below the chapter, e.g. [1, 0] for the first subsection of the second section.
+  path: number[];
+}
+
+export type OutlineDropPosition = 'before' | 'after' | 'inside';
+
+const childLevel = (parent: OutlineItem | null, node: OutlineNode) =>
+  parent ? (parent.node.isPart ? CHAPTER_LEVEL : parent.level + 1) : node.isPart ? PART_LEVEL : CHAPTER_LEVEL;
+
+/**
+ * Every node of the outline in reading order, with its level.
+ */
+export const flattenOutline = (nodes: OutlineNode[]): OutlineItem[] => {
+  const items: OutlineItem[] = [];
+  const visit = (children: OutlineNode[], parent: OutlineItem | null) => {
+    children.forEach(node => {
+      const item = { node, level: childLevel(parent, node), parentId: parent?.node.id ?? null };
+      items.push(item);
+      visit(node.subchapters, item);
+    });
+  };
+  visit(nodes, null);
+  return items;
+};
+
+/**
+ * The chapters of the book in reading order, numbered across parts.
+ */
+export const outlineChapters = (nodes: OutlineNode[]): OutlineChapter[] => {
+  const chapters: OutlineChapter[] = [];
+  let partIndex = -1;
+  nodes.forEach(node => {
+    if (node.isPart) {
+      partIndex++;
+      node.subchapters.forEach((chapter, index) =>
+        chapters.push({ chapter, chapterIndex: chapters.length, part: node, partIndex, opensPart: index === 0 }));
+    } else {
+      chapters.push({ chapter: node, chapterIndex: chapters.length, part: null, partIndex: null, opensPart: false });
+    }
+  });
+  return chapters;
+};
+
+export const outlineParts = (nodes: OutlineNode[]): OutlineNode[] => nodes.filter(node => node.isPart);
+
+/**
+ * The sections of a chapter at every depth, in reading order.
+ */
+export const chapterSections = (chapter: OutlineNode): OutlineSection[] => {
+  const sections: OutlineSection[] = [];
+  const visit = (children: OutlineNode[], level: number, path: number[]) => {
+    children.forEach((node, index) => {
+      sections.push({ node, level, path: [...path, index] });
+      visit(node.subchapters, level + 1, [...path, index]);
+    });
+  };
+  visit(chapter.subchapters, CHAPTER_LEVEL + 1, []);
+  return sections;
+};
+
+export const findOutlineItem = (nodes: OutlineNode[], id: string): OutlineItem | null =>
+  flattenOutline(nodes).find(item => item.node.id === id) || null;
+
+export const findOutlineNode = (nodes: OutlineNode[], id: string): OutlineNode | null =>
+  findOutlineItem(nodes, id)?.node || null;
+
+/**
+ * The node and its ancestors, from the top level down. Empty when the node is not in the outline.
+ */
+export const outlinePath = (nodes: OutlineNode[], id: string): OutlineNode[] => {
+  for (const node of nodes) {
+    if (node.id === id) return [node];
+    const path = outlinePath(node.subchapters, id);
+    if (path.length > 0) return [node, ...path];
+  }
+  return [];
+};
+
+/**
+ * Applies `transform` to every node, children first.
+ */
+export const mapOutline = (nodes: OutlineNode[], transform: (node: OutlineNode) => OutlineNode): OutlineNode[] =>
+  nodes.map(node => transform({ ...node, subchapters: mapOutline(node.subchapters, transform) }));
+
+export const updateOutlineNode = (nodes: OutlineNode[], id: string, update: (node: OutlineNode) => OutlineNode): OutlineNode[] =>
+  nodes.map(node => node.id === id ? update(node) : { ...node, subchapters: updateOutlineNode(node.subchapters, id, update) });
+
+export const removeOutlineNode = (nodes: OutlineNode[], id: string): OutlineNode[] =>
+  nodes.filter(node => node.id !== id).map(node => ({ ...node, subchapters: removeOutlineNode(node.subchapters, id) }));
+
+/**
+ * Inserts `node` among the children of `parentId` (the top level when null) at `index`.
+ */
+export const insertOutlineNode = (nodes: OutlineNode[], parentId: string | null, index: number, node: OutlineNode): OutlineNode[] => {
+  if (parentId === null) {
+    const result = [...nodes];
+    result.splice(Math.min(index, result.length), 0, node);
+    return result;
+  }
+  return updateOutlineNode(nodes, parentId, parent => ({
+    ...parent,
+    subchapters: insertOutlineNode(parent.subchapters, null, index, node),
+  }));
+};
+
+// Levels the node's own descendants take up below it.
+const subtreeDepth = (node: OutlineNode): number =>
+  node.subchapters.length === 0 ? 0 : 1 + Math.max(...node.subchapters.map(subtreeDepth));
+
+/**
+ * Whether `node` may sit among the children of `parent` (the top level when null): parts stay at the
+ * top level and hold chapters only, and no section ends up deeper than MAX_OUTLINE_LEVEL.
+ */
+const canPlace = (node: OutlineNode, parent: OutlineItem | null): boolean => {
+  if (node.isPart) return parent === null;
+  const level = childLevel(parent, node);
+  return level + subtreeDepth(node) <= MAX_OUTLINE_LEVEL;
+};
+
+/**
+ * Moves a node before, after or inside another one, across chapters and levels.
+ * Returns null when the move would break the outline rules.
+ */
+export const moveOutlineNode = (
+  nodes: OutlineNode[],
+  draggedId: string,
+  targetId: string,
+  position: OutlineDropPosition,
+): OutlineNode[] | null => {
+  if (draggedId === targetId) return null;
+  const dragged = findOutlineNode(nodes, draggedId);
+  if (!dragged || findOutlineNode(dragged.subchapters, targetId)) return null;
+
+  const remaining = removeOutlineNode(nodes, draggedId);
+  const target = findOutlineItem(remaining, targetId);
+  if (!target) return null;
+
+  if (position === 'inside') {
+    if (!canPlace(dragged, target)) return null;
+    return insertOutlineNode(remaining, targetId, target.node.subchapters.length, dragged);
+  }
+  const parent = target.parentId ? findOutlineItem(remaining, target.parentId) : null;
+  if (!canPlace(dragged, parent)) return null;
+  const siblings = parent ? parent.node.subchapters : remaining;
+  const index = siblings.findIndex(node => node.id === targetId) + (position === 'after' ? 1 : 0);
+  return insertOutlineNode(remaining, target.parentId, index, dragged);
+};
+
+/**
+ * Moves a node up one level, right after its parent.
+ */
+export const promoteOutlineNode = (nodes: OutlineNode[], id: string): OutlineNode[] | null => {
+  const item = findOutlineItem(nodes, id);
+  if (!item?.parentId) return null;
+  return moveOutlineNode(nodes, id, item.parentId, 'after');
+};
+
+/**
+ * Moves a node down one level, to the end of its previous sibling.
+ */
+export const demoteOutlineNode = (nodes: OutlineNode[], id: string): OutlineNode[] | null => {
+  const item = findOutlineItem(nodes, id);
+  if (!item) return null;
+  const siblings = item.parentId ? findOutlineNode(nodes, item.parentId)!.subchapters : nodes;
+  const index = siblings.findIndex(node => node.id === id);
+  if (index < 1) return null;
+  return moveOutlineNode(nodes, id, siblings[index - 1].id, 'inside');
+};
+
+/**
+ * Fills ids and content on an outline that came from the AI or an import. Missing or repeated ids
+ * are replaced, since every node is looked up by id.
+ */
+export const normalizeOutline = (
+  nodes: Partial<OutlineNode>[],
+  generateId: (prefix: string) => string,
+  cleanTitle: (title: string) => string = title => title,
+): OutlineNode[] => {
+  const seen = new Set<string>();
+  const normalize = (children: Partial<OutlineNode>[], nested: boolean): OutlineNode[] =>
+    children.map(node => {
+      const id = node.id && !seen.has(node.id) ? node.id : generateId(nested ? 'sub' : node.isPart ? 'part' : 'ch');
+      seen.add(id);
+      return {
+        ...node,
+        id,
+        title: cleanTitle(node.title || ''),
+        content: node.content || '',
+        subchapters: normalize(node.subchapters || [], true),
+      };
+    });
+  return normalize(nodes, false);
+};
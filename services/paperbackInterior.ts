@@ -0,0 +1,869 @@
+import type { Project, PageSize, LayoutTemplate, CustomStyles } from '../types';
+import { buildTocEntries, chapterAnchor, subchapterAnchor, partAnchor, termPattern, type TocEntry } from './bookToc';
+import { outlineChapters, chapterSections, PART_LEVEL, CHAPTER_LEVEL } from './outline';
+import { EMPTY_BOOK_MATTER, type BookMatter, type MatterPageRules, type ResolvedMatterSection } from './bookMatter';
+
+// --- KDP print specifications (inches) ---
+
+export const TRIM_SIZES: { [key in PageSize]: { width: number; height: number } } = {
+  '6x9': { width: 6, height: 9 },
+  '7x10': { width: 7, height: 10 },
+};
+
+// Bleed is added to the outside edge and to the top and bottom of every page.
+export const BLEED = 0.125;
+
+// Inside (gutter) margin by page count, from the KDP paperback guidelines.
+const GUTTER_TABLE: { maxPages: number; gutter: number }[] = [
+  { maxPages: 150, gutter: 0.375 },
+  { maxPages: 300, gutter: 0.5 },
+  { maxPages: 500, gutter: 0.625 },
+  { maxPages: 700, gutter: 0.75 },
+  { maxPages: Infinity, gutter: 0.875 },
+];
+
+export const gutterForPageCount = (pageCount: number): number =>
+  GUTTER_TABLE.find(row => pageCount <= row.maxPages)!.gutter;
+
+const TOP_MARGIN = 0.75;
+const BOTTOM_MARGIN = 0.75;
+// KDP requires at least 0.25" outside (0.375" with bleed); a wider margin reads better.
+const OUTSIDE_MARGIN = 0.5;
+const PT_PER_INCH = 72;
+
+// --- Book model ---
+
+export interface InteriorRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export type InteriorBlock =
+  | { kind: 'paragraph'; runs: InteriorRun[]; align?: 'justify' | 'left' | 'center'; indent?: boolean }
+  // Section headings; level 2 (the default) is a section, 3 and 4 sit below it (see services/outline).
+  | { kind: 'heading'; text: string; anchor?: string; level?: number }
+  | { kind: 'image'; dataUrl: string };
+
+export interface InteriorChapter {
+  title: string;
+  blocks: InteriorBlock[];
+  anchor?: string;
+  // Sections such as the glossary itself are not searched for index terms.
+  excludeFromIndex?: boolean;
+  // A part title page, set on a right-hand page of its own before the part's first chapter.
+  part?: boolean;
+}
+
+// A front or back matter section, paginated by its rules.
+export interface InteriorMatter extends InteriorChapter {
+  rules: MatterPageRules;
+}
+
+export interface InteriorBook {
+  title: string;
+  subtitle: string;
+  author: string;
+  chapters: InteriorChapter[];
+  // Entries refer to chapters and headings by anchor; their page numbers are filled in during layout.
+  contents?: { heading: string; entries: TocEntry[] };
+  index?: { heading: string; terms: string[] };
+  frontMatter?: InteriorMatter[];
+  // Printed after the index.
+  backMatter?: InteriorMatter[];
+  seriesLine?: string;
+}
+
+export interface PaperbackSettings {
+  pageSize: PageSize;
+  bleed: boolean;
+  layout: LayoutTemplate;
+  customStyles?: CustomStyles;
+}
+
+export interface PaperbackResult {
+  blob: Blob;
+  pageCount: number;
+  gutter: number; // inches
+  // Fonts that could not be downloaded and were replaced by a standard PDF font.
+  substitutedFonts: string[];
+}
+
+// --- Building the model ---
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'LI', 'BLOCKQUOTE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'TABLE', 'TR']);
+
+/**
+ * Converts editor HTML into interior blocks: paragraphs with bold/italic runs, headings,
+ * list items (with their bullet or number) and embedded images.
+ */
+export const htmlToInteriorBlocks = (html: string): InteriorBlock[] => {
+  const blocks: InteriorBlock[] = [];
+  let runs: InteriorRun[] = [];
+  let listPrefix: string | null = null;
+
+  const flush = () => {
+    const text = runs.map(run => run.text).join('').trim();
+    if (text) {
+      blocks.push(listPrefix !== null
+        ? { kind: 'paragraph', runs: [{ text: listPrefix }, ...runs], align: 'left' }
+        : { kind: 'paragraph', runs });
+    }
+    runs = [];
+  };
+
+  const walk = (node: Node, style: { bold: boolean; italic: boolean }) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent || '').replace(/\s+/g, ' ');
+      if (text) runs.push({ text, ...style });
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    const tag = node.tagName;
+    if (tag === 'BR') {
+      flush();
+      return;
+    }
+    if (tag === 'IMG') {
+      const src = node.getAttribute('src') || '';
+      if (src.startsWith('data:')) {
+        flush();
+        blocks.push({ kind: 'image', dataUrl: src });
+      }
+      return;
+    }
+    if (/^H[1-6]$/.test(tag)) {
+      flush();
+      const text = (node.textContent || '').trim();
+      if (text) blocks.push({ kind: 'heading', text });
+      return;
+    }
+    const childStyle = {
+      bold: style.bold || tag === 'B' || tag === 'STRONG',
+      italic: style.italic || tag === 'I' || tag === 'EM',
+    };
+    if (tag === 'UL' || tag === 'OL') {
+      flush();
+      Array.from(node.children).forEach((item, index) => {
+        listPrefix = tag === 'OL' ? `${index + 1}. ` : '• ';
+        walk(item, childStyle);
+        flush();
+      });
+      listPrefix = null;
+      return;
+    }
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    node.childNodes.forEach(child => walk(child, childStyle));
+    if (isBlock) flush();
+  };
+
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  doc.body.childNodes.forEach(child => walk(child, { bold: false, italic: false }));
+  flush();
+  return blocks;
+};
+
+const plainTextToBlocks = (text: string): InteriorBlock[] =>
+  text.split(/\n+/).map(line => line.trim()).filter(Boolean).map(line => ({ kind: 'paragraph', runs: [{ text: line }] }));
+
+export interface InteriorLabels {
+  recipes: string;
+  bonus: string;
+  glossary: string;
+  contents: string;
+  index: string;
+}
+
+/**
+ * Builds the interior from the project's chapters, appendices and glossary, with the table of
+ * contents and index the project asks for.
+ */
+export const interiorBookFromProject = (project: Project, labels: InteriorLabels, matter: BookMatter = EMPTY_BOOK_MATTER): InteriorBook => {
+  const chapters: InteriorChapter[] = outlineChapters(project.bookStructure?.chapters || []).flatMap(({ chapter, chapterIndex, part, partIndex, opensPart }) => [
+    ...(opensPart && part && partIndex !== null
+      ? [{ title: part.title, anchor: partAnchor(partIndex), part: true, blocks: htmlToInteriorBlocks(part.content || '') }]
+      : []),
+    {
+      title: chapter.title,
+      anchor: chapterAnchor(chapterIndex),
+      blocks: [
+        ...htmlToInteriorBlocks(chapter.content || ''),
+        ...chapterSections(chapter).flatMap(section => [
+          { kind: 'heading', text: section.node.title, anchor: subchapterAnchor(chapterIndex, ...section.path), level: section.level } as InteriorBlock,
+          ...htmlToInteriorBlocks(section.node.content || ''),
+        ]),
+      ],
+    },
+  ]);
+
+  const appendix = (title: string, blocks: Project['contentBlocks']) => {
+    if (blocks.length === 0) return;
+    chapters.push({
+      title,
+      blocks: blocks.flatMap(block => [
+        { kind: 'heading', text: block.title } as InteriorBlock,
+        ...(block.imageUrl?.startsWith('data:') ? [{ kind: 'image', dataUrl: block.imageUrl } as InteriorBlock] : []),
+        ...plainTextToBlocks(block.textContent),
+      ]),
+    });
+  };
+  const contentBlocks = project.contentBlocks || [];
+  appendix(labels.recipes, contentBlocks.filter(b => b.type === 'recipe' || b.type === 'exercise'));
+  appendix(labels.bonus, contentBlocks.filter(b => b.type === 'bonus'));
+
+  if (project.glossary?.length) {
+    chapters.push({
+      title: labels.glossary,
+      blocks: [...project.glossary]
+        .sort((a, b) => a.term.localeCompare(b.term))
+        .map(item => ({ kind: 'paragraph', align: 'left', runs: [{ text: `${item.term}: `, bold: true }, { text: item.definition }] })),
+      excludeFromIndex: true,
+    });
+  }
+
+  const tocEntries = buildTocEntries(project);
+  const indexTerms = project.includeIndex
+    ? (project.glossary || []).map(item => item.term.trim()).filter(Boolean).sort((a, b) => a.localeCompare(b))
+    : [];
+
+  const matterChapter = (section: ResolvedMatterSection): InteriorMatter => ({
+    title: section.rules.heading ? section.title : '',
+    anchor: section.anchor,
+    rules: section.rules,
+    excludeFromIndex: true,
+    blocks: [
+      ...(section.photo?.startsWith('data:') ? [{ kind: 'image', dataUrl: section.photo } as InteriorBlock] : []),
+      ...section.paragraphs.map(text => ({
+        kind: 'paragraph',
+        align: section.rules.align,
+        runs: [{ text, italic: section.type === 'dedication' || section.type === 'alsoBy' }],
+      } as InteriorBlock)),
+    ],
+  });
+
+  return {
+    title: project.bookTitle || project.projectTitle,
+    subtitle: project.subtitle,
+    author: project.author,
+    chapters,
+    contents: tocEntries.length > 0 ? { heading: labels.contents, entries: tocEntries } : undefined,
+    index: indexTerms.length > 0 ? { heading: labels.index, terms: indexTerms } : undefined,
+    frontMatter: matter.front.map(matterChapter),
+    backMatter: matter.back.map(matterChapter),
+    seriesLine: matter.seriesLine || undefined,
+  };
+};
+
+/**
+ * Builds the interior from a revised manuscript, where "## " starts a chapter and
+ * "### "/"#### " start a section.
+ */
+export const interiorBookFromManuscript = (text: string, project: Project): InteriorBook => {
+  const chapters: InteriorChapter[] = [];
+  let current: InteriorChapter | null = null;
+  text.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (line.startsWith('## ')) {
+      current = { title: line.substring(3), blocks: [] };
+      chapters.push(current);
+      return;
+    }
+    if (!current) {
+      current = { title: '', blocks: [] };
+      chapters.push(current);
+    }
+    const heading = line.match(/^#{3,4} (.*)$/);
+    current.blocks.push(heading ? { kind: 'heading', text: heading[1] } : { kind: 'paragraph', runs: [{ text: line }] });
+  });
+  return {
+    title: project.bookTitle || project.projectTitle,
+    subtitle: project.subtitle,
+    author: project.author,
+    chapters,
+  };
+};
+
+// --- Fonts ---
+
+// Fonts offered in the layout editor that can be embedded, by their Fontsource id.
+const EMBEDDABLE_FONTS: { [font: string]: string } = {
+  'EB Garamond': 'eb-garamond',
+  'Montserrat': 'montserrat',
+  'Lato': 'lato',
+  'Roboto': 'roboto',
+  'Open Sans': 'open-sans',
+};
+// Fonts that are not freely embeddable map to the closest standard PDF font.
+const STANDARD_FONT_FOR: { [font: string]: string } = {
+  'Georgia': 'times',
+  'Times New Roman': 'times',
+};
+const FONT_STYLES: { style: 'normal' | 'bold' | 'italic' | 'bolditalic'; weight: number; fontStyle: 'normal' | 'italic' }[] = [
+  { style: 'normal', weight: 400, fontStyle: 'normal' },
+  { style: 'bold', weight: 700, fontStyle: 'normal' },
+  { style: 'italic', weight: 400, fontStyle: 'italic' },
+  { style: 'bolditalic', weight: 700, fontStyle: 'italic' },
+];
+
+const fontFileUrl = (id: string, weight: number, fontStyle: string) =>
+  `https://cdn.jsdelivr.net/fontsource/fonts/${id}@latest/latin-${weight}-${fontStyle}.ttf`;
+
+// Downloaded font files as base64, shared by every export in the session.
+const fontFileCache = new Map<string, Promise<string | null>>();
+
+const fetchFontFile = (url: string): Promise<string | null> => {
+  let cached = fontFileCache.get(url);
+  if (!cached) {
+    cached = fetch(url)
+      .then(response => (response.ok ? response.arrayBuffer() : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then(buffer => {
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+      })
+      .catch(error => {
+        console.error(`Could not download font ${url}:`, error);
+        fontFileCache.delete(url);
+        return null;
+      });
+    fontFileCache.set(url, cached);
+  }
+  return cached;
+};
+
+/**
+ * Registers `font` in the document and returns the jsPDF family to use for it.
+ * Falls back to a standard font (reported through `substituted`) when it cannot be embedded.
+ */
+const embedFont = async (pdf: any, font: string, substituted: Set<string>): Promise<string> => {
+  if (STANDARD_FONT_FOR[font]) return STANDARD_FONT_FOR[font];
+  const id = EMBEDDABLE_FONTS[font];
+  if (!id) {
+    substituted.add(font);
+    return 'times';
+  }
+  const files = await Promise.all(FONT_STYLES.map(variant => fetchFontFile(fontFileUrl(id, variant.weight, variant.fontStyle))));
+  const regular = files[0];
+  if (!regular) {
+    substituted.add(font);
+    return 'times';
+  }
+  FONT_STYLES.forEach((variant, index) => {
+    // A missing variant (e.g. no bold italic) reuses the closest one that downloaded.
+    const file = files[index] || files[variant.weight === 700 ? 1 : 0] || regular;
+    const fileName = `${id}-${variant.style}.ttf`;
+    pdf.addFileToVFS(fileName, file);
+    pdf.addFont(fileName, id, variant.style);
+  });
+  return id;
+};
+
+// --- Typography per layout template ---
+
+interface Typography {
+  bodyFont: string;
+  headingFont: string;
+  bodySize: number;
+  lineHeight: number;
+  chapterTitleSize: number;
+  titleSize: number;
+  subtitleSize: number;
+  align: 'justify' | 'left';
+  chapterTitleAlign: 'center' | 'left';
+  chapterRule: boolean;
+}
+
+const typographyFor = (layout: LayoutTemplate, customStyles?: CustomStyles): Typography => {
+  switch (layout) {
+    case 'Modern':
+      return { bodyFont: 'Georgia', headingFont: 'Montserrat', bodySize: 11, lineHeight: 1.45, chapterTitleSize: 20, titleSize: 26, subtitleSize: 15, align: 'left', chapterTitleAlign: 'left', chapterRule: true };
+    case 'Minimalist':
+      return { bodyFont: 'Times New Roman', headingFont: 'Times New Roman', bodySize: 11, lineHeight: 1.6, chapterTitleSize: 18, titleSize: 24, subtitleSize: 14, align: 'left', chapterTitleAlign: 'left', chapterRule: false };
+    case 'Custom':
+      if (customStyles) {
+        return {
+          bodyFont: customStyles.bodyFont,
+          headingFont: customStyles.chapterTitleFont,
+          bodySize: customStyles.bodySize,
+          lineHeight: customStyles.lineHeight,
+          chapterTitleSize: customStyles.chapterTitleSize,
+          titleSize: customStyles.titleSize,
+          subtitleSize: customStyles.subtitleSize,
+          align: 'justify',
+          chapterTitleAlign: 'center',
+          chapterRule: false,
+        };
+      }
+      return typographyFor('Classic');
+    case 'Classic':
+    default:
+      return { bodyFont: 'EB Garamond', headingFont: 'EB Garamond', bodySize: 11.5, lineHeight: 1.4, chapterTitleSize: 20, titleSize: 26, subtitleSize: 15, align: 'justify', chapterTitleAlign: 'center', chapterRule: true };
+  }
+};
+
+// --- Images ---
+
+interface PreparedImage {
+  dataUrl: string; // JPEG, so every source format embeds the same way
+  width: number;
+  height: number;
+}
+
+const prepareImage = (dataUrl: string): Promise<PreparedImage | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      // Transparent areas print as white paper.
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+      resolve({ dataUrl: canvas.toDataURL('image/jpeg', 0.92), width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => resolve(null);
+    img.src = dataUrl;
+  });
+
+// --- Layout ---
+
+interface Word {
+  text: string;
+  style: 'normal' | 'bold' | 'italic' | 'bolditalic';
+  width: number;
+  spaceBefore: boolean;
+}
+
+const runStyle = (run: InteriorRun): Word['style'] =>
+  run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal';
+
+/**
+ * Lays the whole book out once with the given gutter. Returns the document and its page count.
+ */
+const layoutBook = async (
+  book: InteriorBook,
+  settings: PaperbackSettings,
+  gutter: number,
+  images: Map<string, PreparedImage | null>,
+  substituted: Set<string>,
+): Promise<{ pdf: any; pageCount: number }> => {
+  const { jsPDF } = (window as any).jspdf;
+  const trim = TRIM_SIZES[settings.pageSize];
+  const bleed = settings.bleed ? BLEED : 0;
+  const pageWidth = (trim.width + bleed) * PT_PER_INCH;
+  const pageHeight = (trim.height + 2 * bleed) * PT_PER_INCH;
+  const pdf = new jsPDF({ orientation: 'p', unit: 'pt', format: [pageWidth, pageHeight] });
+
+  const typography = typographyFor(settings.layout, settings.customStyles);
+  const bodyFamily = await embedFont(pdf, typography.bodyFont, substituted);
+  const headingFamily = typography.headingFont === typography.bodyFont
+    ? bodyFamily
+    : await embedFont(pdf, typography.headingFont, substituted);
+
+  const contentWidth = (trim.width - gutter - OUTSIDE_MARGIN) * PT_PER_INCH;
+  const topY = (bleed + TOP_MARGIN) * PT_PER_INCH;
+  const bottomY = (bleed + trim.height - BOTTOM_MARGIN) * PT_PER_INCH;
+  const bodyLineHeight = typography.bodySize * typography.lineHeight;
+
+  let pageNumber = 1;
+  let y = topY;
+  let runningHead = '';
+
+  // Odd pages are recto (right-hand): the gutter is on their left. On verso pages the bleed sits on the left.
+  const isRecto = () => pageNumber % 2 === 1;
+  const contentLeft = () => (isRecto() ? gutter : bleed + OUTSIDE_MARGIN) * PT_PER_INCH;
+  const centerX = () => contentLeft() + contentWidth / 2;
+
+  const drawPageFurniture = (withHeader: boolean) => {
+    pdf.setTextColor(60);
+    if (withHeader) {
+      pdf.setFont(bodyFamily, 'italic');
+      pdf.setFontSize(9);
+      const header = isRecto() ? runningHead : book.title;
+      if (header) pdf.text(header, centerX(), topY - 0.35 * PT_PER_INCH, { align: 'center', maxWidth: contentWidth });
+    }
+    pdf.setFont(bodyFamily, 'normal');
+    pdf.setFontSize(9);
+    pdf.text(String(pageNumber), centerX(), bottomY + 0.4 * PT_PER_INCH, { align: 'center' });
+    pdf.setTextColor(0);
+  };
+
+  const newPage = (withHeader = true) => {
+    pdf.addPage([pageWidth, pageHeight], 'p');
+    pageNumber++;
+    y = topY;
+    drawPageFurniture(withHeader);
+  };
+
+  const startRectoPage = () => {
+    pdf.addPage([pageWidth, pageHeight], 'p');
+    pageNumber++;
+    if (!isRecto()) {
+      // Chapters open on the right: leave the verso blank, without header or folio.
+      pdf.addPage([pageWidth, pageHeight], 'p');
+      pageNumber++;
+    }
+    y = topY;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottomY) newPage();
+  };
+
+  const measureWords = (runs: InteriorRun[], family: string, size: number): Word[] => {
+    const words: Word[] = [];
+    let pendingSpace = false;
+    runs.forEach(run => {
+      const style = runStyle(run);
+      pdf.setFont(family, style);
+      pdf.setFontSize(size);
+      run.text.split(/(\s+)/).forEach(part => {
+        if (!part) return;
+        if (/^\s+$/.test(part)) {
+          pendingSpace = words.length > 0;
+          return;
+        }
+        words.push({ text: part, style, width: pdf.getTextWidth(part), spaceBefore: pendingSpace });
+        pendingSpace = false;
+      });
+    });
+    return words;
+  };
+
+  // Greedy line breaking at spaces; words glued by a style change inside them never split.
+  const breakLines = (words: Word[], spaceWidth: number, firstLineIndent: number, width = contentWidth): Word[][] => {
+    const lines: Word[][] = [];
+    let line: Word[] = [];
+    let lineWidth = 0;
+    words.forEach(word => {
+      const gap = line.length > 0 && word.spaceBefore ? spaceWidth : 0;
+      const limit = width - (lines.length === 0 ? firstLineIndent : 0);
+      if (line.length > 0 && word.spaceBefore && lineWidth + gap + word.width > limit) {
+        lines.push(line);
+        line = [word];
+        lineWidth = word.width;
+      } else {
+        line.push(word);
+        lineWidth += gap + word.width;
+      }
+    });
+    if (line.length > 0) lines.push(line);
+    return lines;
+  };
+
+  const baselineFor = (lineTop: number, size: number, lineHeight: number) =>
+    lineTop + size + (lineHeight - size) / 2 - size * 0.2;
+
+  // Pages where each index term occurs, collected while the chapters are drawn.
+  const indexTerms = (book.index?.terms || []).map(term => ({ term, pattern: termPattern(term) }));
+  const termPages = new Map<string, Set<number>>();
+  let indexing = false;
+
+  const recordIndexTerms = (lines: Word[][], linePages: number[]) => {
+    let text = '';
+    const lineStarts: number[] = [];
+    lines.forEach(line => {
+      lineStarts.push(text.length);
+      line.forEach(word => {
+        if (word.spaceBefore && text) text += ' ';
+        text += word.text;
+      });
+    });
+    indexTerms.forEach(({ term, pattern }) => {
+      for (const match of text.matchAll(pattern)) {
+        const offset = match.index! + match[1].length;
+        let line = 0;
+        while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+        if (!termPages.has(term)) termPages.set(term, new Set());
+        termPages.get(term)!.add(linePages[line]);
+      }
+    });
+  };
+
+  const drawParagraph = (
+    runs: InteriorRun[],
+    options: { family: string; size: number; lineHeight: number; align: 'justify' | 'left' | 'center'; indent: number },
+  ) => {
+    const words = measureWords(runs, options.family, options.size);
+    if (words.length === 0) return;
+    pdf.setFont(options.family, 'normal');
+    pdf.setFontSize(options.size);
+    const spaceWidth = pdf.getTextWidth(' ');
+    const lines = breakLines(words, spaceWidth, options.indent);
+    const linePages: number[] = [];
+
+    lines.forEach((line, lineIndex) => {
+      ensureSpace(options.lineHeight);
+      linePages.push(pageNumber);
+      const indent = lineIndex === 0 ? options.indent : 0;
+      const naturalWidth = line.reduce((acc, word, i) => acc + word.width + (i > 0 && word.spaceBefore ? spaceWidth : 0), 0);
+      const gaps = line.filter((word, i) => i > 0 && word.spaceBefore).length;
+      const isLastLine = lineIndex === lines.length - 1;
+      const extra = options.align === 'justify' && !isLastLine && gaps > 0
+        ? (contentWidth - indent - naturalWidth) / gaps
+        : 0;
+      let x = contentLeft() + indent;
+      if (options.align === 'center') x = contentLeft() + (contentWidth - naturalWidth) / 2;
+      const baseline = baselineFor(y, options.size, options.lineHeight);
+      line.forEach((word, i) => {
+        if (i > 0 && word.spaceBefore) x += spaceWidth + extra;
+        pdf.setFont(options.family, word.style);
+        pdf.text(word.text, x, baseline);
+        x += word.width;
+      });
+      y += options.lineHeight;
+    });
+
+    if (indexing) recordIndexTerms(lines, linePages);
+  };
+
+  // Title page (recto) and its blank verso.
+  y = topY + (bottomY - topY) * 0.25;
+  drawParagraph([{ text: book.title, bold: true }], { family: headingFamily, size: typography.titleSize, lineHeight: typography.titleSize * 1.25, align: 'center', indent: 0 });
+  if (book.subtitle) {
+    y += typography.subtitleSize;
+    drawParagraph([{ text: book.subtitle, italic: true }], { family: headingFamily, size: typography.subtitleSize, lineHeight: typography.subtitleSize * 1.3, align: 'center', indent: 0 });
+  }
+  if (book.seriesLine) {
+    y += typography.subtitleSize;
+    drawParagraph([{ text: book.seriesLine, italic: true }], { family: bodyFamily, size: typography.bodySize, lineHeight: bodyLineHeight, align: 'center', indent: 0 });
+  }
+  if (book.author) {
+    y = bottomY - (bottomY - topY) * 0.2;
+    drawParagraph([{ text: book.author }], { family: bodyFamily, size: typography.subtitleSize, lineHeight: typography.subtitleSize * 1.3, align: 'center', indent: 0 });
+  }
+
+  const anchorPages = new Map<string, number>();
+
+  const openChapter = (title: string) => {
+    startRectoPage();
+    runningHead = title;
+    // The opening page of a chapter carries a folio but no running head.
+    drawPageFurniture(false);
+    y = topY + (bottomY - topY) * 0.15;
+    if (title) {
+      drawParagraph([{ text: title, bold: true }], {
+        family: headingFamily,
+        size: typography.chapterTitleSize,
+        lineHeight: typography.chapterTitleSize * 1.3,
+        align: typography.chapterTitleAlign,
+        indent: 0,
+      });
+      if (typography.chapterRule) {
+        const ruleWidth = typography.chapterTitleAlign === 'center' ? contentWidth / 4 : contentWidth;
+        const ruleX = typography.chapterTitleAlign === 'center' ? centerX() - ruleWidth / 2 : contentLeft();
+        pdf.setLineWidth(0.75);
+        pdf.line(ruleX, y + 4, ruleX + ruleWidth, y + 4);
+      }
+      y += bodyLineHeight * 2;
+    }
+  };
+
+  const layoutChapter = (chapter: InteriorChapter, rules?: MatterPageRules) => {
+    // Notices on the back of the title page are set small, at the foot of the page.
+    const bodySize = rules?.opensOn === 'titleVerso' ? typography.bodySize * 0.8 : typography.bodySize;
+    const lineHeight = bodySize * typography.lineHeight;
+    if (rules?.opensOn === 'titleVerso') {
+      pdf.addPage([pageWidth, pageHeight], 'p');
+      pageNumber++;
+      const textHeight = chapter.blocks.reduce((height, block) => {
+        if (block.kind !== 'paragraph') return height;
+        const words = measureWords(block.runs, bodyFamily, bodySize);
+        pdf.setFont(bodyFamily, 'normal');
+        return height + breakLines(words, pdf.getTextWidth(' '), 0).length * lineHeight;
+      }, 0);
+      // Half a point of slack, so rounding never pushes the last line onto another page.
+      y = Math.max(topY, bottomY - textHeight - 0.5);
+    } else if (chapter.part) {
+      // Part pages carry neither folio nor running head.
+      startRectoPage();
+      runningHead = chapter.title;
+      y = topY + (bottomY - topY) / 3;
+      drawParagraph([{ text: chapter.title, bold: true }], {
+        family: headingFamily,
+        size: typography.chapterTitleSize * 1.2,
+        lineHeight: typography.chapterTitleSize * 1.2 * 1.3,
+        align: 'center',
+        indent: 0,
+      });
+      y += bodyLineHeight * 2;
+    } else if (rules && !rules.heading) {
+      // Display pages such as the dedication: a third of the way down a right-hand page.
+      startRectoPage();
+      if (rules.furniture) drawPageFurniture(false);
+      y = topY + (bottomY - topY) / 3;
+    } else {
+      openChapter(chapter.title);
+    }
+    if (chapter.anchor) anchorPages.set(chapter.anchor, pageNumber);
+    indexing = indexTerms.length > 0 && !chapter.excludeFromIndex;
+
+    let indentNext = false;
+    chapter.blocks.forEach(block => {
+      if (block.kind === 'heading') {
+        if (!block.text) return;
+        // Keep a heading together with at least two lines of its text.
+        ensureSpace(bodyLineHeight * 4);
+        if (block.anchor) anchorPages.set(block.anchor, pageNumber);
+        if (y > topY) y += bodyLineHeight * 0.75;
+        // Each level below a section is set a step smaller: 1.2, 1.1 and 1 times the body size.
+        const headingSize = typography.bodySize * Math.max(1, 1.2 - ((block.level ?? 2) - 2) * 0.1);
+        drawParagraph([{ text: block.text, bold: true, italic: (block.level ?? 2) > 3 }], {
+          family: headingFamily,
+          size: headingSize,
+          lineHeight: headingSize * 1.3,
+          align: 'left',
+          indent: 0,
+        });
+        y += bodyLineHeight * 0.4;
+        indentNext = false;
+        return;
+      }
+      if (block.kind === 'image') {
+        const image = images.get(block.dataUrl);
+        if (!image) return;
+        const maxHeight = (bottomY - topY) * 0.6;
+        const scale = Math.min(contentWidth / image.width, maxHeight / image.height, 1);
+        const width = image.width * scale;
+        const height = image.height * scale;
+        ensureSpace(height + bodyLineHeight);
+        pdf.addImage(image.dataUrl, 'JPEG', centerX() - width / 2, y + bodyLineHeight / 2, width, height);
+        y += height + bodyLineHeight;
+        indentNext = false;
+        return;
+      }
+      const align = block.align || typography.align;
+      drawParagraph(block.runs, {
+        family: bodyFamily,
+        size: bodySize,
+        lineHeight,
+        align,
+        indent: indentNext && block.indent !== false && align === 'justify' ? bodySize * 1.5 : 0,
+      });
+      indentNext = true;
+    });
+  };
+
+  (book.frontMatter || []).filter(section => section.rules.beforeContents).forEach(section => layoutChapter(section, section.rules));
+
+  // The contents pages are reserved before the chapters and filled in at the end, once every page number is known.
+  const contentsEntries = book.contents?.entries || [];
+  pdf.setFont(bodyFamily, 'normal');
+  pdf.setFontSize(typography.bodySize);
+  const folioColumn = pdf.getTextWidth('0000');
+  const placedEntries: { entry: TocEntry; lines: Word[][]; indent: number; page: number; top: number }[] = [];
+  if (book.contents && contentsEntries.length > 0) {
+    openChapter(book.contents.heading);
+    contentsEntries.forEach((entry, index) => {
+      const indent = Math.max(0, entry.level - CHAPTER_LEVEL) * typography.bodySize * 1.5;
+      const words = measureWords([{ text: entry.title || String(entry.chapterIndex + 1), bold: entry.level <= CHAPTER_LEVEL }], bodyFamily, typography.bodySize);
+      pdf.setFont(bodyFamily, 'normal');
+      const lines = breakLines(words, pdf.getTextWidth(' '), 0, contentWidth - indent - folioColumn);
+      if (entry.level === PART_LEVEL && index > 0) y += bodyLineHeight;
+      else if (entry.level === CHAPTER_LEVEL && index > 0) y += bodyLineHeight * 0.4;
+      ensureSpace(lines.length * bodyLineHeight);
+      placedEntries.push({ entry, lines, indent, page: pageNumber, top: y });
+      y += lines.length * bodyLineHeight;
+    });
+  }
+
+  (book.frontMatter || []).filter(section => !section.rules.beforeContents).forEach(section => layoutChapter(section, section.rules));
+  book.chapters.forEach(chapter => layoutChapter(chapter));
+  indexing = false;
+
+  if (book.index && termPages.size > 0) {
+    openChapter(book.index.heading);
+    book.index.terms.forEach(term => {
+      const pages = termPages.get(term);
+      if (!pages) return;
+      drawParagraph([{ text: term, bold: true }, { text: `, ${Array.from(pages).sort((a, b) => a - b).join(', ')}` }], {
+        family: bodyFamily,
+        size: typography.bodySize,
+        lineHeight: bodyLineHeight,
+        align: 'left',
+        indent: 0,
+      });
+    });
+  }
+
+  (book.backMatter || []).forEach(section => layoutChapter(section, section.rules));
+  indexing = false;
+
+  // Fill in the contents: titles on the left, dot leaders and the page number on the last line of each entry.
+  const lastPage = pageNumber;
+  placedEntries.forEach(({ entry, lines, indent, page, top }) => {
+    pdf.setPage(page);
+    pageNumber = page;
+    pdf.setFontSize(typography.bodySize);
+    pdf.setFont(bodyFamily, 'normal');
+    const spaceWidth = pdf.getTextWidth(' ');
+    let lineEnd = 0;
+    lines.forEach((line, lineIndex) => {
+      let x = contentLeft() + indent;
+      const baseline = baselineFor(top + lineIndex * bodyLineHeight, typography.bodySize, bodyLineHeight);
+      line.forEach((word, i) => {
+        if (i > 0 && word.spaceBefore) x += spaceWidth;
+        pdf.setFont(bodyFamily, word.style);
+        pdf.text(word.text, x, baseline);
+        x += word.width;
+      });
+      lineEnd = x;
+    });
+    const folio = anchorPages.get(entry.anchor);
+    if (folio === undefined) return;
+    const right = contentLeft() + contentWidth;
+    const baseline = baselineFor(top + (lines.length - 1) * bodyLineHeight, typography.bodySize, bodyLineHeight);
+    pdf.setFont(bodyFamily, 'normal');
+    const folioText = String(folio);
+    pdf.text(folioText, right, baseline, { align: 'right' });
+    const leaderWidth = right - pdf.getTextWidth(folioText) - spaceWidth - (lineEnd + spaceWidth);
+    const dotCount = Math.floor(leaderWidth / pdf.getTextWidth(' .'));
+    if (dotCount > 0) pdf.text(' .'.repeat(dotCount), right - pdf.getTextWidth(folioText) - spaceWidth, baseline, { align: 'right' });
+  });
+  pdf.setPage(lastPage);
+  pageNumber = lastPage;
+
+  return { pdf, pageCount: pageNumber };
+};
+
+/**
+ * Generates a print-ready KDP paperback interior: pages at the exact trim size (plus bleed if
+ * requested), gutter chosen from the final page count, running heads, folios, chapters opening
+ * on recto pages, the layout fonts embedded and, when the book has them, a table of contents and
+ * an index with page numbers.
+ */
+export const generatePaperbackInterior = async (book: InteriorBook, settings: PaperbackSettings): Promise<PaperbackResult> => {
+  if (typeof (window as any).jspdf === 'undefined') {
+    throw new Error('PDF library not loaded. Please check your internet connection and try again.');
+  }
+
+  const images = new Map<string, PreparedImage | null>();
+  const imageUrls = new Set([...(book.frontMatter || []), ...book.chapters, ...(book.backMatter || [])].flatMap(ch => ch.blocks).flatMap(block => (block.kind === 'image' ? [block.dataUrl] : [])));
+  for (const dataUrl of imageUrls) {
+    images.set(dataUrl, await prepareImage(dataUrl));
+  }
+
+  // The gutter depends on the page count, which depends on the gutter: lay out again until they agree.
+  const substituted = new Set<string>();
+  let gutter = gutterForPageCount(0);
+  let result = await layoutBook(book, settings, gutter, images, substituted);
+  for (let attempt = 0; attempt < 3 && gutterForPageCount(result.pageCount) !== gutter; attempt++) {
+    gutter = gutterForPageCount(result.pageCount);
+    result = await layoutBook(book, settings, gutter, images, substituted);
+  }
+
+  return {
+    blob: result.pdf.output('blob'),
+    pageCount: result.pageCount,
+    gutter,
+    substitutedFonts: Array.from(substituted),
+  };
+};
@@ -0,0 +1,227 @@
+import type { Project, TabKey } from '../types';
+import { MIN_PAGE_COUNT } from './coverWrap';
+import { MARKETPLACES, computeEbookRoyalty, computePaperbackRoyalty } from './pricing';
+import { flattenOutline, outlineChapters } from './outline';
+import { escapeRegExp } from './bookToc';
+
+// --- KDP limits ---
+
+const MAX_TITLE_LENGTH = 200; // title and subtitle together
+const MAX_KEYWORDS = 7;
+const MAX_KEYWORD_LENGTH = 50;
+const MAX_CATEGORIES = 2;
+const MIN_DESCRIPTION_LENGTH = 150;
+const MAX_DESCRIPTION_LENGTH = 4000; // HTML tags included
+const DESCRIPTION_TAGS = new Set(['b', 'strong', 'i', 'em', 'u', 'br', 'p', 'h4', 'h5', 'h6', 'ol', 'ul', 'li']);
+// Ebook cover: the ideal is 1600 x 2560, anything below 625 x 1000 is rejected.
+const MIN_COVER = { width: 625, height: 1000 };
+const IDEAL_COVER = { width: 1600, height: 2560 };
+const IDEAL_COVER_RATIO = 1.6; // height / width
+const COVER_RATIO_TOLERANCE = 0.1;
+
+// Sales claims and trademarks that KDP rejects in titles and keywords.
+const PROHIBITED_TERMS = [
+  'amazon', 'kindle', 'kindle unlimited', 'kdp', 'audible', 'bestseller', 'best seller', 'bestselling', 'best-selling',
+  'free', 'gratis', 'on sale', 'new release', '#1', 'disney', 'marvel', 'lego', 'pokemon', 'pokémon', 'star wars', 'harry potter',
+];
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export interface PreflightIssue {
+  ruleId: string;
+  severity: PreflightSeverity;
+  // Tab where the problem can be fixed.
+  tab: TabKey;
+  // Localization key under validationTab.rules, with its placeholders.
+  messageKey: string;
+  params?: { [key: string]: string | number };
+}
+
+export interface PreflightInput {
+  project: Project;
+  // Pixel size of the selected cover, or null if there is none or it could not be read.
+  coverSize: { width: number; height: number } | null;
+}
+
+interface PreflightRule {
+  id: string;
+  check: (input: PreflightInput) => Omit<PreflightIssue, 'ruleId'>[];
+}
+
+const findProhibitedTerms = (text: string): string[] =>
+  PROHIBITED_TERMS.filter(term => new RegExp(`(^|[^\\p{L}\\p{N}#])${escapeRegExp(term)}(?=$|[^\\p{L}\\p{N}])`, 'iu').test(text));
+
+const plainTextLength = (html: string): number =>
+  (new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html').body.textContent || '').trim().length;
+
+const PREFLIGHT_RULES: PreflightRule[] = [
+  {
+    id: 'titleLength',
+    check: ({ project }) => {
+      if (!project.bookTitle?.trim()) return [{ severity: 'error', tab: 'metadata', messageKey: 'titleMissing' }];
+      const length = project.bookTitle.trim().length + (project.subtitle?.trim().length || 0);
+      return length > MAX_TITLE_LENGTH
+        ? [{ severity: 'error', tab: 'metadata', messageKey: 'titleTooLong', params: { length, max: MAX_TITLE_LENGTH } }]
+        : [];
+    },
+  },
+  {
+    id: 'author',
+    check: ({ project }) => (project.author?.trim() ? [] : [{ severity: 'error', tab: 'metadata', messageKey: 'authorMissing' }]),
+  },
+  {
+    id: 'keywords',
+    check: ({ project }) => {
+      const keywords = (project.metadataKeywords || []).map(k => k.keyword.trim()).filter(Boolean);
+      if (keywords.length === 0) return [{ severity: 'warning', tab: 'metadata', messageKey: 'keywordsMissing', params: { max: MAX_KEYWORDS } }];
+      const issues: Omit<PreflightIssue, 'ruleId'>[] = [];
+      if (keywords.length > MAX_KEYWORDS) {
+        issues.push({ severity: 'error', tab: 'metadata', messageKey: 'tooManyKeywords', params: { count: keywords.length, max: MAX_KEYWORDS } });
+      }
+      keywords.filter(keyword => keyword.length > MAX_KEYWORD_LENGTH).forEach(keyword => {
+        issues.push({ severity: 'error', tab: 'metadata', messageKey: 'keywordTooLong', params: { keyword, max: MAX_KEYWORD_LENGTH } });
+      });
+      return issues;
+    },
+  },
+  {
+    id: 'categories',
+    check: ({ project }) => {
+      const count = (project.categories || []).filter(category => category.trim()).length;
+      if (count === 0) return [{ severity: 'warning', tab: 'metadata', messageKey: 'categoriesMissing', params: { max: MAX_CATEGORIES } }];
+      return count > MAX_CATEGORIES
+        ? [{ severity: 'error', tab: 'metadata', messageKey: 'tooManyCategories', params: { count, max: MAX_CATEGORIES } }]
+        : [];
+    },
+  },
+  {
+    id: 'description',
+    check: ({ project }) => {
+      const description = project.description?.trim() || '';
+      if (!description) return [{ severity: 'error', tab: 'metadata', messageKey: 'descriptionMissing' }];
+      const issues: Omit<PreflightIssue, 'ruleId'>[] = [];
+      if (description.length > MAX_DESCRIPTION_LENGTH) {
+        issues.push({ severity: 'error', tab: 'metadata', messageKey: 'descriptionTooLong', params: { length: description.length, max: MAX_DESCRIPTION_LENGTH } });
+      } else if (plainTextLength(description) < MIN_DESCRIPTION_LENGTH) {
+        issues.push({ severity: 'warning', tab: 'metadata', messageKey: 'descriptionTooShort', params: { min: MIN_DESCRIPTION_LENGTH } });
+      }
+      const tags = new Set(Array.from(description.matchAll(/<\/?\s*([a-z][a-z0-9]*)\b[^>]*>/gi), match => match[1].toLowerCase()));
+      const disallowed = Array.from(tags).filter(tag => !DESCRIPTION_TAGS.has(tag));
+      if (disallowed.length > 0) {
+        issues.push({ severity: 'error', tab: 'metadata', messageKey: 'descriptionHtml', params: { tags: disallowed.map(tag => `<${tag}>`).join(', ') } });
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'prohibitedTerms',
+    check: ({ project }) => {
+      const issues: Omit<PreflightIssue, 'ruleId'>[] = [];
+      const titleTerms = findProhibitedTerms(`${project.bookTitle || ''} ${project.subtitle || ''}`);
+      if (titleTerms.length > 0) {
+        issues.push({ severity: 'error', tab: 'metadata', messageKey: 'prohibitedInTitle', params: { terms: titleTerms.join(', ') } });
+      }
+      const keywordTerms = Array.from(new Set((project.metadataKeywords || []).flatMap(k => findProhibitedTerms(k.keyword))));
+      if (keywordTerms.length > 0) {
+        issues.push({ severity: 'error', tab: 'metadata', messageKey: 'prohibitedInKeywords', params: { terms: keywordTerms.join(', ') } });
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'cover',
+    check: ({ project, coverSize }) => {
+      if (!project.coverImage) return [{ severity: 'error', tab: 'cover', messageKey: 'coverMissing' }];
+      if (!coverSize) return [];
+      const { width, height } = coverSize;
+      const issues: Omit<PreflightIssue, 'ruleId'>[] = [];
+      if (width < MIN_COVER.width || height < MIN_COVER.height) {
+        issues.push({ severity: 'error', tab: 'cover', messageKey: 'coverTooSmall', params: { width, height, minWidth: MIN_COVER.width, minHeight: MIN_COVER.height } });
+      } else if (width < IDEAL_COVER.width || height < IDEAL_COVER.height) {
+        issues.push({ severity: 'warning', tab: 'cover', messageKey: 'coverLowResolution', params: { width, height, idealWidth: IDEAL_COVER.width, idealHeight: IDEAL_COVER.height } });
+      }
+      const ratio = height / width;
+      if (Math.abs(ratio - IDEAL_COVER_RATIO) / IDEAL_COVER_RATIO > COVER_RATIO_TOLERANCE) {
+        issues.push({ severity: 'warning', tab: 'cover', messageKey: 'coverAspectRatio', params: { ratio: ratio.toFixed(2), ideal: IDEAL_COVER_RATIO } });
+      }
+      return issues;
+    },
+  },
+  {
+    id: 'emptySections',
+    check: ({ project }) => {
+      const chapters = project.bookStructure?.chapters || [];
+      if (chapters.length === 0) return [{ severity: 'error', tab: 'structure', messageKey: 'structureMissing' }];
+      // Written content is expected in chapters without sections, and in every innermost section.
+      const empty = flattenOutline(chapters)
+        .map(item => item.node)
+        .filter(node => !node.isPart && node.subchapters.length === 0 && !plainTextLength(node.content || ''));
+      return empty.length > 0
+        ? [{ severity: 'error', tab: 'content', messageKey: 'emptySections', params: { count: empty.length, titles: empty.slice(0, 5).map(node => node.title).join(', ') } }]
+        : [];
+    },
+  },
+  {
+    id: 'duplicateChapterTitles',
+    check: ({ project }) => {
+      const seen = new Set<string>();
+      const duplicates = new Set<string>();
+      outlineChapters(project.bookStructure?.chapters || []).forEach(({ chapter }) => {
+        const key = chapter.title.trim().toLowerCase();
+        if (!key) return;
+        if (seen.has(key)) duplicates.add(chapter.title.trim());
+        seen.add(key);
+      });
+      return duplicates.size > 0
+        ? [{ severity: 'warning', tab: 'structure', messageKey: 'duplicateChapterTitles', params: { titles: Array.from(duplicates).join(', ') } }]
+        : [];
+    },
+  },
+  {
+    id: 'paperbackPageCount',
+    check: ({ project }) => {
+      if (!project.interiorPageCount) return [{ severity: 'warning', tab: 'layout', messageKey: 'pageCountUnknown' }];
+      return project.interiorPageCount < MIN_PAGE_COUNT
+        ? [{ severity: 'error', tab: 'layout', messageKey: 'tooFewPages', params: { count: project.interiorPageCount, min: MIN_PAGE_COUNT } }]
+        : [];
+    },
+  },
+  {
+    id: 'pricing',
+    check: ({ project }) => {
+      const pricing = project.pricing;
+      const ebookPrices = pricing ? Object.keys(pricing.ebook).length : 0;
+      if (!pricing || ebookPrices === 0) return [{ severity: 'warning', tab: 'metadata', messageKey: 'pricesMissing' }];
+      const issues: Omit<PreflightIssue, 'ruleId'>[] = [];
+      MARKETPLACES.forEach(marketplace => {
+        const ebookPrice = pricing.ebook[marketplace.id];
+        // Without an exported EPUB the delivery cost is unknown; 1 MB is a typical text-only book.
+        if (ebookPrice !== undefined && computeEbookRoyalty(marketplace, ebookPrice, pricing.ebookRoyaltyPlan, project.epubFileSize || 1024 * 1024).royalty === null) {
+          issues.push({ severity: 'error', tab: 'metadata', messageKey: 'ebookPriceOutOfRange', params: { marketplace: marketplace.domain, plan: pricing.ebookRoyaltyPlan } });
+        }
+        const paperbackPrice = pricing.paperback[marketplace.id];
+        if (paperbackPrice !== undefined && project.interiorPageCount
+          && computePaperbackRoyalty(marketplace, paperbackPrice, project.interiorPageCount, project.pageSize, project.coverPaper || 'white').royalty === null) {
+          issues.push({ severity: 'error', tab: 'metadata', messageKey: 'paperbackPriceTooLow', params: { marketplace: marketplace.domain } });
+        }
+      });
+      return issues;
+    },
+  },
+];
+
+/**
+ * Runs every preflight rule against the project. Errors are listed before warnings.
+ */
+export const runPreflight = (input: PreflightInput): PreflightIssue[] => {
+  const issues = PREFLIGHT_RULES.flatMap(rule => rule.check(input).map(issue => ({ ...issue, ruleId: rule.id })));
+  return [...issues.filter(issue => issue.severity === 'error'), ...issues.filter(issue => issue.severity === 'warning')];
+};
+
+export const loadCoverSize = (dataUrl: string): Promise<{ width: number; height: number } | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => resolve(null);
+    img.src = dataUrl;
+  });
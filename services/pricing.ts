@@ -0,0 +1,175 @@
+import type { MarketplaceId, EbookRoyaltyPlan, PageSize, PaperType } from '../types';
+
+// --- KDP royalty and printing tables (June 2023 price update) ---
+
+interface PrintCostTable {
+  // Books up to this many pages pay a flat cost instead of fixed + per page.
+  flatMaxPages: number;
+  flatCost: number;
+  fixedCost: number;
+  perPage: number;
+}
+
+export interface Marketplace {
+  id: MarketplaceId;
+  domain: string;
+  currency: string;
+  // VAT included in the list price; royalties are computed on the price without it.
+  ebookVat: number;
+  paperbackVat: number;
+  ebook70Range: { min: number; max: number };
+  // Minimum eBook price on the 35% plan by file size: up to 3 MB, up to 10 MB, above.
+  ebook35Minimum: [number, number, number];
+  ebookMaxPrice: number;
+  deliveryCostPerMb: number;
+  ebookSuggested: { maxPages: number; price: number }[];
+  print: {
+    regular: { black: PrintCostTable; color: PrintCostTable };
+    large: { black: PrintCostTable; color: PrintCostTable };
+  };
+}
+
+const EU_PRINT = {
+  regular: {
+    black: { flatMaxPages: 108, flatCost: 2.05, fixedCost: 0.75, perPage: 0.012 },
+    color: { flatMaxPages: 40, flatCost: 3.65, fixedCost: 0.75, perPage: 0.06 },
+  },
+  large: {
+    black: { flatMaxPages: 108, flatCost: 2.35, fixedCost: 0.75, perPage: 0.014 },
+    color: { flatMaxPages: 40, flatCost: 4.3, fixedCost: 0.75, perPage: 0.074 },
+  },
+};
+const EU_EBOOK = {
+  ebook70Range: { min: 2.69, max: 9.99 },
+  ebook35Minimum: [0.99, 1.99, 2.99] as [number, number, number],
+  ebookMaxPrice: 215,
+  deliveryCostPerMb: 0.12,
+  ebookSuggested: [{ maxPages: 100, price: 2.99 }, { maxPages: 250, price: 4.99 }, { maxPages: Infinity, price: 6.99 }],
+};
+
+export const MARKETPLACES: Marketplace[] = [
+  {
+    id: 'US', domain: 'amazon.com', currency: 'USD', ebookVat: 0, paperbackVat: 0,
+    ebook70Range: { min: 2.99, max: 9.99 }, ebook35Minimum: [0.99, 1.99, 2.99], ebookMaxPrice: 200, deliveryCostPerMb: 0.15,
+    ebookSuggested: [{ maxPages: 100, price: 2.99 }, { maxPages: 250, price: 4.99 }, { maxPages: Infinity, price: 6.99 }],
+    print: {
+      regular: {
+        black: { flatMaxPages: 108, flatCost: 2.3, fixedCost: 1, perPage: 0.012 },
+        color: { flatMaxPages: 40, flatCost: 3.65, fixedCost: 1, perPage: 0.07 },
+      },
+      large: {
+        black: { flatMaxPages: 108, flatCost: 2.84, fixedCost: 1, perPage: 0.017 },
+        color: { flatMaxPages: 40, flatCost: 4.2, fixedCost: 1, perPage: 0.08 },
+      },
+    },
+  },
+  {
+    id: 'UK', domain: 'amazon.co.uk', currency: 'GBP', ebookVat: 0, paperbackVat: 0,
+    ebook70Range: { min: 1.77, max: 9.99 }, ebook35Minimum: [0.77, 1.49, 1.99], ebookMaxPrice: 150, deliveryCostPerMb: 0.1,
+    ebookSuggested: [{ maxPages: 100, price: 1.99 }, { maxPages: 250, price: 3.99 }, { maxPages: Infinity, price: 5.99 }],
+    print: {
+      regular: {
+        black: { flatMaxPages: 108, flatCost: 1.93, fixedCost: 0.85, perPage: 0.01 },
+        color: { flatMaxPages: 40, flatCost: 3.3, fixedCost: 0.85, perPage: 0.053 },
+      },
+      large: {
+        black: { flatMaxPages: 108, flatCost: 2.15, fixedCost: 0.85, perPage: 0.012 },
+        color: { flatMaxPages: 40, flatCost: 3.9, fixedCost: 0.85, perPage: 0.066 },
+      },
+    },
+  },
+  { id: 'DE', domain: 'amazon.de', currency: 'EUR', ebookVat: 0.07, paperbackVat: 0.07, ...EU_EBOOK, print: EU_PRINT },
+  { id: 'FR', domain: 'amazon.fr', currency: 'EUR', ebookVat: 0.055, paperbackVat: 0.055, ...EU_EBOOK, print: EU_PRINT },
+  { id: 'ES', domain: 'amazon.es', currency: 'EUR', ebookVat: 0.04, paperbackVat: 0.04, ...EU_EBOOK, print: EU_PRINT },
+  { id: 'IT', domain: 'amazon.it', currency: 'EUR', ebookVat: 0.04, paperbackVat: 0.04, ...EU_EBOOK, print: EU_PRINT },
+];
+
+const PAPERBACK_ROYALTY_RATE = 0.6;
+// Trim sizes wider than 6.12" or taller than 9" are printed at the large-trim cost.
+const LARGE_TRIM: { [key in PageSize]: boolean } = { '6x9': false, '7x10': true };
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+// List prices end in .99.
+const charmPriceAtLeast = (amount: number) => Math.max(0.99, Math.ceil(amount + 0.01) - 0.01);
+
+const withoutVat = (price: number, vat: number) => price / (1 + vat);
+
+export const formatMoney = (amount: number, currency: string, locale: string) =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+
+// --- eBook ---
+
+export interface EbookRoyalty {
+  royalty: number | null; // null when the price is not allowed on the chosen plan
+  deliveryCost: number;
+  minPrice: number;
+  maxPrice: number;
+}
+
+export const ebookDeliveryCost = (marketplace: Marketplace, fileSizeBytes: number) =>
+  roundMoney(Math.max(0.01, (fileSizeBytes / (1024 * 1024)) * marketplace.deliveryCostPerMb));
+
+/**
+ * Royalty for one eBook sale. On the 70% plan the delivery cost is deducted and the price must be
+ * inside the marketplace's 70% range; on the 35% plan the minimum price depends on the file size.
+ */
+export const computeEbookRoyalty = (
+  marketplace: Marketplace,
+  price: number,
+  plan: EbookRoyaltyPlan,
+  fileSizeBytes: number,
+): EbookRoyalty => {
+  const deliveryCost = plan === 70 ? ebookDeliveryCost(marketplace, fileSizeBytes) : 0;
+  const sizeMb = fileSizeBytes / (1024 * 1024);
+  const minPrice = plan === 70
+    ? marketplace.ebook70Range.min
+    : marketplace.ebook35Minimum[sizeMb <= 3 ? 0 : sizeMb <= 10 ? 1 : 2];
+  const maxPrice = plan === 70 ? marketplace.ebook70Range.max : marketplace.ebookMaxPrice;
+  if (!(price >= minPrice && price <= maxPrice)) return { royalty: null, deliveryCost, minPrice, maxPrice };
+  const net = withoutVat(price, marketplace.ebookVat);
+  const royalty = plan === 70 ? 0.7 * (net - deliveryCost) : 0.35 * net;
+  return { royalty: roundMoney(Math.max(0, royalty)), deliveryCost, minPrice, maxPrice };
+};
+
+export const suggestEbookPrice = (marketplace: Marketplace, pageCount: number, plan: EbookRoyaltyPlan, fileSizeBytes: number): number => {
+  const tier = marketplace.ebookSuggested.find(row => pageCount <= row.maxPages)!;
+  const { minPrice, maxPrice } = computeEbookRoyalty(marketplace, tier.price, plan, fileSizeBytes);
+  return Math.min(Math.max(tier.price, minPrice), maxPrice);
+};
+
+// --- Paperback ---
+
+export interface PaperbackRoyalty {
+  printingCost: number;
+  // Lowest list price KDP accepts: the one where the royalty is zero.
+  minPrice: number;
+  royalty: number | null; // null below the minimum price
+}
+
+export const paperbackPrintingCost = (marketplace: Marketplace, pageCount: number, pageSize: PageSize, paper: PaperType) => {
+  const table = marketplace.print[LARGE_TRIM[pageSize] ? 'large' : 'regular'][paper === 'color' ? 'color' : 'black'];
+  return roundMoney(pageCount <= table.flatMaxPages ? table.flatCost : table.fixedCost + pageCount * table.perPage);
+};
+
+export const computePaperbackRoyalty = (
+  marketplace: Marketplace,
+  price: number,
+  pageCount: number,
+  pageSize: PageSize,
+  paper: PaperType,
+): PaperbackRoyalty => {
+  const printingCost = paperbackPrintingCost(marketplace, pageCount, pageSize, paper);
+  const minPrice = roundMoney((printingCost / PAPERBACK_ROYALTY_RATE) * (1 + marketplace.paperbackVat));
+  if (!(price >= minPrice)) return { printingCost, minPrice, royalty: null };
+  const royalty = PAPERBACK_ROYALTY_RATE * withoutVat(price, marketplace.paperbackVat) - printingCost;
+  return { printingCost, minPrice, royalty: roundMoney(Math.max(0, royalty)) };
+};
+
+/**
+ * Suggests the lowest .99 price that earns at least as much as the book costs to print.
+ */
+export const suggestPaperbackPrice = (marketplace: Marketplace, pageCount: number, pageSize: PageSize, paper: PaperType): number => {
+  const printingCost = paperbackPrintingCost(marketplace, pageCount, pageSize, paper);
+  const target = ((2 * printingCost) / PAPERBACK_ROYALTY_RATE) * (1 + marketplace.paperbackVat);
+  return charmPriceAtLeast(target);
+};
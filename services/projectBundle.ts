@@ -0,0 +1,235 @@
+import type { Project, Series, AuthorProfile } from '../types';
+import {
+  mapImageFields,
+  dataUrlToBlob,
+  blobToDataUrl,
+  loadAudioAssets,
+  listSeries,
+  listAuthorProfiles,
+  saveSeriesToStore,
+  saveAuthorProfileToStore,
+} from './projectStore';
+import { migrateProject, ProjectMigrationError } from './projectSchema';
+
+// A .bookforge file is a zip archive: manifest.json holds the project, binary and long text fields
+// are stored as separate files and referenced from the manifest with this prefix.
+const BUNDLE_FORMAT = 'bookforge-bundle';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.bookforge';
+const MANIFEST_FILE = 'manifest.json';
+const FILE_REF_PREFIX = 'bundle-file:';
+
+const MANUSCRIPT_FIELDS = ['text', 'analysis', 'regenerated', 'highlighted', 'changeList'] as const;
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  exportedAt: string;
+  project: Project;
+  audio: { name: string; file: string }[];
+  mimeTypes: { [file: string]: string };
+  // The shared records the project points to, so its series and pen name survive a move to another browser.
+  series?: Series;
+  authorProfile?: AuthorProfile;
+}
+
+export type ProjectBundleErrorReason = 'libraryMissing' | 'invalidBundle' | 'newerVersion';
+
+export class ProjectBundleError extends Error {
+  constructor(public reason: ProjectBundleErrorReason, message: string) {
+    super(message);
+    this.name = 'ProjectBundleError';
+  }
+}
+
+export interface ImportedBundle {
+  project: Project;
+  audio: Map<string, Blob>;
+  series?: Series;
+  authorProfile?: AuthorProfile;
+}
+
+const getJSZip = () => {
+  const JSZip = (window as any).JSZip;
+  if (!JSZip) {
+    throw new ProjectBundleError('libraryMissing', 'JSZip library not loaded. Please check your internet connection and try again.');
+  }
+  return JSZip;
+};
+
+const extensionForMimeType = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1] || 'bin';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '');
+};
+
+// Audio names come from chapter titles; keep them readable but safe as zip paths.
+const safeFileName = (name: string): string => name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'audio';
+
+/**
+ * Packs a project and its stored audio into a single .bookforge zip.
+ */
+export const exportProjectBundle = async (project: Project): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const zip = new JSZip();
+  const mimeTypes: BundleManifest['mimeTypes'] = {};
+
+  // Identical images (e.g. the selected cover and its archived copy) are written once.
+  const imagePaths = new Map<string, string>();
+  const bundledProject = await mapImageFields(project, async value => {
+    if (!value.startsWith('data:')) return value;
+    let path = imagePaths.get(value);
+    if (!path) {
+      const blob = dataUrlToBlob(value);
+      path = `images/image-${imagePaths.size + 1}.${extensionForMimeType(blob.type)}`;
+      imagePaths.set(value, path);
+      zip.file(path, blob);
+      mimeTypes[path] = blob.type;
+    }
+    return `${FILE_REF_PREFIX}${path}`;
+  });
+
+  if (project.manuscript) {
+    const manuscript = { ...project.manuscript };
+    MANUSCRIPT_FIELDS.forEach(field => {
+      const value = manuscript[field];
+      if (!value) return;
+      const path = `manuscript/${field}.txt`;
+      zip.file(path, value);
+      manuscript[field] = `${FILE_REF_PREFIX}${path}`;
+    });
+    bundledProject.manuscript = manuscript;
+  }
+
+  const audio: BundleManifest['audio'] = [];
+  const audioAssets = await loadAudioAssets(project.id);
+  audioAssets.forEach((blob, name) => {
+    const file = `audio/${audio.length + 1}-${safeFileName(name)}.${extensionForMimeType(blob.type || 'audio/wav')}`;
+    zip.file(file, blob);
+    mimeTypes[file] = blob.type;
+    audio.push({ name, file });
+  });
+
+  const series = project.seriesId ? (await listSeries()).find(item => item.id === project.seriesId) : undefined;
+  const authorProfile = project.authorProfileId ? (await listAuthorProfiles()).find(item => item.id === project.authorProfileId) : undefined;
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: bundledProject,
+    audio,
+    mimeTypes,
+    ...(series ? { series } : {}),
+    ...(authorProfile ? { authorProfile } : {}),
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+const generateProjectId = () => `id_${new Date().getTime()}_${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Reads a .bookforge zip back into a project. If `existingIds` already contains the bundled
+ * project's id, the project gets a new id so it never overwrites a project in the archive.
+ */
+export const importProjectBundle = async (file: Blob, existingIds: string[]): Promise<ImportedBundle> => {
+  const JSZip = getJSZip();
+  let zip: any;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (error) {
+    throw new ProjectBundleError('invalidBundle', 'The file is not a valid zip archive.');
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new ProjectBundleError('invalidBundle', 'The bundle has no manifest.');
+  }
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch (error) {
+    throw new ProjectBundleError('invalidBundle', 'The bundle manifest is not valid JSON.');
+  }
+  if (manifest?.format !== BUNDLE_FORMAT || typeof manifest.bundleVersion !== 'number' || !manifest.project?.id) {
+    throw new ProjectBundleError('invalidBundle', 'The file is not a BookForge project bundle.');
+  }
+  if (manifest.bundleVersion > BUNDLE_VERSION) {
+    throw new ProjectBundleError('newerVersion', `Bundle version ${manifest.bundleVersion} is newer than the supported version ${BUNDLE_VERSION}.`);
+  }
+
+  const readEntry = (path: string) => {
+    const entry = zip.file(path);
+    if (!entry) {
+      throw new ProjectBundleError('invalidBundle', `Missing file in bundle: ${path}`);
+    }
+    return entry;
+  };
+  // JSZip returns untyped blobs; the manifest records the original MIME type of each file.
+  const readBlob = async (path: string): Promise<Blob> =>
+    new Blob([await readEntry(path).async('blob')], { type: manifest.mimeTypes?.[path] || '' });
+
+  // The bundle format and the project schema are versioned separately: an old bundle may carry an old project.
+  let bundledProject: Project;
+  try {
+    bundledProject = migrateProject(manifest.project);
+  } catch (error) {
+    if (!(error instanceof ProjectMigrationError)) throw error;
+    throw new ProjectBundleError(error.reason === 'newerVersion' ? 'newerVersion' : 'invalidBundle', error.message);
+  }
+
+  const project = await mapImageFields(bundledProject, async value =>
+    value.startsWith(FILE_REF_PREFIX) ? blobToDataUrl(await readBlob(value.slice(FILE_REF_PREFIX.length))) : value
+  );
+
+  if (project.manuscript) {
+    const manuscript = { ...project.manuscript };
+    for (const field of MANUSCRIPT_FIELDS) {
+      const value = manuscript[field];
+      if (value?.startsWith(FILE_REF_PREFIX)) {
+        manuscript[field] = await readEntry(value.slice(FILE_REF_PREFIX.length)).async('string');
+      }
+    }
+    project.manuscript = manuscript;
+  }
+
+  const audio = new Map<string, Blob>();
+  for (const { name, file: path } of manifest.audio || []) {
+    audio.set(name, await readBlob(path));
+  }
+
+  if (existingIds.includes(project.id)) {
+    project.id = generateProjectId();
+  }
+  project.lastSaved = new Date().toISOString();
+
+  // Bundles made before the records were included only keep references that resolve on this browser.
+  const series = manifest.series?.id === project.seriesId ? manifest.series : undefined;
+  const authorProfile = manifest.authorProfile?.id === project.authorProfileId ? manifest.authorProfile : undefined;
+  return { project, audio, series, authorProfile };
+};
+
+/**
+ * Stores the series and pen name that came with an imported project, unless this browser already has
+ * a newer copy. Returns the project without the references neither the bundle nor the store can resolve.
+ */
+export const saveBundledLibraryRecords = async ({ project, series, authorProfile }: ImportedBundle): Promise<Project> => {
+  const [storedSeries, storedProfiles] = await Promise.all([listSeries(), listAuthorProfiles()]);
+  const isNewer = (record: { lastModified: string }, stored?: { lastModified: string }) =>
+    !stored || record.lastModified > stored.lastModified;
+
+  const resolved = { ...project };
+  if (series && isNewer(series, storedSeries.find(item => item.id === series.id))) {
+    await saveSeriesToStore(series);
+  } else if (!series && resolved.seriesId && !storedSeries.some(item => item.id === resolved.seriesId)) {
+    delete resolved.seriesId;
+    delete resolved.seriesVolume;
+  }
+  if (authorProfile && isNewer(authorProfile, storedProfiles.find(item => item.id === authorProfile.id))) {
+    await saveAuthorProfileToStore(authorProfile);
+  } else if (!authorProfile && resolved.authorProfileId && !storedProfiles.some(item => item.id === resolved.authorProfileId)) {
+    delete resolved.authorProfileId;
+  }
+  return resolved;
+};
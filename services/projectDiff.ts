@@ -0,0 +1,94 @@
+import type { Project, OutlineNode } from '../types';
+import { flattenOutline, outlineChapters } from './outline';
+
+export interface FieldChange {
+  field: string; // localisation key suffix, e.g. 'bookTitle' -> historyTab.fields.bookTitle
+  kind: 'text' | 'image';
+  before: string;
+  after: string;
+}
+
+export type ChapterChangeStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface ChapterChange {
+  chapterId: string;
+  title: string;
+  status: ChapterChangeStatus;
+  wordsBefore: number;
+  wordsAfter: number;
+}
+
+export interface ProjectDiff {
+  fields: FieldChange[];
+  chapters: ChapterChange[];
+}
+
+export const countWords = (text: string | undefined | null): number => {
+  if (!text) return 0;
+  return text.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length;
+};
+
+const chapterWords = (chapter: OutlineNode): number =>
+  flattenOutline([chapter]).reduce((acc, item) => acc + countWords(item.node.content), 0);
+
+const chapterSignature = (chapter: OutlineNode): string =>
+  JSON.stringify(flattenOutline([chapter]).map(item => [item.node.id, item.level, item.node.title, item.node.content]));
+
+// Each entry turns a project into the comparable text of one field.
+const TEXT_FIELDS: { field: string; read: (p: Project) => string }[] = [
+  { field: 'projectTitle', read: p => p.projectTitle },
+  { field: 'bookTitle', read: p => p.bookTitle },
+  { field: 'subtitle', read: p => p.subtitle },
+  { field: 'author', read: p => p.author },
+  { field: 'description', read: p => p.description },
+  { field: 'keywords', read: p => (p.metadataKeywords || []).map(k => k.keyword).join(', ') },
+  { field: 'categories', read: p => (p.categories || []).join(', ') },
+  { field: 'coverTagline', read: p => p.coverTagline || '' },
+  { field: 'contentBlocks', read: p => (p.contentBlocks || []).map(b => b.title).join('\n') },
+  { field: 'glossary', read: p => (p.glossary || []).map(g => g.term).join(', ') },
+  { field: 'manuscriptText', read: p => p.manuscript?.text || '' },
+  { field: 'manuscriptAnalysis', read: p => p.manuscript?.analysis || '' },
+  { field: 'manuscriptRegenerated', read: p => p.manuscript?.regenerated || '' },
+];
+
+/**
+ * Compares two versions of a project field by field and chapter by chapter.
+ * `before` is usually a snapshot and `after` the current project.
+ */
+export const diffProjects = (before: Project, after: Project): ProjectDiff => {
+  const fields: FieldChange[] = TEXT_FIELDS
+    .map(({ field, read }) => ({ field, kind: 'text' as const, before: read(before), after: read(after) }))
+    .filter(change => change.before !== change.after);
+
+  if ((before.coverImage || '') !== (after.coverImage || '')) {
+    fields.push({ field: 'coverImage', kind: 'image', before: before.coverImage || '', after: after.coverImage || '' });
+  }
+
+  // Compared chapter by chapter, wherever the chapter sits among the parts.
+  const beforeChapters = outlineChapters(before.bookStructure?.chapters || []).map(item => item.chapter);
+  const afterChapters = outlineChapters(after.bookStructure?.chapters || []).map(item => item.chapter);
+  const beforeById = new Map(beforeChapters.map(ch => [ch.id, ch]));
+  const afterIds = new Set(afterChapters.map(ch => ch.id));
+
+  const chapters: ChapterChange[] = afterChapters.map(ch => {
+    const old = beforeById.get(ch.id);
+    return {
+      chapterId: ch.id,
+      title: ch.title,
+      status: !old ? 'added' : chapterSignature(old) === chapterSignature(ch) ? 'unchanged' : 'modified',
+      wordsBefore: old ? chapterWords(old) : 0,
+      wordsAfter: chapterWords(ch),
+    };
+  });
+  beforeChapters
+    .filter(ch => !afterIds.has(ch.id))
+    .forEach(ch => chapters.push({
+      chapterId: ch.id,
+      title: ch.title,
+      status: 'removed',
+      wordsBefore: chapterWords(ch),
+      wordsAfter: 0,
+    }));
+
+  return { fields, chapters };
+};
@@ -0,0 +1,218 @@
+import type { Project } from '../types';
+
+/**
+ * Version of the persisted Project shape. Bump it together with a new entry in MIGRATIONS
+ * whenever a change to `Project` needs existing archives, snapshots or bundles to be upgraded.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export type ProjectMigrationErrorReason = 'notAnObject' | 'newerVersion' | 'migrationFailed' | 'invalid';
+
+export class ProjectMigrationError extends Error {
+  constructor(public reason: ProjectMigrationErrorReason, message: string, public problems: string[] = []) {
+    super(message);
+    this.name = 'ProjectMigrationError';
+  }
+}
+
+type RawProject = { [key: string]: any };
+
+interface ProjectMigration {
+  // The schema version the project has after this step.
+  version: number;
+  description: string;
+  migrate: (project: RawProject) => RawProject;
+}
+
+/**
+ * Returns a project with every required field set to its initial value.
+ */
+export const createDefaultProject = (id: string, title: string): Project => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  id,
+  projectTitle: title,
+  bookTitle: '',
+  bookLanguage: 'it',
+  titlesArchive: [],
+  topic: title,
+  subtitle: '',
+  subtitlesArchive: [],
+  author: '',
+  authorsArchive: [],
+  description: '',
+  descriptionsArchive: [],
+  metadataKeywords: [],
+  categories: [],
+  categoriesArchive: [],
+  researchData: null,
+  selectedSources: [],
+  bookStructure: null,
+  lastSaved: new Date().toISOString(),
+  layoutTemplate: 'Classic',
+  pageSize: '6x9',
+  coverImage: null,
+  coverOptions: [],
+  coverPrompts: [],
+  archivedCovers: [],
+  contentBlocks: [],
+  glossary: [],
+  coverBonusCount: 0,
+  titleFontSize: 60,
+  subtitleFontSize: 30,
+  authorFontSize: 18,
+  bonusStickerShape: 'star',
+  coverTagline: '',
+});
+
+const asArray = (value: unknown) => (Array.isArray(value) ? value : []);
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+// Outline nodes nest to any depth: parts hold chapters, chapters hold sections and so on.
+const normalizeOutlineNode = (node: RawProject): RawProject => ({
+  ...node,
+  title: asString(node.title),
+  content: asString(node.content),
+  subchapters: asArray(node.subchapters).map(normalizeOutlineNode),
+});
+
+// Ordered oldest to newest; a project runs every step whose version is above its own.
+const MIGRATIONS: ProjectMigration[] = [
+  {
+    version: 1,
+    description: 'Fill fields missing from unversioned archives and normalise the book structure',
+    migrate: project => {
+      const defaults = createDefaultProject(asString(project.id), asString(project.projectTitle));
+      const migrated: RawProject = { ...defaults, ...project };
+      // Fields that older versions saved as undefined or null instead of omitting them.
+      (Object.keys(defaults) as (keyof Project)[]).forEach(key => {
+        if (migrated[key] === undefined || (migrated[key] === null && defaults[key] !== null)) {
+          migrated[key] = defaults[key];
+        }
+      });
+      if (migrated.bookStructure) {
+        migrated.bookStructure = {
+          ...migrated.bookStructure,
+          chapters: asArray(migrated.bookStructure.chapters).map((chapter: RawProject) => ({
+            ...chapter,
+            title: asString(chapter.title),
+            content: asString(chapter.content),
+            subchapters: asArray(chapter.subchapters).map((sub: RawProject) => ({
+              ...sub,
+              title: asString(sub.title),
+              content: asString(sub.content),
+            })),
+          })),
+        };
+      }
+      migrated.contentBlocks = asArray(migrated.contentBlocks).map((block: RawProject) => ({
+        ...block,
+        textContent: asString(block.textContent),
+        description: asString(block.description),
+        imageUrl: block.imageUrl || null,
+      }));
+      return migrated;
+    },
+  },
+  {
+    version: 2,
+    description: 'Give every outline node a list of child nodes, for parts and nested sections',
+    migrate: project => project.bookStructure
+      ? { ...project, bookStructure: { ...project.bookStructure, chapters: asArray(project.bookStructure.chapters).map(normalizeOutlineNode) } }
+      : project,
+  },
+  {
+    version: 3,
+    description: 'Record the language of the book; earlier projects were always written in Italian',
+    migrate: project => ({ ...project, bookLanguage: typeof project.bookLanguage === 'string' ? project.bookLanguage : 'it' }),
+  },
+];
+
+const STRING_FIELDS: (keyof Project)[] = ['id', 'projectTitle', 'bookTitle', 'bookLanguage', 'topic', 'subtitle', 'author', 'description', 'lastSaved', 'coverTagline'];
+const ARRAY_FIELDS: (keyof Project)[] = [
+  'titlesArchive', 'subtitlesArchive', 'authorsArchive', 'descriptionsArchive', 'metadataKeywords', 'categories',
+  'categoriesArchive', 'selectedSources', 'coverOptions', 'coverPrompts', 'archivedCovers', 'contentBlocks', 'glossary',
+];
+const NUMBER_FIELDS: (keyof Project)[] = ['coverBonusCount', 'titleFontSize', 'subtitleFontSize', 'authorFontSize'];
+
+const hasValidOutline = (nodes: RawProject[]): boolean =>
+  nodes.every(node => node && typeof node.id === 'string' && Array.isArray(node.subchapters) && hasValidOutline(node.subchapters));
+
+/**
+ * Checks the shape the tabs rely on. Returns a list of problems, empty when the project is usable.
+ */
+export const validateProject = (project: RawProject): string[] => {
+  const problems: string[] = [];
+  if (!project.id) problems.push('id is missing');
+  STRING_FIELDS.forEach(field => {
+    if (typeof project[field] !== 'string') problems.push(`${field} is not a string`);
+  });
+  ARRAY_FIELDS.forEach(field => {
+    if (!Array.isArray(project[field])) problems.push(`${field} is not a list`);
+  });
+  NUMBER_FIELDS.forEach(field => {
+    if (typeof project[field] !== 'number' || Number.isNaN(project[field])) problems.push(`${field} is not a number`);
+  });
+  if (project.bookStructure !== null) {
+    if (!Array.isArray(project.bookStructure?.chapters)) {
+      problems.push('bookStructure.chapters is not a list');
+    } else {
+      project.bookStructure.chapters.forEach((chapter: RawProject, index: number) => {
+        if (!chapter || typeof chapter.id !== 'string') problems.push(`chapter ${index + 1} has no id`);
+        else if (!Array.isArray(chapter.subchapters)) problems.push(`chapter ${index + 1} has no subchapter list`);
+        else if (!hasValidOutline(chapter.subchapters)) problems.push(`chapter ${index + 1} has a subchapter without id or child list`);
+      });
+    }
+    (['frontMatter', 'backMatter'] as const).forEach(field => {
+      const sections = project.bookStructure?.[field];
+      if (sections === undefined) return;
+      if (!Array.isArray(sections)) problems.push(`bookStructure.${field} is not a list`);
+      else if (sections.some((section: RawProject) => !section || typeof section.id !== 'string' || typeof section.type !== 'string')) {
+        problems.push(`bookStructure.${field} contains an invalid section`);
+      }
+    });
+  }
+  if (Array.isArray(project.contentBlocks) && project.contentBlocks.some((block: RawProject) => !block || typeof block.id !== 'string')) {
+    problems.push('contentBlocks contains an entry without id');
+  }
+  if (Array.isArray(project.glossary) && project.glossary.some((term: RawProject) => !term || typeof term.id !== 'string' || typeof term.term !== 'string')) {
+    problems.push('glossary contains an invalid term');
+  }
+  return problems;
+};
+
+/**
+ * Upgrades a persisted project of any earlier schema version to CURRENT_SCHEMA_VERSION and
+ * validates the result. Throws a ProjectMigrationError when the project cannot be used.
+ */
+export const migrateProject = (raw: unknown): Project => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ProjectMigrationError('notAnObject', 'The stored project is not an object.');
+  }
+  let project = raw as RawProject;
+  // Projects saved before versioning was introduced have no schemaVersion.
+  const fromVersion = typeof project.schemaVersion === 'number' ? project.schemaVersion : 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ProjectMigrationError(
+      'newerVersion',
+      `Project schema version ${fromVersion} is newer than the supported version ${CURRENT_SCHEMA_VERSION}.`
+    );
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    try {
+      project = { ...migration.migrate(project), schemaVersion: migration.version };
+    } catch (error) {
+      throw new ProjectMigrationError(
+        'migrationFailed',
+        `Migration to schema version ${migration.version} (${migration.description}) failed: ${error}`
+      );
+    }
+  }
+
+  const problems = validateProject(project);
+  if (problems.length > 0) {
+    throw new ProjectMigrationError('invalid', `The project is not valid: ${problems.join('; ')}.`, problems);
+  }
+  return project as Project;
+};
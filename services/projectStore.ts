@@ -0,0 +1,567 @@
+import type { Project, ProjectSummary, ProjectSnapshotInfo, SnapshotKind, Series, AuthorProfile, Job, PromptOverride } from '../types';
+import { migrateProject, ProjectMigrationError } from './projectSchema';
+
+const DB_NAME = 'bookforge-ai';
+const DB_VERSION = 5;
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'projectSummaries';
+const ASSETS_STORE = 'assets';
+// Snapshot metadata and snapshot content are split so the history list never loads full projects.
+const SNAPSHOTS_STORE = 'snapshots';
+const SNAPSHOT_DATA_STORE = 'snapshotData';
+// Records shared by several projects.
+const SERIES_STORE = 'series';
+const AUTHOR_PROFILES_STORE = 'authorProfiles';
+// State of queued and running AI jobs, so they resume after a reload.
+const JOBS_STORE = 'jobs';
+// Prompt templates changed for every project; per-project ones are stored with the project.
+const PROMPT_OVERRIDES_STORE = 'promptOverrides';
+
+// Manual snapshots are kept until deleted; automatic ones are trimmed to this many per project.
+const MAX_AUTO_SNAPSHOTS = 30;
+
+// Asset fields are stored as references of this form; the binary data lives in the assets store.
+const ASSET_REF_PREFIX = 'idb-asset:';
+
+interface AssetRecord {
+  key: string;
+  projectId: string;
+  blob: Blob;
+}
+
+interface AudioAssetRecord extends AssetRecord {
+  // What was sent to the speech model to make the audio: the same text and voices are never voiced twice.
+  source?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          const assets = db.createObjectStore(ASSETS_STORE, { keyPath: 'key' });
+          assets.createIndex('projectId', 'projectId');
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+          snapshots.createIndex('projectId', 'projectId');
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_DATA_STORE)) {
+          db.createObjectStore(SNAPSHOT_DATA_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SERIES_STORE)) {
+          db.createObjectStore(SERIES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(AUTHOR_PROFILES_STORE)) {
+          db.createObjectStore(AUTHOR_PROFILES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(JOBS_STORE)) {
+          const jobs = db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+          jobs.createIndex('projectId', 'projectId');
+        }
+        if (!db.objectStoreNames.contains(PROMPT_OVERRIDES_STORE)) {
+          db.createObjectStore(PROMPT_OVERRIDES_STORE, { keyPath: 'templateId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+// --- Asset helpers ---
+
+const isDataUrl = (value: string | null | undefined): value is string => !!value && value.startsWith('data:');
+
+// FNV-1a over the whole string: a short key for records that store their source and compare it on read.
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(36)}${value.length.toString(36)}`;
+};
+
+// SHA-256 of the whole data URL: identical images (e.g. the selected cover and its option) share one
+// record, and images are read back by key alone, so two different ones must never share it.
+const digestString = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const imageAssetKey = async (projectId: string, dataUrl: string) => `${projectId}/image/${await digestString(dataUrl)}`;
+const audioAssetKey = (projectId: string, name: string) => `${projectId}/audio/${name}`;
+const speechChunkPrefix = (projectId: string) => `${projectId}/speech/`;
+const speechChunkKey = (projectId: string, source: string) => `${speechChunkPrefix(projectId)}${hashString(source)}`;
+
+// Every key starting with the prefix, for reading or deleting one kind of asset without the others.
+const keyPrefixRange = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  if (!header.includes(';base64')) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Applies `transform` to every field of the project that can hold an image.
+ */
+export const mapImageFields = async (project: Project, transform: (value: string) => Promise<string>): Promise<Project> => {
+  const mapValue = async (value: string | null) => (value ? transform(value) : value);
+  return {
+    ...project,
+    coverImage: await mapValue(project.coverImage),
+    coverOptions: await Promise.all((project.coverOptions || []).map(transform)),
+    archivedCovers: await Promise.all((project.archivedCovers || []).map(transform)),
+    contentBlocks: await Promise.all((project.contentBlocks || []).map(async block => ({
+      ...block,
+      imageUrl: await mapValue(block.imageUrl),
+    }))),
+  };
+};
+
+// The archive entry of a project, as listed without loading its content.
+export const toSummary = (project: Project): ProjectSummary => ({
+  id: project.id,
+  projectTitle: project.projectTitle,
+  lastSaved: project.lastSaved,
+  bookTitle: project.bookTitle,
+  seriesId: project.seriesId,
+  seriesVolume: project.seriesVolume,
+  authorProfileId: project.authorProfileId,
+});
+
+// --- Public API ---
+
+export const listProjectSummaries = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SUMMARIES_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(SUMMARIES_STORE).getAll() as IDBRequest<ProjectSummary[]>);
+};
+
+const collectAssetRefs = async (record: Project, refs: Set<string> = new Set()): Promise<Set<string>> => {
+  await mapImageFields(record, async value => {
+    if (value.startsWith(ASSET_REF_PREFIX)) refs.add(value.slice(ASSET_REF_PREFIX.length));
+    return value;
+  });
+  return refs;
+};
+
+/**
+ * Replaces image data URLs with asset references, returning the record and the assets it points to.
+ */
+const dehydrateProject = async (project: Project): Promise<{ record: Project; referenced: Map<string, string> }> => {
+  const referenced = new Map<string, string>();
+  const record = await mapImageFields(project, async value => {
+    if (!isDataUrl(value)) return value;
+    const key = await imageAssetKey(project.id, value);
+    referenced.set(key, value);
+    return `${ASSET_REF_PREFIX}${key}`;
+  });
+  return { record, referenced };
+};
+
+const writeMissingAssets = async (db: IDBDatabase, projectId: string, referenced: Map<string, string>): Promise<AssetRecord[]> => {
+  const existingKeys = await requestToPromise(
+    db.transaction(ASSETS_STORE, 'readonly').objectStore(ASSETS_STORE).index('projectId').getAllKeys(projectId)
+  ) as string[];
+  const existing = new Set(existingKeys);
+  const newAssets: AssetRecord[] = [];
+  referenced.forEach((dataUrl, key) => {
+    if (!existing.has(key)) newAssets.push({ key, projectId, blob: dataUrlToBlob(dataUrl) });
+  });
+  return newAssets;
+};
+
+/**
+ * Resolves asset references of a stored record back into data URLs. Must be called while `tx` is active.
+ */
+const hydrateProject = async (record: Project, tx: IDBTransaction): Promise<Project> => {
+  const assetStore = tx.objectStore(ASSETS_STORE);
+  const refs = await collectAssetRefs(record);
+  const assets = await Promise.all(
+    Array.from(refs).map(key => requestToPromise(assetStore.get(key) as IDBRequest<AssetRecord | undefined>))
+  );
+
+  const dataUrls = new Map<string, string>();
+  await Promise.all(assets.map(async asset => {
+    if (asset) dataUrls.set(asset.key, await blobToDataUrl(asset.blob));
+  }));
+
+  const project = await mapImageFields(record, async value =>
+    value.startsWith(ASSET_REF_PREFIX) ? dataUrls.get(value.slice(ASSET_REF_PREFIX.length)) || '' : value
+  );
+  // Drop references whose asset went missing rather than rendering broken images.
+  return {
+    ...project,
+    coverOptions: project.coverOptions.filter(Boolean),
+    archivedCovers: project.archivedCovers.filter(Boolean),
+  };
+};
+
+/**
+ * Loads a full project, upgrading it to the current schema and resolving asset references back
+ * into data URLs. Throws a ProjectMigrationError if the stored project cannot be used.
+ */
+export const loadProjectFromStore = async (projectId: string): Promise<Project | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, ASSETS_STORE], 'readonly');
+  const record = await requestToPromise(tx.objectStore(PROJECTS_STORE).get(projectId) as IDBRequest<Project | undefined>);
+  return record ? hydrateProject(migrateProject(record), tx) : null;
+};
+
+const writeProject = async (project: Project) => {
+  const { record, referenced } = await dehydrateProject(project);
+  const db = await openDatabase();
+  const newAssets = await writeMissingAssets(db, project.id, referenced);
+
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE, ASSETS_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(record);
+  tx.objectStore(SUMMARIES_STORE).put(toSummary(project));
+  const assetStore = tx.objectStore(ASSETS_STORE);
+  newAssets.forEach(asset => assetStore.put(asset));
+  await transactionDone(tx);
+};
+
+/**
+ * Removes images that neither the project nor any of its snapshots reference anymore.
+ * Audio is managed separately and is never touched here.
+ */
+const pruneUnusedImages = async (projectId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE, ASSETS_STORE], 'readwrite');
+  const refs = new Set<string>();
+  const record = await requestToPromise(tx.objectStore(PROJECTS_STORE).get(projectId) as IDBRequest<Project | undefined>);
+  if (record) await collectAssetRefs(record, refs);
+
+  const snapshotIds = await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).index('projectId').getAllKeys(projectId));
+  const snapshotData = await Promise.all(
+    snapshotIds.map(id => requestToPromise(tx.objectStore(SNAPSHOT_DATA_STORE).get(id) as IDBRequest<{ id: string; project: Project } | undefined>))
+  );
+  for (const data of snapshotData) {
+    if (data) await collectAssetRefs(data.project, refs);
+  }
+
+  const assetStore = tx.objectStore(ASSETS_STORE);
+  const assetKeys = await requestToPromise(assetStore.index('projectId').getAllKeys(projectId)) as string[];
+  assetKeys
+    .filter(key => key.startsWith(`${projectId}/image/`) && !refs.has(key))
+    .forEach(key => assetStore.delete(key));
+  await transactionDone(tx);
+};
+
+// Saves are serialised so a slow write can never overwrite a newer one.
+let saveQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Persists a project: text fields go to the projects store, images to the assets store.
+ */
+export const saveProjectToStore = (project: Project): Promise<void> => {
+  const save = saveQueue.then(() => writeProject(project));
+  saveQueue = save.catch(() => undefined);
+  return save;
+};
+
+export const deleteProjectFromStore = async (projectId: string): Promise<void> => {
+  await saveQueue;
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE, ASSETS_STORE, SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE, JOBS_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(projectId);
+  tx.objectStore(SUMMARIES_STORE).delete(projectId);
+  const assetStore = tx.objectStore(ASSETS_STORE);
+  const keys = await requestToPromise(assetStore.index('projectId').getAllKeys(projectId));
+  keys.forEach(key => assetStore.delete(key));
+  const snapshotStore = tx.objectStore(SNAPSHOTS_STORE);
+  const snapshotIds = await requestToPromise(snapshotStore.index('projectId').getAllKeys(projectId));
+  snapshotIds.forEach(id => {
+    snapshotStore.delete(id);
+    tx.objectStore(SNAPSHOT_DATA_STORE).delete(id);
+  });
+  const jobStore = tx.objectStore(JOBS_STORE);
+  const jobIds = await requestToPromise(jobStore.index('projectId').getAllKeys(projectId));
+  jobIds.forEach(id => jobStore.delete(id));
+  await transactionDone(tx);
+};
+
+// --- Snapshots ---
+
+export const listSnapshots = async (projectId: string): Promise<ProjectSnapshotInfo[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  const snapshots = await requestToPromise(
+    tx.objectStore(SNAPSHOTS_STORE).index('projectId').getAll(projectId) as IDBRequest<ProjectSnapshotInfo[]>
+  );
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * Stores a copy of the whole project. Images are shared with the project through the assets store,
+ * so a snapshot only costs the size of its text. Old automatic snapshots are trimmed afterwards.
+ */
+export const saveSnapshot = (project: Project, label: string, kind: SnapshotKind): Promise<ProjectSnapshotInfo> => {
+  const snapshot: ProjectSnapshotInfo = {
+    id: `snap_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    projectId: project.id,
+    createdAt: new Date().toISOString(),
+    label,
+    kind,
+  };
+
+  const save = saveQueue.then(async () => {
+    const { record, referenced } = await dehydrateProject(project);
+    const db = await openDatabase();
+    const newAssets = await writeMissingAssets(db, project.id, referenced);
+
+    const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE, ASSETS_STORE], 'readwrite');
+    tx.objectStore(SNAPSHOTS_STORE).put(snapshot);
+    tx.objectStore(SNAPSHOT_DATA_STORE).put({ id: snapshot.id, project: record });
+    newAssets.forEach(asset => tx.objectStore(ASSETS_STORE).put(asset));
+    await transactionDone(tx);
+
+    const autoSnapshots = (await listSnapshots(project.id)).filter(s => s.kind === 'auto');
+    await Promise.all(autoSnapshots.slice(MAX_AUTO_SNAPSHOTS).map(s => removeSnapshot(s.id)));
+    // Also clears covers discarded since the previous snapshot.
+    await pruneUnusedImages(project.id);
+    return snapshot;
+  });
+  saveQueue = save.then(() => undefined, () => undefined);
+  return save;
+};
+
+export const loadSnapshotProject = async (snapshotId: string): Promise<Project | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SNAPSHOT_DATA_STORE, ASSETS_STORE], 'readonly');
+  const data = await requestToPromise(
+    tx.objectStore(SNAPSHOT_DATA_STORE).get(snapshotId) as IDBRequest<{ id: string; project: Project } | undefined>
+  );
+  return data ? hydrateProject(migrateProject(data.project), tx) : null;
+};
+
+const removeSnapshot = async (snapshotId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite');
+  tx.objectStore(SNAPSHOTS_STORE).delete(snapshotId);
+  tx.objectStore(SNAPSHOT_DATA_STORE).delete(snapshotId);
+  await transactionDone(tx);
+};
+
+export const deleteSnapshot = (snapshot: ProjectSnapshotInfo): Promise<void> => {
+  const remove = saveQueue.then(async () => {
+    await removeSnapshot(snapshot.id);
+    await pruneUnusedImages(snapshot.projectId);
+  });
+  saveQueue = remove.catch(() => undefined);
+  return remove;
+};
+
+/**
+ * Stores a generated audio file (e.g. a chapter WAV) for a project under the given name, with the
+ * speech source it was made from when it should be reused for the same source.
+ */
+export const saveAudioAsset = async (projectId: string, name: string, blob: Blob, source?: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ASSETS_STORE, 'readwrite');
+  tx.objectStore(ASSETS_STORE).put({ key: audioAssetKey(projectId, name), projectId, blob, source } as AudioAssetRecord);
+  await transactionDone(tx);
+};
+
+/**
+ * The audio file stored under the name, if it was made from exactly this speech source.
+ */
+export const loadCachedAudioAsset = async (projectId: string, name: string, source: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise(
+    db.transaction(ASSETS_STORE, 'readonly').objectStore(ASSETS_STORE).get(audioAssetKey(projectId, name)) as IDBRequest<AudioAssetRecord | undefined>
+  );
+  return record && record.source === source ? record.blob : null;
+};
+
+export const deleteAudioAsset = async (projectId: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ASSETS_STORE, 'readwrite');
+  tx.objectStore(ASSETS_STORE).delete(audioAssetKey(projectId, name));
+  await transactionDone(tx);
+};
+
+/**
+ * Returns every audio file stored for a project, keyed by the name it was saved with.
+ */
+export const loadAudioAssets = async (projectId: string): Promise<Map<string, Blob>> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ASSETS_STORE, 'readonly');
+  const prefix = audioAssetKey(projectId, '');
+  const records = await requestToPromise(
+    tx.objectStore(ASSETS_STORE).getAll(keyPrefixRange(prefix)) as IDBRequest<AssetRecord[]>
+  );
+  return new Map(records.map(record => [record.key.slice(prefix.length), record.blob] as [string, Blob]));
+};
+
+/**
+ * Raw speech of one piece of text in one voice, as voiced for a chapter of the project. The source
+ * is stored with the audio, so a hash collision is a cache miss rather than the wrong words.
+ */
+export const loadSpeechChunk = async (projectId: string, source: string): Promise<ArrayBuffer | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise(
+    db.transaction(ASSETS_STORE, 'readonly').objectStore(ASSETS_STORE).get(speechChunkKey(projectId, source)) as IDBRequest<AudioAssetRecord | undefined>
+  );
+  return record && record.source === source ? record.blob.arrayBuffer() : null;
+};
+
+export const saveSpeechChunk = async (projectId: string, source: string, pcm: ArrayBuffer): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ASSETS_STORE, 'readwrite');
+  tx.objectStore(ASSETS_STORE).put({ key: speechChunkKey(projectId, source), projectId, blob: new Blob([pcm]), source } as AudioAssetRecord);
+  await transactionDone(tx);
+};
+
+/**
+ * Forgets what the project's audio was voiced from: the next generation of any chapter calls the
+ * speech model for every chunk. The chapters' audio files are kept.
+ */
+export const clearSpeechCache = async (projectId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ASSETS_STORE, 'readwrite');
+  const assetStore = tx.objectStore(ASSETS_STORE);
+  assetStore.delete(keyPrefixRange(speechChunkPrefix(projectId)));
+  const audio = await requestToPromise(assetStore.getAll(keyPrefixRange(audioAssetKey(projectId, ''))) as IDBRequest<AudioAssetRecord[]>);
+  audio.filter(record => record.source !== undefined).forEach(({ source, ...record }) => assetStore.put(record));
+  await transactionDone(tx);
+};
+
+// --- Series and author profiles ---
+
+const listRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+};
+
+const putRecord = async <T>(storeName: string, record: T): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).put(record);
+  await transactionDone(tx);
+};
+
+const deleteRecord = async (storeName: string, id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).delete(id);
+  await transactionDone(tx);
+};
+
+export const listSeries = () => listRecords<Series>(SERIES_STORE);
+export const saveSeriesToStore = (series: Series) => putRecord(SERIES_STORE, series);
+export const deleteSeriesFromStore = (seriesId: string) => deleteRecord(SERIES_STORE, seriesId);
+
+export const listAuthorProfiles = () => listRecords<AuthorProfile>(AUTHOR_PROFILES_STORE);
+export const saveAuthorProfileToStore = (profile: AuthorProfile) => putRecord(AUTHOR_PROFILES_STORE, profile);
+export const deleteAuthorProfileFromStore = (profileId: string) => deleteRecord(AUTHOR_PROFILES_STORE, profileId);
+
+// --- Jobs ---
+
+export const listJobs = () => listRecords<Job>(JOBS_STORE);
+export const saveJobToStore = (job: Job) => putRecord(JOBS_STORE, job);
+export const deleteJobFromStore = (jobId: string) => deleteRecord(JOBS_STORE, jobId);
+
+// --- Prompt template overrides ---
+
+export const listPromptOverrides = () => listRecords<PromptOverride>(PROMPT_OVERRIDES_STORE);
+export const savePromptOverrideToStore = (override: PromptOverride) => putRecord(PROMPT_OVERRIDES_STORE, override);
+export const deletePromptOverrideFromStore = (templateId: string) => deleteRecord(PROMPT_OVERRIDES_STORE, templateId);
+
+export interface ArchiveMigrationResult {
+  migrated: number;
+  // Titles of the legacy projects that could not be upgraded; they stay in localStorage.
+  failed: string[];
+}
+
+/**
+ * Moves the legacy localStorage archive into IndexedDB. The localStorage key is rewritten only
+ * after every project has been written, so an interrupted migration is retried on next start.
+ * Projects that fail the schema migration are kept in localStorage and reported.
+ */
+export const migrateLocalStorageArchive = async (archiveKey: string): Promise<ArchiveMigrationResult> => {
+  const result: ArchiveMigrationResult = { migrated: 0, failed: [] };
+  const savedArchive = localStorage.getItem(archiveKey);
+  if (!savedArchive) return result;
+
+  let parsedArchive: unknown;
+  try {
+    parsedArchive = JSON.parse(savedArchive);
+  } catch (error) {
+    console.error("Error parsing legacy project archive:", error);
+    localStorage.removeItem(archiveKey);
+    return result;
+  }
+  if (!Array.isArray(parsedArchive)) {
+    localStorage.removeItem(archiveKey);
+    return result;
+  }
+
+  const unmigrated: unknown[] = [];
+  for (const legacyProject of parsedArchive) {
+    let project: Project;
+    try {
+      project = migrateProject(legacyProject);
+    } catch (error) {
+      if (!(error instanceof ProjectMigrationError)) throw error;
+      console.error("Legacy project could not be migrated:", error);
+      unmigrated.push(legacyProject);
+      result.failed.push(legacyProject?.projectTitle || legacyProject?.id || '?');
+      continue;
+    }
+    await saveProjectToStore(project);
+    result.migrated++;
+  }
+  if (unmigrated.length > 0) {
+    localStorage.setItem(archiveKey, JSON.stringify(unmigrated));
+  } else {
+    localStorage.removeItem(archiveKey);
+  }
+  return result;
+};
@@ -0,0 +1,608 @@
+import type { Project, PromptOverride, ContentBlockType } from '../types';
+import { outlineChapters, chapterSections } from './outline';
+import { promptLanguageName, englishLanguageName } from './bookLanguage';
+
+export type PromptTemplateId =
+  | 'discoverTrends'
+  | 'researchTopic'
+  | 'generateStructure'
+  | 'generateContent'
+  | 'fetchCompetitorCovers'
+  | 'generateCoverPrompt'
+  | 'generateContentBlockImage'
+  | 'generateDescription'
+  | 'fetchAmazonCategories'
+  | 'generateContentBlockPrompt'
+  | 'generateContentBlockText'
+  | 'translateText'
+  | 'improveText'
+  | 'summarizeText'
+  | 'expandText'
+  | 'generateCoverTagline'
+  | 'dedication'
+  | 'aboutAuthor'
+  | 'analyzeManuscript'
+  | 'regenerateManuscript'
+  | 'highlightManuscriptChanges'
+  | 'listManuscriptChanges';
+
+export type PromptVariables = { [name: string]: string | number };
+
+export type PromptScope = 'global' | 'project';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  // Raised whenever the default text changes, so overrides written against an older one can be flagged.
+  version: number;
+  // Placeholders the text may use, written as {{name}}.
+  variables: string[];
+  template: string;
+  // Variable values taken from a project, for the preview.
+  preview: (project: Project) => PromptVariables;
+}
+
+// --- Prompt fragments ---
+// Parts of a prompt that depend on optional inputs; they are passed to the template as variables.
+
+/**
+ * The numbered requirements of a book structure.
+ */
+export const structureRequirements = (parts: boolean, depth: number): string => [
+  parts
+    ? `Deve contenere esattamente 10 capitoli, raggruppati in 3 o 4 parti tematiche. Ogni parte è un oggetto con "isPart": true, un titolo e i suoi capitoli nell'array "subchapters".`
+    : 'Deve contenere esattamente 10 capitoli.',
+  'Ogni capitolo deve contenere esattamente 4 sottocapitoli (sezioni).',
+  ...(depth === 3 ? ['Ogni sezione deve contenere 2 o 3 sottosezioni, nel suo array "subchapters".'] : []),
+].map((requirement, index) => `${index + 1}.  ${requirement}`).join('\n');
+
+export interface ContentPromptOptions {
+  topic: string;
+  subchapterTitle?: string;
+  wordCount?: number;
+  keywordList: string;
+  tone?: string;
+  audience?: string;
+  style?: string;
+  existingContent?: string;
+}
+
+/**
+ * The variables of the content prompt that are only filled in when the matching option is set.
+ */
+export const contentPromptFragments = (options: ContentPromptOptions): PromptVariables => {
+  const writingGuidelines = [
+    options.tone && `- Tono di voce: ${options.tone}`,
+    options.audience && `- Pubblico di destinazione: ${options.audience}`,
+    options.style && `- Stile di scrittura: ${options.style}`
+  ].filter(Boolean).join('\n');
+
+  return {
+    taskInstruction: options.existingContent
+      ? `Migliora, espandi e riscrivi il seguente testo per renderlo più coinvolgente, dettagliato e di alta qualità. Assicurati che la nuova versione sia coerente con le linee guida fornite e che soddisfi il requisito del conteggio parole. Testo originale da migliorare:\n---\n${options.existingContent}\n---\n`
+      : `Scrivi il contenuto per il libro sull'argomento "${options.topic}".`,
+    sectionLabel: options.subchapterTitle ? `- Sottocapitolo "${options.subchapterTitle}"` : '',
+    keywordInstruction: options.keywordList
+      ? `Integra in modo naturale e strategico le seguenti parole chiave per massimizzare la visibilità: ${options.keywordList}.`
+      : 'Scrivi in modo naturale senza forzare parole chiave.',
+    writingGuidelines: writingGuidelines ? `\nSegui anche queste specifiche aggiuntive:\n${writingGuidelines}` : '',
+    wordCountInstruction: options.wordCount
+      ? `REQUISITO FONDAMENTALE: Il contenuto di questa sezione DEVE avere una lunghezza di circa ${options.wordCount} parole. Scrivi un testo completo e dettagliato che rispetti questa lunghezza target. Non fornire un breve riassunto.`
+      : '',
+  };
+};
+
+const CONTENT_BLOCK_EXAMPLES: { [type in ContentBlockType]?: string } = {
+  recipe: "Per una 'ricetta', deve essere una singola preparazione, ad esempio: 'Una ricetta per una colazione energetica in linea con i temi del libro.'",
+  exercise: "Per un 'esercizio', deve essere una singola attività, ad esempio: 'Un esercizio di respirazione per ridurre lo stress, spiegato passo dopo passo.'",
+  bonus: "Per un 'bonus', deve essere un singolo contenuto aggiuntivo, ad esempio: 'Una checklist stampabile per la routine mattinina suggerita nel capitolo 3.'",
+};
+
+export const contentBlockExample = (contentType: ContentBlockType): string => CONTENT_BLOCK_EXAMPLES[contentType] || '';
+
+export const contentBlockUniquenessInstruction = (existingTitles: string[]): string =>
+  existingTitles.length > 0
+    ? `IMPORTANTE: Evita di generare contenuti bonus con i seguenti titoli, poiché esistono già: ${existingTitles.join(', ')}.`
+    : '';
+
+// --- Preview values ---
+
+const keywordsOf = (project: Project) =>
+  (project.researchData?.keywords || project.metadataKeywords || []).map(k => k.keyword).join(', ');
+
+const chapterTitlesOf = (project: Project, limit?: number) =>
+  outlineChapters(project.bookStructure?.chapters || []).map(({ chapter }) => chapter.title).slice(0, limit).join(', ');
+
+const manuscriptOf = (project: Project) => project.manuscript?.text || '';
+
+const firstSection = (project: Project) => {
+  const first = outlineChapters(project.bookStructure?.chapters || [])[0]?.chapter;
+  return { chapterTitle: first?.title || '', section: first ? chapterSections(first)[0]?.node : undefined };
+};
+
+// The market is chosen when trends are searched; the preview shows the default one.
+const PREVIEW_MARKET = 'Italy';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'discoverTrends',
+    version: 1,
+    variables: ['amazonDomain', 'category', 'market'],
+    template: `AGISCI COME un analista di mercato KDP esperto. La tua missione è analizzare i dati di vendita e le tendenze di mercato dal sito **{{amazonDomain}}** per identificare le 5 nicchie di saggistica più redditizie e con meno concorrenza per il self-publishing su Amazon KDP, focalizzandoti sulla categoria: "{{category}}".
+
+Se la categoria è "Tutte le Categorie" o "Libri", analizza il mercato librario nel suo complesso su **{{amazonDomain}}**. Altrimenti, fornisci risultati specifici per la categoria data.
+
+Per ogni nicchia identificata, fornisci:
+1. "topic": Il nome della nicchia o dell'argomento del libro, conciso e pronto per KDP. Evita asterischi nel testo.
+2. "reason": Una spiegazione breve (1-2 frasi) e convincente del perché questa nicchia è profittevole, analizzando le tendenze di mercato e identificando opportunità per nuovi autori all'interno della categoria di riferimento ("{{category}}") e del mercato ("{{market}}").
+3. "trendScore": un punteggio da 0 a 100 che rappresenta il potenziale di redditività della nicchia. 100 è il massimo potenziale.
+
+Fornisci la risposta esclusivamente come un array JSON di oggetti. Ordina i risultati dal "trendScore" più alto al più basso. Assicurati che l'analisi sia basata sulle informazioni più recenti disponibili nel tuo set di dati per il mercato di riferimento. L'output deve essere solo il JSON.`,
+    preview: project => ({ amazonDomain: 'amazon.it', category: project.categories[0] || 'Libri', market: PREVIEW_MARKET }),
+  },
+  {
+    id: 'researchTopic',
+    version: 1,
+    variables: ['market', 'topic'],
+    template: `AGISCI COME un esperto di marketing e publishing per Amazon KDP. Esegui una ricerca approfondita, basata sulle informazioni più recenti dal web e con un focus sul mercato di **{{market}}**, per un libro sull'argomento: "{{topic}}".
+L'obiettivo è massimizzare le vendite e la visibilità in quel mercato specifico. Fornisci una risposta strutturata in Markdown con le seguenti sezioni ESATTE, ciascuna seguita da un elenco puntato o da un paragrafo:
+
+### Market Summary
+[Un'analisi concisa del mercato di riferimento, del potenziale pubblico e delle tendenze.]
+
+### KDP Keywords
+[Un elenco di 10 parole chiave KDP redditizie, miste tra coda corta e lunga, con il più alto intento di acquisto. Per ogni parola chiave, fornisci:
+- Una valutazione del **Volume di Ricerca** (Valori possibili: Alto, Medio, Basso).
+- Una valutazione della **Competizione** (Valori possibili: Alta, Media, Bassa).
+- Un punteggio di **Rilevanza** (Rilevanza: X%).
+Formatta ogni voce in questo modo ESATTO, ordinando per Rilevanza decrescente:
+- [Parola Chiave] (Rilevanza: X%, Volume: [Valore], Competizione: [Valore])]
+
+### Suggested Titles
+- [Titolo 1] (Rilevanza: X%)
+- [Titolo 2] (Rilevanza: X%)
+- ... (Fornisci 5 titoli magnetici che massimizzano il CTR e incorporano parole chiave. NON USARE ASTERISCHI.)
+
+### Suggested Subtitles
+- [Sottotitolo 1] (Rilevanza: X%)
+- [Sottotitolo 2] (Rilevanza: X%)
+- ... (Fornisci 5 sottotitoli che espandono il titolo e contengono parole chiave. NON USARE ASTERISCHI.)
+`,
+    preview: project => ({ market: PREVIEW_MARKET, topic: project.topic }),
+  },
+  {
+    id: 'generateStructure',
+    version: 2,
+    variables: ['topic', 'title', 'subtitle', 'requirements', 'keywords', 'itemKind', 'bookLanguage'],
+    template: `Crea una struttura logica e dettagliata per un libro KDP sull'argomento "{{topic}}", con il titolo "{{title}}" e il sottotitolo "{{subtitle}}".
+La struttura deve seguire rigorosamente i seguenti requisiti:
+{{requirements}}
+I titoli dei capitoli e dei sottocapitoli devono essere pertinenti, coprire in modo esauriente l'argomento e includere in modo naturale le seguenti parole chiave per massimizzare la visibilità e le vendite su Amazon: {{keywords}}.
+IMPORTANTE: Non usare asterischi o formattazione Markdown nei valori JSON.
+Scrivi tutti i titoli in {{bookLanguage}}.
+Fornisci la risposta come un singolo oggetto JSON con una chiave "chapters" che contiene un array di oggetti {{itemKind}}.`,
+    preview: project => ({
+      topic: project.topic,
+      title: project.bookTitle,
+      subtitle: project.subtitle,
+      requirements: structureRequirements(false, 2),
+      keywords: keywordsOf(project),
+      itemKind: 'capitolo',
+      bookLanguage: promptLanguageName(project.bookLanguage),
+    }),
+  },
+  {
+    id: 'generateContent',
+    version: 2,
+    variables: ['taskInstruction', 'chapterTitle', 'sectionLabel', 'keywordInstruction', 'writingGuidelines', 'wordCountInstruction', 'bookLanguage'],
+    template: `AGISCI COME un autore di bestseller per KDP e un ghostwriter di fama mondiale. La tua missione è scrivere una sezione di capitolo della massima qualità possibile, estremamente coinvolgente e che fornisca un valore immenso al lettore. Questo contenuto DEVE essere degno di un bestseller.
+{{taskInstruction}}
+Sezione corrente: Capitolo "{{chapterTitle}}" {{sectionLabel}}.
+
+Linee Guida Fondamentali per un Contenuto da Bestseller:
+1.  **Qualità Superiore**: Scrivi in modo professionale, chiaro e informativo. Il livello deve essere impeccabile, paragonabile a un libro leader nel suo settore. Evita frasi generiche e superficiali.
+2.  **Stile Coinvolgente e Magnetico**: Utilizza tecniche di storytelling per catturare l'attenzione. Inizia ogni sezione con un'apertura forte e concludi con un pensiero o una transizione che inviti a continuare la lettura. Varia la struttura delle frasi per creare un ritmo di lettura dinamico.
+3.  **Struttura Chiara**: Organizza il contenuto in modo logico. Dove appropriato, usa sotto-intestazioni implicite (separate da una riga vuota) o elenchi puntati/numerati per migliorare la leggibilità e la comprensione.
+4.  **Tono Autorevole ma Accessibile**: Posizionati come un esperto, ma spiega concetti complessi in modo semplice e comprensibile per il pubblico di destinazione. Usa un linguaggio che risuoni con loro.
+5.  **Valore Pratico Immenso**: Fornisci esempi pratici, strategie attuabili, aneddoti, analogie o casi studio che il lettore possa applicare. Il contenuto deve essere utile e trasformazionale.
+6.  **Originalità e Profondità**: Non limitarti a ripetere informazioni comuni. Offri una prospettiva unica, approfondimenti non ovvi e una sintesi intelligente delle informazioni.
+7.  **Accuratezza Assoluta**: Verifica che tutte le informazioni siano aggiornate, corrette e supportate da fonti attendibili se necessario.
+8.  **Ottimizzazione per KDP**: {{keywordInstruction}}
+
+{{writingGuidelines}}
+
+{{wordCountInstruction}}
+
+Output:
+- Scrivi il contenuto in {{bookLanguage}}.
+- Fornisci solo il testo del contenuto, senza alcuna introduzione, titolo o preambolo.
+- Formatta il testo in paragrafi ben strutturati per una leggibilità ottimale, utilizzando interruzioni di riga per separare le idee.`,
+    preview: project => {
+      const { chapterTitle, section } = firstSection(project);
+      return {
+        chapterTitle,
+        bookLanguage: promptLanguageName(project.bookLanguage),
+        ...contentPromptFragments({ topic: project.topic, subchapterTitle: section?.title, keywordList: keywordsOf(project), existingContent: section?.content }),
+      };
+    },
+  },
+  {
+    id: 'fetchCompetitorCovers',
+    version: 1,
+    variables: ['topic', 'category'],
+    template: `AGISCI COME un esperto di analisi di mercato editoriale.
+    Trova i 3 libri bestseller attuali su Amazon.com o Amazon.it che sono più pertinenti per l'argomento "{{topic}}" nella categoria "{{category}}".
+    
+    Il tuo obiettivo principale è trovare il codice **ASIN** (Amazon Standard Identification Number) o **ISBN-10** corretto per ciascun libro, in modo da poter recuperare l'immagine di copertina.
+    
+    Restituisci un array JSON con i seguenti campi per ogni libro:
+    1. "title": Titolo del libro.
+    2. "author": Autore del libro.
+    3. "asin": Il codice ASIN o ISBN-10 (stringa di 10 caratteri). DEVE essere accurato.
+    4. "reason": Una breve frase sul perché questo libro è un bestseller o cosa rende la sua copertina efficace.
+    
+    Usa Google Search per verificare i bestseller attuali.
+    L'output deve essere SOLO il JSON grezzo, senza markdown formatting come \`\`\`json.`,
+    preview: project => ({ topic: project.topic, category: project.categories[0] || '' }),
+  },
+  {
+    id: 'generateCoverPrompt',
+    version: 1,
+    variables: ['title', 'topic', 'category', 'keywords'],
+    template: `ACT AS an award-winning art director and an expert in book cover design for Amazon KDP. Your mission is to create a prompt for an AI image generator (like Imagen) that will produce a visually stunning, commercially effective, and deeply relevant cover image.
+
+Book Details:
+- Title: "{{title}}"
+- Topic: "{{topic}}"
+- Category: "{{category}}"
+- Emotional Keywords: {{keywords}}
+
+Your Creative Process:
+1.  **Target Audience and Emotional Tone Analysis (CRITICAL FIRST STEP)**: Based on the book's details, first analyze and define the target audience (e.g., beginners, experts, young adults) and the core emotional tone of the book (e.g., empowering, serene, urgent, mysterious). This analysis is the foundation and MUST guide all subsequent visual choices.
+2.  **Conceptual and Symbolic Analysis**: Don't just do a literal representation. Dive deep into the topic "{{topic}}" and the title "{{title}}". What is the core promise to the reader? What is the key transformation or emotion (hope, power, serenity, curiosity)? Translate these abstract concepts into a **powerful and original visual metaphor**. Strictly avoid clichés and generic stock photo imagery.
+3.  **Visual Market Research**: Analyze current bestsellers in the "{{category}}" category on Amazon to understand the visual language that attracts the target audience. Identify archetypes, color palettes, and styles, but not to imitate them. The goal is to innovate and stand out while speaking a familiar language to the reader.
+4.  **Winning Concept Development**: Choose a single, strong artistic direction (e.g., photographic, illustrative, graphic, symbolic) and build the prompt around it.
+5.  **Final Prompt Construction**: Write a single prompt, in English, that is a masterpiece of descriptiveness. It must be rich, evocative, and precise.
+
+Final Prompt Requirements:
+-   **Language**: Exclusively in **English**.
+-   **Focus on Symbolism**: The main subject must be a visual metaphor, not a literal depiction of the title.
+-   **Absolute Specificity**: Include details on:
+    *   **Subject and Scene**: Describe the central visual element and its environment with great detail. If it's an object, describe its texture, material, and symbolic meaning. If it's a scene, describe the atmosphere.
+    *   **Artistic Style**: Be precise (e.g., "cinematic high-definition photography with soft bokeh", "painterly digital illustration with rich textures", "bold and minimalist vector graphic design").
+    *   **Composition and Text Space**: Guide the AI on element placement. **THIS IS CRITICAL**: design the composition (e.g., "using the rule of thirds", "subject off-center to the left") to leave a large, clean area of negative space at the top for the title and subtitle.
+    *   **Lighting**: Describe the lighting to create the desired mood (e.g., "dramatic, low-key lighting creating long shadows", "soft, ethereal lighting coming from above", "vibrant neon glow").
+    *   **Color Palette**: Define a specific and emotional color palette (e.g., "an analogous color palette of blues and greens to evoke calm, with a single accent of orange for energy", "monochromatic tones of gray with a single bright red element").
+    *   **Output**: Provide **only the final prompt text**, with no introduction, explanation, analysis, or alternative options.
+
+Example of a quality output for a book on procrastination:
+"Surrealist digital illustration of an elegant glass hourglass where the falling sand transforms into a flock of paper birds flying away freely. The background is a sunset sky with warm, gradient colors from purple to orange. The lighting is soft and emanates from within the hourglass, creating a magical glow. Detailed painterly style with visible textures. Minimalist composition with the hourglass off-center, leaving ample negative space at the top for text."`,
+    preview: project => ({ title: project.bookTitle, topic: project.topic, category: project.categories[0] || '', keywords: keywordsOf(project) }),
+  },
+  {
+    id: 'generateContentBlockImage',
+    version: 1,
+    variables: ['topic', 'entryTitle'],
+    template: `Come illustratore per un libro su "{{topic}}", crea un'immagine pulita, professionale e simbolica per una voce dell'appendice intitolata "{{entryTitle}}". Lo stile deve essere minimalista e grafico, visivamente coerente con il tema del libro e adatto per un'appendice di un libro.`,
+    preview: project => ({ topic: project.topic, entryTitle: project.contentBlocks?.[0]?.title || '' }),
+  },
+  {
+    id: 'generateDescription',
+    version: 2,
+    variables: ['title', 'chapterTitles', 'bookLanguage'],
+    template: `AGISCI COME un copywriter di livello mondiale specializzato in descrizioni di libri per Amazon KDP che convertono. La tua missione è scrivere una descrizione magnetica e irresistibile per un libro intitolato "{{title}}".
+Il libro tratta i seguenti argomenti principali: {{chapterTitles}}.
+
+Segui questa struttura vincente in 3 parti per massimizzare l'impatto e le vendite:
+1.  **Gancio Potente (Prime 1-2 frasi)**: Inizia con una domanda audace, una statistica scioccante o un'affermazione che colpisca direttamente il punto dolente o il desiderio più grande del lettore. Cattura immediatamente la loro attenzione.
+2.  **Corpo Persuasivo (Paragrafo centrale)**: Elenca i benefici chiave e le soluzioni che il lettore otterrà leggendo il libro. Usa un linguaggio orientato all'azione. Spiega cosa impareranno, come la loro vita migliorerà o quale problema risolveranno.
+3.  **Call to Action Irresistibile (Frase finale)**: Concludi con un invito all'azione chiaro, energico e ad altissima conversione che spinga il lettore a comprare ORA.
+
+Requisiti Aggiuntivi:
+-   **Linguaggio**: Scrivi in {{bookLanguage}} fluente e naturale.
+-   **Lunghezza**: Mantieni la descrizione tra le 150 e le 200 parole.
+-   **Emoji Strategiche**: Inserisci 3-5 emoji altamente motivanti (es. ✨, 🚀, 💪, ✅, 📚) per spezzare il testo e aumentare l'engagement visivo. Posizionale in modo strategico per enfatizzare i punti chiave.
+-   **Formattazione**: NON usare markdown o HTML. Fornisci solo il testo puro.
+
+Esempio di Call to Action efficace: "Non aspettare un altro giorno per trasformare la tua vita. Scorri verso l'alto e clicca su 'Acquista ora' per iniziare il tuo viaggio oggi stesso!"`,
+    preview: project => ({ title: project.bookTitle, chapterTitles: chapterTitlesOf(project) || 'vari argomenti', bookLanguage: promptLanguageName(project.bookLanguage) }),
+  },
+  {
+    id: 'fetchAmazonCategories',
+    version: 1,
+    variables: ['languageName'],
+    template: `Generate a comprehensive list of top-level book categories as found on major online bookstores like Amazon. Provide the list in {{languageName}}.
+  Return the result as a single, flat JSON array of strings. For example: ["Arts & Photography", "Biographies & Memoirs", "Business & Money"].
+  Return the result as a single, flat JSON array of strings. For example: ["Arts & Photography", "Biographies & Memoirs", "Business & Money"].
+  Do not include sub-categories. The output must be only the JSON array. Do not include a general category like "Books" or "All categories".`,
+    preview: () => ({ languageName: 'Italian' }),
+  },
+  {
+    id: 'generateContentBlockPrompt',
+    version: 2,
+    variables: ['title', 'topic', 'chapterTitles', 'contentType', 'example', 'bookLanguage'],
+    template: `Basandosi su un libro intitolato "{{title}}" sull'argomento "{{topic}}", che include capitoli come "{{chapterTitles}}"... genera un prompt creativo e altamente pertinente in **{{bookLanguage}}** per un'appendice di tipo '{{contentType}}'. Il prompt deve descrivere UN SINGOLO elemento (es. una ricetta, un esercizio), NON una raccolta (es. un menù settimanale, un piano di allenamento). Esempio: {{example}} L'output deve essere solo il testo del prompt.`,
+    preview: project => ({
+      title: project.bookTitle,
+      topic: project.topic,
+      chapterTitles: chapterTitlesOf(project, 5),
+      contentType: 'recipe',
+      example: contentBlockExample('recipe'),
+      bookLanguage: promptLanguageName(project.bookLanguage),
+    }),
+  },
+  {
+    id: 'generateContentBlockText',
+    version: 2,
+    variables: ['title', 'topic', 'chapterTitles', 'count', 'contentType', 'description', 'uniquenessInstruction', 'bookLanguage'],
+    template: `Agisci come un esperto creatore di contenuti ed esperto di marketing editoriale. per un libro intitolato "{{title}}" sull'argomento "{{topic}}", i cui capitoli principali includono: "{{chapterTitles}}". Basandoti sulla seguente descrizione, genera {{count}} contenuti bonus unici di tipo '{{contentType}}': "{{description}}".
+
+**REGOLA FONDAMENTALE**: Ogni contenuto bonus generato deve essere un singolo elemento specifico (es. UNA ricetta, UN esercizio, UNA checklist). NON generare raccolte o piani (es. NON un menù settimanale, NON un programma di allenamento). Se la descrizione chiede una raccolta, estrai e genera un singolo elemento rappresentativo da essa.
+
+Per ognuno, fornisci un "title" accattivante e specifico per il singolo elemento, una "description" (un riassunto accattivante del contenuto bonus) e una lista di "items" (punti, passaggi, o elementi per il contenuto bonus).
+{{uniquenessInstruction}}
+Scrivi titoli, descrizioni ed elementi in {{bookLanguage}}.
+Rispondi con un array JSON di oggetti, anche se ne generi solo uno.`,
+    preview: project => ({
+      title: project.bookTitle,
+      topic: project.topic,
+      chapterTitles: chapterTitlesOf(project, 5),
+      count: 1,
+      contentType: 'recipe',
+      description: '',
+      uniquenessInstruction: contentBlockUniquenessInstruction((project.contentBlocks || []).map(block => block.title)),
+      bookLanguage: promptLanguageName(project.bookLanguage),
+    }),
+  },
+  {
+    id: 'translateText',
+    version: 2,
+    variables: ['sourceLanguage', 'targetLanguage', 'text'],
+    template: `You are an expert multilingual translator. Translate the following text from {{sourceLanguage}} to {{targetLanguage}}.
+    Preserve original formatting such as line breaks or special characters.
+    Return ONLY the translated text, without any introductory phrases or explanations.
+
+    Text to translate:
+    ---
+    {{text}}
+    ---
+    `,
+    preview: project => ({ sourceLanguage: englishLanguageName(project.bookLanguage), targetLanguage: 'English', text: project.bookTitle }),
+  },
+  {
+    id: 'improveText',
+    version: 1,
+    variables: ['text'],
+    template: `AGISCI COME un editor professionista. Riscrivi il seguente testo per migliorarne la chiarezza, il coinvolgimento e la qualità generale senza alterarne il significato fondamentale. Migliora la scelta delle parole, la struttura delle frasi e il flusso. Fornisci solo il testo riscritto. Testo da migliorare:\n---\n{{text}}\n---`,
+    preview: project => ({ text: project.description }),
+  },
+  {
+    id: 'summarizeText',
+    version: 1,
+    variables: ['text'],
+    template: `Riassumi il seguente testo in modo conciso, cogliendo i punti principali. Fornisci solo il riassunto. Testo da riassumere:\n---\n{{text}}\n---`,
+    preview: project => ({ text: project.description }),
+  },
+  {
+    id: 'expandText',
+    version: 1,
+    variables: ['text'],
+    template: `Espandi il seguente testo. Aggiungi maggiori dettagli, esempi o spiegazioni per renderlo più completo e informativo. Mantieni uno stile di scrittura coerente. Fornisci solo il testo espanso. Testo da espandere:\n---\n{{text}}\n---`,
+    preview: project => ({ text: project.description }),
+  },
+  {
+    id: 'generateCoverTagline',
+    version: 2,
+    variables: ['title', 'topic', 'bookLanguage'],
+    template: `AGISCI COME un copywriter specializzato in copertine di libri. Crea una tagline estremamente breve (massimo 10 parole), accattivante e ad alta conversione per un libro intitolato "{{title}}" sull'argomento "{{topic}}".
+La tagline deve suscitare curiosità o promettere un beneficio immediato. Deve essere perfetta da inserire sulla copertina di un libro per catturare l'attenzione.
+Scrivi la tagline in {{bookLanguage}}. Fornisci solo il testo della tagline, nient'altro. Evita asterischi.`,
+    preview: project => ({ title: project.bookTitle, topic: project.topic, bookLanguage: promptLanguageName(project.bookLanguage) }),
+  },
+  {
+    id: 'dedication',
+    version: 2,
+    variables: ['title', 'author', 'topic', 'bookLanguage'],
+    template: `Scrivi una dedica breve (massimo 25 parole) e sincera per il libro "{{title}}" di {{author}}, sull'argomento "{{topic}}", in {{bookLanguage}}.
+Fornisci solo il testo della dedica, senza virgolette né asterischi.`,
+    preview: project => ({ title: project.bookTitle, author: project.author, topic: project.topic, bookLanguage: promptLanguageName(project.bookLanguage) }),
+  },
+  {
+    id: 'aboutAuthor',
+    version: 2,
+    variables: ['title', 'author', 'topic', 'bookLanguage'],
+    template: `Scrivi una biografia in terza persona per la pagina "Sull'autore" del libro "{{title}}" di {{author}}, sull'argomento "{{topic}}", in {{bookLanguage}}.
+Usa due paragrafi brevi (massimo 120 parole in totale) separati da una riga vuota, con un tono professionale e caldo. Non inventare premi, titoli di studio o dati verificabili.
+Fornisci solo il testo, senza intestazioni né asterischi.`,
+    preview: project => ({ title: project.bookTitle, author: project.author, topic: project.topic, bookLanguage: promptLanguageName(project.bookLanguage) }),
+  },
+  {
+    id: 'analyzeManuscript',
+    version: 1,
+    variables: ['manuscript'],
+    template: `AGISCI COME un editor di libri professionista e un critico letterario di fama mondiale. La tua missione è analizzare in modo approfondito il seguente manoscritto e fornire un feedback costruttivo, dettagliato e attuabile per migliorarne drasticamente la qualità.
+
+Il tuo output deve essere in formato **Markdown** e seguire ESATTAMENTE questa struttura, con intestazioni di terzo livello (###):
+
+### Riepilogo Generale
+[Fornisci una valutazione complessiva del manoscritto. Evidenzia i punti di forza principali (es. concetto, voce, ritmo) e le aree di debolezza più significative che necessitano di attenzione.]
+
+### Miglioramenti Strutturali e di Trama
+[Analizza la struttura generale, l'arco narrativo, lo sviluppo dei personaggi e il ritmo.
+- La trama è avvincente? Ci sono buchi o incongruenze?
+- I personaggi sono ben sviluppati e le loro motivazioni sono chiare?
+- Il ritmo è efficace o ci sono parti lente/affrettate?
+- Fornisci suggerimenti specifici per rafforzare la struttura (es. riordinare capitoli, aggiungere foreshadowing, approfondire un subplot).]
+
+### Perfezionamento Stilistico e di Voce
+[Valuta lo stile di scrittura, il tono e la voce dell'autore.
+- La prosa è chiara, coinvolgente e coerente?
+- La scelta delle parole (diction) è efficace e appropriata?
+- Ci sono cliché, frasi ripetitive o passaggi goffi da migliorare?
+- Fornisci esempi concreti presi dal testo e suggerisci delle alternative migliori.]
+
+### Chiarezza e Coerenza
+[Identifica eventuali passaggi confusi, ambigui o contraddittori.
+- La cronologia è chiara?
+- I concetti (specialmente in saggi o manuali) sono spiegati in modo efficace?
+- Ci sono incongruenze nella caratterizzazione o nei dettagli della trama?
+- Elenca i punti problematici in modo che l'autore possa individuarli e correggerli.]
+
+### Prossimi Passi Consigliati
+[Concludi con un elenco puntato di 3-5 azioni prioritarie che l'autore dovrebbe intraprendere per migliorare il manoscritto. Sii strategico e concentrati sugli interventi con il maggiore impatto.]
+
+---
+MANOSCRITTO DA ANALIZZARE:
+---
+{{manuscript}}
+---
+`,
+    preview: project => ({ manuscript: manuscriptOf(project) }),
+  },
+  {
+    id: 'regenerateManuscript',
+    version: 1,
+    variables: ['currentDate', 'analysis', 'part', 'total', 'chunk'],
+    template: `AGISCI COME un autore e editor esperto di fama mondiale.
+DATA CORRENTE: {{currentDate}}.
+
+La tua missione è espandere e arricchire questa SEZIONE SPECIFICA (Capitolo o parte) del manoscritto originale, applicando i suggerimenti pertinenti dell'"ANALISI DELL'EDITOR" e aggiornando tutte le informazioni obsolete.
+
+**REGOLA FONDAMENTALE E ASSOLUTA: APPEND-ONLY (SOLO AGGIUNTA).**
+Il tuo compito è prendere la "SEZIONE ORIGINALE" e AGGIUNGERE valore.
+
+Segui queste regole FERREE:
+1.  **COPIA-INCOLLA OBBLIGATORIO**: Il testo della "SEZIONE ORIGINALE" deve essere presente nel tuo output **PAROLA PER PAROLA**.
+2.  **DIVIETO DI CANCELLAZIONE**: Non rimuovere, riassumere o sostituire nemmeno una frase del testo originale.
+3.  **AGGIORNAMENTO TRAMITE AGGIUNTA**: Se un'informazione è obsoleta, **NON CANCELLARLA**. Aggiungi subito dopo un nuovo paragrafo che inizia con "Aggiornamento al {{currentDate}}:" fornendo i dati recenti.
+4.  **ESPANSIONE**: Inserisci nuovi paragrafi per approfondire i concetti basandoti sull'analisi.
+5.  **FORMATTAZIONE**: Usa Markdown standard (## Titolo). **NON USARE ASTERISCHI** nei titoli o nel testo.
+
+---
+CONTESTO (ANALISI COMPLETA):
+---
+{{analysis}}
+---
+SEZIONE ORIGINALE DA ELABORARE (PARTE {{part}} DI {{total}}):
+---
+{{chunk}}
+---
+SEZIONE ESPANSA E AGGIORNATA (ORIGINALE + NUOVE AGGIUNTE):
+---
+`,
+    preview: project => ({
+      currentDate: new Date().toLocaleDateString('it-IT', { day: 'numeric', month: 'long', year: 'numeric' }),
+      analysis: project.manuscript?.analysis || '',
+      part: 1,
+      total: 1,
+      chunk: manuscriptOf(project),
+    }),
+  },
+  {
+    id: 'highlightManuscriptChanges',
+    version: 1,
+    variables: ['analysis', 'manuscript'],
+    template: `AGISCI COME un editor esperto che usa la funzione "Revisioni" in modalità solo aggiunta. La tua missione è modificare il "MANOSCRITTO ORIGINALE" applicando i suggerimenti dall'"ANALISI DELL'EDITOR" esclusivamente tramite aggiunte.
+
+Il tuo output DEVE essere il manoscritto completo, ma con le modifiche indicate usando **SOLO** i tag HTML <ins> per le aggiunte.
+
+REGOLE FONDAMENTALI:
+1.  **NIENTE CANCELLAZIONI**: Non è permesso usare i tag <del> o rimuovere testo. Il testo originale deve rimanere intatto.
+2.  **Solo Aggiunte**: Racchiudi qualsiasi nuovo testo (parole, frasi) che aggiungi all'interno di tag <ins>...</ins>. Esempio: "Il cielo era <ins>molto</ins> blu."
+3.  **Testo Invariato**: Qualsiasi testo che non viene modificato deve rimanere esattamente com'è, senza alcun tag.
+4.  **Output Completo**: Restituisci l'INTERO manoscritto dall'inizio alla fine, con i tag di revisione applicati. Non fornire spiegazioni, solo il testo HTML formattato.
+5.  **Formattazione Originale**: Mantieni la formattazione originale del manoscritto (paragrafi, interruzioni di riga).
+
+---
+ANALISI DELL'EDITOR:
+---
+{{analysis}}
+---
+MANOSCRITTO ORIGINALE:
+---
+{{manuscript}}
+---
+MANOSCRITTO CON REVISIONI EVIDENZIATE:
+---
+`,
+    preview: project => ({ analysis: project.manuscript?.analysis || '', manuscript: manuscriptOf(project) }),
+  },
+  {
+    id: 'listManuscriptChanges',
+    version: 1,
+    variables: ['analysis', 'manuscript'],
+    template: `AGISCI COME un assistente editoriale meticoloso. La tua missione è creare una checklist di **integrazioni e aggiunte** basata sull'"ANALISI DELL'EDITOR" per il "MANOSCRITTO ORIGINALE". Le modifiche proposte devono solo aggiungere contenuto, non rimuoverlo o sostituirlo.
+
+Crea un elenco puntato in formato **Markdown** di azioni concrete e precise che l'autore deve intraprendere. Ogni punto dell'elenco deve essere specifico e facile da applicare.
+
+Esempi di formato desiderato (solo aggiunte):
+- **Nel Capitolo 3, Paragrafo 2**: Dopo la frase "Era stanco", aggiungi "La stanchezza gli pesava sulle palpebre come macigni" per essere più descrittivo.
+- **Generale**: Valuta di aggiungere esempi pratici dopo le definizioni teoriche per migliorare la chiarezza.
+- **Nel Capitolo 5**: Considera di inserire un nuovo paragrafo che descriva il passato del personaggio prima del confronto finale per aumentare la tensione.
+
+REGOLE:
+1.  **Approccio Additivo**: Suggerisci solo aggiunte, integrazioni o espansioni. NON suggerire di rimuovere o sostituire testo.
+2.  **Formato**: Usa solo elenchi puntati Markdown (\`- \`).
+3.  **Specificità**: Sii il più specifico possibile, indicando capitoli o sezioni se possibile.
+4.  **Azione**: Formula ogni punto come un'azione chiara di "aggiungere", "integrare", "espandere".
+5.  **Output**: Fornisci solo l'elenco Markdown, senza introduzioni o conclusioni.
+
+---
+ANALISI DELL'EDITOR:
+---
+{{analysis}}
+---
+MANOSCRITTO ORIGINALE:
+---
+{{manuscript}}
+---
+ELENCO DELLE MODIFICHE:
+---
+`,
+    preview: project => ({ analysis: project.manuscript?.analysis || '', manuscript: manuscriptOf(project) }),
+  },
+];
+
+export const getPromptTemplate = (id: PromptTemplateId): PromptTemplate =>
+  PROMPT_TEMPLATES.find(template => template.id === id)!;
+
+// Overrides in effect, kept in sync with the stored ones by the prompt template provider.
+let globalOverrides: PromptOverride[] = [];
+let projectOverrides: PromptOverride[] = [];
+
+/**
+ * Sets the overrides used by renderPrompt: the global ones and those of the open project.
+ */
+export const setPromptOverrides = (global: PromptOverride[], project: PromptOverride[]) => {
+  globalOverrides = global;
+  projectOverrides = project;
+};
+
+/**
+ * The text a template currently renders from: the project override, then the global one, then the default.
+ * With `scope` set to 'global', the project override is skipped.
+ */
+export const effectivePromptText = (
+  id: PromptTemplateId,
+  global: PromptOverride[] = globalOverrides,
+  project: PromptOverride[] = projectOverrides,
+  scope: PromptScope = 'project',
+): string =>
+  (scope === 'project' ? project.find(override => override.templateId === id) : undefined)?.template
+  ?? global.find(override => override.templateId === id)?.template
+  ?? getPromptTemplate(id).template;
+
+/**
+ * Replaces every {{name}} with its value. Placeholders without a value are left as they are.
+ */
+export const fillPromptTemplate = (template: string, variables: PromptVariables): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? String(variables[name]) : placeholder);
+
+export const renderPrompt = (id: PromptTemplateId, variables: PromptVariables): string =>
+  fillPromptTemplate(effectivePromptText(id), variables);
+
+/**
+ * Whether an override was written against an older version of the default text.
+ */
+export const isOverrideOutdated = (override: PromptOverride): boolean =>
+  override.baseVersion < getPromptTemplate(override.templateId as PromptTemplateId).version;
@@ -0,0 +1,48 @@
+import type { GlossaryTerm, PronunciationEntry } from '../types';
+import type { NarrationSegment } from './narration';
+import { escapeRegExp } from './bookToc';
+
+export const generatePronunciationId = () => `pron_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+const normalizeTerm = (term: string) => term.trim().toLocaleLowerCase();
+
+// IPA is written between slashes or square brackets, as in dictionaries.
+const IPA_PATTERN = /^\s*(?:\/[^/]+\/|\[[^\]]+\])\s*$/;
+
+const spokenForm = (pronunciation: string): string => {
+  const trimmed = pronunciation.trim();
+  // The speech model reads no phoneme markup, so IPA goes in as its bare symbols.
+  return IPA_PATTERN.test(trimmed) ? trimmed.slice(1, -1).trim() : trimmed;
+};
+
+/**
+ * Replaces every term of the lexicon with its pronunciation, as whole words and ignoring case.
+ * Longer terms win over the shorter ones they contain, and replaced text is never matched again.
+ */
+export const applyPronunciations = (text: string, entries: PronunciationEntry[] | undefined): string => {
+  const spoken = new Map<string, string>();
+  (entries || []).forEach(entry => {
+    if (entry.term.trim() && entry.pronunciation.trim()) spoken.set(normalizeTerm(entry.term), spokenForm(entry.pronunciation));
+  });
+  if (spoken.size === 0) return text;
+  const alternatives = Array.from(spoken.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])(${alternatives})(?=$|[^\\p{L}\\p{N}])`, 'giu');
+  return text.replace(pattern, (match, before: string, term: string) => before + (spoken.get(normalizeTerm(term)) ?? term));
+};
+
+export const applyPronunciationsToSegments = (segments: NarrationSegment[], entries: PronunciationEntry[] | undefined): NarrationSegment[] =>
+  segments.map(segment => ({ ...segment, text: applyPronunciations(segment.text, entries) }));
+
+/**
+ * Glossary terms the lexicon doesn't have yet, as entries waiting for their pronunciation.
+ */
+export const glossaryPronunciations = (glossary: GlossaryTerm[] | undefined, entries: PronunciationEntry[] = []): PronunciationEntry[] => {
+  const known = new Set(entries.map(entry => normalizeTerm(entry.term)));
+  return (glossary || [])
+    .filter(item => item.term.trim() && !known.has(normalizeTerm(item.term)))
+    .filter((item, index, items) => items.findIndex(other => normalizeTerm(other.term) === normalizeTerm(item.term)) === index)
+    .map(item => ({ id: generatePronunciationId(), term: item.term.trim(), pronunciation: '' }));
+};
@@ -0,0 +1,101 @@
+import type { Project, ProjectSummary, Series, AuthorProfile } from '../types';
+import { listSeries, listAuthorProfiles, loadProjectFromStore, saveProjectToStore } from './projectStore';
+
+/**
+ * Series and pen-name details an export prints in the front and back matter.
+ */
+export interface SeriesMatter {
+  series: { name: string; volume: number } | null;
+  author: AuthorProfile | null;
+  // Other titles by the same pen name: the rest of the series first, in reading order.
+  alsoBy: string[];
+}
+
+export const EMPTY_SERIES_MATTER: SeriesMatter = { series: null, author: null, alsoBy: [] };
+
+export const generateLibraryId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Project fields every volume of the series shares.
+ */
+export const seriesStyleUpdates = (series: Series): Partial<Project> => ({
+  layoutTemplate: series.layoutTemplate,
+  customStyles: series.customStyles,
+  ...series.coverTemplate,
+});
+
+/**
+ * Takes the series' shared styles from a volume, e.g. when the series is created from it.
+ */
+export const seriesWithStylesFrom = (series: Omit<Series, 'layoutTemplate' | 'customStyles' | 'coverTemplate' | 'lastModified'>, project: Project): Series => ({
+  ...series,
+  layoutTemplate: project.layoutTemplate,
+  customStyles: project.customStyles,
+  coverTemplate: {
+    titleFontSize: project.titleFontSize,
+    subtitleFontSize: project.subtitleFontSize,
+    authorFontSize: project.authorFontSize,
+    bonusStickerShape: project.bonusStickerShape,
+  },
+  lastModified: new Date().toISOString(),
+});
+
+export const seriesVolumes = (seriesId: string, summaries: ProjectSummary[]): ProjectSummary[] =>
+  summaries
+    .filter(summary => summary.seriesId === seriesId)
+    .sort((a, b) => (a.seriesVolume ?? Infinity) - (b.seriesVolume ?? Infinity));
+
+export const nextVolumeNumber = (seriesId: string, summaries: ProjectSummary[]): number =>
+  Math.max(0, ...seriesVolumes(seriesId, summaries).map(summary => summary.seriesVolume || 0)) + 1;
+
+/**
+ * Writes the series' shared styles into every stored volume except `skipProjectId` (the open one,
+ * which the caller updates in memory). Returns how many volumes were changed.
+ */
+export const propagateSeriesStyles = async (series: Series, summaries: ProjectSummary[], skipProjectId?: string): Promise<number> => {
+  const updates = seriesStyleUpdates(series);
+  let updated = 0;
+  for (const summary of seriesVolumes(series.id, summaries)) {
+    if (summary.id === skipProjectId) continue;
+    const volume = await loadProjectFromStore(summary.id);
+    if (!volume) continue;
+    await saveProjectToStore({ ...volume, ...updates, lastSaved: new Date().toISOString() });
+    updated++;
+  }
+  return updated;
+};
+
+export const buildSeriesMatter = (
+  project: Project,
+  seriesList: Series[],
+  profiles: AuthorProfile[],
+  summaries: ProjectSummary[],
+): SeriesMatter => {
+  const series = seriesList.find(item => item.id === project.seriesId) || null;
+  const author = profiles.find(item => item.id === project.authorProfileId) || null;
+  const ownTitle = (project.bookTitle || project.projectTitle).trim();
+
+  const otherTitles = (entries: ProjectSummary[]) =>
+    entries.filter(summary => summary.id !== project.id).map(summary => (summary.bookTitle || summary.projectTitle).trim());
+  const titles = [
+    ...(series ? otherTitles(seriesVolumes(series.id, summaries)) : []),
+    ...(author ? otherTitles(summaries.filter(summary => summary.authorProfileId === author.id)) : []),
+    ...(author?.otherBooks || []).map(title => title.trim()),
+  ];
+  const alsoBy = titles.filter((title, index) => title && title !== ownTitle && titles.indexOf(title) === index);
+
+  return {
+    series: series && project.seriesVolume ? { name: series.name, volume: project.seriesVolume } : null,
+    author,
+    alsoBy,
+  };
+};
+
+/**
+ * Reads the shared series and author records and builds the matter for one export.
+ */
+export const loadSeriesMatter = async (project: Project, summaries: ProjectSummary[]): Promise<SeriesMatter> => {
+  if (!project.seriesId && !project.authorProfileId) return EMPTY_SERIES_MATTER;
+  const [seriesList, profiles] = await Promise.all([listSeries(), listAuthorProfiles()]);
+  return buildSeriesMatter(project, seriesList, profiles, summaries);
+};
@@ -0,0 +1,197 @@
+export type DiffGranularity = 'word' | 'sentence';
+
+export type DiffSegment =
+  | { kind: 'equal'; text: string; chapterIndex: number }
+  | { kind: 'change'; id: string; before: string; after: string; chapterIndex: number };
+
+export type DiffChange = Extract<DiffSegment, { kind: 'change' }>;
+
+export interface ManuscriptDiff {
+  segments: DiffSegment[];
+  // Chapter headings of the original text; entry 0 is the text before the first heading.
+  chapters: string[];
+}
+
+// Headings that open a chapter, the same markers the revision splits the manuscript on.
+const CHAPTER_HEADING = /^(#{1,3}\s.+|Capitolo\s+\d+.*|Chapter\s+\d+.*)$/gim;
+
+// Above this many comparisons two token lists are shown as one replacement instead of being compared.
+const MAX_DIFF_CELLS = 4_000_000;
+
+const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+/g) || [];
+
+// The text before the first heading, then one chunk per chapter starting with its heading.
+const splitChapters = (text: string): string[] => {
+  const starts = [0, ...Array.from(text.matchAll(CHAPTER_HEADING), match => match.index!).filter(index => index > 0), text.length];
+  return starts.slice(0, -1).map((start, index) => text.slice(start, starts[index + 1])).filter(Boolean);
+};
+
+// Every token keeps its trailing whitespace, so joining the tokens gives back the text.
+const splitTokens = (text: string, granularity: DiffGranularity): string[] =>
+  (granularity === 'word'
+    ? text.split(/(?<=\s)(?=\S)/)
+    : text.split(/(?<=[.!?…]["'”’»)]*\s+)(?=\S)|(?<=\n)/)
+  ).filter(Boolean);
+
+type DiffOp = { kind: 'equal' | 'delete' | 'insert'; tokens: string[] };
+
+/**
+ * Longest-common-subsequence diff of two token lists. The common prefix and suffix are matched
+ * first, so only the differing middle is compared cell by cell.
+ */
+const diffTokens = (a: string[], b: string[]): DiffOp[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const ops: DiffOp[] = [];
+  const push = (kind: DiffOp['kind'], token: string) => {
+    const last = ops[ops.length - 1];
+    if (last?.kind === kind) last.tokens.push(token);
+    else ops.push({ kind, tokens: [token] });
+  };
+  a.slice(0, start).forEach(token => push('equal', token));
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_DIFF_CELLS) {
+    if (n > 0) ops.push({ kind: 'delete', tokens: a.slice(start, endA) });
+    if (m > 0) ops.push({ kind: 'insert', tokens: b.slice(start, endB) });
+    a.slice(endA).forEach(token => push('equal', token));
+    return ops;
+  }
+  // lengths[i * (m + 1) + j]: LCS of a[start + i..endA) and b[start + j..endB).
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = a[start + i] === b[start + j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      push('equal', a[start + i]); i++; j++;
+    } else if (j < m && (i === n || lengths[i * (m + 1) + j + 1] >= lengths[(i + 1) * (m + 1) + j])) {
+      push('insert', b[start + j]); j++;
+    } else {
+      push('delete', a[start + i]); i++;
+    }
+  }
+
+  a.slice(endA).forEach(token => push('equal', token));
+  return ops;
+};
+
+type RawSegment = { kind: 'equal'; text: string } | { kind: 'change'; before: string; after: string };
+
+const appendSegment = (segments: RawSegment[], segment: RawSegment) => {
+  const last = segments[segments.length - 1];
+  if (segment.kind === 'equal' && !segment.text) return;
+  if (last?.kind === 'equal' && segment.kind === 'equal') last.text += segment.text;
+  else if (last?.kind === 'change' && segment.kind === 'change') {
+    last.before += segment.before;
+    last.after += segment.after;
+  } else segments.push({ ...segment });
+};
+
+const opsToSegments = (ops: DiffOp[], segments: RawSegment[], refine?: (before: string[], after: string[]) => void) => {
+  for (let k = 0; k < ops.length; k++) {
+    const op = ops[k];
+    if (op.kind === 'equal') {
+      appendSegment(segments, { kind: 'equal', text: op.tokens.join('') });
+      continue;
+    }
+    // A deletion next to an insertion, in either order, is one replacement.
+    const next = ops[k + 1];
+    const paired = next && next.kind !== 'equal' ? next : null;
+    if (paired) k++;
+    const deleted = op.kind === 'delete' ? op.tokens : paired?.tokens || [];
+    const inserted = op.kind === 'insert' ? op.tokens : paired?.tokens || [];
+    if (refine && deleted.length > 0 && inserted.length > 0) refine(deleted, inserted);
+    else appendSegment(segments, { kind: 'change', before: deleted.join(''), after: inserted.join('') });
+  }
+};
+
+/**
+ * Compares the original manuscript with a proposed revision. Paragraphs are matched first; inside
+ * replaced paragraphs the words (or sentences) are compared, paragraph by paragraph when both sides
+ * have the same number of them. Every change belongs to the chapter of the original text it falls in.
+ */
+export const diffManuscript = (original: string, revised: string, granularity: DiffGranularity): ManuscriptDiff => {
+  const raw: RawSegment[] = [];
+  const refineRun = (before: string, after: string) =>
+    opsToSegments(diffTokens(splitTokens(before, granularity), splitTokens(after, granularity)), raw);
+  const diffLines = (before: string, after: string) =>
+    opsToSegments(diffTokens(splitLines(before), splitLines(after)), raw, (deleted, inserted) => {
+      if (deleted.length === inserted.length) deleted.forEach((line, index) => refineRun(line, inserted[index]));
+      else refineRun(deleted.join(''), inserted.join(''));
+    });
+
+  // Chapters are paired by their heading first, which keeps each paragraph comparison small.
+  const originalChapters = splitChapters(original);
+  const revisedChapters = splitChapters(revised);
+  const heading = (chunk: string) => splitLines(chunk)[0].trim();
+  let i = 0;
+  let j = 0;
+  const chapterOps = diffTokens(originalChapters.map(heading), revisedChapters.map(heading));
+  chapterOps.forEach((op, k) => {
+    if (op.kind === 'equal') {
+      op.tokens.forEach(() => diffLines(originalChapters[i++], revisedChapters[j++]));
+    } else if (chapterOps[k + 1] && chapterOps[k + 1].kind !== 'equal') {
+      // Compared together with the change that follows.
+    } else {
+      const previous = chapterOps[k - 1]?.kind !== 'equal' ? chapterOps[k - 1] : undefined;
+      const deleted = [op, previous].reduce((count, item) => count + (item?.kind === 'delete' ? item.tokens.length : 0), 0);
+      const inserted = [op, previous].reduce((count, item) => count + (item?.kind === 'insert' ? item.tokens.length : 0), 0);
+      diffLines(originalChapters.slice(i, i + deleted).join(''), revisedChapters.slice(j, j + inserted).join(''));
+      i += deleted;
+      j += inserted;
+    }
+  });
+
+  // Chapter openings, as offsets into the original text.
+  const chapterStarts: number[] = [];
+  const chapters = [''];
+  for (const match of original.matchAll(CHAPTER_HEADING)) {
+    chapterStarts.push(match.index!);
+    chapters.push(match[0].replace(/^#+\s*/, '').trim());
+  }
+  const chapterAt = (offset: number) => chapterStarts.filter(start => start <= offset).length;
+
+  const segments: DiffSegment[] = [];
+  let offset = 0;
+  let changeCount = 0;
+  raw.forEach(segment => {
+    if (segment.kind === 'change') {
+      // Text added right before a heading ends the previous chapter.
+      const chapterIndex = chapterAt(segment.before ? offset : Math.max(0, offset - 1));
+      segments.push({ ...segment, id: `change-${++changeCount}`, chapterIndex });
+      offset += segment.before.length;
+      return;
+    }
+    // Unchanged text is cut where a chapter opens, so each piece belongs to one chapter.
+    const end = offset + segment.text.length;
+    const cuts = [offset, ...chapterStarts.filter(start => start > offset && start < end), end];
+    for (let k = 0; k < cuts.length - 1; k++) {
+      segments.push({ kind: 'equal', text: original.slice(cuts[k], cuts[k + 1]), chapterIndex: chapterAt(cuts[k]) });
+    }
+    offset = end;
+  });
+  return { segments, chapters };
+};
+
+export const diffChanges = (diff: ManuscriptDiff): DiffChange[] =>
+  diff.segments.filter((segment): segment is DiffChange => segment.kind === 'change');
+
+/**
+ * The revised text with the rejected changes put back as they were in the original.
+ */
+export const mergeManuscriptDiff = (diff: ManuscriptDiff, rejected: Set<string>): string =>
+  diff.segments
+    .map(segment => (segment.kind === 'equal' ? segment.text : rejected.has(segment.id) ? segment.before : segment.after))
+    .join('');
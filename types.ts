@@ -1,6 +1,4 @@
-import type { GenerateContentResponse } from "@google/genai";
-
-export type TabKey = 'research' | 'marketTrends' | 'structure' | 'content' | 'appendices' | 'layout' | 'cover' | 'metadata' | 'validation' | 'archive' | 'revision' | 'conversion' | 'audiobook';
+export type TabKey = 'research' | 'marketTrends' | 'structure' | 'content' | 'appendices' | 'layout' | 'cover' | 'metadata' | 'validation' | 'archive' | 'revision' | 'conversion' | 'audiobook' | 'history' | 'prompts';
 
 export interface GroundingSource {
   web?: {
@@ -51,29 +49,68 @@ export interface CompetitorBook {
 
 export type Language = 'it' | 'en';
 
+// Language the book is written in, independent of the interface Language (see services/bookLanguage.ts).
+export type BookLanguage = 'it' | 'en' | 'de' | 'fr' | 'es' | 'ja';
+
 export type ToneOfVoice = 'Informal' | 'Formal' | 'Academic' | 'Persuasive' | 'Empathetic' | 'Humorous' | 'Professional' | 'Enthusiastic';
 export type TargetAudience = 'Beginners' | 'Experts' | 'General';
 export type WritingStyle = 'Descriptive' | 'Narrative' | 'Expository' | 'Argumentative' | 'Poetic' | 'Technical' | 'Conversational' | 'Journalistic';
 
-export interface SubChapter {
+/**
+ * A node of the book outline. Top-level nodes are chapters or parts; a part groups chapters,
+ * a chapter holds sections, and sections nest further down to sub-subsections.
+ */
+export interface OutlineNode {
   id: string;
   title: string;
   content: string;
+  isPart?: boolean; // only at the top level
+  subchapters: OutlineNode[];
 }
 
-export interface Chapter {
-  id:string;
-  title: string;
-  content: string;
-  subchapters: SubChapter[];
+export type Chapter = OutlineNode;
+export type SubChapter = OutlineNode;
+
+// Pages printed before and after the chapters. Where a section goes in the book follows from its type.
+export type FrontMatterType = 'copyright' | 'dedication' | 'foreword';
+export type BackMatterType = 'acknowledgements' | 'aboutAuthor' | 'alsoBy' | 'callToReview';
+export type MatterSectionType = FrontMatterType | BackMatterType;
+
+export interface MatterSection<T extends MatterSectionType = MatterSectionType> {
+  id: string;
+  type: T;
+  title: string; // empty: the default heading for the type
+  content: string; // plain text, one paragraph per line
 }
 
 export interface BookStructure {
-  chapters: Chapter[];
+  chapters: OutlineNode[]; // top-level nodes: chapters and parts
+  frontMatter?: MatterSection<FrontMatterType>[];
+  backMatter?: MatterSection<BackMatterType>[];
+}
+
+// Printed on the copyright page.
+export interface CopyrightInfo {
+  year: number;
+  isbn: string;
+  rightsText: string; // empty: the standard "all rights reserved" notice
 }
 
 export type LayoutTemplate = 'Classic' | 'Modern' | 'Minimalist' | 'Custom';
 export type PageSize = '6x9' | '7x10';
+// Levels shown in the table of contents: 0 = none, 1 = chapters, 2 = sections, 3 = subsections, 4 = sub-subsections.
+export type TocDepth = 0 | 1 | 2 | 3 | 4;
+export type PaperType = 'white' | 'cream' | 'color';
+
+export type MarketplaceId = 'US' | 'UK' | 'DE' | 'FR' | 'ES' | 'IT';
+export type EbookRoyaltyPlan = 35 | 70;
+
+export interface BookPricing {
+  ebookRoyaltyPlan: EbookRoyaltyPlan;
+  // List prices in the marketplace currency, VAT included where the marketplace shows it.
+  ebook: { [key in MarketplaceId]?: number };
+  paperback: { [key in MarketplaceId]?: number };
+}
 
 export type ContentBlockType = 'recipe' | 'exercise' | 'bonus';
 
@@ -107,9 +144,11 @@ export interface CustomStyles {
 export type BonusStickerShape = 'star' | 'circle' | 'burst' | 'seal' | 'ribbon' | 'shield' | 'none';
 
 export interface Project {
+  schemaVersion: number; // see CURRENT_SCHEMA_VERSION in services/projectSchema.ts
   id: string;
   projectTitle: string;
   bookTitle: string;
+  bookLanguage: BookLanguage;
   titlesArchive: string[];
   topic: string;
   subtitle: string;
@@ -128,6 +167,13 @@ export interface Project {
   layoutTemplate: LayoutTemplate;
   customStyles?: CustomStyles;
   pageSize: PageSize;
+  interiorBleed?: boolean; // paperback interior printed with bleed
+  tocDepth?: TocDepth;
+  includeIndex?: boolean; // back-of-book index built from the glossary terms
+  interiorPageCount?: number; // pages of the last paperback interior export, used for the spine width
+  coverPaper?: PaperType;
+  epubFileSize?: number; // bytes, of the last EPUB export; sets the eBook delivery cost
+  pricing?: BookPricing;
   coverImage: string | null; // base64 string
   coverOptions: string[]; // array of base64 strings
   coverPrompts: string[];
@@ -148,4 +194,130 @@ export interface Project {
     highlighted?: string;
     changeList?: string;
   };
-}
\ No newline at end of file
+  seriesId?: string;
+  seriesVolume?: number;
+  authorProfileId?: string;
+  copyright?: CopyrightInfo;
+  promptOverrides?: PromptOverride[]; // prompt templates changed for this project only
+  narrator?: string; // audiobook narrator, written into the MP3 and M4B metadata
+  narration?: NarrationSettings; // voices and multi-voice scripts of the audiobook
+  pronunciations?: PronunciationEntry[]; // how the audiobook voices say terms they get wrong
+}
+
+export type NarrationSpanKind = 'narration' | 'dialogue';
+
+// A piece of a chapter read by one voice. The spans of a script, joined, give back the chapter text.
+export interface NarrationSpan {
+  kind: NarrationSpanKind;
+  text: string;
+  character?: string; // speaker of a dialogue span; dialogue without one is read by the narrator
+}
+
+// Chapters of the audiobook are matched by title, like their audio.
+export interface ChapterNarration {
+  chapterTitle: string;
+  spans: NarrationSpan[];
+}
+
+export interface NarrationSettings {
+  narratorVoice: string;
+  characterVoices: { [character: string]: string };
+  scripts: ChapterNarration[];
+}
+
+// A term of the book and how the speech model should say it, as a phonetic respelling or in IPA.
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  pronunciation: string; // entries left empty are not applied
+}
+
+// Lightweight entry used to list archived projects without loading their content.
+export interface ProjectSummary {
+  id: string;
+  projectTitle: string;
+  lastSaved: string;
+  // Lets the series list its volumes without opening every project.
+  bookTitle?: string;
+  seriesId?: string;
+  seriesVolume?: number;
+  authorProfileId?: string;
+}
+
+// Cover settings every volume of a series shares.
+export interface SeriesCoverTemplate {
+  titleFontSize: number;
+  subtitleFontSize: number;
+  authorFontSize: number;
+  bonusStickerShape: BonusStickerShape;
+}
+
+// Shared across projects: each volume points to its series with `seriesId`.
+export interface Series {
+  id: string;
+  name: string;
+  layoutTemplate: LayoutTemplate;
+  customStyles?: CustomStyles;
+  coverTemplate: SeriesCoverTemplate;
+  lastModified: string;
+}
+
+// A pen name, shared across projects through `authorProfileId`.
+export interface AuthorProfile {
+  id: string;
+  penName: string;
+  bio: string;
+  photo: string | null; // base64 string
+  otherBooks: string[];
+  lastModified: string;
+}
+
+export type SnapshotKind = 'auto' | 'manual';
+
+// Metadata of a stored copy of a project; the copied project itself is loaded on demand.
+export interface ProjectSnapshotInfo {
+  id: string;
+  projectId: string;
+  createdAt: string;
+  label: string;
+  kind: SnapshotKind;
+}
+
+// Long-running AI work that goes through the job queue, one item (chapter, chunk, ...) at a time.
+export type JobKind = 'generateContent' | 'regenerateManuscript' | 'translateProject' | 'generateAudiobook';
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export type JobItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// `input` and `result` are stored with the job, so it can resume after a reload.
+export interface JobItem {
+  id: string;
+  label: string;
+  status: JobItemStatus;
+  input: unknown;
+  result?: unknown;
+  error?: string;
+}
+
+export interface Job {
+  id: string;
+  projectId: string;
+  kind: JobKind;
+  // Shown after the kind in the job panel, e.g. the target language of a translation.
+  detail?: string;
+  status: JobStatus;
+  params: unknown;
+  items: JobItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A prompt template text written by the user, in place of the default one (see services/promptTemplates.ts).
+export interface PromptOverride {
+  templateId: string;
+  template: string;
+  // Version of the default template the override was written against.
+  baseVersion: number;
+  updatedAt: string;
+}